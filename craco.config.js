@@ -10,5 +10,14 @@ module.exports = {
         labelFormat: '[local]',
       }]
     ]
+  },
+  jest: {
+    configure: {
+      // Jest 27 ignores package.json "exports", so point thirdweb subpath imports and uqr at their CommonJS builds
+      moduleNameMapper: {
+        '^thirdweb/(.*)$': '<rootDir>/node_modules/thirdweb/dist/cjs/exports/$1.js',
+        '^uqr$': '<rootDir>/node_modules/uqr/dist/index.cjs'
+      }
+    }
   }
-};
\ No newline at end of file
+};
@@ -3,16 +3,22 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { HelmetProvider } from 'react-helmet-async';
 import { ThirdwebProvider, ConnectButton, useActiveAccount, useActiveWalletChain } from 'thirdweb/react';
 import { Toaster } from 'react-hot-toast';
-import { client, base, ethereum } from './thirdweb';
+import { client, chain, ethereum } from './thirdweb';
+import { ACTIVE_CHAIN } from './utils/chainRegistry';
 import GameDashboard from './components/GameDashboard';
 import GameDetailPage from './pages/GameDetailPage';
 import MultiGamePage from './pages/MultiGamePage';
 import TestPage from './pages/TestPage';
 import DebugPage from './pages/DebugPage';
+import PlayerProfilePage from './pages/PlayerProfilePage';
 import Footer from './components/Footer';
 import BuyTokensModal from './components/BuyTokensModal';
+import GaslessQuotaMeter from './components/GaslessQuotaMeter';
+import NotificationBell from './components/NotificationBell';
+import ChainSwitcher from './components/ChainSwitcher';
 import { GameDataProvider } from './contexts/GameDataContext';
 import { UserProvider } from './contexts/UserContext';
+import { useGameHistorySync } from './hooks/useGameHistorySync';
 import { validateEnvironment } from './utils/envUtils';
 import styled from '@emotion/styled';
 import { Global, css } from '@emotion/react';
@@ -212,14 +218,20 @@ function WalletControls() {
   const activeChain = useActiveWalletChain();
   const [showBuyTokensModal, setShowBuyTokensModal] = useState(false);
 
+  // Pull games joined from other devices or directly on-chain into game_history
+  useGameHistorySync(true);
+
   // Check if user is on Ethereum mainnet
   const isOnEthereum = activeChain?.id === ethereum.id;
 
   return (
     <>
       <WalletBar>
+        <ChainSwitcher />
         {account && (
           <>
+            <GaslessQuotaMeter userAddress={account.address} />
+            <NotificationBell userAddress={account.address} />
             {isOnEthereum ? (
               // On Ethereum - show ConnectButton styled as wallet button
               <StyledConnectButton>
@@ -241,10 +253,10 @@ function WalletControls() {
         <StyledConnectButton>
           <ConnectButton 
             client={client}
-            chains={[base, ethereum]}
-            chain={base}
+            chains={[chain, ethereum]}
+            chain={chain}
             switchButton={{
-              label: "Connect to Base to Play",
+              label: `Connect to ${ACTIVE_CHAIN.name} to Play`,
               style: {
                 background: `${blockTheme.pastelYellow} !important`,
                 border: `3px solid ${blockTheme.darkText} !important`,
@@ -308,7 +320,9 @@ function App() {
                     <Route path="/debug" element={<DebugPage />} />
                     <Route path="/game/:gameCode" element={<GameDetailPage />} />
                     <Route path="/game/*" element={<MultiGamePage />} />
+                    <Route path="/list/:listId" element={<MultiGamePage />} />
                     <Route path="/join/:gameCode" element={<GameDetailPage autoJoin={true} />} />
+                    <Route path="/u/:usernameOrAddress" element={<PlayerProfilePage />} />
                   </Routes>
                 </MainContent>
                 
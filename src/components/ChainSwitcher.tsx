@@ -0,0 +1,67 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { Network } from 'lucide-react';
+import { blockTheme, blockMedia } from '../styles/blocks';
+import { ACTIVE_CHAIN, ChainKey, getEnabledChains, switchActiveChain } from '../utils/chainRegistry';
+
+// Styled components
+const SwitcherContainer = styled.label<{ $testnet: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 0.4rem;
+  padding: 0.5rem 0.75rem;
+  background: ${({ $testnet }) => ($testnet ? blockTheme.pastelPeach : blockTheme.pastelBlue)};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+  font-weight: 700;
+  font-size: 0.85rem;
+  cursor: pointer;
+
+  select {
+    background: transparent;
+    border: none;
+    font: inherit;
+    color: inherit;
+    cursor: pointer;
+
+    &:focus {
+      outline: none;
+    }
+  }
+
+  ${blockMedia.mobile} {
+    padding: 0.4rem 0.6rem;
+    font-size: 0.75rem;
+  }
+`;
+
+export const ChainSwitcher: React.FC = () => {
+  const chains = getEnabledChains();
+
+  // Nothing to switch to unless a second deployment is configured
+  if (chains.length < 2) return null;
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const key = event.target.value as ChainKey;
+    if (key === ACTIVE_CHAIN.key) return;
+    // Games are per chain, so land on the dashboard rather than a game that doesn't exist there
+    switchActiveChain(key, '/');
+  };
+
+  return (
+    <SwitcherContainer $testnet={ACTIVE_CHAIN.isTestnet} title="Game network">
+      <Network size={16} />
+      <select value={ACTIVE_CHAIN.key} onChange={handleChange} aria-label="Game network">
+        {chains.map(config => (
+          <option key={config.key} value={config.key}>
+            {config.name}
+          </option>
+        ))}
+      </select>
+    </SwitcherContainer>
+  );
+};
+
+export default ChainSwitcher;
@@ -0,0 +1,205 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { Coins, Check, X, Loader, Clock, RefreshCw, ExternalLink } from 'lucide-react';
+import { Block, BlockButton, FlexBlock, blockTheme } from '../styles/blocks';
+import { formatTokenDisplay } from '../thirdweb';
+import { GameData } from '../contexts/GameDataContext';
+import { useClaimAll } from '../hooks/useClaimAll';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { getExplorerTxUrl } from '../utils/chainRegistry';
+import { ClaimItemStatus } from '../utils/claimAll';
+
+const PanelContainer = styled(Block)`
+  margin-bottom: 2rem;
+
+  h3 {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    margin: 0 0 0.5rem 0;
+    font-size: 1.25rem;
+  }
+`;
+
+const ClaimList = styled.ul`
+  list-style: none;
+  margin: 1rem 0;
+  padding: 0;
+
+  li {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 0.75rem;
+    padding: 0.5rem 0;
+    border-bottom: 2px solid ${blockTheme.shadowLight};
+    font-size: 0.9rem;
+  }
+
+  li:last-child {
+    border-bottom: none;
+  }
+
+  .code {
+    font-family: 'Courier New', monospace;
+    font-weight: 700;
+  }
+
+  .status {
+    display: inline-flex;
+    align-items: center;
+    gap: 0.25rem;
+    font-size: 0.8rem;
+    color: ${blockTheme.textSecondary};
+  }
+
+  a {
+    color: ${blockTheme.accentText};
+  }
+`;
+
+const Totals = styled.div`
+  font-size: 0.875rem;
+  color: ${blockTheme.textSecondary};
+
+  p {
+    margin: 0.25rem 0;
+  }
+`;
+
+const STATUS_LABELS: Record<ClaimItemStatus, { label: string; icon: React.ReactNode }> = {
+  pending: { label: 'Waiting', icon: <Clock size={14} /> },
+  claiming: { label: 'Claiming...', icon: <Loader size={14} /> },
+  submitted: { label: 'Confirming...', icon: <Loader size={14} /> },
+  claimed: { label: 'Claimed', icon: <Check size={14} /> },
+  failed: { label: 'Failed', icon: <X size={14} /> }
+};
+
+interface ClaimAllPanelProps {
+  account: any;
+  games: GameData[];
+  onClaimed?: () => void;
+}
+
+export const ClaimAllPanel: React.FC<ClaimAllPanelProps> = ({ account, games, onClaimed }) => {
+  const {
+    wins,
+    estimates,
+    run,
+    hasPendingRun,
+    gaslessRemaining,
+    quota,
+    quotaUnknown,
+    isLoading,
+    isRunning,
+    error,
+    start,
+    resume,
+    dismiss,
+    refresh
+  } = useClaimAll(account, games, onClaimed);
+  useTokenMetadata([...wins.map(win => win.token), ...(run?.items.map(item => item.token) || [])]);
+
+  // Nothing to claim and no run to report on
+  if (wins.length === 0 && !run) return null;
+
+  const selfPaidCount = Math.max(0, wins.length - gaslessRemaining);
+
+  return (
+    <PanelContainer color="pastelYellow" shadow="medium">
+      <h3><Coins size={20} />Unclaimed Winnings</h3>
+
+      {run ? (
+        <>
+          <p style={{ margin: 0, fontSize: '0.875rem' }}>
+            {isRunning
+              ? 'Claiming one game at a time - keep this page open. You can reload and resume if it gets interrupted.'
+              : hasPendingRun
+                ? 'This claim run was interrupted. Resume to claim the remaining games.'
+                : 'Claim run finished.'}
+          </p>
+          <ClaimList>
+            {run.items.map(item => {
+              const status = STATUS_LABELS[item.status];
+              const txUrl = item.txHash ? getExplorerTxUrl(item.txHash) : null;
+              return (
+                <li key={item.gameCode} title={item.error}>
+                  <span className="code">{item.gameCode}</span>
+                  <span>{formatTokenDisplay(BigInt(item.prize), item.token)}</span>
+                  <span className="status">
+                    {status.icon}
+                    {status.label}
+                    {item.selfPaid && ' (self-paid)'}
+                    {txUrl && (
+                      <a href={txUrl} target="_blank" rel="noopener noreferrer" title="View transaction">
+                        <ExternalLink size={12} />
+                      </a>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ClaimList>
+          <FlexBlock gap="0.5rem" style={{ flexWrap: 'wrap' }}>
+            {hasPendingRun && (
+              <BlockButton color="warning" onClick={resume} disabled={isRunning}>
+                <Coins size={16} />
+                {isRunning ? 'Claiming...' : 'Resume'}
+              </BlockButton>
+            )}
+            {!isRunning && (
+              <BlockButton color="pastelLavender" onClick={dismiss}>
+                <X size={16} />
+                {hasPendingRun ? 'Discard' : 'Done'}
+              </BlockButton>
+            )}
+          </FlexBlock>
+        </>
+      ) : (
+        <>
+          <ClaimList>
+            {wins.map(win => (
+              <li key={win.gameCode}>
+                <span className="code">{win.gameCode}</span>
+                <span>#{win.position}</span>
+                <span>{formatTokenDisplay(win.prize, win.token)}</span>
+              </li>
+            ))}
+          </ClaimList>
+          <Totals>
+            {estimates.map(estimate => (
+              <p key={estimate.token}>
+                <strong>{formatTokenDisplay(estimate.net, estimate.token)}</strong> estimated payout
+                {estimate.fee > BigInt(0) && ` after ${formatTokenDisplay(estimate.fee, estimate.token)} UI fee`}
+                {' '}({estimate.games} game{estimate.games === 1 ? '' : 's'})
+              </p>
+            ))}
+            <p>
+              {quota
+                ? `${gaslessRemaining} gasless claim${gaslessRemaining === 1 ? '' : 's'} left today (1% UI fee each).`
+                : quotaUnknown
+                  ? 'Could not check your gasless quota. Claims go through the relay (1% UI fee) while it accepts them, then from your wallet.'
+                  : 'Checking gasless quota...'}
+              {quota && selfPaidCount > 0 && ` ${selfPaidCount} claim${selfPaidCount === 1 ? '' : 's'} would be sent from your wallet - no fee, but you pay gas.`}
+            </p>
+          </Totals>
+          {error && <p style={{ color: blockTheme.error, fontSize: '0.875rem' }}>{error}</p>}
+          <FlexBlock gap="0.5rem" style={{ marginTop: '1rem', flexWrap: 'wrap' }}>
+            <BlockButton color="warning" onClick={start} disabled={isLoading || wins.length === 0}>
+              <Coins size={16} />
+              Claim all ({wins.length})
+            </BlockButton>
+            <BlockButton color="pastelLavender" onClick={refresh} disabled={isLoading}>
+              <RefreshCw size={16} />
+              Refresh
+            </BlockButton>
+          </FlexBlock>
+        </>
+      )}
+
+      {run && error && <p style={{ color: blockTheme.error, fontSize: '0.875rem', marginBottom: 0 }}>{error}</p>}
+    </PanelContainer>
+  );
+};
+
+export default ClaimAllPanel;
@@ -2,9 +2,13 @@ import React, { useState } from 'react';
 import { useActiveAccount } from "thirdweb/react";
 import toast from 'react-hot-toast';
 import { X, Plus, Shield, Trash2, Trophy } from 'lucide-react';
-import { BASE_TOKENS, parseTokenAmount, isETH } from '../thirdweb';
+import { CHAIN_TOKENS, getTokenBySymbol, getTokenByAddress, isETH } from '../thirdweb';
+import { parseAmount, tryParseAmount, formatSplitPercent, BASIS_POINTS } from '../utils/amounts';
 import { resolveToWalletAddress, formatResolvedAddress, ResolvedAddress } from '../utils/addressResolver';
-import { gaslessCreateGame } from '../utils/gaslessHelper';
+import { executeGameAction } from '../utils/transactionStrategy';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import { validation } from '../utils/envUtils';
+import { useTokenInfo } from '../hooks/useTokenMetadata';
 import { 
   BlockModal, 
   BlockModalContent, 
@@ -15,14 +19,19 @@ import {
   blockTheme
 } from '../styles/blocks';
 import { SimpleRetroLoader } from './RetroLoader';
+import TokenListManager from './TokenListManager';
 import styled from '@emotion/styled';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface CreateGameModalProps {
   onClose: () => void;
   onSuccess: (gameData: { gameCode: string; buyIn: string; maxPlayers: number; transactionHash?: string; blockNumber?: number }) => void;
+  invitee?: ResolvedAddress; // Player the game is being created for (profile "invite to game")
 }
 
+// Quick-pick tokens; anything else goes through the custom token field
+const NATIVE_TOKEN = CHAIN_TOKENS[0];
+const USDC_TOKEN = getTokenBySymbol('USDC');
 
 const ModalHeader = styled.div`
   display: flex;
@@ -180,6 +189,15 @@ const JudgeItem = styled(motion.div)`
   }
 `;
 
+const JudgeConfirmation = styled(motion.div)`
+  background: ${blockTheme.pastelYellow};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  padding: 1.25rem;
+  margin-bottom: 1.5rem;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+`;
+
 const JudgeInfo = styled.div`
   display: flex;
   flex-direction: column;
@@ -452,20 +470,51 @@ const CustomTokenSection = styled(motion.div)`
   border-top: 2px dashed ${blockTheme.textMuted};
 `;
 
+const TokenStatus = styled.div<{ $error?: boolean }>`
+  margin-top: 0.5rem;
+  font-size: 0.85rem;
+  font-weight: 600;
+  color: ${({ $error }) => ($error ? blockTheme.error : blockTheme.darkText)};
+`;
+
+const KnownTokenChips = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.4rem;
+  margin-top: 0.5rem;
+`;
+
+const KnownTokenChip = styled.button<{ $selected: boolean }>`
+  padding: 0.25rem 0.6rem;
+  background: ${({ $selected }) => ($selected ? blockTheme.pastelYellow : blockTheme.lightText)};
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  font-size: 0.8rem;
+  font-weight: 700;
+  cursor: pointer;
+`;
+
 const AmountInputSection = styled.div`
   margin-top: 1.5rem;
 `;
 
-const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess }) => {
+const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess, invitee }) => {
   const account = useActiveAccount();
   const [formData, setFormData] = useState({
     buyIn: '0.001',
-    maxPlayers: 4,
+    maxPlayers: invitee ? 2 : 4, // Invites default to heads-up
   });
-  const [selectedToken, setSelectedToken] = useState<string>(BASE_TOKENS.ETH.address);
+  const [selectedToken, setSelectedToken] = useState<string>(NATIVE_TOKEN.address);
   const [buyInAmount, setBuyInAmount] = useState('0.001');
   const [isCustomToken, setIsCustomToken] = useState(false);
   const [customTokenAddress, setCustomTokenAddress] = useState('');
+  const {
+    token: customToken,
+    isLoading: customTokenLoading,
+    error: customTokenError
+  } = useTokenInfo(isCustomToken && validation.ethereumAddress(customTokenAddress) ? customTokenAddress : undefined);
+  // Tokens resolved earlier or imported from token lists, offered as one-click picks
+  const customTokenOptions = tokenRegistry.getKnownTokens().filter(token => token.source !== 'builtin').slice(0, 12);
   const [creating, setCreating] = useState(false);
   const [transactionState, setTransactionState] = useState<'idle' | 'submitting' | 'waiting' | 'extracting'>('idle');
   const [transactionHash, setTransactionHash] = useState<string>('');
@@ -484,6 +533,7 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
   const [resolvedAddress, setResolvedAddress] = useState<ResolvedAddress | null>(null);
   const [judges, setJudges] = useState<ResolvedAddress[]>([]);
   const [debounceTimer, setDebounceTimer] = useState<NodeJS.Timeout | null>(null);
+  const [showJudgeConfirmation, setShowJudgeConfirmation] = useState(false);
 
   // Helper function to calculate majority needed for player voting
   const calculateMajority = (totalPlayers: number): number => {
@@ -496,7 +546,7 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
   };
 
   const isPrizeSplitValid = (): boolean => {
-    return getPrizeSplitTotal() === 10000;
+    return getPrizeSplitTotal() === BASIS_POINTS;
   };
 
   const setPrizePreset = (preset: 'winner-takes-all' | '70-30' | '60-30-10' | '50-30-20') => {
@@ -616,9 +666,18 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
     ));
   };
 
+  const getBuyInDecimals = (): number => {
+    const token = getTokenByAddress(getEffectiveTokenAddress());
+    if (!token) {
+      throw new Error('Token details have not loaded yet. Check the token address and try again.');
+    }
+    return token.decimals;
+  };
+
   const validateInputs = () => {
-    const buyInValue = parseFloat(buyInAmount);
-    if (buyInAmount !== '0' && (isNaN(buyInValue) || buyInValue <= 0)) {
+    // Amounts too small for the token's decimals parse to 0 and are rejected too
+    const buyInValue = tryParseAmount(buyInAmount, getBuyInDecimals());
+    if (buyInAmount !== '0' && (buyInValue === null || buyInValue <= BigInt(0))) {
       throw new Error('Buy-in must be greater than 0 or set to 0 for free games');
     }
 
@@ -633,6 +692,42 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
     if (prizeSplits.length > formData.maxPlayers) {
       throw new Error(`Cannot have more prize positions (${prizeSplits.length}) than max players (${formData.maxPlayers})`);
     }
+
+    if (decisionType === 'judge') {
+      validateJudges();
+    }
+  };
+
+  const validateJudges = () => {
+    if (judgeInput.trim()) {
+      throw new Error('Add or clear the judge you are typing before creating the game');
+    }
+
+    if (judges.length === 0) {
+      throw new Error('Add at least one judge or switch to Player Vote');
+    }
+
+    const seen = new Set<string>();
+    judges.forEach(judge => {
+      if (judge.error || !judge.address) {
+        throw new Error(`Judge "${judge.displayName}" could not be resolved to a wallet address`);
+      }
+      const address = judge.address.toLowerCase();
+      if (seen.has(address)) {
+        throw new Error(`${judge.displayName} is listed as a judge more than once`);
+      }
+      seen.add(address);
+    });
+
+    // Judges join for free and take a seat but can't win, so the remaining seats must cover every prize position
+    const playerSeats = formData.maxPlayers - judges.length;
+    if (prizeSplits.length > playerSeats) {
+      throw new Error(`Judges are not eligible for prizes - ${prizeSplits.length} prize positions need ${prizeSplits.length} player seats, but ${judges.length} of ${formData.maxPlayers} seats go to judges`);
+    }
+  };
+
+  const getJudgeAddresses = (): string[] => {
+    return decisionType === 'judge' ? judges.map(judge => judge.address) : [];
   };
 
   // Generate a random game code (3-10 alphanumeric characters)
@@ -653,46 +748,86 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
       return;
     }
 
+    try {
+      setError('');
+      // Custom tokens need their on-chain decimals before the buy-in can be parsed
+      const token = isCustomToken ? await tokenRegistry.resolveToken(customTokenAddress) : null;
+      validateInputs();
+      if (token?.isFeeOnTransfer && !window.confirm(`${token.symbol} looks like a fee-on-transfer token. The game may receive less than each buy-in and payouts can fail.\n\nCreate the game anyway?`)) {
+        return;
+      }
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    // Judged games get a final look at every resolved address before signing
+    if (decisionType === 'judge' && judges.length > 0) {
+      setShowJudgeConfirmation(true);
+      return;
+    }
+
+    await createGame();
+  };
+
+  const handleConfirmJudges = async () => {
+    setShowJudgeConfirmation(false);
+    await createGame();
+  };
+
+  const createGame = async () => {
+    if (!account) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
     try {
       setCreating(true);
       setError('');
       setTransactionState('submitting');
 
       validateInputs();
+      const judgeAddresses = getJudgeAddresses();
 
       // Parse buy-in amount based on selected token
       const effectiveTokenAddress = getEffectiveTokenAddress();
-      const selectedTokenInfo = Object.values(BASE_TOKENS).find(token => token.address === effectiveTokenAddress);
-      const tokenDecimals = selectedTokenInfo?.decimals || 18;
-      const buyInTokenAmount = parseFloat(buyInAmount) === 0 ? BigInt(0) : parseTokenAmount(buyInAmount, tokenDecimals);
+      const buyInTokenAmount = parseAmount(buyInAmount, getBuyInDecimals());
 
       console.log('Creating game with:', {
         buyIn: buyInAmount,
         buyInTokenAmount: buyInTokenAmount.toString(),
         token: effectiveTokenAddress,
         maxPlayers: formData.maxPlayers,
+        judges: judgeAddresses,
         account: account.address
       });
 
-      // Call gasless create function (user will sign, backend will pay gas)
-      const result = await gaslessCreateGame(
-        account, // Pass account object for signing
-        buyInTokenAmount.toString(),
-        effectiveTokenAddress,
-        formData.maxPlayers,
-        [], // No judges for now
+      // Relay first (user signs, backend pays gas), direct transaction if the relay is down
+      const result = await executeGameAction(account, {
+        type: 'create',
+        buyInAmount: buyInTokenAmount.toString(),
+        buyInToken: effectiveTokenAddress,
+        maxPlayers: formData.maxPlayers,
+        judgeList: judgeAddresses,
         prizeSplits
-      );
+      });
+
+      // The relay sent it but has not confirmed yet, so there is no game code to show
+      if (result.pending) {
+        toast(result.error || 'Game submitted, still confirming', { icon: '⏳', duration: 8000 });
+        onClose();
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to create game');
       }
 
-      console.log('Game created successfully via gasless relay!');
+      console.log(`Game created successfully via ${result.selfPaid ? 'direct transaction' : 'gasless relay'}!`);
       console.log('Game Code:', result.gameCode);
       console.log('TX Hash:', result.txHash);
 
-      toast.success(`Game ${result.gameCode} created! ⚡ Gasless transaction`, {
+      toast.success(`Game ${result.gameCode} created! ${result.selfPaid ? '⛽ Self-paid transaction' : '⚡ Gasless transaction'}`, {
         duration: 3000,
         icon: '🎮'
       });
@@ -762,6 +897,12 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
           <strong>Note:</strong> Game code will be auto-generated (e.g., ABC-123)
         </InfoBox>
 
+        {invitee && (
+          <InfoBox variant="info">
+            <strong>Inviting {invitee.displayName}</strong> - you'll get a join link to send them once the game is created.
+          </InfoBox>
+        )}
+
         {transactionState !== 'idle' && (
           <InfoBox variant="warning">
             <TransactionStatus>
@@ -784,21 +925,23 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
             <TokenButtonGroup>
               <TokenButton 
                 type="button"
-                $selected={!isCustomToken && selectedToken === BASE_TOKENS.ETH.address}
-                onClick={() => handleTokenSelection(BASE_TOKENS.ETH.address)}
+                $selected={!isCustomToken && selectedToken === NATIVE_TOKEN.address}
+                onClick={() => handleTokenSelection(NATIVE_TOKEN.address)}
               >
-                <TokenIcon dangerouslySetInnerHTML={{ __html: atob(BASE_TOKENS.ETH.icon.split(',')[1]) }} />
-                ETH
+                <TokenIcon dangerouslySetInnerHTML={{ __html: atob(NATIVE_TOKEN.icon.split(',')[1]) }} />
+                {NATIVE_TOKEN.symbol}
               </TokenButton>
               
-              <TokenButton 
-                type="button"
-                $selected={!isCustomToken && selectedToken === BASE_TOKENS.USDC.address}
-                onClick={() => handleTokenSelection(BASE_TOKENS.USDC.address)}
-              >
-                <TokenIcon dangerouslySetInnerHTML={{ __html: atob(BASE_TOKENS.USDC.icon.split(',')[1]) }} />
-                USDC
-              </TokenButton>
+              {USDC_TOKEN && (
+                <TokenButton 
+                  type="button"
+                  $selected={!isCustomToken && selectedToken === USDC_TOKEN.address}
+                  onClick={() => handleTokenSelection(USDC_TOKEN.address)}
+                >
+                  <TokenIcon dangerouslySetInnerHTML={{ __html: atob(USDC_TOKEN.icon.split(',')[1]) }} />
+                  USDC
+                </TokenButton>
+              )}
               
               <TokenButton 
                 type="button"
@@ -823,7 +966,39 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
                     placeholder="0x... (paste ERC20 token address)"
                     value={customTokenAddress}
                     onChange={(e) => handleCustomTokenAddressChange(e.target.value)}
+                    hasError={!!customTokenError}
                   />
+                  {customTokenLoading ? (
+                    <TokenStatus>Looking up token...</TokenStatus>
+                  ) : customTokenError ? (
+                    <TokenStatus $error>{customTokenError}</TokenStatus>
+                  ) : customToken && (
+                    <TokenStatus>
+                      ✓ {customToken.name} ({customToken.symbol}) · {customToken.decimals} decimals
+                      {customToken.listName && ` · from "${customToken.listName}"`}
+                    </TokenStatus>
+                  )}
+                  {customToken && customToken.warnings.length > 0 && (
+                    <InfoBox variant="warning" style={{ marginTop: '0.5rem', marginBottom: 0 }}>
+                      {customToken.warnings.map(warning => <div key={warning}>⚠️ {warning}</div>)}
+                    </InfoBox>
+                  )}
+                  {customTokenOptions.length > 0 && (
+                    <KnownTokenChips>
+                      {customTokenOptions.map(token => (
+                        <KnownTokenChip
+                          key={token.address}
+                          type="button"
+                          $selected={token.address.toLowerCase() === customTokenAddress.toLowerCase()}
+                          onClick={() => handleCustomTokenAddressChange(token.address)}
+                          title={token.name}
+                        >
+                          {token.symbol}
+                        </KnownTokenChip>
+                      ))}
+                    </KnownTokenChips>
+                  )}
+                  <TokenListManager />
                 </CustomTokenSection>
               )}
             </AnimatePresence>
@@ -887,7 +1062,7 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
                   onChange={(e) => handlePrizeSplitChange(index, e.target.value)}
                   placeholder="Enter basis points (100 = 1%)"
                 />
-                <PrizeSplitPercentage>{(split / 100).toFixed(1)}%</PrizeSplitPercentage>
+                <PrizeSplitPercentage>{formatSplitPercent(split, BASIS_POINTS)}</PrizeSplitPercentage>
                 {prizeSplits.length > 1 && (
                   <RemoveJudgeButton type="button" onClick={() => removePrizePosition(index)}>
                     <Trash2 size={14} />
@@ -909,8 +1084,8 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
             )}
 
             <PrizeTotalIndicator $isValid={isPrizeSplitValid()}>
-              {isPrizeSplitValid() ? '✅' : '⚠️'} Total: {(getPrizeSplitTotal() / 100).toFixed(1)}%
-              {isPrizeSplitValid() ? ' (Valid)' : ` (Must be 100%, currently ${(getPrizeSplitTotal() / 100).toFixed(1)}%)`}
+              {isPrizeSplitValid() ? '✅' : '⚠️'} Total: {formatSplitPercent(getPrizeSplitTotal(), BASIS_POINTS)}
+              {isPrizeSplitValid() ? ' (Valid)' : ` (Must be 100%, currently ${formatSplitPercent(getPrizeSplitTotal(), BASIS_POINTS)})`}
             </PrizeTotalIndicator>
           </PrizeSplitsSection>
 
@@ -1052,13 +1227,65 @@ const CreateGameModal: React.FC<CreateGameModalProps> = ({ onClose, onSuccess })
             </InfoBox>
           )}
 
+          <AnimatePresence>
+            {showJudgeConfirmation && (
+              <JudgeConfirmation
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <JudgesSectionTitle>
+                  <Shield size={16} />
+                  Confirm Judges
+                </JudgesSectionTitle>
+                <InfoBox variant="warning" style={{ marginBottom: '1rem' }}>
+                  Judges have final say on winners and cannot be changed after the game is created. Check every address before signing.
+                </InfoBox>
+                {judges.map(judge => (
+                  <JudgeItem key={judge.address}>
+                    <JudgeInfo>
+                      <JudgeDisplayName>
+                        {judge.method === 'ens' && '🏷️ '}
+                        {judge.method === 'username' && '👤 '}
+                        {judge.method === 'wallet' && '📋 '}
+                        {judge.displayName}
+                      </JudgeDisplayName>
+                      <JudgeAddress>
+                        {judge.address}
+                      </JudgeAddress>
+                    </JudgeInfo>
+                  </JudgeItem>
+                ))}
+                <FlexBlock gap="0.5rem" style={{ marginTop: '1rem' }}>
+                  <BlockButton
+                    type="button"
+                    color="pastelBlue"
+                    onClick={() => setShowJudgeConfirmation(false)}
+                    style={{ flex: 1 }}
+                  >
+                    Back
+                  </BlockButton>
+                  <BlockButton
+                    type="button"
+                    color="pastelMint"
+                    onClick={handleConfirmJudges}
+                    style={{ flex: 1 }}
+                  >
+                    <Shield size={16} />
+                    Confirm & Sign
+                  </BlockButton>
+                </FlexBlock>
+              </JudgeConfirmation>
+            )}
+          </AnimatePresence>
+
           <BlockButton
             type="submit"
             variant="primary"
             size="lg"
             fullWidth
             $loading={creating}
-            disabled={creating}
+            disabled={creating || showJudgeConfirmation}
           >
             {creating ? (
               <FlexBlock align="center" justify="center" gap="0.5rem">
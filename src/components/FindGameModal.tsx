@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useActiveAccount } from "thirdweb/react";
 import toast from 'react-hot-toast';
-import { X, Search, Users, ExternalLink } from 'lucide-react';
+import { X, Search, Users, ExternalLink, Camera, Repeat } from 'lucide-react';
 import { useGameData } from '../contexts/GameDataContext';
 import { 
   BlockButton, 
@@ -16,8 +16,11 @@ import styled from '@emotion/styled';
 import { motion, AnimatePresence } from 'framer-motion';
 import { formatEth, formatAddress } from '../thirdweb';
 import { getDisplayNameByAddressSync } from '../utils/userUtils';
-import { normalizeGameCode, extractGameCode } from '../utils/gameCodeUtils';
+import { normalizeGameCode, extractGameCode, parseGameLink, getGamePath } from '../utils/gameCodeUtils';
+import { ACTIVE_CHAIN, CHAIN_REGISTRY, ChainKey, getEnabledChains, switchActiveChain } from '../utils/chainRegistry';
 import { useUser } from '../contexts/UserContext';
+import { isQrScanSupported } from '../utils/qrCode';
+import QrScanner from './QrScanner';
 
 interface FindGameModalProps {
   onClose: () => void;
@@ -148,6 +151,8 @@ const FindGameModal: React.FC<FindGameModalProps> = ({ onClose, onSuccess, initi
   const [gameFound, setGameFound] = useState(false);
   const [foundGame, setFoundGame] = useState<any>(null);
   const [error, setError] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [otherChainGame, setOtherChainGame] = useState<{ chainKey: ChainKey; code: string } | null>(null);
 
   // Auto-search when component mounts if autoSearch is enabled
   useEffect(() => {
@@ -156,17 +161,25 @@ const FindGameModal: React.FC<FindGameModalProps> = ({ onClose, onSuccess, initi
     }
   }, [autoSearch, initialCode, account]);
 
-  const handleSearch = async () => {
-    if (!gameCode.trim() || !account) return;
+  const handleSearch = async (input: string = gameCode) => {
+    if (!input.trim() || !account) return;
 
     try {
       setLoading(true);
       setError('');
       setGameFound(false);
       setFoundGame(null);
+      setOtherChainGame(null);
+
+      // A pasted link to another chain's game gets the same switch offer as a scanned one
+      const link = parseGameLink(input.trim());
+      if (link && link.chainKey !== ACTIVE_CHAIN.key) {
+        setOtherChainGame(link);
+        return;
+      }
 
       // Extract and normalize game code with fuzzy matching
-      const extractedCode = extractGameCode(gameCode.trim());
+      const extractedCode = extractGameCode(input.trim());
       if (!extractedCode) {
         setError('Invalid game code format');
         return;
@@ -216,6 +229,30 @@ const FindGameModal: React.FC<FindGameModalProps> = ({ onClose, onSuccess, initi
     }
   };
 
+  // Game QR codes hold the join link; links to another chain's game offer a switch instead
+  const handleScan = (value: string) => {
+    setShowScanner(false);
+    setOtherChainGame(null);
+    const link = parseGameLink(value);
+    if (!link) {
+      setError('That QR code is not a game link');
+      return;
+    }
+    if (link.chainKey !== ACTIVE_CHAIN.key) {
+      setError('');
+      setOtherChainGame(link);
+      return;
+    }
+    setGameCode(link.code);
+    handleSearch(link.code);
+  };
+
+  // Reloads onto the game's chain; its join page picks up from there
+  const handleSwitchChain = () => {
+    if (!otherChainGame) return;
+    switchActiveChain(otherChainGame.chainKey, getGamePath(otherChainGame.code, { join: true, chainKey: otherChainGame.chainKey }));
+  };
+
   const handleAddToList = () => {
     // Game is already added by addFoundGame function
     if (onSuccess) {
@@ -260,8 +297,18 @@ const FindGameModal: React.FC<FindGameModalProps> = ({ onClose, onSuccess, initi
             style={{ flex: 1 }}
             disabled={loading}
           />
+          {isQrScanSupported() && (
+            <BlockButton
+              color={showScanner ? 'pastelCoral' : 'pastelMint'}
+              onClick={() => setShowScanner(prev => !prev)}
+              disabled={loading}
+              title={showScanner ? 'Stop scanning' : 'Scan a game QR code'}
+            >
+              <Camera size={16} />
+            </BlockButton>
+          )}
           <BlockButton
-            onClick={handleSearch}
+            onClick={() => handleSearch()}
             disabled={loading || !gameCode.trim()}
             $loading={loading}
           >
@@ -274,7 +321,33 @@ const FindGameModal: React.FC<FindGameModalProps> = ({ onClose, onSuccess, initi
           </BlockButton>
         </InputContainer>
 
+        {showScanner && <QrScanner onScan={handleScan} />}
+
         <AnimatePresence mode="wait">
+          {otherChainGame && (
+            <ErrorMessage
+              key="other-chain"
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              style={{ background: blockTheme.pastelYellow, borderColor: blockTheme.darkText }}
+            >
+              {getEnabledChains().some(config => config.key === otherChainGame.chainKey) ? (
+                <>
+                  <p style={{ margin: '0 0 0.75rem' }}>
+                    Game {otherChainGame.code} is on {CHAIN_REGISTRY[otherChainGame.chainKey].name}, but you are on {ACTIVE_CHAIN.name}.
+                  </p>
+                  <BlockButton color="pastelMint" onClick={handleSwitchChain}>
+                    <Repeat size={16} />
+                    Switch to {CHAIN_REGISTRY[otherChainGame.chainKey].name}
+                  </BlockButton>
+                </>
+              ) : (
+                `Game ${otherChainGame.code} is on ${CHAIN_REGISTRY[otherChainGame.chainKey].name}, which this app is not set up for.`
+              )}
+            </ErrorMessage>
+          )}
+
           {error && (
             <ErrorMessage
               key="error"
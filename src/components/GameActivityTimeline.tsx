@@ -0,0 +1,228 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { History, Flag, UserPlus, Lock, Percent, PlusCircle, Trophy, Coins, ExternalLink, RefreshCw } from 'lucide-react';
+import { blockTheme } from '../styles/blocks';
+import { formatAddress, formatPrizeSplit, formatTokenDisplay } from '../thirdweb';
+import { useGameActivity } from '../hooks/useGameActivity';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { GameActivityEntry } from '../utils/gameActivity';
+import { SimpleRetroLoader } from './RetroLoader';
+
+const TimelineSection = styled.div`
+  background: ${blockTheme.pastelYellow};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  padding: 1.5rem;
+  margin-top: 1.5rem;
+  color: ${blockTheme.darkText};
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+
+  h3 {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    margin: 0;
+    font-size: 1.25rem;
+  }
+`;
+
+const TimelineHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 1rem;
+`;
+
+const RefreshButton = styled.button`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 32px;
+  height: 32px;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  background: ${blockTheme.lightText};
+  color: ${blockTheme.darkText};
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const TimelineList = styled.ol`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 400px;
+  overflow-y: auto;
+`;
+
+// Shown above the oldest entry when the scan stopped before the game was created
+const TimelineNotice = styled.li`
+  padding: 0.5rem 0;
+  font-size: 0.85rem;
+  font-style: italic;
+  opacity: 0.7;
+  border-bottom: 2px dashed ${blockTheme.shadowLight};
+`;
+
+const TimelineItem = styled.li`
+  display: flex;
+  gap: 0.75rem;
+  padding: 0.75rem 0;
+  border-bottom: 2px solid ${blockTheme.shadowLight};
+
+  &:last-child {
+    border-bottom: none;
+  }
+
+  .icon {
+    flex-shrink: 0;
+    margin-top: 0.125rem;
+    color: ${blockTheme.accent};
+  }
+
+  .body {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .title {
+    font-weight: 600;
+  }
+
+  .detail {
+    font-size: 0.875rem;
+    color: ${blockTheme.textSecondary};
+    overflow-wrap: anywhere;
+  }
+
+  .meta {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 0.5rem;
+    margin-top: 0.25rem;
+    font-size: 0.75rem;
+    color: ${blockTheme.textMuted};
+  }
+
+  a {
+    display: inline-flex;
+    align-items: center;
+    gap: 0.25rem;
+    color: ${blockTheme.accentText};
+  }
+`;
+
+const EVENT_ICONS = {
+  GameStarted: Flag,
+  PlayerJoined: UserPlus,
+  GameLocked: Lock,
+  PrizeSplitsSet: Percent,
+  PotIncreased: PlusCircle,
+  WinnersReported: Trophy,
+  WinningsClaimed: Coins,
+  WinningsClaimedViaUI: Coins
+};
+
+interface GameActivityTimelineProps {
+  gameCode: string;
+  host?: string;
+  tokenAddress?: string;
+}
+
+export const GameActivityTimeline: React.FC<GameActivityTimelineProps> = ({ gameCode, host, tokenAddress }) => {
+  const { entries, displayNames, truncated, isLoading, error, refresh } = useGameActivity(gameCode, host, tokenAddress);
+  useTokenMetadata([tokenAddress, ...entries.map(entry => entry.token)]);
+
+  const nameOf = (address: string) => displayNames.get(address) || formatAddress(address);
+  const formatAmount = (entry: GameActivityEntry) =>
+    entry.amount !== null && entry.token !== null ? formatTokenDisplay(entry.amount, entry.token) : null;
+
+  const describe = (entry: GameActivityEntry): { title: string; detail: string | null } => {
+    const { event } = entry;
+    const actor = entry.actor ? nameOf(entry.actor) : 'Someone';
+    const amount = formatAmount(entry);
+
+    switch (event.name) {
+      case 'GameStarted':
+        return { title: `${actor} created the game`, detail: `Buy-in ${amount}, up to ${event.maxPlayers} players` };
+      case 'PlayerJoined':
+        return { title: `${actor} joined`, detail: amount ? `Paid ${amount} · player ${event.playerCount}` : `Player ${event.playerCount}` };
+      case 'GameLocked':
+        return { title: 'Game locked', detail: null };
+      case 'PrizeSplitsSet':
+        return {
+          title: 'Prize splits set',
+          detail: event.splits.length > 0 ? event.splits.map(split => formatPrizeSplit(split)).join(' / ') : 'Winner takes all'
+        };
+      case 'PotIncreased':
+        return { title: `${actor} added to the pot`, detail: amount };
+      case 'WinnersReported':
+        return { title: `${actor} reported winners`, detail: event.winners.map(nameOf).join(', ') || null };
+      case 'WinningsClaimed':
+      case 'WinningsClaimedViaUI':
+        return { title: `${actor} claimed winnings`, detail: amount };
+    }
+  };
+
+  return (
+    <TimelineSection>
+      <TimelineHeader>
+        <h3><History size={20} />Activity</h3>
+        <RefreshButton onClick={refresh} disabled={isLoading} title="Refresh activity">
+          <RefreshCw size={14} />
+        </RefreshButton>
+      </TimelineHeader>
+
+      {isLoading && entries.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '1rem' }}>
+          <SimpleRetroLoader />
+          <p style={{ margin: '0.5rem 0 0 0' }}>Reading the game's history...</p>
+        </div>
+      ) : error ? (
+        <p style={{ margin: 0, color: blockTheme.error }}>{error}</p>
+      ) : entries.length === 0 ? (
+        <p style={{ margin: 0 }}>
+          {truncated ? 'No recent on-chain activity found. Older activity was not loaded.' : 'No on-chain activity found for this game yet.'}
+        </p>
+      ) : (
+        <TimelineList>
+          {truncated && <TimelineNotice>Older activity not loaded</TimelineNotice>}
+          {entries.map(entry => {
+            const Icon = EVENT_ICONS[entry.event.name];
+            const { title, detail } = describe(entry);
+
+            return (
+              <TimelineItem key={entry.id}>
+                <Icon size={18} className="icon" />
+                <div className="body">
+                  <div className="title" title={entry.actor || undefined}>{title}</div>
+                  {detail && <div className="detail">{detail}</div>}
+                  <div className="meta">
+                    <span>
+                      {entry.timestamp !== null
+                        ? new Date(entry.timestamp).toLocaleString()
+                        : `Block #${entry.event.blockNumber}`}
+                    </span>
+                    {entry.txUrl && (
+                      <a href={entry.txUrl} target="_blank" rel="noopener noreferrer">
+                        {formatAddress(entry.event.transactionHash)}
+                        <ExternalLink size={12} />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              </TimelineItem>
+            );
+          })}
+        </TimelineList>
+      )}
+    </TimelineSection>
+  );
+};
+
+export default GameActivityTimeline;
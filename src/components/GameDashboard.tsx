@@ -5,7 +5,9 @@ import { Helmet } from 'react-helmet-async';
 import { readContract } from 'thirdweb';
 import toast from 'react-hot-toast';
 import { Plus, Users, Clock, Lock, RefreshCw, Search, Trophy, Share2, Copy, Check, ExternalLink } from 'lucide-react';
-import { getGameContract, formatAddress, formatEth, decodeStringFromHex } from '../thirdweb';
+import { getGameContract, formatAddress, formatEth } from '../thirdweb';
+import { ACTIVE_CHAIN, toChainGameCode } from '../utils/chainRegistry';
+import { getGamePath, getGameUrl } from '../utils/gameCodeUtils';
 import { getDisplayNameByAddress, getDisplayNameByAddressSync, preloadUsernames, preloadDisplayNames } from '../utils/userUtils';
 import { ensCache } from '../utils/ensUtils';
 import { 
@@ -32,6 +34,8 @@ import GameDetailModal from './GameDetailModal';
 import { UsernameModal } from './UsernameModal';
 import { GameListsModal } from './GameListsModal';
 import { GameHistoryModal } from './GameHistoryModal';
+import Leaderboard from './Leaderboard';
+import ClaimAllPanel from './ClaimAllPanel';
 import UserDropdown from './UserDropdown';
 import { ErrorBoundarySection } from './GracefulErrorBoundary';
 import { validation } from '../utils/envUtils';
@@ -743,7 +747,7 @@ const GameDashboard: React.FC<GameDashboardProps> = ({
     }
     
     const gameCodes = top5Games.map(game => game.code || game.gameCode).filter(code => code);
-    const shareUrl = `${window.location.origin}/game/${gameCodes.join('/')}/`;
+    const shareUrl = `${window.location.origin}/game/${gameCodes.map(code => toChainGameCode(code, ACTIVE_CHAIN.key)).join('/')}/`;
     
     try {
       await navigator.clipboard.writeText(shareUrl);
@@ -1001,7 +1005,7 @@ const GameDashboard: React.FC<GameDashboardProps> = ({
             <button
               onClick={(e) => {
                 e.stopPropagation();
-                navigate(`/game/${gameData.gameCode}`);
+                navigate(getGamePath(gameData.gameCode));
                 toast.dismiss(t.id);
               }}
               style={{
@@ -1174,84 +1178,96 @@ const GameDashboard: React.FC<GameDashboardProps> = ({
         </div>
       )}
 
-      {/* Games Section */}
-      <SectionHeader>
-        <SectionTitle>My Games ({games.length})</SectionTitle>
-        <p style={{ fontSize: '0.95rem', color: 'rgba(255, 255, 255, 0.6)', margin: '0 0 1rem 0' }}>
-          {loading ? 'Loading your games...' : 'Games you\'ve created or joined (click "Load My Games" to refresh)'}
-        </p>
+      {/* Games Section - replaced by rankings on /leaderboard */}
+      {view === 'leaderboard' ? (
+        <Leaderboard currentUser={account?.address} />
+      ) : (
+        <>
+          <ClaimAllPanel
+            account={account}
+            games={games}
+            onClaimed={() => fetchRecentGames(account.address)}
+          />
+
+          <SectionHeader>
+            <SectionTitle>My Games ({games.length})</SectionTitle>
+            <p style={{ fontSize: '0.95rem', color: 'rgba(255, 255, 255, 0.6)', margin: '0 0 1rem 0' }}>
+              {loading ? 'Loading your games...' : 'Games you\'ve created or joined (click "Load My Games" to refresh)'}
+            </p>
         
-        {/* Share Games Button */}
-        <FlexBlock justify="center" gap="0.5rem" style={{ marginBottom: '1rem' }}>
-          <BlockButton
-            variant="secondary"
-            onClick={handleShareDashboard}
-            disabled={games.length === 0}
-            style={{
-              padding: '0.5rem 1rem',
-              fontSize: '0.875rem',
-              background: isShareDashboardCopied ? blockTheme.success : blockTheme.pastelLavender
-            }}
-            title={`Share top ${Math.min(5, games.length)} games`}
-          >
-            {isShareDashboardCopied ? (
-              <>
-                <Check size={14} />
-                Link Copied!
-              </>
-            ) : (
-              <>
-                <Share2 size={14} />
-                Share Games
-              </>
-            )}
-          </BlockButton>
-        </FlexBlock>
-      </SectionHeader>
+            {/* Share Games Button */}
+            <FlexBlock justify="center" gap="0.5rem" style={{ marginBottom: '1rem' }}>
+              <BlockButton
+                variant="secondary"
+                onClick={handleShareDashboard}
+                disabled={games.length === 0}
+                style={{
+                  padding: '0.5rem 1rem',
+                  fontSize: '0.875rem',
+                  background: isShareDashboardCopied ? blockTheme.success : blockTheme.pastelLavender
+                }}
+                title={`Share top ${Math.min(5, games.length)} games`}
+              >
+                {isShareDashboardCopied ? (
+                  <>
+                    <Check size={14} />
+                    Link Copied!
+                  </>
+                ) : (
+                  <>
+                    <Share2 size={14} />
+                    Share Games
+                  </>
+                )}
+              </BlockButton>
+            </FlexBlock>
+          </SectionHeader>
       
-      {loading ? (
-        <Block style={{ textAlign: 'center', padding: '3rem' }}>
-          <SimpleRetroLoader />
-          <p style={{ marginTop: '1rem', color: 'rgba(255, 255, 255, 0.8)' }}>Loading games...</p>
-        </Block>
-      ) : (() => {
-        console.log(`RENDER: filteredGames.length = ${filteredGames.length}, filteredGames =`, filteredGames);
-        return filteredGames.length === 0;
-      })() ? (
-        <EmptyState>
-          <div className="emoji">{games.length === 0 ? '[?]' : '[•]'}</div>
-          <h3>{games.length === 0 ? 'No games loaded yet' : `No ${gameFilter === 'all' ? '' : gameFilter} games found`}</h3>
-          <p>{games.length === 0 ? 'Start by searching for a game to join, or create your own game!' : `You don't have any ${gameFilter === 'all' ? '' : gameFilter} games. Try a different filter or create a new game.`}</p>
-          <FlexBlock justify="center" gap="1rem" style={{ marginTop: '1.5rem' }}>
-            <BlockButton onClick={() => setShowFindModal(true)}>
-              <Search size={16} />
-              Find Game
-            </BlockButton>
-            <BlockButton variant="secondary" onClick={() => setShowCreateModal(true)}>
-              <Plus size={16} />
-              Create Game
-            </BlockButton>
-          </FlexBlock>
-        </EmptyState>
-      ) : (
-        <GamesGrid>
-          <AnimatePresence>
-            {filteredGames.map((game, index) => (
-              <ErrorBoundarySection key={`section-${game.code}`}>
-                <ModernGameCard 
-                  key={game.code} 
-                  game={game} 
-                  currentUser={account?.address || ''}
-                  onClick={() => handleGameClick(game)}
-                  onJoinGame={handleJoinGame}
-                  index={index}
-                  account={account}
-                  user={user}
-                />
-              </ErrorBoundarySection>
-            ))}
-          </AnimatePresence>
-        </GamesGrid>
+          {loading ? (
+            <Block style={{ textAlign: 'center', padding: '3rem' }}>
+              <SimpleRetroLoader />
+              <p style={{ marginTop: '1rem', color: 'rgba(255, 255, 255, 0.8)' }}>Loading games...</p>
+            </Block>
+          ) : (() => {
+            console.log(`RENDER: filteredGames.length = ${filteredGames.length}, filteredGames =`, filteredGames);
+            return filteredGames.length === 0;
+          })() ? (
+            <EmptyState>
+              <div className="emoji">{games.length === 0 ? '[?]' : '[•]'}</div>
+              <h3>{games.length === 0 ? 'No games loaded yet' : `No ${gameFilter === 'all' ? '' : gameFilter} games found`}</h3>
+              <p>{games.length === 0 ? 'Start by searching for a game to join, or create your own game!' : `You don't have any ${gameFilter === 'all' ? '' : gameFilter} games. Try a different filter or create a new game.`}</p>
+              <FlexBlock justify="center" gap="1rem" style={{ marginTop: '1.5rem' }}>
+                <BlockButton onClick={() => setShowFindModal(true)}>
+                  <Search size={16} />
+                  Find Game
+                </BlockButton>
+                <BlockButton variant="secondary" onClick={() => setShowCreateModal(true)}>
+                  <Plus size={16} />
+                  Create Game
+                </BlockButton>
+              </FlexBlock>
+            </EmptyState>
+          ) : (
+            <GamesGrid>
+              <AnimatePresence>
+                {filteredGames.map((game, index) => (
+                  <ErrorBoundarySection key={`section-${game.code}`}>
+                    <ModernGameCard 
+                      key={game.code} 
+                      game={game} 
+                      currentUser={account?.address || ''}
+                      onClick={() => handleGameClick(game)}
+                      onJoinGame={handleJoinGame}
+                      index={index}
+                      account={account}
+                      user={user}
+                    />
+                  </ErrorBoundarySection>
+                ))}
+              </AnimatePresence>
+            </GamesGrid>
+          )}
+        </>
       )}
 
       {/* Modals */}
@@ -1403,7 +1419,7 @@ const ModernGameCard: React.FC<{
 
   const handleShareClick = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    const shareUrl = `${window.location.origin}/game/${gameCode}`;
+    const shareUrl = getGameUrl(gameCode);
     
     try {
       await navigator.clipboard.writeText(shareUrl);
@@ -1423,7 +1439,7 @@ const ModernGameCard: React.FC<{
 
   const handleOpenInNewTab = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const shareUrl = `${window.location.origin}/game/${gameCode}`;
+    const shareUrl = getGameUrl(gameCode);
     window.open(shareUrl, '_blank', 'noopener,noreferrer');
   };
 
@@ -1545,7 +1561,7 @@ const ModernGameCard: React.FC<{
 // Helper function to get current block number
 async function getCurrentBlock(): Promise<number> {
   try {
-    const response = await fetch('https://mainnet.base.org', {
+    const response = await fetch(ACTIVE_CHAIN.rpcEndpoints[0].url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -3,11 +3,15 @@ import { useActiveAccount } from "thirdweb/react";
 import { prepareContractCall, sendTransaction, waitForReceipt, readContract } from 'thirdweb';
 import toast from 'react-hot-toast';
 import { X, Users, Coins, Clock, Crown, Trophy, AlertCircle, Scale, Lock, Unlock, Copy, Share2, ExternalLink, Check } from 'lucide-react';
-import { getGameContract, formatAddress, formatEth, decodeStringFromHex, formatPrizeSplit, formatTokenDisplay, ensureTokenApproval, isETH } from '../thirdweb';
-import { gaslessJoinGame, gaslessLockGame, gaslessReportWinners, gaslessClaimWinnings } from '../utils/gaslessHelper';
+import { getGameContract, formatAddress, formatEth, formatPrizeSplit, formatTokenDisplay, ensureTokenApproval, isETH } from '../thirdweb';
+import { getGamePath, getGameUrl } from '../utils/gameCodeUtils';
+import { gaslessJoinGame } from '../utils/gaslessHelper';
+import { executeGameAction } from '../utils/transactionStrategy';
 import { logBuyInInfo, formatBuyInForDisplay } from '../utils/buyInUtils';
+import { PRIZE_SPLIT_DENOMINATOR } from '../utils/amounts';
 import { getDisplayNameByAddressSync, preloadUsernames, preloadDisplayNames, getDisplayNamesByAddresses, getDisplayNameInfo } from '../utils/userUtils';
 import { useUser } from '../contexts/UserContext';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
 import { 
   BlockModal, 
   BlockModalContent, 
@@ -18,8 +22,12 @@ import {
 } from '../styles/blocks';
 import { SimpleRetroLoader } from './RetroLoader';
 import styled from '@emotion/styled';
-import { GameData } from '../contexts/GameDataContext';
+import { GameData, getCurrentBlock } from '../contexts/GameDataContext';
+import { GAME_CONTRACT, toAddressTopic, toIndexedStringTopic, clampToDeploymentBlock } from '../utils/contractDeployment';
+import { rpcManager, rpcRequest } from '../utils/rpcManager';
 import PrizeSplitsModal from './PrizeSplitsModal';
+import GameActivityTimeline from './GameActivityTimeline';
+import GameInvitationsPanel from './GameInvitationsPanel';
 
 interface GameDetailModalProps {
   game: GameData;
@@ -518,88 +526,20 @@ const LockStatusIndicator = styled.div<{ $isLocked: boolean }>`
   box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
 `;
 
-// WinningsClaimed event signature (keccak256 of "WinningsClaimed(string,address,uint256)")
-const WINNINGS_CLAIMED_SIGNATURE = '0x7175967b5ddee4d7986318165167133a8c193aa59b05f411ec131d4f124a3f3d';
+// Claims from both claim paths; the UI variant is emitted when a UI provider takes a fee
+const WINNINGS_CLAIMED_TOPICS = [
+  GAME_CONTRACT.eventTopics.WinningsClaimed,
+  GAME_CONTRACT.eventTopics.WinningsClaimedViaUI
+];
 
-// Helper to decode WinningsClaimed event data: (string code, uint256 amount)
-const decodeWinningsClaimedData = (hexData: string): { code: string, amount: string } | null => {
-  try {
-    // Remove 0x prefix if present
-    const data = hexData.startsWith('0x') ? hexData.slice(2) : hexData;
-    
-    if (data.length < 192) return null; // Need at least 96 bytes (192 hex chars)
-    
-    // Bytes 0-31: offset to string (should be 0x40 = 64)
-    const offsetHex = data.slice(0, 64);
-    const offset = parseInt(offsetHex, 16);
-    
-    // Bytes 32-63: amount (uint256)
-    const amountHex = data.slice(64, 128);
-    const amount = parseInt(amountHex, 16).toString();
-    
-    // String starts at the offset position (in bytes, not hex chars)
-    const stringStartHex = offset * 2; // Convert bytes to hex chars
-    
-    // String length is at the offset position
-    const lengthHex = data.slice(stringStartHex, stringStartHex + 64);
-    const length = parseInt(lengthHex, 16);
-    
-    if (length === 0 || length > 100) return null; // Sanity check
-    
-    // String data starts right after the length
-    const stringDataHex = data.slice(stringStartHex + 64, stringStartHex + 64 + (length * 2));
-    
-    // Convert hex to ASCII
-    let code = '';
-    for (let i = 0; i < stringDataHex.length; i += 2) {
-      const hex = stringDataHex.substr(i, 2);
-      const charCode = parseInt(hex, 16);
-      if (charCode === 0) break;
-      code += String.fromCharCode(charCode);
-    }
-    
-    return { code, amount };
-  } catch (error) {
-    console.warn('Error decoding WinningsClaimed data:', error);
-    return null;
-  }
-};
-
-// Helper to get current block number
-const getCurrentBlockNumber = async (): Promise<number> => {
-  const rpcEndpoint = 'https://mainnet.base.org';
-  try {
-    const response = await fetch(rpcEndpoint, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_blockNumber',
-        params: [],
-        id: 1,
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-    
-    const data = await response.json();
-    if (data.error) {
-      throw new Error(`RPC Error: ${data.error.message}`);
-    }
-    
-    return parseInt(data.result, 16);
-  } catch (error) {
-    console.warn('Failed to get current block number:', error);
-    return 10000000; // Fallback to high number
-  }
-};
+// Claim lookups cover the last 50k blocks, the widest range any browser-safe endpoint serves
+const CLAIM_SEARCH_BLOCKS = 50000;
 
 const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefresh }) => {
   const account = useActiveAccount();
   const { user } = useUser();
   const [detailedGame, setDetailedGame] = useState<DetailedGameData>(game);
+  useTokenMetadata([detailedGame.buyInToken]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
   const [error, setError] = useState<string>('');
@@ -857,71 +797,35 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
             console.log(`💰 Checking claim status for ${winners.length} winners with 50k block limit...`);
             
             // Get current block and calculate search range (last 50k blocks)
-            const currentBlock = await getCurrentBlockNumber();
-            const fromBlock = Math.max(0, currentBlock - 50000);
+            const currentBlock = await getCurrentBlock();
+            const fromBlock = clampToDeploymentBlock(currentBlock - CLAIM_SEARCH_BLOCKS + 1);
+            // The game code is a `string indexed` topic, so claims can be filtered by game at the RPC
+            const gameCodeTopic = toIndexedStringTopic(game.code);
             
             console.log(`📊 Block range: ${fromBlock} to ${currentBlock} (${currentBlock - fromBlock} blocks)`);
             
             // Check each winner individually for claim events
             const claimCheckPromises = winners.map(async (winnerAddress) => {
               try {
-                const userTopic = `0x000000000000000000000000${winnerAddress.slice(2).toLowerCase()}`;
-                
                 console.log(`🔍 Checking claims for winner: ${winnerAddress}`);
                 
-                const response = await fetch('https://mainnet.base.org', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    jsonrpc: '2.0',
-                    method: 'eth_getLogs',
-                    params: [{
-                      address: contract.address,
-                      topics: [
-                        WINNINGS_CLAIMED_SIGNATURE, // WinningsClaimed event signature
-                        userTopic // winner address (indexed at position 1)
-                      ],
-                      fromBlock: `0x${fromBlock.toString(16)}`,
-                      toBlock: `0x${currentBlock.toString(16)}`
-                    }],
-                    id: 1
-                  })
-                });
-                
-                if (!response.ok) {
-                  throw new Error(`HTTP ${response.status}`);
-                }
-                
-                const data = await response.json();
-                if (data.error) {
-                  throw new Error(`RPC Error: ${data.error.message}`);
-                }
+                const filter = {
+                  address: GAME_CONTRACT.address,
+                  topics: [
+                    WINNINGS_CLAIMED_TOPICS,
+                    gameCodeTopic,
+                    toAddressTopic(winnerAddress) // winner address (indexed at position 2)
+                  ],
+                  fromBlock: `0x${fromBlock.toString(16)}`,
+                  toBlock: `0x${currentBlock.toString(16)}`
+                };
+                const events = await rpcManager.executeWithRetry(
+                  endpoint => rpcRequest<any[]>(endpoint, 'eth_getLogs', [filter]),
+                  currentBlock - fromBlock + 1
+                ) || [];
                 
-                const events = data.result || [];
-                    console.log(`📝 Found ${events.length} claim events for ${winnerAddress} in last 50k blocks`);
-                    
-                    // Check if any event matches this game code
-                    const hasClaimed = events.some(event => {
-                  try {
-                    const decoded = decodeWinningsClaimedData(event.data);
-                    if (!decoded) {
-                      console.warn(`   ❌ Failed to decode event data: ${event.data.slice(0, 100)}...`);
-                      return false;
-                    }
-                    
-                    console.log(`   📋 Event decoded: code="${decoded.code}", amount=${decoded.amount} (looking for "${game.code}")`);
-                    const match = decoded.code === game.code;
-                    if (match) {
-                      console.log(`✅ Found matching claim event for ${winnerAddress} in game ${game.code} (amount: ${decoded.amount})`);
-                    }
-                    return match;
-                  } catch (err) {
-                    console.warn('Failed to decode event data:', err);
-                    return false;
-                  }
-                });
-                
-                console.log(`💵 ${winnerAddress}: claimed=${hasClaimed}`);
+                const hasClaimed = events.length > 0;
+                console.log(`💵 ${winnerAddress}: claimed=${hasClaimed} (${events.length} claim events in game ${game.code})`);
                 return { address: winnerAddress, hasClaimed };
                 
               } catch (err) {
@@ -1139,7 +1043,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       } else {
         // Determine maximum winners based on prize splits
         const isWinnerTakeAll = !detailedGame.prizeSplits || detailedGame.prizeSplits.length === 0 || 
-                                (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === 1000);
+                                (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
         const maxWinners = isWinnerTakeAll ? 1 : detailedGame.prizeSplits?.length || 3;
         
         // Check if we've reached the maximum number of winners
@@ -1166,7 +1070,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
 
     // Validate winner count matches prize distribution
     const isWinnerTakeAll = !detailedGame.prizeSplits || detailedGame.prizeSplits.length === 0 ||
-                            (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === 1000);
+                            (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
     const requiredWinners = isWinnerTakeAll ? 1 : detailedGame.prizeSplits?.length || 1;
 
     if (selectedWinners.length !== requiredWinners) {
@@ -1186,11 +1090,20 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
 
       toast.loading('Submitting winners (gasless)...', { id: 'report-winners' });
 
-      const result = await gaslessReportWinners(
-        account,
-        game.code,
-        winnersToSubmit
-      );
+      const result = await executeGameAction(account, {
+        type: 'report',
+        gameCode: game.code,
+        winners: winnersToSubmit
+      });
+
+      // The relay sent it but has not confirmed yet
+      if (result.pending) {
+        toast(result.error || 'Winners submitted, still confirming', { icon: '⏳', duration: 8000, id: 'report-winners' });
+        setSelectedWinners([]);
+        await loadGameDetails();
+        onRefresh();
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to report winners');
@@ -1199,7 +1112,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       console.log('✅ Winners reported gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Winners reported! (gasless)', {
+      toast.success(`Winners reported! (${result.selfPaid ? 'self-paid' : 'gasless'})`, {
         icon: '⚡',
         duration: 3000,
         id: 'report-winners'
@@ -1229,10 +1142,14 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       console.log('💰 Claiming winnings gaslessly...');
       toast.loading('Claiming winnings (gasless)...', { id: 'claim-winnings' });
 
-      const result = await gaslessClaimWinnings(
-        account,
-        game.code
-      );
+      const result = await executeGameAction(account, { type: 'claim', gameCode: game.code });
+
+      if (result.pending) {
+        toast(result.error || 'Claim submitted, still confirming', { icon: '⏳', duration: 8000, id: 'claim-winnings' });
+        await loadGameDetails();
+        onRefresh();
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to claim winnings');
@@ -1241,7 +1158,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       console.log('✅ Winnings claimed gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Winnings claimed! (gasless, 1% UI fee)', {
+      toast.success(result.selfPaid ? 'Winnings claimed! (self-paid)' : 'Winnings claimed! (gasless, 1% UI fee)', {
         icon: '⚡',
         duration: 3000,
         id: 'claim-winnings'
@@ -1270,10 +1187,14 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       console.log('🔒 Locking game gaslessly...');
       toast.loading('Submitting lock transaction (gasless)...', { id: 'lock-game' });
 
-      const result = await gaslessLockGame(
-        account,  // Pass full account object for signing
-        game.code
-      );
+      const result = await executeGameAction(account, { type: 'lock', gameCode: game.code });
+
+      if (result.pending) {
+        toast(result.error || 'Lock submitted, still confirming', { icon: '⏳', duration: 8000, id: 'lock-game' });
+        await loadGameDetails();
+        onRefresh();
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to lock game');
@@ -1282,7 +1203,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
       console.log('✅ Game locked gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Game locked! (gasless)', {
+      toast.success(`Game locked! (${result.selfPaid ? 'self-paid' : 'gasless'})`, {
         icon: '⚡',
         duration: 3000,
         id: 'lock-game'
@@ -1320,7 +1241,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
   };
 
   const handleShareGame = async () => {
-    const shareUrl = `${window.location.origin}/game/${game.code}`;
+    const shareUrl = getGameUrl(game.code);
     try {
       await navigator.clipboard.writeText(shareUrl);
       setIsShareCopied(true);
@@ -1339,7 +1260,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
   };
 
   const handleOpenNewTab = () => {
-    window.open(`/game/${game.code}`, '_blank');
+    window.open(getGamePath(game.code), '_blank');
   };
 
   const isHost = account && detailedGame.host && account.address.toLowerCase() === detailedGame.host.toLowerCase();
@@ -1635,6 +1556,21 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
               </InfoSection>
             )}
 
+            {detailedGame.host && (
+              <GameInvitationsPanel
+                gameCode={game.code}
+                host={detailedGame.host}
+                players={detailedGame.players}
+                maxPlayers={detailedGame.maxPlayers}
+                locked={detailedGame.locked}
+                isHost={!!isHost}
+              />
+            )}
+
+            {detailedGame.host && (
+              <GameActivityTimeline gameCode={game.code} host={detailedGame.host} tokenAddress={detailedGame.buyInToken} />
+            )}
+
             {/* Actions */}
             <ActionSection>
               <h3><Crown size={20} />Actions</h3>
@@ -1685,7 +1621,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
                     <StatusMessage variant="info">
                       {(() => {
                         const isWinnerTakeAll = !detailedGame.prizeSplits || detailedGame.prizeSplits.length === 0 || 
-                                                (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === 1000);
+                                                (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
                         const requiredWinners = isWinnerTakeAll ? 1 : detailedGame.prizeSplits?.length || 1;
                         
                         return (
@@ -1694,7 +1630,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
                             {detailedGame.prizeSplits && detailedGame.prizeSplits.length > 0 && !isWinnerTakeAll && (
                               <div style={{ marginTop: '0.5rem', fontSize: '0.875rem' }}>
                                 Prize distribution: {detailedGame.prizeSplits.map((split, idx) => 
-                                  `${idx === 0 ? '🥇' : idx === 1 ? '🥈' : '🥉'} ${(split / 10).toFixed(1)}%`
+                                  `${idx === 0 ? '🥇' : idx === 1 ? '🥈' : '🥉'} ${formatPrizeSplit(split)}`
                                 ).join(' • ')}
                               </div>
                             )}
@@ -1714,7 +1650,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
                         onClick={handleReportWinners}
                         disabled={actionLoading || (() => {
                           const isWinnerTakeAll = !detailedGame.prizeSplits || detailedGame.prizeSplits.length === 0 || 
-                                                  (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === 1000);
+                                                  (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
                           const requiredWinners = isWinnerTakeAll ? 1 : detailedGame.prizeSplits?.length || 1;
                           return selectedWinners.length !== requiredWinners;
                         })()}
@@ -1725,7 +1661,7 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
                             <Trophy size={16} />
                             Report Winners ({selectedWinners.length}/{(() => {
                               const isWinnerTakeAll = !detailedGame.prizeSplits || detailedGame.prizeSplits.length === 0 || 
-                                                      (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === 1000);
+                                                      (detailedGame.prizeSplits.length === 1 && detailedGame.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
                               return isWinnerTakeAll ? 1 : detailedGame.prizeSplits?.length || 1;
                             })()})
                           </>
@@ -1807,6 +1743,8 @@ const GameDetailModal: React.FC<GameDetailModalProps> = ({ game, onClose, onRefr
         <PrizeSplitsModal
           gameCode={detailedGame.code}
           currentSplits={detailedGame.prizeSplits || []}
+          totalPot={BigInt(detailedGame.buyIn || '0') * BigInt(detailedGame.playerCount || 0)}
+          tokenAddress={detailedGame.buyInToken}
           onClose={() => setShowPrizeSplitsModal(false)}
           onSuccess={(splits) => {
             setShowPrizeSplitsModal(false);
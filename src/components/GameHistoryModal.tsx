@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, Trophy, TrendingUp, Calendar, Coins, Target, Award } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { X, Trophy, TrendingUp, Calendar, Coins, Target, Award, RefreshCw, Download, Flame, Star } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
+import { useGameHistorySync } from '../hooks/useGameHistorySync';
+import { useHistoryExport } from '../hooks/useHistoryExport';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
 import { databaseService } from '../services/databaseService';
 import { Database } from '../lib/database.types';
 import {
@@ -11,6 +15,9 @@ import {
 } from '../styles/blocks';
 import { SimpleRetroLoader } from './RetroLoader';
 import { FlexBlock } from '../styles/blocks';
+import { HistoryExportFormat } from '../utils/historyExport';
+import { EMPTY_USER_STATS, TokenStats, UserStats } from '../utils/userStats';
+import { formatTokenDisplay, getTokenByAddress } from '../thirdweb';
 
 type GameHistory = Database['public']['Tables']['game_history']['Row'];
 
@@ -19,26 +26,20 @@ interface GameHistoryModalProps {
   onClose: () => void;
 }
 
-interface UserStats {
-  totalGames: number;
-  gamesWon: number;
-  gamesLost: number;
-  totalWinnings: string;
-  winRate: number;
-}
-
 export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onClose }) => {
   const { user } = useUser();
   const [gameHistory, setGameHistory] = useState<GameHistory[]>([]);
-  const [stats, setStats] = useState<UserStats>({
-    totalGames: 0,
-    gamesWon: 0,
-    gamesLost: 0,
-    totalWinnings: '0',
-    winRate: 0,
-  });
+  const [stats, setStats] = useState<UserStats>(EMPTY_USER_STATS);
+  useTokenMetadata([
+    ...stats.byToken.map(tokenStats => tokenStats.token),
+    ...gameHistory.map(game => game.token_address)
+  ]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { isSyncing, sync } = useGameHistorySync();
+  const { exportHistory, isExporting } = useHistoryExport();
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
 
   const loadData = async () => {
     if (!user?.id) return;
@@ -68,6 +69,42 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
     }
   }, [isOpen, user?.id]);
 
+  const handleSyncFromChain = async () => {
+    const result = await sync();
+    if (!result) return;
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to sync game history');
+      return;
+    }
+
+    const changes = result.inserted + result.updated + result.stale;
+    toast.success(
+      changes > 0
+        ? `Synced from chain: ${result.inserted} added, ${result.updated} updated, ${result.stale} marked stale`
+        : 'Game history is already up to date'
+    );
+    if (result.skipped > 0) {
+      toast(`${result.skipped} game(s) could not be checked - try again later`, { icon: '⚠️' });
+    }
+    await loadData();
+  };
+
+  const handleExport = async (format: HistoryExportFormat) => {
+    // Date inputs are local days; the range covers the whole of the "to" day
+    const count = await exportHistory(format, {
+      from: exportFrom ? new Date(`${exportFrom}T00:00:00`) : null,
+      to: exportTo ? new Date(`${exportTo}T23:59:59.999`) : null
+    });
+    if (count === null) {
+      toast.error('Failed to export game history');
+    } else if (count === 0) {
+      toast('No games in that date range', { icon: '📭' });
+    } else {
+      toast.success(`Exported ${count} game${count === 1 ? '' : 's'} as ${format.toUpperCase()}`);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -88,6 +125,17 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
     }
   };
 
+  // Rows recorded before token tracking have no token; shown with 18 decimals until Sync from Chain fills it in
+  const formatAmount = (amount: string | bigint, token: string | null) =>
+    token ? formatTokenDisplay(amount, token) : formatEth(amount.toString());
+
+  const formatRoi = (tokenStats: TokenStats) =>
+    tokenStats.roi === null ? '-' : `${tokenStats.roi > 0 ? '+' : ''}${tokenStats.roi.toFixed(1)}%`;
+
+  const streak = stats.currentStreak.result
+    ? `${stats.currentStreak.length}${stats.currentStreak.result === 'won' ? 'W' : 'L'}`
+    : '-';
+
   const getResultColor = (result: string) => {
     switch (result) {
       case 'won': return blockTheme.success;
@@ -123,16 +171,28 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
               Game History & Stats
             </h2>
           </FlexBlock>
-          <BlockButton 
-            onClick={onClose}
-            color="pastelCoral"
-            style={{ 
-              padding: '0.5rem',
-              minWidth: 'auto'
-            }}
-          >
-            <X size={18} />
-          </BlockButton>
+          <FlexBlock align="center" gap="0.5rem">
+            <BlockButton
+              onClick={handleSyncFromChain}
+              disabled={isSyncing || loading}
+              color="pastelBlue"
+              title="Find games joined from other devices or directly on-chain"
+              style={{ padding: '0.5rem 0.75rem', fontSize: '0.85rem' }}
+            >
+              <RefreshCw size={16} />
+              {isSyncing ? 'Syncing...' : 'Sync from Chain'}
+            </BlockButton>
+            <BlockButton 
+              onClick={onClose}
+              color="pastelCoral"
+              style={{ 
+                padding: '0.5rem',
+                minWidth: 'auto'
+              }}
+            >
+              <X size={18} />
+            </BlockButton>
+          </FlexBlock>
         </FlexBlock>
 
         {error && (
@@ -194,12 +254,137 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
               color="rgba(139, 92, 246, 0.9)"
             />
             <StatCard
-              icon={<Coins size={20} />}
-              label="Total Winnings"
-              value={`${formatEth(stats.totalWinnings)} ETH`}
+              icon={<Flame size={20} />}
+              label="Current Streak"
+              value={streak}
               color="rgba(245, 158, 11, 0.9)"
             />
+            <StatCard
+              icon={<Award size={20} />}
+              label="Best Win Streak"
+              value={stats.longestWinStreak.toString()}
+              color="rgba(34, 197, 94, 0.9)"
+            />
+            <StatCard
+              icon={<Star size={20} />}
+              label="Favorite Type"
+              value={stats.favoriteGameType || '-'}
+              color="rgba(59, 130, 246, 0.9)"
+            />
           </div>
+
+          {stats.byToken.length > 0 && (
+            <div style={{ marginTop: '1.5rem' }}>
+              <h4 style={{
+                margin: '0 0 0.75rem 0',
+                color: blockTheme.darkText,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}>
+                <Coins size={18} />
+                By Token
+              </h4>
+              <div style={{ overflowX: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', color: blockTheme.darkText, fontSize: '0.85rem' }}>
+                  <thead>
+                    <tr style={{ textAlign: 'left', textTransform: 'uppercase', fontSize: '0.7rem', letterSpacing: '0.05em' }}>
+                      <th style={{ padding: '0.5rem' }}>Token</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Games</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Buy-ins</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Winnings</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Net</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>ROI</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Avg Pot</th>
+                      <th style={{ padding: '0.5rem', textAlign: 'right' }}>Biggest Win</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.byToken.map(tokenStats => (
+                      <tr key={tokenStats.token || 'unknown'} style={{ borderTop: `2px solid ${blockTheme.shadowLight}` }}>
+                        <td style={{ padding: '0.5rem', fontWeight: 600 }}>
+                          {(tokenStats.token && getTokenByAddress(tokenStats.token)?.symbol) || 'Unknown'}
+                        </td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{tokenStats.gamesWon}/{tokenStats.games}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatAmount(tokenStats.buyIns, tokenStats.token)}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatAmount(tokenStats.winnings, tokenStats.token)}</td>
+                        <td style={{
+                          padding: '0.5rem',
+                          textAlign: 'right',
+                          fontWeight: 700,
+                          color: tokenStats.netProfit < BigInt(0) ? blockTheme.error : blockTheme.darkText
+                        }}>
+                          {formatAmount(tokenStats.netProfit, tokenStats.token)}
+                        </td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatRoi(tokenStats)}</td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>
+                          {tokenStats.averagePot === null ? '-' : formatAmount(tokenStats.averagePot, tokenStats.token)}
+                        </td>
+                        <td style={{ padding: '0.5rem', textAlign: 'right' }}>{formatAmount(tokenStats.biggestWin, tokenStats.token)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {stats.byToken.some(tokenStats => tokenStats.token === null) && (
+                <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: blockTheme.textSecondary }}>
+                  "Unknown" games were recorded before tokens were tracked. Sync from Chain to fill them in.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Export */}
+        <div style={{
+          background: blockTheme.pastelLavender,
+          border: `3px solid ${blockTheme.darkText}`,
+          borderRadius: '8px',
+          padding: '1rem',
+          marginBottom: '2rem',
+          boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
+        }}>
+          <h3 style={{
+            margin: '0 0 0.75rem 0',
+            color: blockTheme.darkText,
+            fontSize: '1.1rem',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem'
+          }}>
+            <Download size={18} />
+            Export for Accounting
+          </h3>
+          <FlexBlock align="center" gap="0.75rem" style={{ flexWrap: 'wrap' }}>
+            <label style={{ fontSize: '0.85rem', color: blockTheme.darkText }}>
+              From{' '}
+              <input type="date" value={exportFrom} max={exportTo || undefined} onChange={event => setExportFrom(event.target.value)} />
+            </label>
+            <label style={{ fontSize: '0.85rem', color: blockTheme.darkText }}>
+              To{' '}
+              <input type="date" value={exportTo} min={exportFrom || undefined} onChange={event => setExportTo(event.target.value)} />
+            </label>
+            <BlockButton
+              onClick={() => handleExport('csv')}
+              disabled={isExporting || loading}
+              color="pastelMint"
+              style={{ padding: '0.5rem 0.75rem', fontSize: '0.85rem' }}
+            >
+              {isExporting ? 'Exporting...' : 'CSV'}
+            </BlockButton>
+            <BlockButton
+              onClick={() => handleExport('json')}
+              disabled={isExporting || loading}
+              color="pastelBlue"
+              style={{ padding: '0.5rem 0.75rem', fontSize: '0.85rem' }}
+            >
+              {isExporting ? 'Exporting...' : 'JSON'}
+            </BlockButton>
+          </FlexBlock>
+          <p style={{ margin: '0.75rem 0 0 0', fontSize: '0.75rem', color: blockTheme.textSecondary }}>
+            Every game with token, buy-in, result, payout, UI fee, transaction hashes and blocks.
+            USD values are filled in for stablecoins; other tokens are left blank.
+          </p>
         </div>
 
         {/* Game History */}
@@ -250,7 +435,9 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
                     padding: '1rem',
                     marginBottom: '0.75rem',
                     boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`,
+                    opacity: game.is_stale ? 0.6 : 1,
                   }}
+                  title={game.is_stale ? 'This game no longer lists you as a player on-chain' : undefined}
                 >
                   <FlexBlock justify="space-between" align="center">
                     <FlexBlock direction="column" gap="0.25rem" style={{ flex: 1 }}>
@@ -269,14 +456,19 @@ export const GameHistoryModal: React.FC<GameHistoryModalProps> = ({ isOpen, onCl
                         <span style={{ color: blockTheme.textMuted, fontSize: '0.8rem' }}>
                           {game.game_type}
                         </span>
+                        {game.is_stale && (
+                          <span style={{ color: blockTheme.error, fontSize: '0.75rem', fontWeight: '700' }}>
+                            STALE
+                          </span>
+                        )}
                       </FlexBlock>
                       <FlexBlock align="center" gap="1rem">
                         <span style={{ color: blockTheme.textSecondary, fontSize: '0.9rem' }}>
-                          Buy-in: {formatEth(game.buy_in_amount)} ETH
+                          Buy-in: {formatAmount(game.buy_in_amount, game.token_address)}
                         </span>
                         {game.winnings && (
                           <span style={{ color: blockTheme.warning, fontSize: '0.9rem' }}>
-                            Winnings: {formatEth(game.winnings)} ETH
+                            Winnings: {formatAmount(game.winnings, game.token_address)}
                           </span>
                         )}
                       </FlexBlock>
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from '@emotion/styled';
+import toast from 'react-hot-toast';
+import { Mail, Copy, Check, Trash2, RefreshCw } from 'lucide-react';
+import { blockTheme, BlockButton, BlockInput, FlexBlock } from '../styles/blocks';
+import { formatAddress } from '../thirdweb';
+import { useUser } from '../contexts/UserContext';
+import { databaseService } from '../services/databaseService';
+import { resolveToWalletAddress } from '../utils/addressResolver';
+import { GameInvitation, getInvitationStatus, getInviteUrl } from '../utils/invitations';
+import { SimpleRetroLoader } from './RetroLoader';
+
+const InvitationsSection = styled.div`
+  background: ${blockTheme.pastelLavender};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  padding: 1.5rem;
+  margin-top: 1.5rem;
+  color: ${blockTheme.darkText};
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+
+  h3 {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    margin: 0;
+    font-size: 1.25rem;
+  }
+`;
+
+const InvitationsHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 1rem;
+`;
+
+const IconButton = styled.button`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 32px;
+  height: 32px;
+  flex-shrink: 0;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  background: ${blockTheme.lightText};
+  color: ${blockTheme.darkText};
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const InvitationList = styled.ul`
+  list-style: none;
+  margin: 1rem 0 0 0;
+  padding: 0;
+`;
+
+const InvitationItem = styled.li`
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  padding: 0.75rem 0;
+  border-bottom: 2px solid ${blockTheme.shadowLight};
+
+  &:last-child {
+    border-bottom: none;
+  }
+
+  .body {
+    flex: 1;
+    min-width: 0;
+  }
+
+  .name {
+    font-weight: 600;
+    overflow-wrap: anywhere;
+  }
+
+  .address {
+    font-size: 0.75rem;
+    font-family: monospace;
+    color: ${blockTheme.textMuted};
+  }
+`;
+
+const StatusBadge = styled.span<{ $accepted: boolean }>`
+  padding: 0.125rem 0.5rem;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 6px;
+  font-size: 0.75rem;
+  font-weight: 700;
+  background: ${({ $accepted }) => ($accepted ? blockTheme.pastelMint : blockTheme.pastelYellow)};
+`;
+
+interface GameInvitationsPanelProps {
+  gameCode: string;
+  host: string;
+  players?: string[];
+  maxPlayers?: number;
+  locked?: boolean;
+  isHost: boolean;
+}
+
+/**
+ * Host-managed invitations for a game. Each invitation reserves a seat for one wallet and has
+ * its own join link; the invitee is greeted by name when they open it.
+ */
+export const GameInvitationsPanel: React.FC<GameInvitationsPanelProps> = ({
+  gameCode,
+  host,
+  players,
+  maxPlayers,
+  locked,
+  isHost
+}) => {
+  const { signIn } = useUser();
+  const [invitations, setInvitations] = useState<GameInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [invitee, setInvitee] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    setIsLoading(true);
+    setInvitations(await databaseService.gameInvitations.getGameInvitations(gameCode, host));
+    setIsLoading(false);
+  }, [gameCode, host]);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
+
+  const pendingCount = invitations.filter(invitation => getInvitationStatus(invitation, players) === 'pending').length;
+  const openSeats = Math.max((maxPlayers || 0) - (players?.length || 0), 0);
+
+  const copyLink = async (invitation: GameInvitation) => {
+    const url = getInviteUrl(gameCode, invitation.id);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(current => (current === invitation.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Failed to copy invitation link:', error);
+      alert(`Invitation link: ${url}`);
+    }
+  };
+
+  const handleInvite = async () => {
+    const input = invitee.trim();
+    if (!input) return;
+
+    setIsInviting(true);
+    setInviteError('');
+
+    try {
+      const resolved = await resolveToWalletAddress(input);
+      if (resolved.error || !resolved.address) {
+        setInviteError(resolved.error || `Could not find a wallet for "${input}"`);
+        return;
+      }
+
+      const address = resolved.address.toLowerCase();
+      if (address === host.toLowerCase()) {
+        setInviteError('You are hosting this game and already have a seat');
+        return;
+      }
+      if (players?.some(player => player.toLowerCase() === address)) {
+        setInviteError(`${resolved.displayName} has already joined`);
+        return;
+      }
+      if (invitations.some(invitation => invitation.invitee_address.toLowerCase() === address)) {
+        setInviteError(`${resolved.displayName} is already invited`);
+        return;
+      }
+      if (pendingCount >= openSeats) {
+        setInviteError('Every open seat is already reserved');
+        return;
+      }
+
+      if (!await signIn()) return;
+
+      const invitation = await databaseService.gameInvitations.createInvitation({
+        game_code: gameCode,
+        host_address: host,
+        invitee_address: address,
+        invitee_label: resolved.method === 'wallet' && resolved.displayName === resolved.address ? null : resolved.displayName
+      });
+      if (!invitation) {
+        setInviteError('Failed to create invitation. Please try again.');
+        return;
+      }
+
+      console.log('✉️ Created invitation for', address, 'to game', gameCode);
+      setInvitations(prev => [...prev, invitation]);
+      setInvitee('');
+      await copyLink(invitation);
+      toast.success(`Invitation link for ${resolved.displayName} copied`);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: GameInvitation) => {
+    if (!window.confirm('Revoke this invitation? Its link will stop reserving a seat.')) return;
+    if (!await signIn()) return;
+
+    if (await databaseService.gameInvitations.deleteInvitation(invitation.id)) {
+      setInvitations(prev => prev.filter(candidate => candidate.id !== invitation.id));
+    } else {
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  // Guests only see the panel when there is something to show
+  if (!isHost && invitations.length === 0) return null;
+
+  return (
+    <InvitationsSection>
+      <InvitationsHeader>
+        <h3><Mail size={20} />Invitations</h3>
+        <IconButton onClick={loadInvitations} disabled={isLoading} title="Refresh invitations">
+          <RefreshCw size={14} />
+        </IconButton>
+      </InvitationsHeader>
+
+      {isHost && !locked && (
+        <>
+          <p style={{ margin: '0 0 0.75rem 0', fontSize: '0.875rem' }}>
+            Reserve a seat for a specific player. Only they will be offered the seat from their link.
+          </p>
+          <FlexBlock gap="0.5rem" align="center">
+            <BlockInput
+              type="text"
+              placeholder="Address, username or ENS"
+              value={invitee}
+              onChange={e => {
+                setInvitee(e.target.value);
+                setInviteError('');
+              }}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleInvite();
+              }}
+              disabled={isInviting}
+              style={{ flex: 1, minWidth: 0 }}
+            />
+            <BlockButton color="pastelPink" onClick={handleInvite} disabled={isInviting || !invitee.trim()}>
+              {isInviting ? <SimpleRetroLoader size="sm" /> : 'Invite'}
+            </BlockButton>
+          </FlexBlock>
+          {inviteError && (
+            <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.8rem', color: blockTheme.error }}>{inviteError}</p>
+          )}
+        </>
+      )}
+
+      {isLoading && invitations.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '1rem' }}>
+          <SimpleRetroLoader />
+        </div>
+      ) : invitations.length === 0 ? (
+        <p style={{ margin: '1rem 0 0 0', fontSize: '0.875rem' }}>No invitations yet.</p>
+      ) : (
+        <InvitationList>
+          {invitations.map(invitation => {
+            const accepted = getInvitationStatus(invitation, players) === 'accepted';
+
+            return (
+              <InvitationItem key={invitation.id}>
+                <div className="body">
+                  <div className="name">{invitation.invitee_label || formatAddress(invitation.invitee_address)}</div>
+                  {invitation.invitee_label && (
+                    <div className="address">{formatAddress(invitation.invitee_address)}</div>
+                  )}
+                </div>
+                <StatusBadge $accepted={accepted}>{accepted ? 'Accepted' : 'Pending'}</StatusBadge>
+                {isHost && !accepted && (
+                  <>
+                    <IconButton onClick={() => copyLink(invitation)} title="Copy invitation link">
+                      {copiedId === invitation.id ? <Check size={14} /> : <Copy size={14} />}
+                    </IconButton>
+                    <IconButton onClick={() => handleRevoke(invitation)} title="Revoke invitation">
+                      <Trash2 size={14} />
+                    </IconButton>
+                  </>
+                )}
+              </InvitationItem>
+            );
+          })}
+        </InvitationList>
+      )}
+    </InvitationsSection>
+  );
+};
+
+export default GameInvitationsPanel;
@@ -1,8 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { X, Plus, List, Edit, Trash2, Save, GamepadIcon } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { X, Plus, List, Edit, Trash2, Save, GamepadIcon, ChevronDown, ChevronUp, ArrowUp, ArrowDown, Link, ExternalLink, Users } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { databaseService } from '../services/databaseService';
 import { Database } from '../lib/database.types';
+import { formatAddress } from '../thirdweb';
+import { extractGameCode } from '../utils/gameCodeUtils';
+import { validation } from '../utils/envUtils';
+import {
+  GAME_LIST_VISIBILITY,
+  GameListVisibility,
+  getGameListCodes,
+  getGameListCollaborators,
+  getGameListUrl,
+  moveGameCode
+} from '../utils/gameLists';
 import {
   BlockModal,
   BlockModalContent,
@@ -26,8 +39,11 @@ interface NewListForm {
 }
 
 export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose }) => {
-  const { user } = useUser();
+  const { user, signIn } = useUser();
+  const navigate = useNavigate();
   const [gameLists, setGameLists] = useState<GameList[]>([]);
+  const [sharedLists, setSharedLists] = useState<GameList[]>([]);
+  const [expandedList, setExpandedList] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -39,8 +55,12 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
     
     setLoading(true);
     try {
-      const lists = await databaseService.gameLists.getUserGameLists(user.id);
+      const [lists, shared] = await Promise.all([
+        databaseService.gameLists.getUserGameLists(user.id),
+        databaseService.gameLists.getCollaborativeGameLists(user.wallet_address)
+      ]);
       setGameLists(lists);
+      setSharedLists(shared.filter(list => list.user_id !== user.id));
     } catch (err) {
       console.error('Error loading game lists:', err);
       setError('Failed to load game lists');
@@ -57,6 +77,7 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
 
   const handleCreateList = async () => {
     if (!user?.id || !newList.name.trim()) return;
+    if (!await signIn()) return;
 
     try {
       const created = await databaseService.gameLists.createGameList({
@@ -79,6 +100,7 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
 
   const handleDeleteList = async (listId: string) => {
     if (!window.confirm('Are you sure you want to delete this game list?')) return;
+    if (!await signIn()) return;
 
     try {
       const success = await databaseService.gameLists.deleteGameList(listId);
@@ -91,13 +113,18 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
     }
   };
 
-  const handleUpdateList = async (listId: string, updates: { name?: string; description?: string }) => {
+  const replaceList = (updated: GameList) => {
+    setGameLists(lists => lists.map(list => (list.id === updated.id ? updated : list)));
+    setSharedLists(lists => lists.map(list => (list.id === updated.id ? updated : list)));
+  };
+
+  const handleUpdateList = async (listId: string, updates: { name?: string; description?: string; visibility?: GameListVisibility }) => {
+    if (!await signIn()) return;
+
     try {
       const updated = await databaseService.gameLists.updateGameList(listId, updates);
       if (updated) {
-        setGameLists(gameLists.map(list => 
-          list.id === listId ? updated : list
-        ));
+        replaceList(updated);
         setEditingList(null);
       }
     } catch (err) {
@@ -106,9 +133,28 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
     }
   };
 
+  const handleCopyLink = async (gameList: GameList) => {
+    const url = getGameListUrl(gameList.id);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(gameList.visibility === 'private'
+        ? 'Link copied - only you and collaborators can open it while the list is private'
+        : 'List link copied!');
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+      alert(`List URL: ${url}`);
+    }
+  };
+
+  const handleOpenList = (listId: string) => {
+    handleClose();
+    navigate(`/list/${listId}`);
+  };
+
   const handleClose = () => {
     setShowCreateForm(false);
     setEditingList(null);
+    setExpandedList(null);
     setNewList({ name: '', description: '' });
     setError(null);
     onClose();
@@ -276,11 +322,47 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
                           {gameList.description}
                         </p>
                       )}
-                      <p style={{ margin: 0, color: blockTheme.textMuted, fontSize: '0.8rem' }}>
-                        {Array.isArray(gameList.game_codes) ? gameList.game_codes.length : 0} games
-                      </p>
+                      <FlexBlock align="center" gap="0.75rem" style={{ flexWrap: 'wrap' }}>
+                        <span style={{ color: blockTheme.textMuted, fontSize: '0.8rem' }}>
+                          {getGameListCodes(gameList).length} games
+                        </span>
+                        <select
+                          value={gameList.visibility}
+                          onChange={(e) => handleUpdateList(gameList.id, { visibility: e.target.value as GameListVisibility })}
+                          title={GAME_LIST_VISIBILITY.find(option => option.value === gameList.visibility)?.description}
+                          style={{ fontSize: '0.8rem', padding: '0.2rem', border: `2px solid ${blockTheme.darkText}`, borderRadius: '6px' }}
+                        >
+                          {GAME_LIST_VISIBILITY.map(option => (
+                            <option key={option.value} value={option.value}>{option.label} - {option.description}</option>
+                          ))}
+                        </select>
+                      </FlexBlock>
                     </div>
                     <FlexBlock gap="0.5rem">
+                      <BlockButton
+                        onClick={() => setExpandedList(expandedList === gameList.id ? null : gameList.id)}
+                        color="pastelMint"
+                        title="Manage games and collaborators"
+                        style={{ padding: '0.5rem', minWidth: 'auto' }}
+                      >
+                        {expandedList === gameList.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                      </BlockButton>
+                      <BlockButton
+                        onClick={() => handleCopyLink(gameList)}
+                        color="pastelPeach"
+                        title="Copy list link"
+                        style={{ padding: '0.5rem', minWidth: 'auto' }}
+                      >
+                        <Link size={16} />
+                      </BlockButton>
+                      <BlockButton
+                        onClick={() => handleOpenList(gameList.id)}
+                        color="pastelYellow"
+                        title="Open list"
+                        style={{ padding: '0.5rem', minWidth: 'auto' }}
+                      >
+                        <ExternalLink size={16} />
+                      </BlockButton>
                       <BlockButton
                         onClick={() => setEditingList(gameList.id)}
                         style={{
@@ -306,6 +388,63 @@ export const GameListsModal: React.FC<GameListsModalProps> = ({ isOpen, onClose
                     </FlexBlock>
                   </FlexBlock>
                 )}
+                {expandedList === gameList.id && editingList !== gameList.id && (
+                  <ListContentsEditor gameList={gameList} canManage={true} onChange={replaceList} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {sharedLists.length > 0 && (
+          <div style={{ marginTop: '1.5rem' }}>
+            <h3 style={{ margin: '0 0 0.75rem 0', color: blockTheme.darkText, display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <Users size={20} />
+              Shared With You
+            </h3>
+            {sharedLists.map((gameList) => (
+              <div
+                key={gameList.id}
+                style={{
+                  background: blockTheme.pastelBlue,
+                  border: `3px solid ${blockTheme.darkText}`,
+                  borderRadius: '8px',
+                  padding: '1rem',
+                  marginBottom: '0.75rem',
+                  boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`,
+                }}
+              >
+                <FlexBlock justify="space-between" align="flex-start">
+                  <div style={{ flex: 1 }}>
+                    <h4 style={{ margin: '0 0 0.5rem 0', color: blockTheme.darkText }}>
+                      {gameList.name}
+                    </h4>
+                    <p style={{ margin: 0, color: blockTheme.textMuted, fontSize: '0.8rem' }}>
+                      {getGameListCodes(gameList).length} games · you can add games
+                    </p>
+                  </div>
+                  <FlexBlock gap="0.5rem">
+                    <BlockButton
+                      onClick={() => setExpandedList(expandedList === gameList.id ? null : gameList.id)}
+                      color="pastelMint"
+                      title="Add games"
+                      style={{ padding: '0.5rem', minWidth: 'auto' }}
+                    >
+                      {expandedList === gameList.id ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    </BlockButton>
+                    <BlockButton
+                      onClick={() => handleOpenList(gameList.id)}
+                      color="pastelYellow"
+                      title="Open list"
+                      style={{ padding: '0.5rem', minWidth: 'auto' }}
+                    >
+                      <ExternalLink size={16} />
+                    </BlockButton>
+                  </FlexBlock>
+                </FlexBlock>
+                {expandedList === gameList.id && (
+                  <ListContentsEditor gameList={gameList} canManage={false} onChange={replaceList} />
+                )}
               </div>
             ))}
           </div>
@@ -366,4 +505,164 @@ const EditListForm: React.FC<EditListFormProps> = ({ gameList, onSave, onCancel
       </FlexBlock>
     </div>
   );
-};
\ No newline at end of file
+};
+interface ListContentsEditorProps {
+  gameList: GameList;
+  canManage: boolean; // Owners reorder, remove and invite; collaborators can only add games
+  onChange: (updated: GameList) => void;
+}
+
+const ListContentsEditor: React.FC<ListContentsEditorProps> = ({ gameList, canManage, onChange }) => {
+  const { signIn } = useUser();
+  const [gameInput, setGameInput] = useState('');
+  const [collaboratorInput, setCollaboratorInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const codes = getGameListCodes(gameList);
+  const collaborators = getGameListCollaborators(gameList);
+
+  const save = async (action: () => Promise<GameList | null>, failure: string) => {
+    if (!await signIn()) {
+      toast.error('Sign in with your wallet to edit this list');
+      return false;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await action();
+      if (updated) {
+        onChange(updated);
+        return true;
+      }
+      toast.error(failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddGame = async () => {
+    const code = extractGameCode(gameInput);
+    if (!code) {
+      toast.error('Enter a valid game code or game link');
+      return;
+    }
+    if (codes.includes(code)) {
+      toast('That game is already in the list', { icon: 'ℹ️' });
+      return;
+    }
+    if (await save(() => databaseService.gameLists.addGameToList(gameList.id, code), 'Failed to add game')) {
+      setGameInput('');
+    }
+  };
+
+  const handleMove = (from: number, to: number) =>
+    save(() => databaseService.gameLists.reorderGameList(gameList.id, moveGameCode(codes, from, to)), 'Failed to reorder list');
+
+  const handleAddCollaborator = async () => {
+    const address = collaboratorInput.trim().toLowerCase();
+    if (!validation.ethereumAddress(address)) {
+      toast.error('Enter a wallet address (0x followed by 40 hex characters)');
+      return;
+    }
+    if (await save(() => databaseService.gameLists.addCollaborator(gameList.id, address), 'Failed to invite collaborator')) {
+      setCollaboratorInput('');
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '1rem', paddingTop: '1rem', borderTop: `2px solid ${blockTheme.darkText}` }}>
+      {codes.length === 0 ? (
+        <p style={{ margin: '0 0 0.75rem 0', color: blockTheme.textMuted, fontSize: '0.85rem' }}>No games yet</p>
+      ) : (
+        <div style={{ marginBottom: '0.75rem' }}>
+          {codes.map((code, index) => (
+            <FlexBlock key={code} justify="space-between" align="center" style={{ padding: '0.25rem 0' }}>
+              <code style={{ fontWeight: 700, color: blockTheme.darkText }}>{code}</code>
+              {canManage && (
+                <FlexBlock gap="0.25rem">
+                  <BlockButton
+                    onClick={() => handleMove(index, index - 1)}
+                    disabled={saving || index === 0}
+                    color="pastelBlue"
+                    title="Move up"
+                    style={{ padding: '0.25rem', minWidth: 'auto' }}
+                  >
+                    <ArrowUp size={14} />
+                  </BlockButton>
+                  <BlockButton
+                    onClick={() => handleMove(index, index + 1)}
+                    disabled={saving || index === codes.length - 1}
+                    color="pastelBlue"
+                    title="Move down"
+                    style={{ padding: '0.25rem', minWidth: 'auto' }}
+                  >
+                    <ArrowDown size={14} />
+                  </BlockButton>
+                  <BlockButton
+                    onClick={() => save(() => databaseService.gameLists.removeGameFromList(gameList.id, code), 'Failed to remove game')}
+                    disabled={saving}
+                    color="pastelCoral"
+                    title="Remove from list"
+                    style={{ padding: '0.25rem', minWidth: 'auto' }}
+                  >
+                    <X size={14} />
+                  </BlockButton>
+                </FlexBlock>
+              )}
+            </FlexBlock>
+          ))}
+        </div>
+      )}
+
+      <FlexBlock gap="0.5rem" style={{ marginBottom: canManage ? '1rem' : 0 }}>
+        <BlockInput
+          placeholder="Game code or link"
+          value={gameInput}
+          onChange={(e) => setGameInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddGame()}
+          style={{ flex: 1 }}
+        />
+        <BlockButton onClick={handleAddGame} disabled={saving || !gameInput.trim()} color="pastelMint">
+          <Plus size={16} />
+          Add
+        </BlockButton>
+      </FlexBlock>
+
+      {canManage && (
+        <div>
+          <h5 style={{ margin: '0 0 0.5rem 0', color: blockTheme.darkText, display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+            <Users size={14} />
+            Collaborators can add games
+          </h5>
+          {collaborators.map(address => (
+            <FlexBlock key={address} justify="space-between" align="center" style={{ padding: '0.25rem 0' }}>
+              <span style={{ fontSize: '0.85rem', color: blockTheme.darkText }} title={address}>{formatAddress(address)}</span>
+              <BlockButton
+                onClick={() => save(() => databaseService.gameLists.removeCollaborator(gameList.id, address), 'Failed to remove collaborator')}
+                disabled={saving}
+                color="pastelCoral"
+                title="Remove collaborator"
+                style={{ padding: '0.25rem', minWidth: 'auto' }}
+              >
+                <X size={14} />
+              </BlockButton>
+            </FlexBlock>
+          ))}
+          <FlexBlock gap="0.5rem" style={{ marginTop: '0.5rem' }}>
+            <BlockInput
+              placeholder="Wallet address (0x...)"
+              value={collaboratorInput}
+              onChange={(e) => setCollaboratorInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCollaborator()}
+              style={{ flex: 1 }}
+            />
+            <BlockButton onClick={handleAddCollaborator} disabled={saving || !collaboratorInput.trim()} color="pastelLavender">
+              <Plus size={16} />
+              Invite
+            </BlockButton>
+          </FlexBlock>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { blockTheme } from '../styles/blocks';
+import { getQrModules, getQrSvgPath } from '../utils/qrCode';
+
+interface GameQrCodeProps {
+  value: string;
+  size?: number | string;
+  title?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * QR code rendered as a crisp, scalable SVG. Always dark on white: inverted codes are not
+ * readable by every scanner.
+ */
+export const GameQrCode: React.FC<GameQrCodeProps> = ({ value, size = 180, title, style }) => {
+  const modules = useMemo(() => getQrModules(value), [value]);
+  const path = useMemo(() => getQrSvgPath(modules), [modules]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${modules.length} ${modules.length}`}
+      width={size}
+      height={size}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title || `QR code for ${value}`}
+      style={{ display: 'block', background: blockTheme.lightText, ...style }}
+    >
+      {title && <title>{title}</title>}
+      <path d={path} fill={blockTheme.darkText} />
+    </svg>
+  );
+};
+
+export default GameQrCode;
@@ -0,0 +1,108 @@
+import React from 'react';
+import styled from '@emotion/styled';
+import { Zap, ZapOff } from 'lucide-react';
+import { blockTheme, blockMedia } from '../styles/blocks';
+import { useGaslessQuota } from '../hooks/useGaslessQuota';
+
+// Styled components
+const MeterContainer = styled.div<{ state: 'ok' | 'low' | 'empty' | 'unknown' }>`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.5rem 0.9rem;
+  background: ${({ state }) => {
+    switch (state) {
+      case 'empty':
+        return blockTheme.pastelCoral;
+      case 'low':
+        return blockTheme.pastelYellow;
+      case 'unknown':
+        return blockTheme.pastelLavender;
+      default:
+        return blockTheme.pastelMint;
+    }
+  }};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+  font-weight: 700;
+  font-size: 0.85rem;
+  white-space: nowrap;
+
+  ${blockMedia.mobile} {
+    padding: 0.4rem 0.6rem;
+    font-size: 0.75rem;
+  }
+`;
+
+const MeterBar = styled.div`
+  width: 48px;
+  height: 10px;
+  background: ${blockTheme.lightText};
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 4px;
+  overflow: hidden;
+
+  ${blockMedia.mobile} {
+    display: none;
+  }
+`;
+
+const MeterFill = styled.div<{ percent: number }>`
+  width: ${({ percent }) => percent}%;
+  height: 100%;
+  background: ${blockTheme.darkText};
+  transition: width 0.3s ease;
+`;
+
+const formatResetTime = (resetAt?: string): string | null => {
+  if (!resetAt) return null;
+  const reset = new Date(resetAt);
+  if (isNaN(reset.getTime())) return null;
+  return reset.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+};
+
+interface GaslessQuotaMeterProps {
+  userAddress?: string;
+}
+
+export const GaslessQuotaMeter: React.FC<GaslessQuotaMeterProps> = ({ userAddress }) => {
+  const { quota, quotaUnknown, relayHealthy } = useGaslessQuota(userAddress);
+
+  if (!userAddress) return null;
+
+  if (!quota) {
+    // Still loading, or the relay could not report the quota; never guess a number
+    if (!quotaUnknown) return null;
+    return (
+      <MeterContainer state={relayHealthy ? 'unknown' : 'empty'} title={relayHealthy ? 'Could not check your gasless quota' : 'Gasless relay unavailable - transactions will need your own gas'}>
+        {relayHealthy ? <Zap size={16} /> : <ZapOff size={16} />}
+        <span>{relayHealthy ? 'Quota unknown' : 'Relay down'}</span>
+      </MeterContainer>
+    );
+  }
+
+  const resetTime = formatResetTime(quota.resetAt);
+  const percent = quota.limit > 0 ? Math.min(100, (quota.remaining / quota.limit) * 100) : 0;
+  const state = !relayHealthy || quota.remaining <= 0 ? 'empty' : quota.remaining <= 2 ? 'low' : 'ok';
+
+  const title = !relayHealthy
+    ? 'Gasless relay unavailable - transactions will need your own gas'
+    : `${quota.used} of ${quota.limit} gasless transactions used today${resetTime ? `, resets at ${resetTime}` : ''}`;
+
+  return (
+    <MeterContainer state={state} title={title}>
+      {relayHealthy ? <Zap size={16} /> : <ZapOff size={16} />}
+      <MeterBar>
+        <MeterFill percent={relayHealthy ? percent : 0} />
+      </MeterBar>
+      <span>
+        {relayHealthy ? `${quota.remaining}/${quota.limit}` : 'Relay down'}
+        {relayHealthy && quota.remaining <= 0 && resetTime && ` · resets ${resetTime}`}
+      </span>
+    </MeterContainer>
+  );
+};
+
+export default GaslessQuotaMeter;
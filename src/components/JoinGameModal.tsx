@@ -4,11 +4,17 @@ import { prepareContractCall, sendTransaction, readContract } from "thirdweb";
 import toast from 'react-hot-toast';
 import { X, Users, Search, Shield, ArrowRightLeft } from 'lucide-react';
 import { gameContract, formatEth, formatAddress, getTokenByAddress, formatTokenDisplay, isETH } from '../thirdweb';
+import { formatUnits } from '../utils/amounts';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
 import { logBuyInInfo, formatBuyInForDisplay, compareTransactionParams } from '../utils/buyInUtils';
 import { getDisplayNameByAddressSync } from '../utils/userUtils';
 import { useUser } from '../contexts/UserContext';
 import { TokenBalance } from './TokenBalance';
-import { useBridge } from '../hooks/useBridge';
+import { useBridge, BridgeStepState, BRIDGE_AVAILABLE } from '../hooks/useBridge';
+import { NATIVE_TOKEN_ADDRESS } from '../utils/bridgeFlow';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
+import { toTokens } from 'thirdweb/utils';
 
 // Using direct contract values like working /pony-upv3 code
 import { 
@@ -167,6 +173,52 @@ const ErrorMessage = styled(motion.div)`
   box-shadow: 4px 4px 0px ${blockTheme.shadowLight};
 `;
 
+const BridgePanel = styled(motion.div)`
+  background: ${blockTheme.pastelLavender};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  padding: 1rem;
+  margin-bottom: 1.5rem;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowLight};
+  color: ${blockTheme.darkText};
+  font-size: 0.9rem;
+`;
+
+const BridgeSummaryRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  margin-bottom: 0.4rem;
+  font-weight: 600;
+`;
+
+const BridgeStepRow = styled.div<{ $state: BridgeStepState }>`
+  display: flex;
+  justify-content: space-between;
+  gap: 0.5rem;
+  padding: 0.5rem;
+  margin-top: 0.5rem;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  font-size: 0.8rem;
+  background: ${({ $state }) => {
+    switch ($state) {
+      case 'completed': return blockTheme.pastelMint;
+      case 'failed': return blockTheme.pastelCoral;
+      case 'submitting':
+      case 'bridging': return blockTheme.pastelYellow;
+      default: return blockTheme.lightText;
+    }
+  }};
+`;
+
+const BRIDGE_STEP_LABELS: Record<BridgeStepState, string> = {
+  pending: 'Waiting',
+  submitting: 'Confirm in wallet',
+  bridging: 'Bridging...',
+  completed: 'Done',
+  failed: 'Failed'
+};
+
 const JoinGameModal: React.FC<JoinGameModalProps> = ({ onClose, onSuccess, initialGameCode, joinAsJudge = false }) => {
   const account = useActiveAccount();
   const { user } = useUser();
@@ -175,10 +227,20 @@ const JoinGameModal: React.FC<JoinGameModalProps> = ({ onClose, onSuccess, initi
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [gameInfo, setGameInfo] = useState<any>(null);
+  useTokenMetadata([gameInfo?.buyInToken]);
   const [showBridge, setShowBridge] = useState(false);
 
   const contract = gameContract;
-  const { prepareBridge, executeBridge, isLoading: bridgeLoading } = useBridge();
+  const {
+    prepareBridge,
+    executeBridge,
+    clearQuote,
+    quote: bridgeQuote,
+    stepStatuses,
+    isLoading: bridgeLoading
+  } = useBridge();
+  const [bridgeRoute, setBridgeRoute] = useState<{ fromChain: string; fromToken: string; toToken: string } | null>(null);
+  const [balanceRefreshKey, setBalanceRefreshKey] = useState(0);
 
   // Auto-lookup game if initialGameCode is provided
   useEffect(() => {
@@ -396,7 +458,7 @@ const JoinGameModal: React.FC<JoinGameModalProps> = ({ onClose, onSuccess, initi
       // Pass game data back for immediate addition
       onSuccess({
         gameCode: gameInfo.gameCode,
-        buyIn: gameInfo.buyInToken ? formatTokenDisplay(gameInfo.buyIn, gameInfo.buyInToken).split(' ')[0] : '0',
+        buyIn: gameInfo.buyInToken ? formatUnits(gameInfo.buyIn, getTokenByAddress(gameInfo.buyInToken)?.decimals) : '0',
         maxPlayers: gameInfo.maxPlayers
       });
     } catch (err: any) {
@@ -438,31 +500,55 @@ const JoinGameModal: React.FC<JoinGameModalProps> = ({ onClose, onSuccess, initi
     }
   };
 
-  const handleBridgeNeeded = async (fromToken: string, toToken: string, amount: string) => {
+  // Step 1: fetch a live quote so the player can review fees, ETA and steps
+  const handleBridgeNeeded = async (fromToken: string, toToken: string, amount: string, fromChain: string = 'ethereum') => {
+    if (!gameInfo?.buyInToken) return;
+
     try {
       setShowBridge(true);
-      const quote = await prepareBridge({
-        fromChain: 'ethereum', // This would be dynamically determined
+      setBridgeRoute({ fromChain, fromToken, toToken });
+      // Bridge straight into the game's buy-in token on the chain the game lives on
+      const buyInToken = await tokenRegistry.resolveToken(gameInfo.buyInToken);
+      await prepareBridge({
+        fromChain,
         fromToken,
-        toChain: 'base',
-        toToken,
+        toChainId: ACTIVE_CHAIN.chain.id,
+        toTokenAddress: isETH(gameInfo.buyInToken) ? NATIVE_TOKEN_ADDRESS : gameInfo.buyInToken,
+        toTokenDecimals: buyInToken.decimals,
         amount
       });
-      
-      if (quote) {
-        await executeBridge(quote);
-        toast.success('Bridge completed! You can now join the game.');
-        // Refresh game info to update balance display
-        lookupGame();
-      }
     } catch (error) {
-      console.error('Bridge failed:', error);
-      toast.error('Bridge transaction failed');
-    } finally {
+      console.error('Bridge quote failed:', error);
       setShowBridge(false);
+      setBridgeRoute(null);
     }
   };
 
+  // Step 2: run every bridge step, then join with the topped-up balance
+  const handleBridgeAndJoin = async () => {
+    if (!bridgeQuote) return;
+
+    const result = await executeBridge(bridgeQuote);
+    if (!result.success) {
+      return; // Step statuses show what failed; the quote panel stays open for a retry
+    }
+
+    // Re-read the balance now that the bridged funds have landed
+    setBalanceRefreshKey(key => key + 1);
+    toast.success(`Bridged ${toTokens(result.destinationAmount, bridgeQuote.destinationDecimals)} ${bridgeRoute?.toToken || ''} to ${ACTIVE_CHAIN.name}. Joining game...`);
+    setShowBridge(false);
+    setBridgeRoute(null);
+    clearQuote();
+
+    await handleJoin();
+  };
+
+  const handleCancelBridge = () => {
+    setShowBridge(false);
+    setBridgeRoute(null);
+    clearQuote();
+  };
+
   return (
     <ModalOverlay
       initial={{ opacity: 0 }}
@@ -547,15 +633,94 @@ const JoinGameModal: React.FC<JoinGameModalProps> = ({ onClose, onSuccess, initi
               {gameInfo.buyInToken && gameInfo.buyIn !== '0' && (
                 <TokenBalance
                   tokenAddress={gameInfo.buyInToken}
-                  requiredAmount={formatTokenDisplay(gameInfo.buyIn, gameInfo.buyInToken).split(' ')[0]}
-                  onBridgeNeeded={handleBridgeNeeded}
-                  showBridgeOption={true}
+                  requiredAmount={formatUnits(gameInfo.buyIn, getTokenByAddress(gameInfo.buyInToken)?.decimals)}
+                  onBridgeNeeded={BRIDGE_AVAILABLE ? handleBridgeNeeded : undefined}
+                  showBridgeOption={BRIDGE_AVAILABLE && !showBridge}
+                  refreshKey={balanceRefreshKey}
                 />
               )}
             </GameInfoCard>
           )}
         </AnimatePresence>
 
+        <AnimatePresence>
+          {showBridge && (
+            <BridgePanel
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+            >
+              <BridgeSummaryRow>
+                <span>
+                  <ArrowRightLeft size={14} style={{ marginRight: '0.4rem' }} />
+                  {bridgeRoute ? `${bridgeRoute.fromToken} on ${bridgeRoute.fromChain} → ${bridgeRoute.toToken} on ${ACTIVE_CHAIN.name}` : 'Bridge'}
+                </span>
+              </BridgeSummaryRow>
+
+              {!bridgeQuote ? (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <SimpleRetroLoader />
+                  Fetching bridge quote...
+                </div>
+              ) : (
+                <>
+                  <BridgeSummaryRow>
+                    <span>You pay</span>
+                    <span>{toTokens(bridgeQuote.originAmount, bridgeQuote.originDecimals)} {bridgeRoute?.fromToken}</span>
+                  </BridgeSummaryRow>
+                  <BridgeSummaryRow>
+                    <span>You receive</span>
+                    <span>{toTokens(bridgeQuote.destinationAmount, bridgeQuote.destinationDecimals)} {bridgeRoute?.toToken}</span>
+                  </BridgeSummaryRow>
+                  <BridgeSummaryRow>
+                    <span>Fees</span>
+                    <span>{bridgeQuote.feeUsd !== undefined ? `~$${bridgeQuote.feeUsd.toFixed(2)}` : 'Included in amount'}</span>
+                  </BridgeSummaryRow>
+                  <BridgeSummaryRow>
+                    <span>ETA</span>
+                    <span>{bridgeQuote.estimatedTimeMs ? `~${Math.max(1, Math.round(bridgeQuote.estimatedTimeMs / 1000))}s` : 'Unknown'}</span>
+                  </BridgeSummaryRow>
+
+                  {bridgeQuote.steps.map((step, index) => {
+                    const stepStatus = stepStatuses.find(status => status.stepIndex === index);
+                    const state = stepStatus?.state || 'pending';
+                    return (
+                      <BridgeStepRow key={index} $state={state}>
+                        <span>
+                          {index + 1}. {step.originSymbol} → {step.destinationSymbol}
+                          {' '}({step.transactions.length} tx)
+                        </span>
+                        <span>{stepStatus?.error || BRIDGE_STEP_LABELS[state]}</span>
+                      </BridgeStepRow>
+                    );
+                  })}
+
+                  <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem' }}>
+                    <BlockButton
+                      color="pastelBlue"
+                      onClick={handleCancelBridge}
+                      disabled={bridgeLoading}
+                      style={{ flex: 1 }}
+                    >
+                      Cancel
+                    </BlockButton>
+                    <BlockButton
+                      color="pastelMint"
+                      onClick={handleBridgeAndJoin}
+                      disabled={bridgeLoading || joining}
+                      $loading={bridgeLoading}
+                      style={{ flex: 1 }}
+                    >
+                      {bridgeLoading ? <SimpleRetroLoader /> : <ArrowRightLeft size={16} />}
+                      Bridge & Join
+                    </BlockButton>
+                  </div>
+                </>
+              )}
+            </BridgePanel>
+          )}
+        </AnimatePresence>
+
 
         <BlockButton
           onClick={handleJoin}
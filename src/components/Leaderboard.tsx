@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import styled from '@emotion/styled';
+import { Trophy, RefreshCw } from 'lucide-react';
+import { Block, BlockButton, FlexBlock, blockTheme, blockMedia } from '../styles/blocks';
+import { CHAIN_TOKENS, getTokenBySymbol, formatAddress, formatTokenAmount } from '../thirdweb';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+import { LeaderboardWindow, LEADERBOARD_WINDOWS } from '../utils/leaderboard';
+import { SimpleRetroLoader } from './RetroLoader';
+
+// Styled components
+const LeaderboardContainer = styled.div`
+  margin-bottom: 3rem;
+`;
+
+const LeaderboardTitle = styled.h2`
+  font-size: 2rem;
+  font-weight: 700;
+  margin-bottom: 0.5rem;
+  text-align: center;
+  color: ${blockTheme.retroPurple};
+  text-shadow: 2px 2px 0px ${blockTheme.shadowDark};
+`;
+
+const FilterButton = styled(BlockButton)<{ $active: boolean }>`
+  padding: 0.5rem 1rem;
+  font-size: 0.875rem;
+  background: ${({ $active }) => ($active ? blockTheme.pastelYellow : blockTheme.lightText)};
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  color: ${blockTheme.darkText};
+
+  th, td {
+    padding: 0.75rem 0.5rem;
+    text-align: left;
+    border-bottom: 2px solid ${blockTheme.shadowLight};
+  }
+
+  th {
+    font-size: 0.75rem;
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+  }
+
+  td.numeric, th.numeric {
+    text-align: right;
+    font-family: 'Courier New', monospace;
+  }
+
+  tr.current-user td {
+    background: ${blockTheme.pastelMint};
+  }
+
+  ${blockMedia.mobile} {
+    th.hide-mobile, td.hide-mobile {
+      display: none;
+    }
+  }
+`;
+
+const Rank = styled.span<{ rank: number }>`
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  min-width: 2rem;
+  font-weight: 700;
+  color: ${({ rank }) => (rank === 1 ? blockTheme.warning : blockTheme.darkText)};
+`;
+
+const TOKEN_OPTIONS = CHAIN_TOKENS;
+const DEFAULT_TOKEN = getTokenBySymbol('USDC') || CHAIN_TOKENS[0];
+
+interface LeaderboardProps {
+  currentUser?: string;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ currentUser }) => {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('week');
+  const [tokenAddress, setTokenAddress] = useState<string>(DEFAULT_TOKEN.address);
+  const { entries, displayNames, isLoading, error, refresh } = useLeaderboard(timeWindow, tokenAddress);
+
+  const token = TOKEN_OPTIONS.find(option => option.address === tokenAddress) || DEFAULT_TOKEN;
+  const formatAmount = (amount: bigint) => `${formatTokenAmount(amount, token.decimals, token.decimals === 6 ? 2 : 4)} ${token.symbol}`;
+
+  return (
+    <LeaderboardContainer>
+      <LeaderboardTitle>
+        <Trophy size={28} style={{ verticalAlign: 'middle', marginRight: '0.5rem' }} />
+        Leaderboard
+      </LeaderboardTitle>
+
+      <FlexBlock justify="center" gap="0.5rem" style={{ marginBottom: '0.75rem', flexWrap: 'wrap' }}>
+        {(Object.keys(LEADERBOARD_WINDOWS) as LeaderboardWindow[]).map(option => (
+          <FilterButton key={option} $active={timeWindow === option} onClick={() => setTimeWindow(option)}>
+            {LEADERBOARD_WINDOWS[option].label}
+          </FilterButton>
+        ))}
+      </FlexBlock>
+      <FlexBlock justify="center" gap="0.5rem" style={{ marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+        {TOKEN_OPTIONS.map(option => (
+          <FilterButton key={option.symbol} $active={tokenAddress === option.address} onClick={() => setTokenAddress(option.address)}>
+            {option.symbol}
+          </FilterButton>
+        ))}
+        <BlockButton onClick={refresh} disabled={isLoading} style={{ padding: '0.5rem 1rem', fontSize: '0.875rem' }}>
+          <RefreshCw size={14} />
+          Refresh
+        </BlockButton>
+      </FlexBlock>
+
+      <Block style={{ overflowX: 'auto' }}>
+        {isLoading && entries.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '2rem' }}>
+            <SimpleRetroLoader />
+            <p style={{ marginTop: '1rem' }}>Crunching the rankings...</p>
+          </div>
+        ) : error ? (
+          <p style={{ textAlign: 'center', color: blockTheme.error, margin: 0 }}>{error}</p>
+        ) : entries.length === 0 ? (
+          <p style={{ textAlign: 'center', margin: 0 }}>No games finished in this window yet.</p>
+        ) : (
+          <Table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Player</th>
+                <th className="numeric">Earned ({token.symbol})</th>
+                <th className="numeric">Win Rate</th>
+                <th className="numeric hide-mobile">Played</th>
+                <th className="numeric hide-mobile" title="Largest pot of a game they won">Biggest Pot</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr
+                  key={entry.address}
+                  className={currentUser?.toLowerCase() === entry.address ? 'current-user' : undefined}
+                >
+                  <td><Rank rank={index + 1}>{index + 1}</Rank></td>
+                  <td title={entry.address}>{displayNames.get(entry.address) || formatAddress(entry.address)}</td>
+                  <td className="numeric">{formatAmount(entry.earnings)}</td>
+                  <td className="numeric">{entry.winRate.toFixed(0)}% ({entry.gamesWon}/{entry.gamesPlayed})</td>
+                  <td className="numeric hide-mobile">{entry.gamesPlayed}</td>
+                  <td className="numeric hide-mobile" title={entry.biggestPot?.gameCode || undefined}>
+                    {entry.biggestPot ? formatAmount(entry.biggestPot.amount) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Block>
+    </LeaderboardContainer>
+  );
+};
+
+export default Leaderboard;
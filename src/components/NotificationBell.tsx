@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useRef } from 'react';
+import styled from '@emotion/styled';
+import { useNavigate } from 'react-router-dom';
+import { Bell, BellRing, UserPlus, Users, Lock, Trophy, Coins, CheckCheck, Trash2, RefreshCw } from 'lucide-react';
+import { blockTheme, blockMedia } from '../styles/blocks';
+import { useNotifications } from '../hooks/useNotifications';
+import { getGamePath } from '../utils/gameCodeUtils';
+import { GameNotification, NotificationType } from '../utils/notifications';
+
+const BellContainer = styled.div`
+  position: relative;
+`;
+
+const BellButton = styled.button<{ hasUnread: boolean }>`
+  position: relative;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 0.5rem 0.7rem;
+  background: ${({ hasUnread }) => (hasUnread ? blockTheme.pastelYellow : blockTheme.pastelLavender)};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+  cursor: pointer;
+
+  ${blockMedia.mobile} {
+    padding: 0.4rem 0.5rem;
+  }
+`;
+
+const UnreadBadge = styled.span`
+  position: absolute;
+  top: -8px;
+  right: -8px;
+  min-width: 20px;
+  height: 20px;
+  padding: 0 4px;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 10px;
+  background: ${blockTheme.pastelCoral};
+  font-size: 0.7rem;
+  font-weight: 700;
+  line-height: 16px;
+  text-align: center;
+`;
+
+const Panel = styled.div`
+  position: absolute;
+  top: calc(100% + 0.75rem);
+  right: 0;
+  width: 340px;
+  max-width: calc(100vw - 2rem);
+  z-index: 1001;
+  background: ${blockTheme.pastelYellow};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 6px 6px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 0.75rem 1rem;
+  border-bottom: 3px solid ${blockTheme.darkText};
+  font-weight: 700;
+
+  div {
+    display: flex;
+    gap: 0.25rem;
+  }
+`;
+
+const IconButton = styled.button`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 28px;
+  height: 28px;
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 6px;
+  background: ${blockTheme.lightText};
+  color: ${blockTheme.darkText};
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const NotificationList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  max-height: 360px;
+  overflow-y: auto;
+`;
+
+const NotificationItem = styled.li<{ unread: boolean }>`
+  display: flex;
+  gap: 0.75rem;
+  padding: 0.75rem 1rem;
+  border-bottom: 2px solid ${blockTheme.shadowLight};
+  background: ${({ unread }) => (unread ? blockTheme.lightText : 'transparent')};
+  cursor: pointer;
+
+  &:last-child {
+    border-bottom: none;
+  }
+
+  .icon {
+    flex-shrink: 0;
+    margin-top: 0.125rem;
+    color: ${blockTheme.accent};
+  }
+
+  .title {
+    font-weight: 600;
+    font-size: 0.9rem;
+  }
+
+  .message,
+  .time {
+    font-size: 0.8rem;
+    color: ${blockTheme.textSecondary};
+    overflow-wrap: anywhere;
+  }
+
+  .time {
+    color: ${blockTheme.textMuted};
+  }
+`;
+
+const PanelFooter = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.75rem 1rem;
+  border-top: 3px solid ${blockTheme.darkText};
+  font-size: 0.8rem;
+  cursor: pointer;
+`;
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  player_joined: UserPlus,
+  game_full: Users,
+  game_locked: Lock,
+  winners_reported: Trophy,
+  can_claim: Coins
+};
+
+interface NotificationBellProps {
+  userAddress?: string;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ userAddress }) => {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const [alertsMessage, setAlertsMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    notifications,
+    unreadCount,
+    browserAlerts,
+    browserAlertsSupported,
+    isChecking,
+    error,
+    markRead,
+    markAllRead,
+    clear,
+    setBrowserAlerts,
+    refresh
+  } = useNotifications(userAddress);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  if (!userAddress) return null;
+
+  const handleOpen = (notification: GameNotification) => {
+    markRead(notification.id);
+    setIsOpen(false);
+    navigate(getGamePath(notification.gameCode));
+  };
+
+  const handleBrowserAlerts = async (enabled: boolean) => {
+    const granted = await setBrowserAlerts(enabled);
+    setAlertsMessage(enabled && !granted ? 'Notifications are blocked in your browser settings' : null);
+  };
+
+  return (
+    <BellContainer ref={containerRef}>
+      <BellButton
+        hasUnread={unreadCount > 0}
+        onClick={() => setIsOpen(open => !open)}
+        title={unreadCount > 0 ? `${unreadCount} unread notification${unreadCount === 1 ? '' : 's'}` : 'Notifications'}
+        aria-label="Notifications"
+      >
+        {unreadCount > 0 ? <BellRing size={18} /> : <Bell size={18} />}
+        {unreadCount > 0 && <UnreadBadge>{unreadCount > 9 ? '9+' : unreadCount}</UnreadBadge>}
+      </BellButton>
+
+      {isOpen && (
+        <Panel>
+          <PanelHeader>
+            <span>Notifications</span>
+            <div>
+              <IconButton onClick={refresh} disabled={isChecking} title="Check for new activity">
+                <RefreshCw size={14} />
+              </IconButton>
+              <IconButton onClick={markAllRead} disabled={unreadCount === 0} title="Mark all as read">
+                <CheckCheck size={14} />
+              </IconButton>
+              <IconButton onClick={clear} disabled={notifications.length === 0} title="Clear all">
+                <Trash2 size={14} />
+              </IconButton>
+            </div>
+          </PanelHeader>
+
+          {notifications.length === 0 ? (
+            <p style={{ margin: 0, padding: '1rem', fontSize: '0.875rem' }}>
+              {error || "Nothing new. We'll let you know when someone joins your games or you have winnings to claim."}
+            </p>
+          ) : (
+            <NotificationList>
+              {notifications.map(notification => {
+                const Icon = NOTIFICATION_ICONS[notification.type];
+                return (
+                  <NotificationItem
+                    key={notification.id}
+                    unread={!notification.read}
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <Icon size={18} className="icon" />
+                    <div>
+                      <div className="title">{notification.title}</div>
+                      <div className="message">{notification.message}</div>
+                      <div className="time">{new Date(notification.createdAt).toLocaleString()}</div>
+                    </div>
+                  </NotificationItem>
+                );
+              })}
+            </NotificationList>
+          )}
+
+          {browserAlertsSupported && (
+            <PanelFooter>
+              <input
+                type="checkbox"
+                checked={browserAlerts}
+                onChange={event => handleBrowserAlerts(event.target.checked)}
+              />
+              Browser alerts
+              {alertsMessage && <span style={{ color: blockTheme.error }}>· {alertsMessage}</span>}
+            </PanelFooter>
+          )}
+        </Panel>
+      )}
+    </BellContainer>
+  );
+};
+
+export default NotificationBell;
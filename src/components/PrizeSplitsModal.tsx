@@ -3,6 +3,8 @@ import { useActiveAccount } from "thirdweb/react";
 import { prepareContractCall, sendTransaction, waitForReceipt } from 'thirdweb';
 import { X, Trophy, Lock, Unlock, Percent, Award, Grip, Plus, Minus } from 'lucide-react';
 import { getGameContract, validatePrizeSplits, formatPrizeSplit } from '../thirdweb';
+import { splitAmount, formatAmount, formatSplitPercent, PRIZE_SPLIT_DENOMINATOR } from '../utils/amounts';
+import { useTokenInfo } from '../hooks/useTokenMetadata';
 import { 
   BlockModal, 
   BlockModalContent, 
@@ -25,6 +27,8 @@ interface PrizeSplitsModalProps {
   onSuccess: (splits: number[]) => void;
   currentSplits?: number[];
   isCreationMode?: boolean; // Don't call contract, just return splits
+  totalPot?: bigint; // Shows what each place would take home
+  tokenAddress?: string;
 }
 
 const ModalHeader = styled.div`
@@ -432,6 +436,27 @@ const InfoBox = styled.div`
   box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
 `;
 
+const PrizePreview = styled.div`
+  margin-top: 1rem;
+  padding: 0.75rem 1rem;
+  background: ${blockTheme.pastelYellow};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  font-size: 0.875rem;
+  color: ${blockTheme.darkText};
+
+  .row {
+    display: flex;
+    justify-content: space-between;
+    padding: 0.2rem 0;
+  }
+
+  .amount {
+    font-family: 'Courier New', monospace;
+    font-weight: 700;
+  }
+`;
+
 const TotalIndicator = styled.div<{ isValid?: boolean; isAnimating?: boolean }>`
   display: flex;
   align-items: center;
@@ -542,18 +567,23 @@ const StatusMessage = styled.div<{ type: 'info' | 'success' | 'warning' }>`
 
 const presets = [
   { name: '🏆 Winner Takes All', splits: [], description: 'First place takes 100%' },
-  { name: '🥇🥈 60/40', splits: [600, 400], description: 'Traditional two-winner split' },
-  { name: '🥇🥈🥉 50/30/20', splits: [500, 300, 200], description: 'Balanced three-way split' },
-  { name: '🏆 70/20/10', splits: [700, 200, 100], description: 'Winner-heavy distribution' },
-  { name: '🎆 80/15/5', splits: [800, 150, 50], description: 'Winner takes most' },
+  { name: '🥇🥈 60/40', splits: [6000, 4000], description: 'Traditional two-winner split' },
+  { name: '🥇🥈🥉 50/30/20', splits: [5000, 3000, 2000], description: 'Balanced three-way split' },
+  { name: '🏆 70/20/10', splits: [7000, 2000, 1000], description: 'Winner-heavy distribution' },
+  { name: '🎆 80/15/5', splits: [8000, 1500, 500], description: 'Winner takes most' },
 ];
 
+// Splits are basis points of the pot
+const SPLIT_PER_PERCENT = PRIZE_SPLIT_DENOMINATOR / 100;
+
 const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({ 
   gameCode, 
   onClose, 
   onSuccess, 
   currentSplits = [],
-  isCreationMode = false
+  isCreationMode = false,
+  totalPot,
+  tokenAddress
 }) => {
   const account = useActiveAccount();
   const [splits, setSplits] = useState<number[]>(
@@ -604,7 +634,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
     
     const rect = track.getBoundingClientRect();
     const startX = e.clientX - rect.left;
-    const startPercentage = splits[index] / 10; // Convert to percentage
+    const startPercentage = splits[index] / SPLIT_PER_PERCENT; // Convert to percentage
     
     dragStartX.current = startX;
     dragStartValue.current = startPercentage;
@@ -677,7 +707,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
   const handleKeyDown = useCallback((e: KeyboardEvent, index: number) => {
     if (!splits[index] && splits[index] !== 0) return;
     
-    const currentValue = splits[index] / 10; // Convert from basis points to percentage
+    const currentValue = splits[index] / SPLIT_PER_PERCENT; // Convert from basis points to percentage
     let newValue = currentValue;
     const step = e.shiftKey ? 10 : e.ctrlKey || e.metaKey ? 0.1 : 1;
     
@@ -721,7 +751,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
 
   // Auto-balancing algorithm for maintaining 100%
   const redistributeToMaintain100 = useCallback((changedIndex: number, newValue: number) => {
-    const totalOthers = 1000 - newValue; // 100% in basis points minus new value
+    const totalOthers = PRIZE_SPLIT_DENOMINATOR - newValue; // 100% in basis points minus new value
     const unlockedIndices = splits.map((_, i) => i).filter(i => i !== changedIndex && !lockedIndices[i]);
     
     if (unlockedIndices.length === 0) return null; // Can't adjust if all others locked
@@ -749,7 +779,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
     
     // Adjust for rounding errors to ensure exact 100%
     const actualTotal = newValue + newOthers.reduce((sum, item) => sum + item.value, 0);
-    const adjustment = 1000 - actualTotal;
+    const adjustment = PRIZE_SPLIT_DENOMINATOR - actualTotal;
     
     if (adjustment !== 0 && newOthers.length > 0) {
       // Apply adjustment to the largest value
@@ -773,7 +803,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
       
       if (redistributions) {
         redistributions.forEach(({ index: i, value: v }) => {
-          newSplits[i] = Math.max(0, Math.min(1000, v));
+          newSplits[i] = Math.max(0, Math.min(PRIZE_SPLIT_DENOMINATOR, v));
         });
       }
       
@@ -782,10 +812,10 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
       return;
     }
 
-    const numericValue = parseFloat(value) * 10; // Convert percentage to basis points
+    const numericValue = parseFloat(value) * SPLIT_PER_PERCENT; // Convert percentage to basis points
     
     // Safety checks for invalid values
-    if (isNaN(numericValue) || numericValue < 0 || numericValue > 1000) return;
+    if (isNaN(numericValue) || numericValue < 0 || numericValue > PRIZE_SPLIT_DENOMINATOR) return;
     if (index < 0 || index >= splits.length) return;
 
     const redistributions = redistributeToMaintain100(index, Math.round(numericValue));
@@ -795,7 +825,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
     
     if (redistributions) {
       redistributions.forEach(({ index: i, value: v }) => {
-        newSplits[i] = Math.max(0, Math.min(1000, v));
+        newSplits[i] = Math.max(0, Math.min(PRIZE_SPLIT_DENOMINATOR, v));
       });
     }
     
@@ -816,11 +846,11 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
       
       // If this is the first split, start with 100%
       if (splits.length === 0) {
-        newSplits.push(1000);
+        newSplits.push(PRIZE_SPLIT_DENOMINATOR);
         newLockedIndices.push(false);
       } else {
         // Add new split and redistribute proportionally
-        const targetValue = Math.floor(1000 / (splits.length + 1));
+        const targetValue = Math.floor(PRIZE_SPLIT_DENOMINATOR / (splits.length + 1));
         newSplits.push(targetValue);
         newLockedIndices.push(false);
         
@@ -828,7 +858,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
         const redistributions = redistributeToMaintain100(splits.length, targetValue);
         if (redistributions) {
           redistributions.forEach(({ index: i, value: v }) => {
-            newSplits[i] = Math.max(0, Math.min(1000, v));
+            newSplits[i] = Math.max(0, Math.min(PRIZE_SPLIT_DENOMINATOR, v));
           });
         }
       }
@@ -858,9 +888,9 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
             newSplits[i] = Math.round(newSplits[i] * ratio);
           });
           
-          // Adjust for rounding to maintain 1000 total
+          // Adjust for rounding to keep the total at 100%
           const actualTotal = newSplits.reduce((sum, split) => sum + split, 0);
-          const adjustment = 1000 - actualTotal;
+          const adjustment = PRIZE_SPLIT_DENOMINATOR - actualTotal;
           
           if (adjustment !== 0 && unlockedIndices.length > 0) {
             const adjustIndex = unlockedIndices.reduce((maxIdx, i) => 
@@ -870,8 +900,8 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
           }
         } else {
           // If all remaining are zero, distribute equally
-          const equalShare = Math.floor(1000 / unlockedIndices.length);
-          const remainder = 1000 - (equalShare * unlockedIndices.length);
+          const equalShare = Math.floor(PRIZE_SPLIT_DENOMINATOR / unlockedIndices.length);
+          const remainder = PRIZE_SPLIT_DENOMINATOR - (equalShare * unlockedIndices.length);
           
           unlockedIndices.forEach((i, idx) => {
             newSplits[i] = equalShare + (idx < remainder ? 1 : 0);
@@ -889,7 +919,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
 
   // Mobile adjustment functions
   const adjustValue = useCallback((index: number, delta: number) => {
-    const currentValue = splits[index] / 10; // Convert from basis points to percentage
+    const currentValue = splits[index] / SPLIT_PER_PERCENT; // Convert from basis points to percentage
     const newValue = Math.max(0.1, Math.min(99.9, currentValue + delta));
     
     if (handleSplitChangeRef.current) {
@@ -995,7 +1025,14 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
     setValidationError(error);
   }, [splits]);
 
-  const totalPercentage = splits.reduce((sum, split) => sum + split, 0) / 10;
+  const splitTotal = splits.reduce((sum, split) => sum + split, 0);
+  const totalPercentage = splitTotal / SPLIT_PER_PERCENT;
+
+  // Exact per-place amounts; an empty split list means winner takes all
+  const { token: previewToken } = useTokenInfo(tokenAddress);
+  const prizePreview = totalPot !== undefined && totalPot > BigInt(0) && (splits.length === 0 || splitTotal === PRIZE_SPLIT_DENOMINATOR)
+    ? (splits.length === 0 ? [totalPot] : splitAmount(totalPot, splits, PRIZE_SPLIT_DENOMINATOR))
+    : null;
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     // Close modal when clicking on backdrop
@@ -1049,7 +1086,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                 {splits.map((split, index) => {
                   const colors = ['#FFD700', '#C0C0C0', '#CD7F32'];
                   const color = colors[index] || '#666';
-                  const percentage = Math.round(split / 10 * 10) / 10;
+                  const percentage = Math.round(split / SPLIT_PER_PERCENT * 10) / 10;
                   const isActive = activeAdjustment === index;
                   const isLocked = lockedIndices[index];
                   
@@ -1096,7 +1133,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                           {index === 0 ? '1st Place' : index === 1 ? '2nd Place' : '3rd Place'}
                         </SliderLabel>
                         <SliderValue color={color}>
-                          {percentage.toFixed(1)}%
+                          {formatPrizeSplit(split)}
                         </SliderValue>
                       </SliderTrack>
                       
@@ -1106,7 +1143,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                           step="0.1"
                           min="0"
                           max="100"
-                          value={split > 0 ? (split / 10).toFixed(1) : ""}
+                          value={split > 0 ? (split / SPLIT_PER_PERCENT).toFixed(1) : ""}
                           onChange={(e) => handleSplitChange(index, e.target.value)}
                           placeholder="0"
                           isActive={isActive}
@@ -1146,7 +1183,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
               {splits.map((split, index) => {
                 const colors = ['#FFD700', '#C0C0C0', '#CD7F32'];
                 const color = colors[index] || '#666';
-                const percentage = Math.round(split / 10 * 10) / 10;
+                const percentage = Math.round(split / SPLIT_PER_PERCENT * 10) / 10;
                 const isActive = activeAdjustment === index;
                 const isLocked = lockedIndices[index];
                 
@@ -1211,7 +1248,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                       </AdjustButton>
                       
                       <PercentageDisplay color={color}>
-                        {percentage.toFixed(1)}%
+                        {formatPrizeSplit(split)}
                       </PercentageDisplay>
                       
                       <AdjustButton
@@ -1233,7 +1270,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                         step="0.1"
                         min="0"
                         max="100"
-                        value={split > 0 ? (split / 10).toFixed(1) : ""}
+                        value={split > 0 ? (split / SPLIT_PER_PERCENT).toFixed(1) : ""}
                         onChange={(e) => handleSplitChange(index, e.target.value)}
                         placeholder="0"
                         isActive={isActive}
@@ -1260,7 +1297,7 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
                       step="1"
                       min="0"
                       max="100"
-                      value={split > 0 ? Math.round(split / 10).toString() : ""}
+                      value={split > 0 ? Math.round(split / SPLIT_PER_PERCENT).toString() : ""}
                       onChange={(e) => handleSplitChange(index, e.target.value)}
                       placeholder="0"
                     />
@@ -1302,12 +1339,12 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
             >
               <ProgressRing percentage={Math.min(totalPercentage, 100)} isValid={totalPercentage === 100}>
                 <RingContent>
-                  {totalPercentage.toFixed(1)}%
+                  {formatSplitPercent(splitTotal)}
                 </RingContent>
               </ProgressRing>
               <div>
                 <div style={{ fontSize: '1.1rem' }}>
-                  {totalPercentage === 100 ? '✓ Perfect Split!' : `${totalPercentage.toFixed(1)}% of 100%`}
+                  {totalPercentage === 100 ? '✓ Perfect Split!' : `${formatSplitPercent(splitTotal)} of 100%`}
                 </div>
                 {totalPercentage !== 100 && (
                   <div style={{ fontSize: '0.875rem', opacity: 0.7 }}>
@@ -1317,6 +1354,19 @@ const PrizeSplitsModal: React.FC<PrizeSplitsModalProps> = ({
               </div>
             </TotalIndicator>
           )}
+
+          {prizePreview && (
+            <PrizePreview role="region" aria-label="Prize preview">
+              {prizePreview.map((prize, index) => (
+                <div className="row" key={index}>
+                  <span>{['🥇 1st', '🥈 2nd', '🥉 3rd'][index] || `${index + 1}th`} Place</span>
+                  <span className="amount">
+                    {formatAmount(prize, previewToken?.decimals ?? 18, { maxDecimals: 6, locale: 'en-US' })} {previewToken?.symbol || 'ETH'}
+                  </span>
+                </div>
+              ))}
+            </PrizePreview>
+          )}
           
           {splits.length === 0 && (
             <StatusMessage type="info">
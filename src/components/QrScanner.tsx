@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from '@emotion/styled';
+import { CameraOff } from 'lucide-react';
+import { blockTheme } from '../styles/blocks';
+import { createQrDetector } from '../utils/qrCode';
+import { SimpleRetroLoader } from './RetroLoader';
+
+// How often a video frame is handed to the detector
+const SCAN_INTERVAL_MS = 250;
+
+const ScannerFrame = styled.div`
+  position: relative;
+  width: 100%;
+  aspect-ratio: 1;
+  max-height: 320px;
+  margin-bottom: 1.5rem;
+  background: ${blockTheme.darkText};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 16px;
+  overflow: hidden;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+
+  video {
+    width: 100%;
+    height: 100%;
+    object-fit: cover;
+  }
+`;
+
+const ScannerOverlay = styled.div`
+  position: absolute;
+  inset: 15%;
+  border: 3px dashed ${blockTheme.lightText};
+  border-radius: 12px;
+  pointer-events: none;
+`;
+
+const ScannerMessage = styled.div`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 0.75rem;
+  padding: 1.5rem;
+  text-align: center;
+  color: ${blockTheme.lightText};
+  font-weight: 600;
+`;
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+}
+
+/**
+ * Live camera preview that reports the first QR code it reads. The camera is released as soon
+ * as a code is found or the scanner unmounts.
+ */
+export const QrScanner: React.FC<QrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [status, setStatus] = useState<'starting' | 'scanning' | 'error'>('starting');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+
+    const start = async () => {
+      const detector = await createQrDetector();
+      if (!detector) {
+        setError('This browser cannot scan QR codes. Use your phone camera app on the code instead, or type it in.');
+        setStatus('error');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      } catch (err: any) {
+        console.warn('Camera unavailable for QR scanning:', err);
+        setError(err?.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in your browser settings to scan a code.'
+          : 'Could not start the camera.');
+        setStatus('error');
+        return;
+      }
+
+      const video = videoRef.current;
+      if (stopped || !video) {
+        stop();
+        return;
+      }
+
+      video.srcObject = stream;
+      await video.play().catch(() => {});
+      setStatus('scanning');
+
+      let detecting = false;
+      timer = setInterval(async () => {
+        if (detecting || stopped || video.readyState < 2) return;
+        detecting = true;
+        try {
+          const value = await detector.detect(video);
+          if (value && !stopped) {
+            console.log('📷 Scanned QR code:', value);
+            stop();
+            onScanRef.current(value);
+          }
+        } catch (err) {
+          console.warn('QR detection failed:', err);
+        } finally {
+          detecting = false;
+        }
+      }, SCAN_INTERVAL_MS);
+    };
+
+    start();
+    return stop;
+  }, []);
+
+  return (
+    <ScannerFrame>
+      <video ref={videoRef} muted playsInline />
+      {status === 'scanning' && <ScannerOverlay />}
+      {status === 'starting' && (
+        <ScannerMessage>
+          <SimpleRetroLoader size="sm" />
+          Starting camera...
+        </ScannerMessage>
+      )}
+      {status === 'error' && (
+        <ScannerMessage>
+          <CameraOff size={32} />
+          {error}
+        </ScannerMessage>
+      )}
+    </ScannerFrame>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from '@emotion/styled';
+import { X, RotateCw, Users, Coins } from 'lucide-react';
+import { blockTheme } from '../styles/blocks';
+import { generateASCIIGameCode } from '../utils/asciiArt';
+import { GameQrCode } from './GameQrCode';
+
+const Overlay = styled.div`
+  position: fixed;
+  inset: 0;
+  z-index: 2000;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: ${blockTheme.pastelYellow};
+  color: ${blockTheme.darkText};
+  overflow: hidden;
+`;
+
+const Content = styled.div<{ $flipped: boolean }>`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 1.5rem;
+  padding: 1.5rem;
+  transform: rotate(${({ $flipped }) => ($flipped ? 180 : 0)}deg);
+  transition: transform 0.3s ease;
+`;
+
+const QrFrame = styled.div`
+  padding: 1rem;
+  background: ${blockTheme.lightText};
+  border: 4px solid ${blockTheme.darkText};
+  border-radius: 16px;
+  box-shadow: 8px 8px 0px ${blockTheme.shadowDark};
+`;
+
+const AsciiCode = styled.pre`
+  margin: 0;
+  font-family: 'Courier New', monospace;
+  font-size: clamp(0.5rem, 2.2vw, 1.1rem);
+  line-height: 1.1;
+  font-weight: 700;
+`;
+
+const TableStats = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 1.5rem;
+  font-size: 1.25rem;
+  font-weight: 700;
+
+  span {
+    display: inline-flex;
+    align-items: center;
+    gap: 0.5rem;
+  }
+`;
+
+const Controls = styled.div`
+  position: absolute;
+  top: 1rem;
+  right: 1rem;
+  display: flex;
+  gap: 0.75rem;
+`;
+
+const ControlButton = styled.button`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 48px;
+  height: 48px;
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 50%;
+  background: ${blockTheme.pastelBlue};
+  color: ${blockTheme.darkText};
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  cursor: pointer;
+`;
+
+// Screen Wake Lock API; not in TypeScript's DOM lib for this target
+interface WakeLockSentinel {
+  release(): Promise<void>;
+}
+
+interface WakeLockNavigator {
+  wakeLock?: { request(type: 'screen'): Promise<WakeLockSentinel> };
+}
+
+interface TableDisplayProps {
+  gameCode: string;
+  joinUrl: string;
+  buyIn: string;
+  playerCount: number;
+  maxPlayers: number;
+  onClose: () => void;
+}
+
+/**
+ * Fullscreen "table display" for a phone lying on the table: a large QR code and the ASCII game
+ * code, kept awake while open. The flip button turns it to face players on the other side.
+ */
+export const TableDisplay: React.FC<TableDisplayProps> = ({ gameCode, joinUrl, buyIn, playerCount, maxPlayers, onClose }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [flipped, setFlipped] = useState(false);
+
+  // Go fullscreen and keep the screen on; both are best effort and fail quietly where unsupported
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (overlay?.requestFullscreen && !document.fullscreenElement) {
+      overlay.requestFullscreen().catch(error => console.warn('Fullscreen unavailable:', error));
+    }
+
+    let wakeLock: WakeLockSentinel | null = null;
+    let released = false;
+    const requestWakeLock = async () => {
+      const { wakeLock: wakeLockApi } = navigator as Navigator & WakeLockNavigator;
+      if (!wakeLockApi || document.visibilityState !== 'visible') return;
+      try {
+        const sentinel = await wakeLockApi.request('screen');
+        if (released) {
+          sentinel.release();
+        } else {
+          wakeLock = sentinel;
+        }
+      } catch (error) {
+        console.warn('Screen wake lock unavailable:', error);
+      }
+    };
+
+    // The browser drops the lock whenever the page is hidden
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') requestWakeLock();
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      wakeLock?.release().catch(() => {});
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  // Leaving fullscreen (Esc or the system back gesture) closes the display
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) onClose();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <Overlay ref={overlayRef}>
+      <Controls>
+        <ControlButton onClick={() => setFlipped(prev => !prev)} title="Flip to face the other side of the table">
+          <RotateCw size={20} />
+        </ControlButton>
+        <ControlButton onClick={onClose} title="Close table display" style={{ background: blockTheme.pastelCoral }}>
+          <X size={20} />
+        </ControlButton>
+      </Controls>
+
+      <Content $flipped={flipped}>
+        <QrFrame>
+          <GameQrCode value={joinUrl} size="min(70vw, 50vh)" title={`Scan to join ${gameCode}`} />
+        </QrFrame>
+        <AsciiCode aria-label={gameCode}>{generateASCIIGameCode(gameCode)}</AsciiCode>
+        <TableStats>
+          <span><Users size={20} />{playerCount}/{maxPlayers} players</span>
+          <span><Coins size={20} />{buyIn}</span>
+        </TableStats>
+        <div style={{ fontSize: '0.9rem', fontWeight: 600, opacity: 0.7 }}>
+          Scan with your phone camera or enter the code in Find Game
+        </div>
+      </Content>
+    </Overlay>
+  );
+};
+
+export default TableDisplay;
@@ -1,18 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import styled from '@emotion/styled';
 import { ArrowRightLeft, AlertCircle, ExternalLink } from 'lucide-react';
-import { BASE_TOKENS, getTokenByAddress, formatTokenAmount, isETH } from '../thirdweb';
+import { BASE_TOKENS, isETH, getERC20Contract, client, chain } from '../thirdweb';
 import { blockTheme, PixelText, BlockButton } from '../styles/blocks';
 import { useActiveAccount } from 'thirdweb/react';
 import { readContract, prepareContractCall } from 'thirdweb';
+import { getRpcClient, eth_getBalance } from 'thirdweb/rpc';
+import { formatAmount, tryParseAmount } from '../utils/amounts';
+import { useTokenInfo } from '../hooks/useTokenMetadata';
+import { getTokenAddress } from '../utils/bridgeFlow';
 
 interface TokenBalanceProps {
   tokenAddress: string;
-  requiredAmount?: string;
-  onBridgeNeeded?: (fromToken: string, toToken: string, amount: string) => void;
+  requiredAmount?: string; // Decimal token amount, e.g. "12.5"
+  onBridgeNeeded?: (fromToken: string, toToken: string, amount: string, fromChain: string) => void;
   showBridgeOption?: boolean;
+  refreshKey?: number; // Bump to re-read the balance, e.g. after a bridge lands
 }
 
+// Chains the bridge can pull funds from into the active chain
+const BRIDGE_SOURCE_CHAINS = [
+  { id: 'ethereum', name: 'Ethereum' },
+  { id: 'arbitrum', name: 'Arbitrum' },
+  { id: 'optimism', name: 'Optimism' },
+  { id: 'polygon', name: 'Polygon' }
+];
+
 const BalanceContainer = styled.div`
   background: ${blockTheme.lightBg};
   border: 3px solid ${blockTheme.darkText};
@@ -136,18 +149,19 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({
   tokenAddress,
   requiredAmount,
   onBridgeNeeded,
-  showBridgeOption = true
+  showBridgeOption = true,
+  refreshKey = 0
 }) => {
-  const [balance, setBalance] = useState<string>('0');
+  const [balance, setBalance] = useState<bigint>(BigInt(0));
   const [loading, setLoading] = useState(true);
   const [bridgeOptions, setBridgeOptions] = useState<any[]>([]);
   const account = useActiveAccount();
 
-  const token = getTokenByAddress(tokenAddress);
-  const requiredAmountNum = requiredAmount ? parseFloat(requiredAmount) : 0;
-  const balanceNum = parseFloat(balance);
-  const hasEnoughBalance = balanceNum >= requiredAmountNum;
-  const shortfall = requiredAmountNum - balanceNum;
+  const { token } = useTokenInfo(tokenAddress);
+  const decimals = token?.decimals ?? 18;
+  const required = (requiredAmount && tryParseAmount(requiredAmount, decimals)) || BigInt(0);
+  const hasEnoughBalance = balance >= required;
+  const shortfall = hasEnoughBalance ? BigInt(0) : required - balance;
 
   useEffect(() => {
     const fetchBalance = async () => {
@@ -159,56 +173,53 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({
       try {
         setLoading(true);
         
+        let rawBalance: bigint;
         if (isETH(tokenAddress)) {
-          // Fetch ETH balance
-          // In real implementation, you'd use a proper RPC call
-          setBalance('0.5'); // Placeholder
+          const rpcClient = getRpcClient({ client, chain });
+          rawBalance = await eth_getBalance(rpcClient, { address: account.address as `0x${string}` });
         } else {
-          // Fetch ERC20 token balance
-          // In real implementation, you'd call the token contract's balanceOf function
-          setBalance('100.0'); // Placeholder
+          rawBalance = await readContract({
+            contract: getERC20Contract(tokenAddress),
+            method: "function balanceOf(address owner) view returns (uint256)",
+            params: [account.address]
+          }) as bigint;
         }
+        setBalance(rawBalance);
       } catch (error) {
         console.error('Failed to fetch balance:', error);
-        setBalance('0');
+        setBalance(BigInt(0));
       } finally {
         setLoading(false);
       }
     };
 
     fetchBalance();
-  }, [account, tokenAddress, token]);
+  }, [account, tokenAddress, token, refreshKey]);
 
   useEffect(() => {
     const fetchBridgeOptions = async () => {
-      if (!hasEnoughBalance && shortfall > 0 && showBridgeOption) {
-        // In real implementation, you'd fetch bridge options from various chains
-        const mockOptions = [
-          {
-            fromChain: 'Ethereum',
-            fromToken: 'USDC',
-            estimatedTime: '~2 mins',
-            estimatedFee: '$1.50',
-            available: '50.0'
-          },
-          {
-            fromChain: 'Polygon',
-            fromToken: 'USDC',
-            estimatedTime: '~30s',
-            estimatedFee: '$0.10',
-            available: '25.0'
-          }
-        ];
-        setBridgeOptions(mockOptions);
+      if (!hasEnoughBalance && showBridgeOption) {
+        // Fees and ETA come from a live quote once the user picks a source chain. Bridge the same
+        // token, from chains where the bridge knows its address.
+        const fromToken = token?.symbol || '';
+        setBridgeOptions(BRIDGE_SOURCE_CHAINS
+          .filter(sourceChain => !!fromToken && !!getTokenAddress(fromToken, sourceChain.id))
+          .map(sourceChain => ({
+            fromChain: sourceChain.id,
+            fromChainName: sourceChain.name,
+            fromToken
+          })));
       }
     };
 
     fetchBridgeOptions();
-  }, [hasEnoughBalance, shortfall, showBridgeOption]);
+  }, [hasEnoughBalance, showBridgeOption, token?.symbol]);
 
   const handleBridge = (option: any) => {
     if (onBridgeNeeded) {
-      onBridgeNeeded(option.fromToken, token?.symbol || '', shortfall.toString());
+      // Round up so the bridged amount always covers the shortfall
+      const bridgeAmount = formatAmount(shortfall, decimals, { maxDecimals: 6, minDecimals: 6, rounding: 'ceil' });
+      onBridgeNeeded(option.fromToken, token?.symbol || '', bridgeAmount, option.fromChain);
     }
   };
 
@@ -218,11 +229,11 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({
     <BalanceContainer>
       <BalanceHeader>
         <TokenInfo>
-          <TokenIcon src={token.icon} alt={token.symbol} />
+          {token.icon && <TokenIcon src={token.icon} alt={token.symbol} />}
           <TokenSymbol>{token.symbol}</TokenSymbol>
         </TokenInfo>
         <BalanceAmount hasEnough={hasEnoughBalance}>
-          {loading ? '...' : `${balance} ${token.symbol}`}
+          {loading ? '...' : `${formatAmount(balance, decimals, { maxDecimals: 4, minDecimals: 4, rounding: 'floor' })} ${token.symbol}`}
         </BalanceAmount>
       </BalanceHeader>
 
@@ -237,7 +248,7 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({
           <InsufficientBanner>
             <AlertCircle size={16} />
             <InsufficientText>
-              Insufficient balance. Need {shortfall.toFixed(4)} more {token.symbol}
+              Insufficient balance. Need {formatAmount(shortfall, decimals, { maxDecimals: 4, minDecimals: 4, rounding: 'ceil' })} more {token.symbol}
             </InsufficientText>
           </InsufficientBanner>
 
@@ -251,12 +262,12 @@ export const TokenBalance: React.FC<TokenBalanceProps> = ({
                 <BridgeOption key={index}>
                   <BridgeInfo>
                     <BridgeFromTo>
-                      {option.fromChain} {option.fromToken}
+                      {option.fromChainName} {option.fromToken}
                       <ArrowRightLeft size={14} />
                       Base {token.symbol}
                     </BridgeFromTo>
                     <BridgeEstimate>
-                      {option.estimatedTime} • {option.estimatedFee} • Available: {option.available}
+                      Get a live quote with fees and ETA
                     </BridgeEstimate>
                   </BridgeInfo>
                   <BridgeActionButton onClick={() => handleBridge(option)}>
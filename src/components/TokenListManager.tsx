@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import styled from '@emotion/styled';
+import toast from 'react-hot-toast';
+import { ListPlus, Trash2 } from 'lucide-react';
+import { BlockButton, BlockInput, FlexBlock, blockTheme } from '../styles/blocks';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
+import { tokenRegistry, ImportedTokenList } from '../utils/tokenRegistry';
+
+// Styled components
+const ManagerContainer = styled.div`
+  margin-top: 0.75rem;
+  padding: 0.75rem;
+  background: ${blockTheme.pastelLavender};
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 10px;
+  font-size: 0.85rem;
+  color: ${blockTheme.darkText};
+`;
+
+const ToggleLink = styled.button`
+  margin-top: 0.5rem;
+  padding: 0;
+  background: none;
+  border: none;
+  font: inherit;
+  font-size: 0.8rem;
+  font-weight: 700;
+  color: ${blockTheme.retroPurple};
+  text-decoration: underline;
+  cursor: pointer;
+`;
+
+const ListRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.35rem 0;
+  border-bottom: 1px dashed ${blockTheme.textMuted};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const RemoveButton = styled.button`
+  display: inline-flex;
+  padding: 0.25rem;
+  background: none;
+  border: none;
+  color: ${blockTheme.error};
+  cursor: pointer;
+`;
+
+const countOnChain = (list: ImportedTokenList) =>
+  list.tokens.filter(token => token.chainId === ACTIVE_CHAIN.chain.id).length;
+
+/**
+ * Import and remove Uniswap-format token lists used to label custom tokens
+ */
+export const TokenListManager: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [lists, setLists] = useState<ImportedTokenList[]>(() => tokenRegistry.getTokenLists());
+
+  const handleImport = async () => {
+    if (!source.trim()) return;
+
+    setImporting(true);
+    const result = await tokenRegistry.importTokenList(source);
+    setImporting(false);
+
+    if (!result.success || !result.list) {
+      toast.error(result.error || 'Token list import failed');
+      return;
+    }
+
+    setLists(tokenRegistry.getTokenLists());
+    setSource('');
+    toast.success(`Imported ${result.tokensForChain} ${ACTIVE_CHAIN.name} tokens from "${result.list.name}"`);
+  };
+
+  const handleRemove = (name: string) => {
+    if (!window.confirm(`Remove the "${name}" token list?`)) return;
+    tokenRegistry.removeTokenList(name);
+    setLists(tokenRegistry.getTokenLists());
+  };
+
+  if (!isOpen) {
+    return (
+      <ToggleLink type="button" onClick={() => setIsOpen(true)}>
+        Manage token lists{lists.length > 0 ? ` (${lists.length})` : ''}
+      </ToggleLink>
+    );
+  }
+
+  return (
+    <ManagerContainer>
+      <FlexBlock gap="0.5rem" align="center">
+        <BlockInput
+          type="text"
+          placeholder="Token list URL or pasted JSON"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          style={{ padding: '0.5rem 0.75rem', fontSize: '0.85rem' }}
+        />
+        <BlockButton type="button" size="sm" onClick={handleImport} disabled={importing || !source.trim()}>
+          <ListPlus size={14} />
+          {importing ? 'Importing...' : 'Import'}
+        </BlockButton>
+      </FlexBlock>
+
+      <div style={{ marginTop: '0.5rem' }}>
+        {lists.length === 0 ? (
+          <span style={{ color: blockTheme.textSecondary }}>
+            No token lists yet. Lists use the Uniswap token-list format, e.g. https://tokens.uniswap.org
+          </span>
+        ) : (
+          lists.map(list => (
+            <ListRow key={list.name}>
+              <span>
+                <strong>{list.name}</strong>
+                {list.version && ` v${list.version}`} · {countOnChain(list)} tokens on {ACTIVE_CHAIN.name}
+              </span>
+              <RemoveButton type="button" onClick={() => handleRemove(list.name)} title={`Remove ${list.name}`}>
+                <Trash2 size={14} />
+              </RemoveButton>
+            </ListRow>
+          ))
+        )}
+      </div>
+
+      <ToggleLink type="button" onClick={() => setIsOpen(false)}>
+        Hide token lists
+      </ToggleLink>
+    </ManagerContainer>
+  );
+};
+
+export default TokenListManager;
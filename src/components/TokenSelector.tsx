@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import styled from '@emotion/styled';
 import { ChevronDown, Check } from 'lucide-react';
-import { BASE_TOKENS, getTokenByAddress, formatTokenAmount, parseTokenAmount, client, chain } from '../thirdweb';
+import { CHAIN_TOKENS, getTokenByAddress, formatTokenAmount, parseTokenAmount, isETH, client, chain } from '../thirdweb';
 import { blockTheme, PixelText } from '../styles/blocks';
 import { useActiveAccount } from 'thirdweb/react';
 import { readContract, getContract, getBalance } from 'thirdweb';
@@ -174,7 +174,7 @@ export const TokenSelector: React.FC<TokenSelectorProps> = ({
   const account = useActiveAccount();
 
   const selectedTokenInfo = getTokenByAddress(selectedToken);
-  const tokenOptions = Object.values(BASE_TOKENS);
+  const tokenOptions = CHAIN_TOKENS;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -205,18 +205,16 @@ export const TokenSelector: React.FC<TokenSelectorProps> = ({
           chain,
           address: account.address
         });
-        balances[BASE_TOKENS.ETH.address] = (Number(ethBalance.value) / 1e18).toFixed(4);
+        balances[CHAIN_TOKENS[0].address] = (Number(ethBalance.value) / 1e18).toFixed(4);
         
         // Fetch ERC20 token balances
-        const tokenAddresses = [
-          BASE_TOKENS.USDC.address,
-          BASE_TOKENS.USDT.address,
-          BASE_TOKENS.DAI.address
-        ];
+        const tokenAddresses = CHAIN_TOKENS
+          .filter(token => !isETH(token.address))
+          .map(token => token.address);
         
         await Promise.all(tokenAddresses.map(async (tokenAddress) => {
           try {
-            // Use known decimals from BASE_TOKENS configuration
+            // Use known decimals from the chain's token list
             const tokenInfo = getTokenByAddress(tokenAddress);
             const decimals = tokenInfo?.decimals || 18;
             
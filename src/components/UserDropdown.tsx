@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, List, TrendingUp, ChevronDown, Settings } from 'lucide-react';
+import { User, List, TrendingUp, ChevronDown, Settings, LogIn, LogOut } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { getDisplayNameInfo } from '../utils/userUtils';
 import { FlexBlock, blockTheme, Block, BlockButton } from '../styles/blocks';
@@ -149,7 +149,7 @@ export const UserDropdown: React.FC<UserDropdownProps> = ({
   onGameHistory,
   walletAddress
 }) => {
-  const { user } = useUser();
+  const { user, authEnabled, isAuthenticated, signIn, signOut } = useUser();
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
@@ -273,6 +273,20 @@ export const UserDropdown: React.FC<UserDropdownProps> = ({
               <TrendingUp size={16} />
               Game History
             </DropdownItem>
+
+            {authEnabled && (
+              isAuthenticated ? (
+                <DropdownItem onClick={() => handleItemClick(signOut)}>
+                  <LogOut size={16} />
+                  Sign Out
+                </DropdownItem>
+              ) : (
+                <DropdownItem onClick={() => handleItemClick(signIn)}>
+                  <LogIn size={16} />
+                  Sign In With Wallet
+                </DropdownItem>
+              )
+            )}
             </DropdownMenu>
           </>
         )}
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { X, User, Save, Trash2 } from 'lucide-react';
+import { X, User, Save, Trash2, AlertTriangle } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { getDisplayNameInfo } from '../utils/userUtils';
 import { ensCache } from '../utils/ensUtils';
 import { databaseService } from '../services/databaseService';
+import { USERNAME_RELEASE_COOLDOWN_DAYS } from '../utils/usernames';
 import { useActiveAccount } from "thirdweb/react";
 import {
   BlockModal,
@@ -32,7 +33,9 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
     checked: boolean;
     available: boolean;
     message?: string;
+    confusableWith?: string;
   }>({ checked: false, available: false });
+  const [previousUsernames, setPreviousUsernames] = useState<string[]>([]);
   const [displayInfo, setDisplayInfo] = useState<{
     displayName: string;
     method: 'username' | 'ens' | 'address';
@@ -61,6 +64,24 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
     }
   }, [isOpen, account?.address]);
 
+  // Load the user's earlier usernames
+  useEffect(() => {
+    if (!isOpen || !user?.id) return;
+
+    let cancelled = false;
+    databaseService.user.getUsernameHistory(user.id).then(history => {
+      if (cancelled) return;
+      const names = history
+        .map(entry => entry.old_username)
+        .filter((name): name is string => !!name && name !== user.username);
+      setPreviousUsernames(names.filter((name, index) => names.indexOf(name) === index));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user?.id, user?.username]);
+
   // Reset availability status when username changes
   useEffect(() => {
     setAvailabilityStatus({ checked: false, available: false });
@@ -77,15 +98,17 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
     setError(null);
 
     try {
-      const result = await databaseService.user.checkUsernameAvailability(username.trim());
+      const result = await databaseService.user.checkUsernameAvailability(username.trim(), user?.id);
       
       setAvailabilityStatus({
         checked: true,
         available: result.available,
-        message: result.error
+        message: result.error,
+        confusableWith: result.confusableWith
       });
 
-      if (!result.available && result.error) {
+      // Look-alike names get their own warning below
+      if (!result.available && result.error && !result.confusableWith) {
         setError(result.error);
       }
     } catch (error) {
@@ -160,6 +183,7 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
       setError(null);
       setAvailabilityStatus({ checked: false, available: false });
       setCheckingAvailability(false);
+      setPreviousUsernames([]);
       onClose();
     }
   };
@@ -279,9 +303,21 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
             margin: '0.5rem 0',
             lineHeight: '1.4'
           }}>
-            Requirements: 3-20 characters, letters, numbers, underscores, and hyphens only
+            Requirements: 3-20 characters, letters, numbers, underscores, and hyphens only.
+            Names that look like an existing one (e.g. "0" for "o") are not allowed, and a released
+            name stays reserved for its previous owner for {USERNAME_RELEASE_COOLDOWN_DAYS} days.
           </div>
 
+          {previousUsernames.length > 0 && (
+            <div style={{ 
+              fontSize: '0.75rem', 
+              color: blockTheme.textMuted, 
+              margin: '0.5rem 0'
+            }}>
+              Previously: {previousUsernames.join(', ')}
+            </div>
+          )}
+
           {/* Check Availability Button */}
           <FlexBlock gap="0.75rem" align="center" style={{ margin: '0.75rem 0' }}>
             <BlockButton
@@ -316,6 +352,28 @@ export const UsernameModal: React.FC<UsernameModalProps> = ({ isOpen, onClose })
             )}
           </FlexBlock>
 
+          {availabilityStatus.confusableWith && (
+            <div style={{ 
+              display: 'flex',
+              alignItems: 'flex-start',
+              gap: '0.5rem',
+              background: blockTheme.pastelYellow,
+              border: `3px solid ${blockTheme.darkText}`,
+              borderRadius: '8px',
+              padding: '0.75rem',
+              margin: '0.5rem 0',
+              fontSize: '0.8rem',
+              color: blockTheme.darkText,
+              lineHeight: '1.4'
+            }}>
+              <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: '0.1rem' }} />
+              <span>
+                "{username.trim()}" looks too much like the existing username <strong>"{availabilityStatus.confusableWith}"</strong>.
+                Other players could mistake you for them, so please choose a visibly different name.
+              </span>
+            </div>
+          )}
+
           {error && (
             <p style={{ 
               color: blockTheme.error, 
@@ -1,85 +1,57 @@
 import React, { createContext, useContext, useState, useCallback } from 'react';
-import { getGameContract, decodeStringFromHex, decodeGameStartedEvent, decodePlayerJoinedEvent, decodeGameCodeFromTopic, decodeGameLockedEvent, decodeWinnersReportedEvent, CONTRACT_ADDRESS } from '../thirdweb';
+import { getGameContract, CONTRACT_ADDRESS } from '../thirdweb';
 import { logBuyInInfo } from '../utils/buyInUtils';
 import { databaseService } from '../services/databaseService';
 import { useUser } from './UserContext';
 import { logger, logGameAction, logContractCall, logPerformance } from '../utils/logger';
-import { rpcManager } from '../utils/rpcManager';
+import { rpcManager, rpcRequest } from '../utils/rpcManager';
 import { validation } from '../utils/envUtils';
 import { pollForRecentGames } from '../utils/gamePolling';
+import { eventIndex, decodeIndexedLog, IndexedGameEvent } from '../utils/eventIndex';
+import { decodeGameEvents, getGameCodeHash, GameEvent } from '../utils/gameEvents';
+import { clampToDeploymentBlock, toAddressTopic } from '../utils/contractDeployment';
 
-import { readContract, getContractEvents, getRpcClient, eth_blockNumber, prepareEvent, eth_getLogs } from 'thirdweb';
-
-// Prepared events for deployed contract 0xEE39bFE97e165fd15C2B0c75D96ddFfa816DDD11
-// NOTE: GameCode is INDEXED (bytes32) in topics, not a string parameter
-const gameStartedEvent = prepareEvent({
-  signature: "event GameStarted(string code, address indexed host, address token, uint256 buyIn, uint256 maxPlayers, address[] judges)"
-});
-
-const judgeSetEvent = prepareEvent({
-  signature: "event JudgeSet(bytes32 indexed code, address indexed judge)"
-});
-
-const playerJoinedEvent = prepareEvent({
-  signature: "event PlayerJoined(bytes32 indexed code, address indexed player, uint256 amount)"
-});
-
-const playerRemovedEvent = prepareEvent({
-  signature: "event PlayerRemoved(bytes32 indexed code, address indexed participant)"
-});
-
-const gameLockedEvent = prepareEvent({
-  signature: "event GameLocked(bytes32 indexed code)"
-});
-
-const prizeSplitsSetEvent = prepareEvent({
-  signature: "event PrizeSplitsSet(bytes32 indexed code, uint256[] splits)"
-});
-
-const potAddedEvent = prepareEvent({
-  signature: "event PotIncreased(bytes32 indexed code, address indexed contributor, uint256 amount)"
-});
-
-const winnersReportedEvent = prepareEvent({
-  signature: "event WinnersReported(bytes32 indexed code, address indexed reporter, address[] winners)"
-});
-
-const winnerSetConfirmedEvent = prepareEvent({
-  signature: "event WinnerSetConfirmed(bytes32 indexed code, address[] winners)"
-});
-
-const winningsClaimedEvent = prepareEvent({
-  signature: "event WinningsClaimed(bytes32 indexed code, address indexed winner, address token, uint256 amount)"
-});
+import { readContract, getContractEvents, getRpcClient, eth_blockNumber, eth_getLogs } from 'thirdweb';
 
 // Constants for blockchain searching
 const BLOCKS_IN_6_DAYS = 43200; // Approximately 6 days worth of blocks (assuming ~12 second blocks)
 
-// All events array for comprehensive searching - Updated for UP2.1 contract
-const allGameEvents = [
-  gameStartedEvent,
-  judgeSetEvent,
-  playerJoinedEvent,
-  playerRemovedEvent,
-  gameLockedEvent,
-  prizeSplitsSetEvent,
-  potAddedEvent,
-  winnersReportedEvent,
-  winnerSetConfirmedEvent,
-  winningsClaimedEvent
-];
+// eth_getLogs topics: null matches anything, an array matches any of its entries
+export type LogTopicFilter = (string | string[] | null)[];
+
+// An address can be indexed at topic 1 (GameStarted host), or at topic 2 (PlayerJoined player,
+// WinningsClaimed winner, WinnersReported reporter), so user scans query every position
+const getUserTopicFilters = (userAddress: string): LogTopicFilter[] => {
+  const userTopic = toAddressTopic(userAddress);
+  return [
+    [null, userTopic],
+    [null, null, userTopic],
+    [null, null, null, userTopic]
+  ];
+};
+
+// Logs matched by more than one query come back once
+const dedupeLogs = (logs: any[]): any[] => logs.filter((log, index, self) =>
+  index === self.findIndex(l =>
+    l.blockNumber === log.blockNumber &&
+    l.transactionIndex === log.transactionIndex &&
+    l.logIndex === log.logIndex
+  )
+);
 
 // Direct RPC function using Thirdweb client with chunking (replaces getContractEvents)
-async function getEventsViaRPC({
+export async function getEventsViaRPC({
   contract,
   fromBlock,
   toBlock,
   userAddress,
+  topics,
 }: {
   contract: any;
   fromBlock: number;
   toBlock: number;
   userAddress?: string;
+  topics?: LogTopicFilter; // Explicit topic filter, used instead of the userAddress positions
 }): Promise<any[]> {
   const totalBlocks = toBlock - fromBlock + 1;
   
@@ -96,6 +68,7 @@ async function getEventsViaRPC({
       fromBlock,
       toBlock,
       userAddress,
+      topics,
     });
   }
   
@@ -113,24 +86,24 @@ async function getEventsViaRPC({
       totalBlocks
     });
     
-    // Since we're only using Thirdweb for small ranges now, make single request
+    // Since we're only using Thirdweb for small ranges now, no chunking is needed
     {
-      const filter: any = {
+      const baseFilter: any = {
         address: contract.address,
         fromBlock: BigInt(fromBlock),
         toBlock: BigInt(toBlock),
       };
       
-      // If userAddress provided, add topic filter for user involvement
-      if (userAddress) {
-        const userTopic = `0x000000000000000000000000${userAddress.slice(2).toLowerCase()}`;
-        filter.topics = [
-          null, // Any event signature
-          userTopic // User address in indexed parameters
-        ];
-      }
+      // Explicit topics win; otherwise filter for user involvement if userAddress provided
+      const topicFilters: (LogTopicFilter | undefined)[] = topics
+        ? [topics]
+        : userAddress ? getUserTopicFilters(userAddress) : [undefined];
       
-      const logs = await eth_getLogs(rpcClient, filter);
+      const allLogs: any[] = [];
+      for (const topicFilter of topicFilters) {
+        allLogs.push(...await eth_getLogs(rpcClient, topicFilter ? { ...baseFilter, topics: topicFilter } : baseFilter));
+      }
+      const logs = dedupeLogs(allLogs);
       logger.debug(`Thirdweb request completed`, {
         component: 'GameDataContext',
         logsFound: logs.length
@@ -151,6 +124,7 @@ async function getEventsViaRPC({
       fromBlock,
       toBlock,
       userAddress,
+      topics,
     });
   }
 }
@@ -161,11 +135,13 @@ async function getEventsFromDirectRPC({
   fromBlock,
   toBlock,
   userAddress,
+  topics,
 }: {
   contractAddress: string;
   fromBlock: number;
   toBlock: number;
   userAddress?: string;
+  topics?: LogTopicFilter;
 }): Promise<any[]> {
   const totalBlocks = toBlock - fromBlock + 1;
   
@@ -184,13 +160,10 @@ async function getEventsFromDirectRPC({
       toBlock: `0x${toBlock.toString(16)}`,
     };
     
-    if (userAddress) {
-      const userTopic = `0x000000000000000000000000${userAddress.slice(2).toLowerCase()}`;
-      return [
-        { ...baseParams, topics: [null, userTopic] },           // User in 1st indexed position
-        { ...baseParams, topics: [null, null, userTopic] },     // User in 2nd indexed position  
-        { ...baseParams, topics: [null, null, null, userTopic] } // User in 3rd indexed position
-      ];
+    if (topics) {
+      return [{ ...baseParams, topics }];
+    } else if (userAddress) {
+      return getUserTopicFilters(userAddress).map(topicFilter => ({ ...baseParams, topics: topicFilter }));
     } else {
       return [{ ...baseParams }]; // All events
     }
@@ -257,13 +230,7 @@ async function getEventsFromDirectRPC({
       }
       
       // Remove duplicates by block number + transaction index + log index
-      const uniqueLogs = allLogs.filter((log, index, self) => 
-        index === self.findIndex(l => 
-          l.blockNumber === log.blockNumber && 
-          l.transactionIndex === log.transactionIndex && 
-          l.logIndex === log.logIndex
-        )
-      );
+      const uniqueLogs = dedupeLogs(allLogs);
       
       console.log(`✅ Successfully got ${uniqueLogs.length} unique events from ${endpoint.name}`);
       
@@ -295,26 +262,9 @@ async function getEventsFromDirectRPC({
     }
   }
   
-  return [];
-}
-
-// Helper function to get event name from signature (copied from pony-upv4)
-function getEventName(signature?: string): string | null {
-  if (!signature) return null;
-  
-  const eventMap: Record<string, string> = {
-    // All signatures verified from deployed contract 0xEE39bFE97e165fd15C2B0c75D96ddFfa816DDD11
-    '0x20a19639733fdd02c1279a77aa77a1d0b8c360163bc4b6f2c72c1d1dcd47ae8e': 'GameStarted',
-    '0x677e9fb27b04f2cf5b63c58aacebac069b21b080b14b9184945ba8185f640747': 'PlayerJoined',
-    '0xe3574ea7f4f8590b62692642ffda0055801ec44f42c76bcaa9c45453da24319f': 'GameLocked',
-    '0xf52362634e34f5b1490607672dcb7219533f764a2974c04683172f19da9bf19d': 'WinnersReported',
-    '0x416944ecc005c7f1d6aa7aff4d0ab1d83d4a6ec66a92cf51b44b7a9170d54c63': 'WinnerSetConfirmed',
-    '0x3ee093fc8573d26f751985673e011ce7062f60ec12ac816784caa688d1b65fdc': 'WinningsClaimed',
-    '0x97caf7f2c502e6304676669c62071c54129ee9878145b4cda4b9c69789488409': 'PotIncreased',
-    '0xb419b2a1f4a77fef0217ee6d70b6979d58ea89fac3ef69218feb2492da8b7bd1': 'UIProviderRegistered'
-  };
-  
-  return eventMap[signature.toLowerCase()] || null;
+  // Every endpoint was rate limited or failed. An empty result would read as "no events" and
+  // let the event index drop stored events in this range, so report the failure instead.
+  throw new Error(`No RPC endpoint could fetch logs for blocks ${fromBlock}-${toBlock}`);
 }
 
 // Ultra-efficient wallet-based transaction finder using RpcManager
@@ -440,7 +390,7 @@ async function findLastUserTransaction(
   // Search backwards from current block in 5000-block chunks
   for (let i = 0; i < MAX_SEARCH_ITERATIONS; i++) {
     const toBlock = currentBlock - (i * SEARCH_CHUNK);
-    const fromBlock = Math.max(0, toBlock - SEARCH_CHUNK + 1);
+    const fromBlock = clampToDeploymentBlock(toBlock - SEARCH_CHUNK + 1);
     
     if (fromBlock >= toBlock || fromBlock < 0) break;
     
@@ -623,6 +573,8 @@ export interface GameData {
   // Game completion status
   isCompleted?: boolean;
   totalWinningsClaimed?: string;
+  // Block of the latest indexed event for this game
+  blockNumber?: number;
 }
 
 interface GameDataContextType {
@@ -631,7 +583,7 @@ interface GameDataContextType {
   error: string | null;
   fetchRecentGames: (userAddress?: string, displayLimit?: number) => Promise<void>;
   addFoundGame: (gameCode: string, userAddress?: string) => Promise<GameData>;
-  recordGameJoin: (gameCode: string, buyInAmount: string, gameType?: string) => Promise<void>;
+  recordGameJoin: (gameCode: string, buyInAmount: string, gameType?: string, tokenAddress?: string) => Promise<void>;
   updateGameResult: (gameCode: string, result: 'won' | 'lost', winnings?: string) => Promise<void>;
 }
 
@@ -641,7 +593,7 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   const [games, setGames] = useState<GameData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useUser();
+  const { user, signIn } = useUser();
 
   const fetchRecentGames = useCallback(async (userAddress?: string, displayLimit: number = 3) => {
     if (!userAddress) {
@@ -667,6 +619,7 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       console.log('🔍 Finding games for wallet:', userAddress);
       
       const gameCodesSet = new Set<string>();
+      const gameBlockNumbers = new Map<string, number>();
       
       console.log('🚀 Smart search strategy: Find last transaction, then search around it');
       
@@ -677,52 +630,29 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       try {
         // ENHANCED APPROACH: First check for very recent games, then use wallet-based search  
         const contract = await getGameContract();
-        
-        // Step 1: Check for new games in the last 5000 blocks (most recent activity)
-        console.log('🔍 First checking for very recent games in last 5000 blocks...');
-        const recentFromBlock = Math.max(0, currentBlock - 5000);
-        
-        const recentEvents = await getEventsViaRPC({
+        const fetchUserLogs = (fromBlock: number, toBlock: number) => getEventsViaRPC({
           contract,
-          fromBlock: recentFromBlock,
-          toBlock: currentBlock,
+          fromBlock,
+          toBlock,
           userAddress: userAddress,
         });
         
-        console.log(`📊 Found ${recentEvents.length} recent events in last 5000 blocks`);
-        
-        // Step 2: Find last wallet interaction for broader historical search
-        const lastInteractionBlock = await findLastContractInteraction(userAddress, contract.address, currentBlock);
-        
-        let historicalEvents: any[] = [];
-        if (lastInteractionBlock) {
-          console.log(`🎯 Last wallet interaction at block ${lastInteractionBlock}, searching focused range`);
-          
-          // Step 3: Focused search around the last interaction (much smaller range)
-          const searchRadius = 10000; // 20k total blocks (10k before + 10k after)  
-          const searchFromBlock = Math.max(0, lastInteractionBlock - searchRadius);
-          const searchToBlock = Math.min(lastInteractionBlock + searchRadius, Math.max(recentFromBlock - 1, lastInteractionBlock)); // Don't overlap with recent search
-          
-          if (searchToBlock > searchFromBlock) {
-            console.log(`🔍 Historical search: blocks ${searchFromBlock} to ${searchToBlock} (±${searchRadius}, ~20k total)`);
-            
-            historicalEvents = await getEventsViaRPC({
-              contract,
-              fromBlock: searchFromBlock,
-              toBlock: searchToBlock,
-              userAddress: userAddress,
-            });
-            
-            console.log(`👤 Found ${historicalEvents.length} historical events involving user`);
+        // Step 0: If this wallet was indexed before, only fetch the delta since the last sync
+        let indexedGames: { gameCode: string; blockNumber: number }[] | null = null;
+        if (eventIndex.isSupported()) {
+          try {
+            const syncState = await eventIndex.getSyncState(userAddress);
+            if (syncState) {
+              console.log(`🗄️ Event index last synced at block ${syncState.lastSyncedBlock}, fetching delta only`);
+              await eventIndex.sync(userAddress, currentBlock, fetchUserLogs, syncState.lastSyncedBlock);
+              indexedGames = await eventIndex.getGameCodesForParticipant(userAddress);
+            }
+          } catch (error) {
+            console.warn('⚠️ Event index unavailable, falling back to full scan:', error);
+            indexedGames = null;
           }
-        } else {
-          console.log('📭 No wallet interactions found with contract, using fallback search');
         }
         
-        // Combine recent and historical events
-        const userInvolvedEvents = [...recentEvents, ...historicalEvents];
-        console.log(`👤 Found ${userInvolvedEvents.length} total events involving user (${recentEvents.length} recent + ${historicalEvents.length} historical)`);
-        
         // NEW: Try polling for very recent games first (last 50 blocks)
         console.log('🔄 Trying polling for very recent games...');
         try {
@@ -740,63 +670,83 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           console.warn('⚠️ Polling failed, continuing with event processing:', error);
         }
         
-        // Sort events by block number (newest first)
-        const sortedEvents = userInvolvedEvents.sort((a: any, b: any) => {
-          const blockA = parseInt(a.blockNumber, 16);
-          const blockB = parseInt(b.blockNumber, 16);
-          return blockB - blockA;
-        });
-        
-        // Process events to extract game codes (skip if we already have enough from polling)
-        if (gameCodesSet.size < displayLimit) {
-          sortedEvents.forEach((event: any) => {
-            if (gameCodesSet.size >= displayLimit) return; // Stop once we have enough
-            
-            let gameCode = null;
-            const eventSignature = event.topics?.[0];
-            const eventName = getEventName(eventSignature);
+        if (!indexedGames) {
+          // Step 1: Check for new games in the last 5000 blocks (most recent activity)
+          console.log('🔍 First checking for very recent games in last 5000 blocks...');
+          const recentFromBlock = clampToDeploymentBlock(currentBlock - 5000);
+          
+          const recentEvents = await fetchUserLogs(recentFromBlock, currentBlock);
+          
+          console.log(`📊 Found ${recentEvents.length} recent events in last 5000 blocks`);
+          
+          // Step 2: Find last wallet interaction for broader historical search
+          const lastInteractionBlock = await findLastContractInteraction(userAddress, contract.address, currentBlock);
+          
+          let historicalEvents: any[] = [];
+          let historicalRange: [number, number] | null = null;
+          if (lastInteractionBlock) {
+            console.log(`🎯 Last wallet interaction at block ${lastInteractionBlock}, searching focused range`);
             
-            // Use appropriate decoder based on event type (UPDATED signatures from deployed contract)
-            switch (eventSignature) {
-              case '0x20a19639733fdd02c1279a77aa77a1d0b8c360163bc4b6f2c72c1d1dcd47ae8e': // GameStarted (FIXED)
-                if (event.data && event.data.length > 2) {
-                  const gameStartedData = decodeGameStartedEvent(event.data);
-                  gameCode = gameStartedData?.code || null;
-                }
-                break;
-              case '0x677e9fb27b04f2cf5b63c58aacebac069b21b080b14b9184945ba8185f640747': // PlayerJoined (FIXED)
-                // Game code is in topics[1], not data
-                gameCode = decodePlayerJoinedEvent(event.topics);
-                break;
-              case '0xe3574ea7f4f8590b62692642ffda0055801ec44f42c76bcaa9c45453da24319f': // GameLocked (matches)
-                // Game code is in topics[1], not data
-                gameCode = event.topics && event.topics[1] ? decodeGameCodeFromTopic(event.topics[1]) : null;
-                break;
-              case '0xf52362634e34f5b1490607672dcb7219533f764a2974c04683172f19da9bf19d': // WinnersReported (FIXED)
-                // Game code is in topics[1], not data
-                gameCode = event.topics && event.topics[1] ? decodeGameCodeFromTopic(event.topics[1]) : null;
-                break;
-              case '0x3ee093fc8573d26f751985673e011ce7062f60ec12ac816784caa688d1b65fdc': // WinningsClaimed (FIXED)
-                // Game code is in topics[1], not data
-                gameCode = event.topics && event.topics[1] ? decodeGameCodeFromTopic(event.topics[1]) : null;
-                break;
-              default:
-                console.log(`🔍 Unknown event signature: ${eventSignature}, trying topic decoder`);
-                // Try decoding from topics first (indexed code), fallback to data
-                gameCode = event.topics && event.topics[1] ? decodeGameCodeFromTopic(event.topics[1]) : null;
-                if (!gameCode && event.data && event.data.length > 2) {
-                  gameCode = decodeStringFromHex(event.data);
-                }
-                break;
-            }
+            // Step 3: Focused search around the last interaction (much smaller range)
+            const searchRadius = 10000; // 20k total blocks (10k before + 10k after)  
+            const searchFromBlock = clampToDeploymentBlock(lastInteractionBlock - searchRadius);
+            const searchToBlock = Math.min(lastInteractionBlock + searchRadius, Math.max(recentFromBlock - 1, lastInteractionBlock)); // Don't overlap with recent search
             
-            if (gameCode && gameCode.length >= 3 && gameCode.length <= 10 && /^[A-Z0-9-]+$/i.test(gameCode)) {
-              gameCodesSet.add(gameCode);
-              console.log(`✨ Added game from ${eventName || 'unknown'} event: ${gameCode}`);
+            if (searchToBlock > searchFromBlock) {
+              console.log(`🔍 Historical search: blocks ${searchFromBlock} to ${searchToBlock} (±${searchRadius}, ~20k total)`);
+              
+              historicalEvents = await fetchUserLogs(searchFromBlock, searchToBlock);
+              historicalRange = [searchFromBlock, searchToBlock];
+              
+              console.log(`👤 Found ${historicalEvents.length} historical events involving user`);
             }
-          });
+          } else {
+            console.log('📭 No wallet interactions found with contract, using fallback search');
+          }
+          
+          // Combine recent and historical events
+          const userInvolvedEvents = [...recentEvents, ...historicalEvents];
+          console.log(`👤 Found ${userInvolvedEvents.length} total events involving user (${recentEvents.length} recent + ${historicalEvents.length} historical)`);
+          
+          // Seed the event index so the next load only fetches the delta. The two windows are recorded
+          // separately: recording across the gap between them would drop stored events in it as reorged.
+          if (eventIndex.isSupported()) {
+            (historicalRange
+              ? eventIndex.recordLogs(userAddress, historicalEvents, historicalRange[0], historicalRange[1])
+              : Promise.resolve())
+              .then(() => eventIndex.recordLogs(userAddress, recentEvents, recentFromBlock, currentBlock))
+              .catch(error => {
+                console.warn('⚠️ Failed to seed event index:', error);
+              });
+          }
+          
+          // Sort events by block number (newest first) and extract game codes. Events of games the
+          // user joined but did not host only carry the code hash, so resolve it first.
+          const lookupCode = await eventIndex.getCodeLookup(userInvolvedEvents);
+          indexedGames = [];
+          const seenCodes = new Set<string>();
+          userInvolvedEvents
+            .map((event: any) => decodeIndexedLog(event, userAddress, lookupCode))
+            .filter((event): event is IndexedGameEvent => event !== null)
+            .sort((a, b) => b.blockNumber - a.blockNumber)
+            .forEach(event => {
+              if (event.gameCode && !seenCodes.has(event.gameCode)) {
+                seenCodes.add(event.gameCode);
+                indexedGames!.push({ gameCode: event.gameCode, blockNumber: event.blockNumber });
+              }
+            });
         }
         
+        // Process indexed games (skip if we already have enough from polling)
+        indexedGames.forEach(({ gameCode, blockNumber }) => {
+          gameBlockNumbers.set(gameCode, blockNumber);
+          if (gameCodesSet.size >= displayLimit) return; // Stop once we have enough
+          if (!gameCodesSet.has(gameCode)) {
+            gameCodesSet.add(gameCode);
+            console.log(`✨ Added game from event index: ${gameCode} (block ${blockNumber})`);
+          }
+        });
+        
       } catch (error) {
         console.error('❌ Smart search failed:', error);
         setGames([]);
@@ -813,7 +763,7 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         try {
           console.log('🔄 Extended fallback: Searching last 10 days with recent block emphasis...');
           const extendedBlocks = Math.floor(BLOCKS_IN_6_DAYS * 1.67); // ~10 days
-          const fallbackFromBlock = Math.max(0, currentBlock - extendedBlocks);
+          const fallbackFromBlock = clampToDeploymentBlock(currentBlock - extendedBlocks);
           const fallbackContract = await getGameContract();
           
           const fallbackEvents = await getEventsViaRPC({
@@ -826,41 +776,11 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           console.log(`📦 Extended fallback found ${fallbackEvents.length} events in last 10 days`);
           
           const fallbackGameCodes = new Set<string>();
-          fallbackEvents.forEach((event: any) => {
-            let gameCode = null;
-            const eventSignature = event.topics?.[0];
-            const eventName = getEventName(eventSignature);
-            
-            // Use appropriate decoder based on event type
-            if (event.data && event.data.length > 2) {
-              switch (eventSignature) {
-                case '0xf38f031a0916124649a52ef62ca68c773c22f2386d78bb4aed755a298c7b18d3': // GameStarted
-                  const gameStartedData = decodeGameStartedEvent(event.data);
-                  gameCode = gameStartedData?.code || null;
-                  break;
-                case '0x651823ece9ef08ab9d5d4e19bebb603e316362fb41f7ee2e03e7f1684c1852b4': // PlayerJoined
-                  gameCode = decodePlayerJoinedEvent(event.data);
-                  break;
-                case '0xe3574ea7f4f8590b62692642ffda0055801ec44f42c76bcaa9c45453da24319f': // GameLocked
-                  gameCode = decodeGameLockedEvent(event.data);
-                  break;
-                case '0xf8ff7b65f89533529cfb22afeca74e7a0a22760b35258fa00cf0388cd2c13bb3': // WinnersReported
-                  gameCode = decodeWinnersReportedEvent(event.data);
-                  break;
-                case '0x7175967b5ddee4d7986318165167133a8c193aa59b05f411ec131d4f124a3f3d': // WinningsClaimed
-                case '0x8a3f510bd40a2bff6e6502777e1359083e910aef0aa28a765f4fa8d84871ba67': // PrizeSplitsSet
-                  gameCode = decodeStringFromHex(event.data); // Fallback for simple events
-                  break;
-                default:
-                  console.log(`🔍 Fallback: Unknown event signature: ${eventSignature}, using fallback decoder`);
-                  gameCode = decodeStringFromHex(event.data);
-                  break;
-              }
-            }
-            
+          decodeGameEvents(fallbackEvents).forEach(event => {
+            const gameCode = event.code;
             if (gameCode && gameCode.length >= 3 && gameCode.length <= 10 && /^[A-Z0-9-]+$/i.test(gameCode)) {
               fallbackGameCodes.add(gameCode);
-              console.log(`✨ Fallback found game from ${eventName || 'unknown'} event: ${gameCode}`);
+              console.log(`✨ Fallback found game from ${event.name} event: ${gameCode}`);
             }
           });
           
@@ -890,7 +810,8 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         try {
           return {
             code: gameCode,
-            userRole: 'unknown' as const
+            userRole: 'unknown' as const,
+            blockNumber: gameBlockNumbers.get(gameCode)
           };
         } catch (error) {
           console.error(`Failed to create game for ${gameCode}:`, error);
@@ -1039,12 +960,18 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   }, [games]);
 
-  const recordGameJoin = useCallback(async (gameCode: string, buyInAmount: string, gameType: string = 'standard') => {
+  const recordGameJoin = useCallback(async (gameCode: string, buyInAmount: string, gameType: string = 'standard', tokenAddress?: string) => {
     if (!user?.id) {
       console.warn('No user ID available, skipping database record');
       return;
     }
 
+    // History rows are wallet-bound, so the insert needs a session
+    if (!await signIn()) {
+      console.warn('Not signed in, skipping database record');
+      return;
+    }
+
     try {
       console.log(`💾 Recording game join: ${gameCode} with buy-in: ${buyInAmount}`);
       await databaseService.gameHistory.addGameHistory({
@@ -1052,6 +979,7 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         game_code: gameCode,
         game_type: gameType,
         buy_in_amount: buyInAmount,
+        token_address: tokenAddress ? tokenAddress.toLowerCase() : null,
         result: 'active',
         winnings: null,
       });
@@ -1059,7 +987,7 @@ export const GameDataProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     } catch (error) {
       console.error('❌ Failed to record game join:', error);
     }
-  }, [user?.id]);
+  }, [user?.id, signIn]);
 
   const updateGameResult = useCallback(async (gameCode: string, result: 'won' | 'lost', winnings?: string) => {
     if (!user?.id) {
@@ -1108,50 +1036,142 @@ export const useGameData = () => {
 
 // This function is no longer needed - using simplified progressive search
 
+// Contract-wide events are indexed under this scope (leaderboard, profiles)
+export const ALL_EVENTS_SCOPE = 'all';
+// First contract-wide sync on a device backfills ~30 days of Base blocks; later syncs only fetch the delta
+const ALL_EVENTS_INITIAL_LOOKBACK_BLOCKS = 30 * 24 * 60 * 30;
+
+/**
+ * Bring the contract-wide event index up to `currentBlock`
+ */
+export async function syncAllGameEvents(currentBlock: number) {
+  const contract = await getGameContract();
+  return eventIndex.sync(
+    ALL_EVENTS_SCOPE,
+    currentBlock,
+    (fromBlock, toBlock) => getEventsViaRPC({ contract, fromBlock, toBlock }),
+    clampToDeploymentBlock(currentBlock - ALL_EVENTS_INITIAL_LOOKBACK_BLOCKS)
+  );
+}
+
 // Helper function to get current block number using Thirdweb
-async function getCurrentBlock(): Promise<number> {
-  const rpcEndpoints = [
-    'https://mainnet.base.org',
-    'https://base-mainnet.g.alchemy.com/v2/demo',
-    'https://base.publicnode.com',
-    'https://base.meowrpc.com',
-    'https://base.llamarpc.com'
-  ];
+export async function getCurrentBlock(): Promise<number> {
+  try {
+    const result = await rpcManager.executeWithRetry(
+      endpoint => rpcRequest<string>(endpoint, 'eth_blockNumber'),
+      1,
+      true,
+      1
+    );
+    const blockNumber = parseInt(result, 16);
+    console.log(`📊 Current block number: ${blockNumber}`);
+    return blockNumber;
+  } catch (error) {
+    console.warn('❌ Failed to get current block number:', error);
+  }
   
-  for (const endpoint of rpcEndpoints) {
+  console.error('🚨 All RPC endpoints failed for getCurrentBlock, using fallback');
+  return 10000000; // Conservative fallback block number for Base mainnet
+}
+
+// Game activity is scanned backwards in windows the priority-1 endpoint can serve
+const GAME_ACTIVITY_WINDOW_BLOCKS = 10000;
+// At most ~4.6 days of Base blocks per load; older games show a partial timeline
+const GAME_ACTIVITY_MAX_WINDOWS = 20;
+
+export interface GameActivityScan {
+  events: GameEvent[]; // Oldest first
+  truncated: boolean; // GameStarted was not reached, so older events may be missing
+}
+
+/**
+ * Every event of one game, oldest first.
+ * Scans back from `currentBlock` until the game's GameStarted turns up, or from the indexed
+ * GameStarted when the contract-wide event index already has the game. Gives up after
+ * GAME_ACTIVITY_MAX_WINDOWS windows and reports the result as truncated.
+ * @param gameCode - Code exactly as created; events only carry its keccak256
+ * @param hostAddress - Lets the same query find GameStarted, whose code is not indexed
+ */
+export async function getGameActivityEvents(
+  gameCode: string,
+  hostAddress: string | undefined,
+  currentBlock: number
+): Promise<GameActivityScan> {
+  const contract = await getGameContract();
+  const codeHash = getGameCodeHash(gameCode);
+  // Topic 1 is the host for GameStarted and the code hash for every other event
+  const topics: LogTopicFilter = [null, hostAddress ? [toAddressTopic(hostAddress), codeHash] : codeHash];
+
+  let startBlock: number | null = null;
+  if (eventIndex.isSupported()) {
     try {
-      console.log(`🔢 Getting current block from ${endpoint.split('/')[2]}`);
-      
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_blockNumber',
-          params: [],
-          id: 1,
-        }),
+      const indexed = await eventIndex.getEventsByGameCode(gameCode);
+      startBlock = indexed.find(event => event.name === 'GameStarted')?.blockNumber || null;
+    } catch (indexError) {
+      logger.warn('Event index lookup failed for game activity', {
+        component: 'GameDataContext',
+        gameCode,
+        error: indexError instanceof Error ? indexError.message : String(indexError)
       });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(`RPC Error: ${data.error.message}`);
+    }
+  }
+  const oldestBlock = startBlock || clampToDeploymentBlock(currentBlock - ALL_EVENTS_INITIAL_LOOKBACK_BLOCKS);
+
+  const events: GameEvent[] = [];
+  let foundStart = false;
+  let windows = 0;
+  for (let toBlock = currentBlock; toBlock >= oldestBlock && windows < GAME_ACTIVITY_MAX_WINDOWS; toBlock -= GAME_ACTIVITY_WINDOW_BLOCKS) {
+    windows++;
+    const fromBlock = Math.max(oldestBlock, toBlock - GAME_ACTIVITY_WINDOW_BLOCKS + 1);
+    const logs = await getEventsViaRPC({ contract, fromBlock, toBlock, topics });
+    // The host's other games match the same filter
+    const gameEvents = decodeGameEvents(logs, { lookupCode: () => gameCode })
+      .filter(event => event.codeHash === codeHash);
+    events.push(...gameEvents);
+
+    if (gameEvents.some(event => event.name === 'GameStarted')) {
+      foundStart = true;
+      break;
+    }
+  }
+
+  console.log(`📜 Found ${events.length} events for game ${gameCode}${foundStart ? '' : ' (GameStarted not reached)'}`);
+  return {
+    events: events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex),
+    truncated: !foundStart
+  };
+}
+
+// Block timestamps never change, so they are cached for the page load
+const blockTimestamps = new Map<number, number>();
+
+/**
+ * Timestamps (ms) for the given blocks. Blocks that could not be fetched are left out.
+ */
+export async function getBlockTimestamps(blockNumbers: number[]): Promise<Map<number, number>> {
+  const missing = Array.from(new Set(blockNumbers)).filter(blockNumber => !blockTimestamps.has(blockNumber));
+
+  // One at a time to stay inside the endpoints' rate limits
+  for (const blockNumber of missing) {
+    try {
+      const block = await rpcManager.executeWithRetry(
+        endpoint => rpcRequest<{ timestamp: string } | null>(endpoint, 'eth_getBlockByNumber', [`0x${blockNumber.toString(16)}`, false]),
+        1,
+        true,
+        1
+      );
+      if (block) {
+        blockTimestamps.set(blockNumber, parseInt(block.timestamp, 16) * 1000);
       }
-      
-      const blockNumber = parseInt(data.result, 16);
-      console.log(`📊 Current block number: ${blockNumber} from ${endpoint.split('/')[2]}`);
-      return blockNumber;
-      
     } catch (error) {
-      console.warn(`❌ Failed to get block number from ${endpoint.split('/')[2]}:`, error);
+      console.warn(`❌ Failed to get timestamp for block ${blockNumber}:`, error);
     }
   }
-  
-  console.error('🚨 All RPC endpoints failed for getCurrentBlock, using fallback');
-  return 10000000; // Conservative fallback block number for Base mainnet
-}
\ No newline at end of file
+
+  const result = new Map<number, number>();
+  blockNumbers.forEach(blockNumber => {
+    const timestamp = blockTimestamps.get(blockNumber);
+    if (timestamp !== undefined) result.set(blockNumber, timestamp);
+  });
+  return result;
+}
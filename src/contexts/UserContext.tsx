@@ -2,6 +2,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { useActiveAccount } from 'thirdweb/react';
 import { databaseService } from '../services/databaseService';
 import { Database } from '../lib/database.types';
+import { siweAuth } from '../utils/siweAuth';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
 
 type User = Database['public']['Tables']['users']['Row'];
 
@@ -9,6 +11,10 @@ interface UserContextType {
   user: User | null;
   loading: boolean;
   error: string | null;
+  authEnabled: boolean; // False in anon-key mode, where no signature is ever requested
+  isAuthenticated: boolean;
+  signIn: () => Promise<boolean>;
+  signOut: () => void;
   updateUsername: (username: string) => Promise<boolean>;
   refreshUser: () => Promise<void>;
 }
@@ -22,6 +28,40 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   
   const activeAccount = useActiveAccount();
   const walletAddress = activeAccount?.address;
+  const [isAuthenticated, setIsAuthenticated] = useState(() => siweAuth.isSignedIn(walletAddress));
+
+  // Database requests authenticate as whichever wallet is connected
+  useEffect(() => {
+    siweAuth.setActiveAddress(walletAddress);
+    const update = () => setIsAuthenticated(siweAuth.isSignedIn(walletAddress));
+    update();
+    return siweAuth.subscribe(update);
+  }, [walletAddress]);
+
+  /**
+   * Make sure writes will be authenticated, asking the wallet for a SIWE signature if needed.
+   * Always true when sign-in is not configured (anon-key mode).
+   */
+  const signIn = async (): Promise<boolean> => {
+    if (!siweAuth.isConfigured()) return true;
+    if (!activeAccount) {
+      setError('Connect a wallet to sign in');
+      return false;
+    }
+
+    try {
+      await siweAuth.signIn(activeAccount, ACTIVE_CHAIN.chain.id);
+      return true;
+    } catch (err: any) {
+      console.error('❌ Sign-In With Ethereum failed:', err);
+      setError(`Sign-in failed: ${err.message || 'signature rejected'}`);
+      return false;
+    }
+  };
+
+  const signOut = () => {
+    if (walletAddress) siweAuth.signOut(walletAddress);
+  };
 
   const refreshUser = async () => {
     if (!walletAddress) {
@@ -34,7 +74,11 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setError(null);
 
     try {
-      const userData = await databaseService.user.getOrCreateUser(walletAddress);
+      // Existing profiles can be read anonymously; creating one needs a signed-in wallet
+      let userData = await databaseService.user.getUserByWallet(walletAddress);
+      if (!userData && await signIn()) {
+        userData = await databaseService.user.getOrCreateUser(walletAddress);
+      }
       setUser(userData);
     } catch (err) {
       console.error('Error fetching user:', err);
@@ -58,16 +102,20 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       walletAddress: user.wallet_address
     });
 
+    if (!await signIn()) {
+      return false;
+    }
+
     try {
       // Allow empty string to remove username (set to null)
       const usernameValue = username.trim() === '' ? null : username.trim();
       
-      console.log('🔄 Calling databaseService.user.updateUser with:', {
+      console.log('🔄 Calling databaseService.user.changeUsername with:', {
         userId: user.id,
         usernameValue
       });
       
-      const updatedUser = await databaseService.user.updateUser(user.id, { username: usernameValue });
+      const updatedUser = await databaseService.user.changeUsername(user, usernameValue);
       
       if (updatedUser) {
         console.log('✅ Username update successful:', {
@@ -117,6 +165,10 @@ export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     user,
     loading,
     error,
+    authEnabled: siweAuth.isConfigured(),
+    isAuthenticated,
+    signIn,
+    signOut,
     updateUsername,
     refreshUser,
   };
@@ -1,31 +1,53 @@
 import { useState, useCallback } from 'react';
-import { useActiveAccount } from 'thirdweb/react';
-import { sendTransaction } from 'thirdweb';
+import { useActiveAccount, useActiveWallet } from 'thirdweb/react';
+import { prepareTransaction, sendAndConfirmTransaction } from 'thirdweb/transaction';
+import { defineChain } from 'thirdweb/chains';
 import toast from 'react-hot-toast';
-
-interface BridgeQuote {
-  originChainId: number;
-  originTokenAddress: string;
-  destinationChainId: number;
-  destinationTokenAddress: string;
-  amount: bigint;
-  sender: string;
-  receiver: string;
-  steps: any[];
-}
-
-interface BridgeOptions {
-  fromChain: string;
-  fromToken: string;
-  toChain: string;
-  toToken: string;
-  amount: string;
-}
-
-export const useBridge = () => {
+import { client } from '../thirdweb';
+import {
+  BridgeQuote,
+  BridgeQuoteProvider,
+  BridgeStatusResult,
+  BridgeTransaction,
+  thirdwebBridgeProvider
+} from '../utils/bridgeProviders';
+import {
+  BridgeExecutionResult,
+  BridgeOptions,
+  BridgeStepStatus,
+  buildBridgeQuoteRequest,
+  executeBridgeSteps
+} from '../utils/bridgeFlow';
+import { createStubBridgeProvider } from '../utils/stubBridgeProvider';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
+import { getEnvVar } from '../utils/envUtils';
+
+export type { BridgeQuote, BridgeQuoteProvider } from '../utils/bridgeProviders';
+export type { BridgeExecutionResult, BridgeOptions, BridgeStepState, BridgeStepStatus } from '../utils/bridgeFlow';
+
+const USE_STUB_PROVIDER = getEnvVar('REACT_APP_BRIDGE_PROVIDER') === 'stub';
+
+// One instance for the page load: the stub tracks quotes and status polls between calls
+const DEFAULT_BRIDGE_PROVIDER: BridgeQuoteProvider = USE_STUB_PROVIDER
+  ? createStubBridgeProvider({ pendingPolls: 2 })
+  : thirdwebBridgeProvider;
+
+// Bridge routes only run between mainnets, so testnet and local builds have nothing to bridge into
+export const BRIDGE_AVAILABLE = USE_STUB_PROVIDER || !ACTIVE_CHAIN.isTestnet;
+
+export const useBridge = (provider: BridgeQuoteProvider = DEFAULT_BRIDGE_PROVIDER) => {
   const [isLoading, setIsLoading] = useState(false);
   const [quote, setQuote] = useState<BridgeQuote | null>(null);
+  const [stepStatuses, setStepStatuses] = useState<BridgeStepStatus[]>([]);
+  const [bridgedAmount, setBridgedAmount] = useState<bigint | null>(null);
   const account = useActiveAccount();
+  const wallet = useActiveWallet();
+
+  const updateStep = useCallback((stepIndex: number, update: Partial<BridgeStepStatus>) => {
+    setStepStatuses(prev => prev.map(step =>
+      step.stepIndex === stepIndex ? { ...step, ...update } : step
+    ));
+  }, []);
 
   const prepareBridge = useCallback(async (options: BridgeOptions) => {
     if (!account) {
@@ -33,193 +55,120 @@ export const useBridge = () => {
     }
 
     setIsLoading(true);
-    
+
     try {
-      // This is a placeholder for the actual Thirdweb Bridge integration
-      // In the real implementation, you would use:
-      
-      /* 
-      import { Bridge } from 'thirdweb';
-      
-      const preparedQuote = await Bridge.Buy.prepare({
-        originChainId: getChainId(options.fromChain),
-        originTokenAddress: getTokenAddress(options.fromToken, options.fromChain),
-        destinationChainId: 8453, // Base
-        destinationTokenAddress: getTokenAddress(options.toToken, 'base'),
-        amount: parseUnits(options.amount, getTokenDecimals(options.fromToken)),
-        sender: account.address,
-        receiver: account.address
-      });
-      
+      const preparedQuote = await provider.getQuote(buildBridgeQuoteRequest(options, account.address));
+
+      console.log(`🌉 Bridge quote from ${provider.name}: ${preparedQuote.steps.length} steps, ~${Math.round((preparedQuote.estimatedTimeMs || 0) / 1000)}s`);
+
       setQuote(preparedQuote);
+      setStepStatuses(preparedQuote.steps.map((_, stepIndex) => ({
+        stepIndex,
+        state: 'pending',
+        transactionHashes: []
+      })));
       return preparedQuote;
-      */
-
-      // Mock quote for demonstration
-      const mockQuote: BridgeQuote = {
-        originChainId: 1, // Ethereum
-        originTokenAddress: '0xA0b86a33E6Bc7A8F2fBF8C0E1DaF8c8E1b0F0e3F', // Mock USDC
-        destinationChainId: 8453, // Base
-        destinationTokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base USDC
-        amount: BigInt(parseFloat(options.amount) * 1e6), // USDC has 6 decimals
-        sender: account.address,
-        receiver: account.address,
-        steps: [
-          {
-            transactions: [
-              {
-                chainId: 1,
-                // Mock transaction data
-                to: '0x1234567890123456789012345678901234567890',
-                data: '0x',
-                value: '0'
-              }
-            ]
-          }
-        ]
-      };
-
-      setQuote(mockQuote);
-      return mockQuote;
-      
+
     } catch (error) {
       console.error('Failed to prepare bridge:', error);
-      toast.error('Failed to prepare bridge transaction');
+      toast.error('Failed to get a bridge quote');
       throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [account]);
+  }, [account, provider]);
+
+  const getBridgeStatus = useCallback(async (txHash: string, chainId: number, transactionId?: string): Promise<BridgeStatusResult> => {
+    try {
+      return await provider.getStatus(txHash, chainId, transactionId);
+    } catch (error) {
+      console.error('Failed to get bridge status:', error);
+      throw error;
+    }
+  }, [provider]);
+
+  const sendBridgeTransaction = useCallback(async (tx: BridgeTransaction): Promise<string> => {
+    if (!account) {
+      throw new Error('Wallet not connected');
+    }
+
+    // Each leg is sent on its own chain, which is usually not the one the wallet is on
+    const txChain = defineChain(tx.chainId);
+    if (wallet && wallet.getChain()?.id !== tx.chainId) {
+      console.log(`🔀 Switching wallet to chain ${tx.chainId} for bridge transaction`);
+      await wallet.switchChain(txChain);
+    }
+
+    const transaction = prepareTransaction({
+      client,
+      chain: txChain,
+      to: tx.to as `0x${string}`,
+      data: tx.data as `0x${string}`,
+      value: tx.value
+    });
+    const receipt = await sendAndConfirmTransaction({ transaction, account });
+    return receipt.transactionHash;
+  }, [account, wallet]);
+
+  // Put the wallet back on the app's chain so the game transaction that follows can be sent
+  const restoreAppChain = useCallback(async () => {
+    if (!wallet || wallet.getChain()?.id === ACTIVE_CHAIN.chain.id) return;
+    try {
+      await wallet.switchChain(ACTIVE_CHAIN.chain);
+    } catch (error) {
+      console.warn(`⚠️ Could not switch the wallet back to ${ACTIVE_CHAIN.name}:`, error);
+    }
+  }, [wallet]);
 
-  const executeBridge = useCallback(async (bridgeQuote?: BridgeQuote) => {
+  const executeBridge = useCallback(async (bridgeQuote?: BridgeQuote): Promise<BridgeExecutionResult> => {
     const quoteToUse = bridgeQuote || quote;
-    
+
     if (!quoteToUse || !account) {
       throw new Error('No quote available or wallet not connected');
     }
 
     setIsLoading(true);
-
     try {
       toast.loading('Executing bridge transaction...', { id: 'bridge' });
 
-      // This is a placeholder for the actual bridge execution
-      // In the real implementation, you would use:
-      
-      /*
-      for (const step of quoteToUse.steps) {
-        for (const transaction of step.transactions) {
-          const result = await sendTransaction({
-            transaction,
-            account
-          });
-          
-          // Monitor transaction status
-          const status = await Bridge.status({
-            transactionHash: result.transactionHash,
-            chainId: transaction.chainId
-          });
-          
-          // Wait for completion or handle status updates
+      const result = await executeBridgeSteps(provider, quoteToUse, {
+        sendTransaction: sendBridgeTransaction,
+        onStepUpdate: updateStep,
+        onStepStart: (stepIndex, step) => {
+          toast.loading(`Bridge step ${stepIndex + 1}/${quoteToUse.steps.length}: ${step.originSymbol} → ${step.destinationSymbol}`, { id: 'bridge' });
         }
+      });
+
+      if (!result.success) {
+        toast.error(`Bridge failed: ${result.error}`, { id: 'bridge' });
+        return result;
       }
-      */
 
-      // Mock successful bridge for demonstration
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
       toast.success('Bridge transaction completed!', { id: 'bridge' });
+      setBridgedAmount(result.destinationAmount);
       setQuote(null); // Clear quote after successful execution
-      
-      return true;
-      
-    } catch (error) {
-      console.error('Bridge execution failed:', error);
-      toast.error('Bridge transaction failed', { id: 'bridge' });
-      throw error;
+      return result;
     } finally {
+      await restoreAppChain();
       setIsLoading(false);
     }
-  }, [quote, account]);
+  }, [quote, account, provider, updateStep, sendBridgeTransaction, restoreAppChain]);
 
-  const getBridgeStatus = useCallback(async (txHash: string, chainId: number) => {
-    try {
-      // This is a placeholder for status checking
-      // In the real implementation:
-      /*
-      const status = await Bridge.status({
-        transactionHash: txHash,
-        chainId: chainId
-      });
-      
-      return status;
-      */
-
-      // Mock status for demonstration
-      return {
-        status: 'completed',
-        sourceTransaction: txHash,
-        destinationTransaction: '0xabcdef...',
-        bridgeId: 'bridge_123'
-      };
-      
-    } catch (error) {
-      console.error('Failed to get bridge status:', error);
-      throw error;
-    }
+  const clearQuote = useCallback(() => {
+    setQuote(null);
+    setStepStatuses([]);
   }, []);
 
   return {
     isLoading,
     quote,
+    stepStatuses,
+    bridgedAmount,
     prepareBridge,
     executeBridge,
     getBridgeStatus,
-    clearQuote: () => setQuote(null)
-  };
-};
-
-// Utility functions for chain and token mapping
-export const getChainId = (chainName: string): number => {
-  const chainMap: Record<string, number> = {
-    'ethereum': 1,
-    'polygon': 137,
-    'arbitrum': 42161,
-    'optimism': 10,
-    'base': 8453
-  };
-  
-  return chainMap[chainName.toLowerCase()] || 1;
-};
-
-export const getTokenAddress = (tokenSymbol: string, chainName: string): string => {
-  // This would be a comprehensive mapping of token addresses across chains
-  const tokenMap: Record<string, Record<string, string>> = {
-    'USDC': {
-      'ethereum': '0xA0b86a33E6Bc7A8F2fBF8C0E1DaF8c8E1b0F0e3F',
-      'polygon': '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-      'arbitrum': '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
-      'base': '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
-    },
-    'USDT': {
-      'ethereum': '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-      'polygon': '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
-      'base': '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2'
-    }
-  };
-  
-  return tokenMap[tokenSymbol]?.[chainName.toLowerCase()] || '';
-};
-
-export const getTokenDecimals = (tokenSymbol: string): number => {
-  const decimalsMap: Record<string, number> = {
-    'ETH': 18,
-    'USDC': 6,
-    'USDT': 6,
-    'DAI': 18
+    clearQuote
   };
-  
-  return decimalsMap[tokenSymbol] || 18;
 };
 
-export default useBridge;
\ No newline at end of file
+export default useBridge;
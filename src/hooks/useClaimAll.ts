@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameData } from '../contexts/GameDataContext';
+import { executeGameAction } from '../utils/transactionStrategy';
+import { GaslessOptions, promptSelfPaidFallback } from '../utils/gaslessHelper';
+import { useGaslessQuota } from './useGaslessQuota';
+import {
+  UnclaimedWin,
+  ClaimRun,
+  ClaimRunItem,
+  getUnclaimedWin,
+  createClaimRun,
+  loadClaimRun,
+  saveClaimRun,
+  clearClaimRun
+} from '../utils/claimAll';
+import { estimateClaimPayouts } from '../utils/claimPayouts';
+
+/**
+ * Unclaimed prizes across the given games and a sequential, resumable "claim all" run
+ * @param account - Active thirdweb account, signs each claim
+ * @param games - Dashboard games; only `isUserWinner && !hasUserClaimedWinnings` are checked
+ * @param onClaimed - Called once a run finishes with at least one successful claim
+ */
+export const useClaimAll = (account: any, games: GameData[], onClaimed?: () => void) => {
+  const address: string | undefined = account?.address?.toLowerCase();
+  const { quota, quotaUnknown, relayHealthy } = useGaslessQuota(address);
+
+  const [wins, setWins] = useState<UnclaimedWin[]>([]);
+  const [run, setRun] = useState<ClaimRun | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const runningRef = useRef(false);
+
+  // Stable across renders that pass the same candidate games
+  const candidateKey = games
+    .filter(game => game.isUserWinner && !game.hasUserClaimedWinnings)
+    .map(game => game.code)
+    .sort()
+    .join(',');
+
+  useEffect(() => {
+    setRun(address ? loadClaimRun(address) : null);
+  }, [address]);
+
+  const load = useCallback(async () => {
+    if (!address) return;
+
+    const codes = candidateKey ? candidateKey.split(',') : [];
+    setError(null);
+    if (codes.length === 0) {
+      setWins([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const results = await Promise.allSettled(codes.map(code => getUnclaimedWin(code, address)));
+      setWins(results
+        .map(result => (result.status === 'fulfilled' ? result.value : null))
+        .filter((win): win is UnclaimedWin => win !== null));
+
+      const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failed) {
+        console.warn('⚠️ Could not check some wins:', failed.reason);
+        setError('Some games could not be checked - try refreshing');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, candidateKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const process = useCallback(async (initial: ClaimRun) => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    setIsRunning(true);
+    setError(null);
+
+    // Ask about self-paid claims once per run rather than once per game
+    let selfPaidDecision: boolean | null = null;
+    const options: GaslessOptions = {
+      confirmSelfPaid: async (reason, preflight) => {
+        if (selfPaidDecision === null) {
+          selfPaidDecision = await promptSelfPaidFallback.confirmSelfPaid!(reason, preflight);
+        }
+        return selfPaidDecision;
+      }
+    };
+
+    let current = initial;
+    let claimedAny = false;
+    // Persist after every step so a reload resumes from the last finished claim
+    const updateItem = (gameCode: string, changes: Partial<ClaimRunItem>) => {
+      current = {
+        ...current,
+        items: current.items.map(item => (item.gameCode === gameCode ? { ...item, ...changes } : item))
+      };
+      saveClaimRun(current);
+      setRun(current);
+    };
+
+    try {
+      for (const item of initial.items) {
+        if (item.status !== 'pending') continue;
+
+        updateItem(item.gameCode, { status: 'claiming', error: undefined });
+
+        // Resumed items may have gone through before the reload
+        const stillClaimable = await getUnclaimedWin(item.gameCode, current.address).catch(() => null);
+        if (!stillClaimable) {
+          updateItem(item.gameCode, { status: 'failed', error: 'Already claimed or no longer claimable' });
+          continue;
+        }
+
+        const result = await executeGameAction(account, { type: 'claim', gameCode: item.gameCode }, options);
+
+        if (result.success) {
+          claimedAny = true;
+          updateItem(item.gameCode, { status: 'claimed', txHash: result.txHash, selfPaid: result.selfPaid });
+        } else if (result.pending) {
+          // The relay sent it but has not confirmed yet
+          claimedAny = true;
+          updateItem(item.gameCode, { status: 'submitted', error: result.error });
+        } else if (result.fallbackReason && selfPaidDecision === false) {
+          // Declined to pay gas: leave the rest pending so the run can resume once quota resets
+          updateItem(item.gameCode, { status: 'pending', error: result.error });
+          setError(result.error || 'Claims paused');
+          break;
+        } else {
+          updateItem(item.gameCode, { status: 'failed', error: result.error || 'Claim failed' });
+        }
+      }
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+
+    if (claimedAny) {
+      onClaimed?.();
+      load();
+    }
+  }, [account, load, onClaimed]);
+
+  const start = useCallback(() => {
+    if (!address || wins.length === 0) return;
+    const next = createClaimRun(address, wins);
+    saveClaimRun(next);
+    setRun(next);
+    process(next);
+  }, [address, wins, process]);
+
+  const resume = useCallback(() => {
+    if (run) process(run);
+  }, [run, process]);
+
+  const dismiss = useCallback(() => {
+    if (!address || runningRef.current) return;
+    clearClaimRun(address);
+    setRun(null);
+  }, [address]);
+
+  const gaslessRemaining = relayHealthy && quota?.allowed !== false ? quota?.remaining ?? 0 : 0;
+  const estimates = estimateClaimPayouts(wins, gaslessRemaining);
+  const hasPendingRun = !!run && run.items.some(item => item.status === 'pending');
+
+  return {
+    wins,
+    estimates,
+    run,
+    hasPendingRun,
+    gaslessRemaining,
+    quota,
+    quotaUnknown,
+    isLoading,
+    isRunning,
+    error,
+    start,
+    resume,
+    dismiss,
+    refresh: load
+  };
+};
+
+export default useClaimAll;
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getGameActivityEvents, getBlockTimestamps, getCurrentBlock } from '../contexts/GameDataContext';
+import { getDisplayNamesByAddresses } from '../utils/userUtils';
+import { buildGameActivity, GameActivityEntry } from '../utils/gameActivity';
+
+/**
+ * On-chain activity timeline for one game
+ * @param gameCode - Code exactly as created
+ * @param hostAddress - Game host, needed to find the GameStarted event
+ * @param tokenAddress - Game token, used for amounts if GameStarted is out of range
+ */
+export const useGameActivity = (gameCode?: string, hostAddress?: string, tokenAddress?: string) => {
+  const [entries, setEntries] = useState<GameActivityEntry[]>([]);
+  const [displayNames, setDisplayNames] = useState<Map<string, string>>(new Map());
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!gameCode) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const currentBlock = await getCurrentBlock();
+      const { events, truncated: olderMissing } = await getGameActivityEvents(gameCode, hostAddress, currentBlock);
+      setTruncated(olderMissing);
+
+      // Show the events straight away, times and names fill in as they load
+      const timeline = buildGameActivity(events, new Map(), tokenAddress || null);
+      setEntries(timeline);
+
+      const actors = new Set<string>();
+      timeline.forEach(({ event, actor }) => {
+        if (actor) actors.add(actor);
+        if (event.name === 'WinnersReported') event.winners.forEach(winner => actors.add(winner));
+      });
+
+      const [timestamps, names] = await Promise.all([
+        getBlockTimestamps(events.map(event => event.blockNumber)),
+        actors.size > 0 ? getDisplayNamesByAddresses(Array.from(actors)) : Promise.resolve(new Map<string, string>())
+      ]);
+      setEntries(buildGameActivity(events, timestamps, tokenAddress || null));
+      setDisplayNames(names);
+    } catch (loadError: any) {
+      console.error('Failed to load game activity:', loadError);
+      setError(loadError.message || 'Failed to load game activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [gameCode, hostAddress, tokenAddress]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { entries, displayNames, truncated, isLoading, error, refresh: load };
+};
+
+export default useGameActivity;
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '../contexts/UserContext';
+import { syncGameHistory, GameHistorySyncOptions, GameHistorySyncResult } from '../utils/historySync';
+
+// Login sync runs once per user per page load; the GameHistoryModal button can always re-run it
+const syncedThisSession = new Set<string>();
+
+export const useGameHistorySync = (syncOnLogin: boolean = false) => {
+  const { user, authEnabled, isAuthenticated, signIn } = useUser();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastResult, setLastResult] = useState<GameHistorySyncResult | null>(null);
+
+  const sync = useCallback(async (options?: GameHistorySyncOptions): Promise<GameHistorySyncResult | null> => {
+    if (!user?.id || !user.wallet_address) return null;
+    if (!await signIn()) return null;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncGameHistory(user.id, user.wallet_address, options);
+      setLastResult(result);
+      return result;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [user?.id, user?.wallet_address, signIn]);
+
+  // Login sync never asks for a signature; it waits until the wallet has signed in some other way,
+  // and leaves the first contract-wide event scan to the GameHistoryModal button
+  useEffect(() => {
+    if (!syncOnLogin || !user?.id || syncedThisSession.has(user.id)) return;
+    if (authEnabled && !isAuthenticated) return;
+    syncedThisSession.add(user.id);
+    sync({ initialScan: false });
+  }, [syncOnLogin, user?.id, authEnabled, isAuthenticated, sync]);
+
+  return { isSyncing, lastResult, sync };
+};
+
+export default useGameHistorySync;
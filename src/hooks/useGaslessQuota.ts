@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { checkGaslessQuota, checkRelayHealth, GaslessQuota, GASLESS_QUOTA_EVENT } from '../utils/gaslessHelper';
+
+// The relay window is daily, so a slow poll is plenty between action-triggered refreshes
+const QUOTA_POLL_INTERVAL_MS = 60 * 1000;
+
+export interface GaslessQuotaState {
+  quota: GaslessQuota | null;
+  quotaUnknown: boolean; // The last check failed, as opposed to not having run yet
+  relayHealthy: boolean;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export const useGaslessQuota = (userAddress?: string): GaslessQuotaState => {
+  const [quota, setQuota] = useState<GaslessQuota | null>(null);
+  const [quotaUnknown, setQuotaUnknown] = useState(false);
+  const [relayHealthy, setRelayHealthy] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userAddress) {
+      setQuota(null);
+      setQuotaUnknown(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [nextQuota, health] = await Promise.all([
+        checkGaslessQuota(userAddress),
+        checkRelayHealth()
+      ]);
+      setQuota(nextQuota);
+      setQuotaUnknown(nextQuota === null);
+      setRelayHealthy(health.status !== 'unhealthy');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userAddress]);
+
+  useEffect(() => {
+    refresh();
+
+    if (!userAddress) return;
+
+    const interval = setInterval(refresh, QUOTA_POLL_INTERVAL_MS);
+    const handleQuotaChanged = () => { refresh(); };
+    window.addEventListener(GASLESS_QUOTA_EVENT, handleQuotaChanged);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(GASLESS_QUOTA_EVENT, handleQuotaChanged);
+    };
+  }, [refresh, userAddress]);
+
+  return { quota, quotaUnknown, relayHealthy, isLoading, refresh };
+};
+
+export default useGaslessQuota;
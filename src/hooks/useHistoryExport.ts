@@ -0,0 +1,142 @@
+import { useState, useCallback } from 'react';
+import { readContract } from 'thirdweb/transaction';
+import { getGameContract } from '../thirdweb';
+import { useUser } from '../contexts/UserContext';
+import { syncAllGameEvents, getCurrentBlock, getBlockTimestamps } from '../contexts/GameDataContext';
+import { databaseService } from '../services/databaseService';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
+import { eventIndex, toGameEvent } from '../utils/eventIndex';
+import { GameEvent, isEventForGame } from '../utils/gameEvents';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import { logger } from '../utils/logger';
+import { PriceSource, stablecoinPriceSource } from '../utils/priceSource';
+import {
+  HistoryExportFormat,
+  HistoryExportRange,
+  buildHistoryExport,
+  addFiatValues,
+  toHistoryCsv,
+  toHistoryJson
+} from '../utils/historyExport';
+
+// getUserGameHistory defaults to the 50 most recent; an export wants everything
+const EXPORT_HISTORY_LIMIT = 1000;
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export the signed-in user's game history for accounting
+ * @param priceSource - Where fiat values come from; stablecoins only by default
+ */
+export const useHistoryExport = (priceSource: PriceSource = stablecoinPriceSource) => {
+  const { user } = useUser();
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportHistory = useCallback(async (format: HistoryExportFormat, range: HistoryExportRange = {}): Promise<number | null> => {
+    if (!user?.id) return null;
+
+    const address = user.wallet_address.toLowerCase();
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const rows = await databaseService.gameHistory.getUserGameHistory(user.id, EXPORT_HISTORY_LIMIT);
+
+      // Per-game events give the token, the join and the claim; rows still export without them
+      let events: GameEvent[] = [];
+      if (eventIndex.isSupported()) {
+        try {
+          await syncAllGameEvents(await getCurrentBlock());
+          const perGame = await Promise.all(rows.map(row => eventIndex.getEventsByGameCode(row.game_code)));
+          events = perGame
+            .flat()
+            .map(toGameEvent)
+            .filter((event): event is GameEvent => event !== null);
+        } catch (indexError) {
+          logger.warn('History export could not read the event index', {
+            component: 'useHistoryExport',
+            error: indexError instanceof Error ? indexError.message : String(indexError)
+          });
+        }
+      }
+
+      // Older rows without a stored token and games created before the index window: read the token from the contract
+      const missing = rows.filter(row =>
+        !row.token_address && !events.some(event => event.name === 'GameStarted' && isEventForGame(event, row.game_code))
+      );
+      const gameTokens = new Map<string, string>();
+      if (missing.length > 0) {
+        const contract = await getGameContract();
+        const results = await Promise.allSettled(missing.map(row => readContract({
+          contract,
+          method: "function getGameInfo(string code) view returns (address host, address token, uint256 buyIn, uint256 maxPlayers, uint256 playerCount, bool isLocked, uint256[] splits, address[] judges)",
+          params: [row.game_code]
+        })));
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            gameTokens.set(missing[index].game_code.toUpperCase(), (result.value[1] as string).toLowerCase());
+          }
+        });
+      }
+
+      const tokens = new Set<string>(Array.from(gameTokens.values()));
+      rows.forEach(row => {
+        if (row.token_address) tokens.add(row.token_address);
+      });
+      events.forEach(event => {
+        if (event.name === 'GameStarted') tokens.add(event.token);
+      });
+      await Promise.allSettled(Array.from(tokens).map(token => tokenRegistry.resolveToken(token)));
+
+      const blocks = new Set<number>();
+      rows.forEach(row => {
+        if (row.block_number !== null) blocks.add(row.block_number);
+      });
+      events.forEach(event => {
+        if (event.name === 'PlayerJoined' || event.name === 'WinningsClaimed' || event.name === 'WinningsClaimedViaUI') {
+          blocks.add(event.blockNumber);
+        }
+      });
+      const timestamps = await getBlockTimestamps(Array.from(blocks));
+
+      const records = await addFiatValues(
+        buildHistoryExport(rows, { address, events, timestamps, gameTokens, getToken: token => tokenRegistry.getToken(token) }, range),
+        priceSource
+      );
+
+      const filename = `saltfree-history-${address.slice(0, 8)}-${new Date().toISOString().slice(0, 10)}`;
+      if (format === 'csv') {
+        downloadFile(`${filename}.csv`, toHistoryCsv(records), 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(
+          `${filename}.json`,
+          toHistoryJson(records, { address, chainId: ACTIVE_CHAIN.chain.id, priceSource: priceSource.name, range }),
+          'application/json'
+        );
+      }
+
+      console.log(`📤 Exported ${records.length} game(s) as ${format.toUpperCase()}`);
+      return records.length;
+    } catch (exportError: any) {
+      console.error('Failed to export game history:', exportError);
+      setError(exportError.message || 'Failed to export game history');
+      return null;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [user?.id, user?.wallet_address, priceSource]);
+
+  return { exportHistory, isExporting, error };
+};
+
+export default useHistoryExport;
@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { syncAllGameEvents, getCurrentBlock } from '../contexts/GameDataContext';
+import { gameHistoryService } from '../services/databaseService';
+import { eventIndex } from '../utils/eventIndex';
+import { getDisplayNamesByAddresses } from '../utils/userUtils';
+import { logger } from '../utils/logger';
+import {
+  buildLeaderboard,
+  LeaderboardEntry,
+  LeaderboardWindow,
+  LEADERBOARD_WINDOWS,
+  BASE_BLOCK_TIME_MS
+} from '../utils/leaderboard';
+
+const MAX_ENTRIES = 50;
+
+export const useLeaderboard = (timeWindow: LeaderboardWindow, token: string) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [displayNames, setDisplayNames] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const currentBlock = await getCurrentBlock();
+      const durationMs = LEADERBOARD_WINDOWS[timeWindow].durationMs;
+      const since = durationMs !== null
+        ? {
+            timestampMs: Date.now() - durationMs,
+            blockNumber: Math.max(0, currentBlock - Math.ceil(durationMs / BASE_BLOCK_TIME_MS))
+          }
+        : undefined;
+
+      const [history, events] = await Promise.all([
+        gameHistoryService.getLeaderboardHistory(since ? new Date(since.timestampMs).toISOString() : undefined),
+        (async () => {
+          if (!eventIndex.isSupported()) return [];
+          try {
+            await syncAllGameEvents(currentBlock);
+            return eventIndex.getEventsByBlockRange(since?.blockNumber || 0, currentBlock);
+          } catch (indexError) {
+            // History rows still rank players, with earnings as recorded in game_history
+            logger.warn('Leaderboard event sync failed', {
+              component: 'useLeaderboard',
+              error: indexError instanceof Error ? indexError.message : String(indexError)
+            });
+            return [];
+          }
+        })()
+      ]);
+
+      const ranked = buildLeaderboard({ history, events, token, since }).slice(0, MAX_ENTRIES);
+      setEntries(ranked);
+
+      if (ranked.length > 0) {
+        setDisplayNames(await getDisplayNamesByAddresses(ranked.map(entry => entry.address)));
+      }
+    } catch (loadError: any) {
+      console.error('Failed to load leaderboard:', loadError);
+      setError(loadError.message || 'Failed to load leaderboard');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [timeWindow, token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { entries, displayNames, isLoading, error, refresh: load };
+};
+
+export default useLeaderboard;
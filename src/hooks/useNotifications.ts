@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { notificationCenter, browserAlertsSupported, GameNotification } from '../utils/notifications';
+
+// Each check is an incremental index sync, so a minute keeps the bell fresh without hammering RPCs
+const NOTIFICATION_POLL_INTERVAL_MS = 60 * 1000;
+
+export const useNotifications = (userAddress?: string) => {
+  const address = userAddress?.toLowerCase();
+  const [notifications, setNotifications] = useState<GameNotification[]>([]);
+  const [browserAlerts, setBrowserAlertsState] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      setNotifications([]);
+      setBrowserAlertsState(false);
+      return;
+    }
+
+    const update = () => {
+      setNotifications(notificationCenter.getNotifications(address));
+      setBrowserAlertsState(notificationCenter.isBrowserAlertsEnabled(address));
+    };
+    update();
+    return notificationCenter.subscribe(update);
+  }, [address]);
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      await notificationCenter.check(address);
+    } catch (checkError: any) {
+      console.warn('⚠️ Notification check failed:', checkError);
+      setError(checkError.message || 'Could not check for new activity');
+    } finally {
+      setIsChecking(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    if (!address) return;
+
+    refresh();
+    const interval = setInterval(refresh, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh, address]);
+
+  const markRead = useCallback((id: string) => {
+    if (address) notificationCenter.markRead(address, id);
+  }, [address]);
+
+  const markAllRead = useCallback(() => {
+    if (address) notificationCenter.markAllRead(address);
+  }, [address]);
+
+  const clear = useCallback(() => {
+    if (address) notificationCenter.clear(address);
+  }, [address]);
+
+  const setBrowserAlerts = useCallback(async (enabled: boolean): Promise<boolean> => {
+    if (!address) return false;
+    return notificationCenter.setBrowserAlerts(address, enabled);
+  }, [address]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(item => !item.read).length,
+    browserAlerts,
+    browserAlertsSupported: browserAlertsSupported(),
+    isChecking,
+    error,
+    markRead,
+    markAllRead,
+    clear,
+    setBrowserAlerts,
+    refresh
+  };
+};
+
+export default useNotifications;
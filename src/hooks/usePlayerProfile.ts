@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Database } from '../lib/database.types';
+import { userService, gameHistoryService, gameListService } from '../services/databaseService';
+import { syncAllGameEvents, getCurrentBlock } from '../contexts/GameDataContext';
+import { resolveToWalletAddress } from '../utils/addressResolver';
+import { eventIndex, IndexedGameEvent, toGameEvent } from '../utils/eventIndex';
+import { isClaimEvent, getClaimedAmount } from '../utils/gameEvents';
+import { getDisplayNamesByAddresses } from '../utils/userUtils';
+import { logger } from '../utils/logger';
+import { EMPTY_USER_STATS, UserStats } from '../utils/userStats';
+import { loadGameJudges } from '../utils/multiGame';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+type GameList = Database['public']['Tables']['game_lists']['Row'];
+
+const RECENT_GAMES_LIMIT = 10;
+
+export interface ProfileGame {
+  gameCode: string;
+  blockNumber: number;
+}
+
+export interface PlayerProfile {
+  address: string;
+  displayName: string;
+  username: string | null;
+  stats: UserStats;
+  recentGames: GameHistory[];
+  publicLists: GameList[];
+  hostedGames: ProfileGame[];
+  judgedGames: ProfileGame[];
+  winningsByToken: { token: string; amount: bigint }[];
+}
+
+// Hosted/judged games and on-chain winnings all come from the contract-wide index
+const summarizeEvents = (address: string, events: IndexedGameEvent[]) => {
+  const hostedGames: ProfileGame[] = [];
+  const judgedGames: ProfileGame[] = [];
+  const winnings = new Map<string, bigint>();
+  const decoded = events.map(toGameEvent);
+
+  const hostsByCodeHash = new Map<string, string>();
+  const joinedCodeHashes = new Set<string>();
+  decoded.forEach(event => {
+    if (event?.name === 'GameStarted') hostsByCodeHash.set(event.codeHash, event.host);
+    if (event?.name === 'PlayerJoined' && event.player === address) joinedCodeHashes.add(event.codeHash);
+  });
+
+  decoded.forEach((event, index) => {
+    const gameCode = events[index].gameCode;
+    if (event?.name === 'GameStarted' && event.host === address) {
+      hostedGames.push({ gameCode: event.code, blockNumber: event.blockNumber });
+    }
+
+    // Players report winners too in player-vote games, so only reports from outside the table are
+    // judging candidates; loadJudgedGames confirms them against the game's judge list
+    if (event?.name === 'WinnersReported' && gameCode && event.reporter === address &&
+        hostsByCodeHash.get(event.codeHash) !== address && !joinedCodeHashes.has(event.codeHash)) {
+      judgedGames.push({ gameCode, blockNumber: event.blockNumber });
+    }
+
+    if (isClaimEvent(event) && event.winner === address) {
+      winnings.set(event.token, (winnings.get(event.token) || BigInt(0)) + getClaimedAmount(event));
+    }
+  });
+
+  return {
+    hostedGames,
+    judgedGames,
+    winningsByToken: Array.from(winnings.entries()).map(([token, amount]) => ({ token, amount }))
+  };
+};
+
+/**
+ * Keep only the games whose on-chain judge list includes `address`. Falls back to the
+ * event-based candidates when the batched read fails.
+ */
+const confirmJudgedGames = async (address: string, candidates: ProfileGame[]): Promise<ProfileGame[]> => {
+  if (candidates.length === 0) return candidates;
+  try {
+    const judgesByCode = await loadGameJudges(candidates.map(game => game.gameCode));
+    return candidates.filter(game =>
+      (judgesByCode.get(game.gameCode) || []).some(judge => judge.toLowerCase() === address)
+    );
+  } catch (judgeError) {
+    logger.warn('Failed to read game judges for profile', {
+      component: 'usePlayerProfile',
+      error: judgeError instanceof Error ? judgeError.message : String(judgeError)
+    });
+    return candidates;
+  }
+};
+
+export const usePlayerProfile = (usernameOrAddress?: string) => {
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!usernameOrAddress) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const resolved = await resolveToWalletAddress(usernameOrAddress);
+      if (resolved.error || !resolved.address) {
+        throw new Error(resolved.error || `No player found for "${usernameOrAddress}"`);
+      }
+
+      const address = resolved.address.toLowerCase();
+      const user = await userService.getUserByWallet(resolved.address);
+
+      const [stats, recentGames, publicLists, displayNames, events] = await Promise.all([
+        user ? gameHistoryService.getUserStats(user.id) : Promise.resolve(EMPTY_USER_STATS),
+        user ? gameHistoryService.getUserGameHistory(user.id, RECENT_GAMES_LIMIT) : Promise.resolve([]),
+        user ? gameListService.getPublicGameLists(user.id) : Promise.resolve([]),
+        getDisplayNamesByAddresses([resolved.address]),
+        (async () => {
+          if (!eventIndex.isSupported()) return [];
+          try {
+            const currentBlock = await getCurrentBlock();
+            await syncAllGameEvents(currentBlock);
+            return eventIndex.getEventsByBlockRange(0, currentBlock);
+          } catch (indexError) {
+            // Database stats still render without the on-chain sections
+            logger.warn('Profile event sync failed', {
+              component: 'usePlayerProfile',
+              error: indexError instanceof Error ? indexError.message : String(indexError)
+            });
+            return [];
+          }
+        })()
+      ]);
+
+      const summary = summarizeEvents(address, events);
+      const judgedGames = await confirmJudgedGames(address, summary.judgedGames);
+
+      setProfile({
+        address: resolved.address,
+        displayName: displayNames.get(resolved.address) || resolved.displayName,
+        username: user?.username || null,
+        stats,
+        recentGames,
+        publicLists,
+        ...summary,
+        judgedGames
+      });
+    } catch (loadError: any) {
+      console.error('Failed to load player profile:', loadError);
+      setProfile(null);
+      setError(loadError.message || 'Failed to load player profile');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [usernameOrAddress]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { profile, isLoading, error, refresh: load };
+};
+
+export default usePlayerProfile;
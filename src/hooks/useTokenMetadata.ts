@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { tokenRegistry, RegisteredToken } from '../utils/tokenRegistry';
+
+/**
+ * Resolve metadata for the given token addresses and re-render when the registry
+ * learns about new tokens, so formatTokenDisplay/getTokenByAddress pick them up.
+ */
+export const useTokenMetadata = (addresses: (string | null | undefined)[]) => {
+  // Only used to re-render when the registry changes
+  const [, setVersion] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stable across renders that pass the same set of addresses
+  const addressKey = Array.from(new Set(
+    addresses.filter((address): address is string => !!address).map(address => address.toLowerCase())
+  )).sort().join(',');
+
+  useEffect(() => tokenRegistry.subscribe(() => setVersion(current => current + 1)), []);
+
+  const load = useCallback(async (forceRefresh: boolean = false) => {
+    setError(null);
+    const missing = addressKey
+      .split(',')
+      .filter(address => {
+        if (!address) return false;
+        // List entries are only a hint until the contract confirms their decimals
+        const known = tokenRegistry.getToken(address);
+        return forceRefresh || !known || known.source === 'list';
+      });
+    if (missing.length === 0) return;
+
+    setIsLoading(true);
+
+    const results = await Promise.allSettled(missing.map(address => tokenRegistry.resolveToken(address, forceRefresh)));
+    const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed) {
+      console.warn('⚠️ Could not resolve token metadata:', failed.reason);
+      setError(failed.reason?.message || 'Failed to load token details');
+    }
+
+    setIsLoading(false);
+  }, [addressKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const tokens = new Map<string, RegisteredToken>();
+  addressKey.split(',').forEach(address => {
+    const token = address ? tokenRegistry.getToken(address) : undefined;
+    if (token) tokens.set(address, token);
+  });
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  return { tokens, isLoading, error, refresh };
+};
+
+/**
+ * Single-token convenience wrapper around useTokenMetadata
+ */
+export const useTokenInfo = (address?: string | null) => {
+  const { tokens, isLoading, error, refresh } = useTokenMetadata([address]);
+  return { token: address ? tokens.get(address.toLowerCase()) : undefined, isLoading, error, refresh };
+};
+
+export default useTokenMetadata;
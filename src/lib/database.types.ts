@@ -14,6 +14,7 @@ export interface Database {
           id: string
           wallet_address: string
           username: string | null
+          username_skeleton: string | null
           created_at: string
           updated_at: string
         }
@@ -21,6 +22,7 @@ export interface Database {
           id?: string
           wallet_address: string
           username?: string | null
+          username_skeleton?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -28,6 +30,7 @@ export interface Database {
           id?: string
           wallet_address?: string
           username?: string | null
+          username_skeleton?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -38,6 +41,7 @@ export interface Database {
           id: string
           user_id: string
           game_code: string
+          chain: string
           game_type: string
           buy_in_amount: string
           result: 'won' | 'lost' | 'active'
@@ -48,11 +52,15 @@ export interface Database {
           is_locked: boolean | null
           prize_splits: Json | null
           winner_rank: number | null
+          is_stale: boolean | null
+          token_address: string | null
+          pot_amount: string | null
         }
         Insert: {
           id?: string
           user_id: string
           game_code: string
+          chain?: string
           game_type: string
           buy_in_amount: string
           result?: 'won' | 'lost' | 'active'
@@ -63,11 +71,15 @@ export interface Database {
           is_locked?: boolean | null
           prize_splits?: Json | null
           winner_rank?: number | null
+          is_stale?: boolean | null
+          token_address?: string | null
+          pot_amount?: string | null
         }
         Update: {
           id?: string
           user_id?: string
           game_code?: string
+          chain?: string
           game_type?: string
           buy_in_amount?: string
           result?: 'won' | 'lost' | 'active'
@@ -78,6 +90,9 @@ export interface Database {
           is_locked?: boolean | null
           prize_splits?: Json | null
           winner_rank?: number | null
+          is_stale?: boolean | null
+          token_address?: string | null
+          pot_amount?: string | null
         }
         Relationships: [
           {
@@ -94,7 +109,10 @@ export interface Database {
           user_id: string
           name: string
           description: string | null
+          chain: string
           game_codes: Json
+          visibility: 'private' | 'unlisted' | 'public'
+          collaborators: Json
           created_at: string
           updated_at: string
         }
@@ -103,7 +121,10 @@ export interface Database {
           user_id: string
           name: string
           description?: string | null
+          chain?: string
           game_codes?: Json
+          visibility?: 'private' | 'unlisted' | 'public'
+          collaborators?: Json
           created_at?: string
           updated_at?: string
         }
@@ -112,7 +133,10 @@ export interface Database {
           user_id?: string
           name?: string
           description?: string | null
+          chain?: string
           game_codes?: Json
+          visibility?: 'private' | 'unlisted' | 'public'
+          collaborators?: Json
           created_at?: string
           updated_at?: string
         }
@@ -125,12 +149,82 @@ export interface Database {
           }
         ]
       }
+      username_history: {
+        Row: {
+          id: string
+          user_id: string
+          old_username: string | null
+          old_skeleton: string | null
+          new_username: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          old_username?: string | null
+          old_skeleton?: string | null
+          new_username: string | null
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          old_username?: string | null
+          old_skeleton?: string | null
+          new_username?: string | null
+          changed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "username_history_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      game_invitations: {
+        Row: {
+          id: string
+          chain: string
+          game_code: string
+          host_address: string
+          invitee_address: string
+          invitee_label: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          chain?: string
+          game_code: string
+          host_address: string
+          invitee_address: string
+          invitee_label?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          chain?: string
+          game_code?: string
+          host_address?: string
+          invitee_address?: string
+          invitee_label?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_game_to_list: {
+        Args: {
+          list_id: string
+          code: string
+        }
+        Returns: Database['public']['Tables']['game_lists']['Row']
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,7 +1,11 @@
 import { createClient } from '@supabase/supabase-js';
 import { Database } from './database.types';
+import { siweAuth } from '../utils/siweAuth';
 
 const supabaseUrl = process.env.REACT_APP_SUPABASE_URL!;
 const supabaseKey = process.env.REACT_APP_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
\ No newline at end of file
+// Requests carry the active wallet's Sign-In With Ethereum JWT when there is one, otherwise the anon key
+export const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
+  accessToken: async () => siweAuth.getAccessToken(),
+});
@@ -0,0 +1,76 @@
+/**
+ * Username Skeleton Backfill
+ * One-time fill of `users.username_skeleton` for accounts created before the column existed,
+ * using the same `getUsernameSkeleton` the app checks new names with. Needs the service role
+ * key, since RLS only lets users update their own row. Run from Node; nothing in the app imports it.
+ *
+ *   REACT_APP_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run backfill:username-skeletons -- --dry-run
+ */
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { planUsernameSkeletonBackfill, SkeletonBackfillRow } from '../utils/usernames';
+
+const PAGE_SIZE = 1000;
+
+async function main() {
+  const url = process.env.REACT_APP_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!url || !serviceKey) {
+    throw new Error('Set REACT_APP_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  // Oldest accounts first, so they keep a skeleton shared with a later look-alike
+  const rows: SkeletonBackfillRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, username, username_skeleton')
+      .not('username', 'is', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load users: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { updates, conflicts } = planUsernameSkeletonBackfill(rows);
+  console.log(`🔍 ${rows.length} users with a username, ${updates.length} missing a skeleton`);
+
+  conflicts.forEach(conflict => {
+    console.warn(`⚠️ ${conflict.username} (${conflict.id}) looks like ${conflict.conflictsWith}; left without a skeleton`);
+  });
+
+  if (dryRun) {
+    console.log('🧪 Dry run, nothing written');
+    return;
+  }
+
+  let failed = 0;
+  for (const update of updates) {
+    const { error } = await supabase
+      .from('users')
+      .update({ username_skeleton: update.username_skeleton })
+      .eq('id', update.id)
+      .is('username_skeleton', null);
+
+    if (error) {
+      failed++;
+      console.error(`❌ Failed to update ${update.id}:`, error.message);
+    }
+  }
+
+  console.log(`✅ Backfilled ${updates.length - failed} skeletons (${failed} failed, ${conflicts.length} conflicts)`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -11,15 +11,20 @@ import {
   Unlock, 
   Users, 
   Scale,
-  RefreshCw 
+  RefreshCw,
+  Database,
+  Trash2
 } from 'lucide-react';
 import { useGameData } from '../contexts/GameDataContext';
+import { eventIndex, IndexedGameEvent, EventIndexStats } from '../utils/eventIndex';
 import { getDisplayNameByAddressSync } from '../utils/userUtils';
+import { formatAmount, toBigIntAmount } from '../utils/amounts';
 import GameDetailModal from '../components/GameDetailModal';
 import { 
   GlassCard, 
   GlassButton, 
   GlassInput,
+  GlassSelect,
   LoadingSpinner 
 } from '../styles/glass';
 import { FlexBlock, blockTheme, mediumShadow } from '../styles/blocks';
@@ -306,6 +311,40 @@ const PageInfo = styled.span`
   font-size: 0.9rem;
 `;
 
+const IndexCard = styled(GlassCard)`
+  padding: 1.5rem;
+  margin-bottom: 2rem;
+`;
+
+const IndexStatsText = styled.div`
+  color: rgba(255, 255, 255, 0.7);
+  font-size: 0.9rem;
+  margin-bottom: 1rem;
+`;
+
+const IndexResults = styled.div`
+  max-height: 320px;
+  overflow-y: auto;
+  margin-top: 1rem;
+  font-family: monospace;
+  font-size: 0.8rem;
+  color: rgba(255, 255, 255, 0.8);
+`;
+
+const IndexRow = styled.div`
+  display: grid;
+  grid-template-columns: 110px 150px 100px 1fr;
+  gap: 0.75rem;
+  padding: 0.4rem 0;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+  
+  @media (max-width: 768px) {
+    grid-template-columns: 1fr 1fr;
+  }
+`;
+
+type IndexQueryType = 'code' | 'participant' | 'blocks';
+
 interface Game {
   code: string;
   gameCode?: string;
@@ -336,6 +375,25 @@ export default function DebugPage() {
   const [decisionFilter, setDecisionFilter] = useState<'all' | 'judge' | 'player'>('all');
   const [usernameFilter, setUsernameFilter] = useState('');
 
+  // Event index inspection
+  const [indexStats, setIndexStats] = useState<EventIndexStats | null>(null);
+  const [indexQueryType, setIndexQueryType] = useState<IndexQueryType>('code');
+  const [indexQuery, setIndexQuery] = useState('');
+  const [indexResults, setIndexResults] = useState<IndexedGameEvent[]>([]);
+  const [indexError, setIndexError] = useState<string | null>(null);
+
+  const loadIndexStats = async () => {
+    if (!eventIndex.isSupported()) {
+      setIndexError('IndexedDB is not available in this browser');
+      return;
+    }
+    try {
+      setIndexStats(await eventIndex.getStats());
+    } catch (error) {
+      setIndexError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   // Load games on mount
   useEffect(() => {
     if (account?.address) {
@@ -343,6 +401,49 @@ export default function DebugPage() {
     }
   }, [account?.address, fetchRecentGames]);
 
+  // Refresh index stats whenever a game fetch finishes (it syncs the index)
+  useEffect(() => {
+    if (!loading) {
+      loadIndexStats();
+    }
+  }, [loading]);
+
+  const handleIndexQuery = async () => {
+    const query = indexQuery.trim();
+    if (!query) return;
+    setIndexError(null);
+
+    try {
+      let results: IndexedGameEvent[] = [];
+      if (indexQueryType === 'code') {
+        results = await eventIndex.getEventsByGameCode(query);
+      } else if (indexQueryType === 'participant') {
+        results = await eventIndex.getEventsByParticipant(query);
+      } else {
+        // Accept "from-to" or a single block
+        const [from, to] = query.split('-').map(part => parseInt(part.trim(), 10));
+        if (isNaN(from)) {
+          setIndexError('Enter a block range like 12345-12400');
+          return;
+        }
+        results = await eventIndex.getEventsByBlockRange(from, isNaN(to) ? from : to);
+      }
+      setIndexResults(results);
+    } catch (error) {
+      setIndexError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleClearIndex = async () => {
+    try {
+      await eventIndex.clear();
+      setIndexResults([]);
+      await loadIndexStats();
+    } catch (error) {
+      setIndexError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   // Filter and sort games
   const filteredAndSortedGames = useMemo(() => {
     let filtered = [...games];
@@ -405,9 +506,8 @@ export default function DebugPage() {
     }
   };
 
-  const formatEth = (wei: string) => {
-    const eth = parseFloat(wei) / Math.pow(10, 18);
-    return eth.toFixed(4);
+  const formatEth = (wei?: string | bigint) => {
+    return formatAmount(wei || '0', 18, { maxDecimals: 4, minDecimals: 4 });
   };
 
   return (
@@ -479,6 +579,82 @@ export default function DebugPage() {
           </FilterRow>
         </FiltersCard>
 
+        <IndexCard>
+          <FlexBlock justify="space-between" align="center" style={{ marginBottom: '1rem' }}>
+            <FilterLabel>
+              <Database size={14} style={{ marginRight: '0.5rem' }} />
+              Event Index
+            </FilterLabel>
+            <GlassButton onClick={handleClearIndex}>
+              <Trash2 size={14} />
+              Clear Index
+            </GlassButton>
+          </FlexBlock>
+
+          <IndexStatsText>
+            {indexStats ? (
+              <>
+                {indexStats.totalEvents} events • {indexStats.gameCodes} games
+                {indexStats.syncStates.map(state => (
+                  <div key={state.scope}>
+                    {getDisplayNameByAddressSync(state.scope)} synced to block {state.lastSyncedBlock} ({new Date(state.updatedAt).toLocaleString()})
+                  </div>
+                ))}
+              </>
+            ) : (
+              'Index not loaded yet'
+            )}
+          </IndexStatsText>
+
+          <FilterRow>
+            <FilterGroup>
+              <FilterLabel>Query By</FilterLabel>
+              <GlassSelect
+                value={indexQueryType}
+                onChange={(e) => setIndexQueryType(e.target.value as IndexQueryType)}
+              >
+                <option value="code">Game Code</option>
+                <option value="participant">Participant Address</option>
+                <option value="blocks">Block Range</option>
+              </GlassSelect>
+            </FilterGroup>
+
+            <FilterGroup>
+              <FilterLabel>Query</FilterLabel>
+              <FlexBlock gap="0.5rem">
+                <GlassInput
+                  type="text"
+                  placeholder={indexQueryType === 'blocks' ? '12345-12400' : indexQueryType === 'code' ? 'ABC-123' : '0x...'}
+                  value={indexQuery}
+                  onChange={(e) => setIndexQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleIndexQuery()}
+                  style={{ minWidth: '200px' }}
+                />
+                <GlassButton onClick={handleIndexQuery}>
+                  <Search size={16} />
+                </GlassButton>
+              </FlexBlock>
+            </FilterGroup>
+          </FilterRow>
+
+          {indexError && (
+            <IndexStatsText style={{ color: blockTheme.error, marginTop: '1rem' }}>{indexError}</IndexStatsText>
+          )}
+
+          {indexResults.length > 0 && (
+            <IndexResults>
+              {indexResults.map(event => (
+                <IndexRow key={event.id}>
+                  <span>#{event.blockNumber}</span>
+                  <span>{event.name}</span>
+                  <span>{event.gameCode || '—'}</span>
+                  <span>{event.participants.map(p => getDisplayNameByAddressSync(p)).join(', ')}</span>
+                </IndexRow>
+              ))}
+            </IndexResults>
+          )}
+        </IndexCard>
+
         <StatsRow>
           <StatsText>
             Showing {paginatedGames.length} of {filteredAndSortedGames.length} games
@@ -550,7 +726,7 @@ export default function DebugPage() {
                       </StatItem>
                       
                       <StatItem>
-                        <StatValue>{formatEth((BigInt(game.buyIn || '0') * BigInt(game.playerCount || 0)).toString())} ETH</StatValue>
+                        <StatValue>{formatEth(toBigIntAmount(game.buyIn || '0') * BigInt(game.playerCount || 0))} ETH</StatValue>
                         <StatLabel>Pot</StatLabel>
                       </StatItem>
                     </GameStats>
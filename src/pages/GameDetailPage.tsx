@@ -1,15 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import { useActiveAccount } from "thirdweb/react";
 import { readContract, prepareContractCall, sendTransaction, waitForReceipt } from 'thirdweb';
 import toast from 'react-hot-toast';
-import { ArrowLeft, Users, Clock, Lock, Trophy, Share2, Coins, Scale, UserCheck, PlusCircle, UserMinus } from 'lucide-react';
+import { ArrowLeft, Users, Clock, Lock, Trophy, Share2, Coins, Scale, UserCheck, PlusCircle, UserMinus, Maximize } from 'lucide-react';
 import { getGameContract, formatEth, formatPrizeSplit, formatTokenDisplay, ensureTokenApproval, isETH } from '../thirdweb';
+import { ACTIVE_CHAIN, parseChainGameCode, switchActiveChain } from '../utils/chainRegistry';
+import { getGameUrl } from '../utils/gameCodeUtils';
+import { generateASCIIGameCode } from '../utils/asciiArt';
 import { getDisplayNameByAddressSync, preloadDisplayNames, getDisplayNamesByAddresses } from '../utils/userUtils';
 import { validation } from '../utils/envUtils';
 import { logger, logGameAction } from '../utils/logger';
-import { gaslessLockGame, gaslessReportWinners, gaslessClaimWinnings } from '../utils/gaslessHelper';
+import { executeGameAction } from '../utils/transactionStrategy';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { PRIZE_SPLIT_DENOMINATOR } from '../utils/amounts';
+import { databaseService } from '../services/databaseService';
+import { GameInvitation, INVITE_QUERY_PARAM, isInvitee, isSeatReservedForOthers } from '../utils/invitations';
 import { 
   Block,
   BlockButton, 
@@ -23,6 +30,9 @@ import GameDetailModal from '../components/GameDetailModal';
 import FindGameModal from '../components/FindGameModal';
 import JoinGameModal from '../components/JoinGameModal';
 import PrizeSplitsModal from '../components/PrizeSplitsModal';
+import GameActivityTimeline from '../components/GameActivityTimeline';
+import GameQrCode from '../components/GameQrCode';
+import TableDisplay from '../components/TableDisplay';
 
 interface GameInfo {
   gameCode: string;
@@ -172,6 +182,55 @@ const PlayerCard = styled(Block)`
   }
 `;
 
+const InviteBanner = styled.div<{ variant: 'welcome' | 'warning' | 'info' }>`
+  max-width: 800px;
+  margin: 0 auto 1.5rem auto;
+  padding: 1rem 1.5rem;
+  background: ${({ variant }) =>
+    variant === 'welcome' ? blockTheme.pastelMint : variant === 'warning' ? blockTheme.pastelCoral : blockTheme.pastelBlue};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+  font-weight: 600;
+  line-height: 1.5;
+`;
+
+const InPersonSection = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 2rem;
+  margin-bottom: 2rem;
+  padding: 1.5rem;
+  background: ${blockTheme.pastelMint};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 16px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+  color: ${blockTheme.darkText};
+
+  @media (max-width: 768px) {
+    flex-direction: column;
+    gap: 1rem;
+  }
+`;
+
+const QrWrapper = styled.div`
+  padding: 0.5rem;
+  background: ${blockTheme.lightText};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+`;
+
+const AsciiGameCode = styled.pre`
+  margin: 0 0 1rem 0;
+  font-family: 'Courier New', monospace;
+  font-size: 0.6rem;
+  line-height: 1.1;
+  font-weight: 700;
+  overflow-x: auto;
+`;
+
 const ErrorMessage = styled.div`
   text-align: center;
   padding: 2rem;
@@ -333,21 +392,30 @@ const StatCardContainer = styled.div`
 `;
 
 export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps) {
-  const { gameCode } = useParams<{ gameCode: string }>();
+  const { gameCode: gameCodeParam } = useParams<{ gameCode: string }>();
+  // URLs carry the chain as a prefix (base-sepolia:ABC-123); bare codes are Base mainnet
+  const { chainKey: gameChainKey, code: gameCode } = parseChainGameCode(gameCodeParam || '');
   const navigate = useNavigate();
   const account = useActiveAccount();
+  const [searchParams] = useSearchParams();
+  const inviteId = searchParams.get(INVITE_QUERY_PARAM);
   
   const [game, setGame] = useState<GameInfo | null>(null);
+  useTokenMetadata([game?.buyInToken]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [showFindModal, setShowFindModal] = useState(false);
-  const [showJoinModal, setShowJoinModal] = useState(autoJoin);
+  // Opened once the game and its invitations are known, so reserved seats are not offered to others
+  const [showJoinModal, setShowJoinModal] = useState(false);
+  const [invitations, setInvitations] = useState<GameInvitation[]>([]);
+  const [invitationsLoaded, setInvitationsLoaded] = useState(false);
   const [showPrizeSplitsModal, setShowPrizeSplitsModal] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
   const [displayNames, setDisplayNames] = useState<Map<string, string>>(new Map());
   const [isShareCopied, setIsShareCopied] = useState(false);
   const [selectedWinners, setSelectedWinners] = useState<string[]>([]);
+  const [showTableDisplay, setShowTableDisplay] = useState(false);
 
   const loadDisplayNames = async (gameData: GameInfo) => {
     const allAddresses = new Set<string>();
@@ -548,6 +616,13 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
     return [...new Set(variations)]; // Remove duplicates
   };
 
+  // In-app navigation to a game on another chain needs a reload onto that chain
+  useEffect(() => {
+    if (gameCodeParam && gameChainKey !== ACTIVE_CHAIN.key) {
+      switchActiveChain(gameChainKey, window.location.pathname);
+    }
+  }, [gameCodeParam, gameChainKey]);
+
   // Load game data from contract
   useEffect(() => {
     const loadGame = async () => {
@@ -683,11 +758,6 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
           console.warn('Failed to log game action:', logError);
         }
 
-        // If autoJoin is true, show the join modal with pre-filled code
-        if (autoJoin && account?.address) {
-          setShowJoinModal(true);
-        }
-
       } catch (err) {
         console.error('Failed to load game:', err);
         setError(`Failed to load game ${gameCode}. Please check if the game exists.`);
@@ -700,6 +770,42 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
     loadGame();
   }, [gameCode, autoJoin, account?.address]);
 
+  // Load invitations so invite links can greet their invitee and hold the seat for them
+  const loadedGameCode = game?.gameCode;
+  const loadedGameHost = game?.host;
+  useEffect(() => {
+    if (!loadedGameCode || !loadedGameHost) return;
+
+    let cancelled = false;
+    setInvitationsLoaded(false);
+    databaseService.gameInvitations.getGameInvitations(loadedGameCode, loadedGameHost).then(result => {
+      if (cancelled) return;
+      setInvitations(result);
+      setInvitationsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [loadedGameCode, loadedGameHost]);
+
+  const invitation = inviteId ? invitations.find(candidate => candidate.id === inviteId) || null : null;
+  const viewerAddress = account?.address;
+  const viewerHasJoined = !!viewerAddress && !!game?.players.some(player => player.toLowerCase() === viewerAddress.toLowerCase());
+  const openSeats = game ? Math.max(game.maxPlayers - game.currentPlayers, 0) : 0;
+  const seatReservedForOthers = !!game && !game.isLocked && !viewerHasJoined && (
+    invitation
+      ? !!viewerAddress && !isInvitee(invitation, viewerAddress)
+      : isSeatReservedForOthers(invitations, openSeats, game.players, viewerAddress)
+  );
+
+  // If autoJoin is true, show the join modal with pre-filled code
+  useEffect(() => {
+    if (!autoJoin || !loadedGameCode || !invitationsLoaded || !viewerAddress) return;
+    if (viewerHasJoined || seatReservedForOthers) return;
+    setShowJoinModal(true);
+  }, [autoJoin, loadedGameCode, invitationsLoaded, viewerAddress, viewerHasJoined, seatReservedForOthers]);
+
   // Handle errors with toast notifications instead of error page
   useEffect(() => {
     if (error) {
@@ -840,10 +946,13 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
     try {
       console.log('💰 Claiming winnings gaslessly:', game.gameCode);
 
-      const result = await gaslessClaimWinnings(
-        account,
-        game.gameCode
-      );
+      const result = await executeGameAction(account, { type: 'claim', gameCode: game.gameCode });
+
+      // The relay sent it but has not confirmed yet
+      if (result.pending) {
+        toast(result.error || 'Claim submitted, still confirming', { icon: '⏳', duration: 8000 });
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to claim winnings');
@@ -852,7 +961,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
       console.log('✅ Winnings claimed gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Winnings claimed! (gasless, 1% UI fee)', {
+      toast.success(result.selfPaid ? 'Winnings claimed! (self-paid)' : 'Winnings claimed! (gasless, 1% UI fee)', {
         icon: '⚡',
         duration: 3000
       });
@@ -870,7 +979,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
   };
 
   const handleShare = async () => {
-    const shareUrl = `${window.location.origin}/game/${gameCode}`;
+    const shareUrl = getGameUrl(gameCode);
     try {
       await navigator.clipboard.writeText(shareUrl);
       console.log('Game URL copied to clipboard:', shareUrl);
@@ -894,7 +1003,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
       } else {
         // Determine maximum winners based on prize splits
         const isWinnerTakeAll = !game?.prizeSplits || game.prizeSplits.length === 0 || 
-                                (game.prizeSplits.length === 1 && game.prizeSplits[0] === 1000);
+                                (game.prizeSplits.length === 1 && game.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
         const maxWinners = isWinnerTakeAll ? 1 : game?.prizeSplits?.length || 3;
         
         // Check if we've reached the maximum number of winners
@@ -919,7 +1028,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
 
       // Validate winner count matches prize distribution
       const isWinnerTakeAll = !game.prizeSplits || game.prizeSplits.length === 0 ||
-                              (game.prizeSplits.length === 1 && game.prizeSplits[0] === 1000);
+                              (game.prizeSplits.length === 1 && game.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
       const requiredWinners = isWinnerTakeAll ? 1 : game.prizeSplits?.length || 1;
 
       if (selectedWinners.length !== requiredWinners) {
@@ -936,11 +1045,17 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
         console.log('🏆 Winner-take-all: submitting first winner only:', winnersToSubmit);
       }
 
-      const result = await gaslessReportWinners(
-        account,
-        game.gameCode,
-        winnersToSubmit  // RANK ORDER PRESERVED
-      );
+      const result = await executeGameAction(account, {
+        type: 'report',
+        gameCode: game.gameCode,
+        winners: winnersToSubmit  // RANK ORDER PRESERVED
+      });
+
+      if (result.pending) {
+        toast(result.error || 'Winners submitted, still confirming', { icon: '⏳', duration: 8000 });
+        setSelectedWinners([]);
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to report winners');
@@ -949,7 +1064,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
       console.log('✅ Winners reported gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Winners reported! (gasless)', {
+      toast.success(`Winners reported! (${result.selfPaid ? 'self-paid' : 'gasless'})`, {
         icon: '⚡',
         duration: 3000
       });
@@ -974,10 +1089,12 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
     try {
       console.log('🔒 Locking game gaslessly:', game.gameCode);
 
-      const result = await gaslessLockGame(
-        account,
-        game.gameCode
-      );
+      const result = await executeGameAction(account, { type: 'lock', gameCode: game.gameCode });
+
+      if (result.pending) {
+        toast(result.error || 'Lock submitted, still confirming', { icon: '⏳', duration: 8000 });
+        return;
+      }
 
       if (!result.success) {
         throw new Error(result.error || 'Failed to lock game');
@@ -986,7 +1103,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
       console.log('✅ Game locked gaslessly!');
       console.log(`   TX Hash: ${result.txHash}`);
 
-      toast.success('Game locked! (gasless)', {
+      toast.success(`Game locked! (${result.selfPaid ? 'self-paid' : 'gasless'})`, {
         icon: '⚡',
         duration: 3000
       });
@@ -1110,9 +1227,65 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
     );
   }
 
-  const shareUrl = `${window.location.origin}/game/${gameCode}`;
+  const renderInviteBanner = () => {
+    if (inviteId && invitationsLoaded && !invitation) {
+      return (
+        <InviteBanner variant="warning">
+          This invitation link is no longer valid. It may have been revoked by the host.
+        </InviteBanner>
+      );
+    }
+
+    const hostName = getDisplayNameForAddress(game.host);
+
+    if (invitation) {
+      const inviteeName = invitation.invitee_label || getDisplayNameForAddress(invitation.invitee_address);
+
+      if (isInvitee(invitation, viewerAddress)) {
+        return (
+          <InviteBanner variant="welcome">
+            {viewerHasJoined
+              ? `🎉 You're in, ${inviteeName}! Good luck at ${gameCode}.`
+              : `👋 Welcome, ${inviteeName}! ${hostName} saved you a seat at ${gameCode}.`}
+          </InviteBanner>
+        );
+      }
+
+      if (!viewerAddress) {
+        return (
+          <InviteBanner variant="info">
+            ✉️ This invitation is for {inviteeName}. Connect that wallet to take your seat.
+          </InviteBanner>
+        );
+      }
+
+      if (seatReservedForOthers) {
+        return (
+          <InviteBanner variant="warning">
+            🔒 This seat is reserved for {inviteeName}. Ask {hostName} for your own invitation.
+          </InviteBanner>
+        );
+      }
+
+      return null;
+    }
+
+    if (seatReservedForOthers) {
+      return (
+        <InviteBanner variant="warning">
+          🔒 The remaining seats are reserved for invited players. Ask {hostName} for an invitation.
+        </InviteBanner>
+      );
+    }
+
+    return null;
+  };
+
+  const shareUrl = getGameUrl(gameCode);
+  const joinUrl = getGameUrl(game.gameCode, { join: true });
+  const buyInDisplay = game.buyInToken ? formatTokenDisplay(game.buyIn, game.buyInToken) : formatEth(game.buyIn) + ' ETH';
   const shareTitle = `Join game ${gameCode} on SaltFree - No Salt, Just Wins`;
-  const shareDescription = `Buy-in: ${game.buyInToken ? formatTokenDisplay(game.buyIn, game.buyInToken) : formatEth(game.buyIn) + ' ETH'} | Players: ${game.currentPlayers}/${game.maxPlayers}`;
+  const shareDescription = `Buy-in: ${buyInDisplay} | Players: ${game.currentPlayers}/${game.maxPlayers}`;
 
   return (
     <>
@@ -1143,6 +1316,8 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
           </BlockButton>
         </FlexBlock>
 
+        {renderInviteBanner()}
+
         <GameCard>
           <GameHeader>
             <div>
@@ -1420,6 +1595,25 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
             })()}
           </FlexBlock>
 
+          {/* In-person joining: scan the QR code or read the code off the screen */}
+          {!game.isLocked && !game.isCompleted && (
+            <InPersonSection>
+              <QrWrapper>
+                <GameQrCode value={joinUrl} size={160} title={`Scan to join ${game.gameCode}`} />
+              </QrWrapper>
+              <div style={{ minWidth: 0 }}>
+                <AsciiGameCode aria-label={game.gameCode}>{generateASCIIGameCode(game.gameCode)}</AsciiGameCode>
+                <p style={{ margin: '0 0 1rem 0', fontWeight: 600 }}>
+                  Playing in person? Scan to join, or enter the code in Find Game.
+                </p>
+                <BlockButton color="pastelBlue" onClick={() => setShowTableDisplay(true)}>
+                  <Maximize size={16} />
+                  Table Display
+                </BlockButton>
+              </div>
+            </InPersonSection>
+          )}
+
           <PlayersSection>
             <h3 style={{ color: 'rgba(255, 255, 255, 0.9)', marginBottom: '1rem' }}>
               Players ({game.currentPlayers})
@@ -1598,7 +1792,7 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
               );
               
               const isWinnerTakeAll = !game.prizeSplits || game.prizeSplits.length === 0 || 
-                                      (game.prizeSplits.length === 1 && game.prizeSplits[0] === 1000);
+                                      (game.prizeSplits.length === 1 && game.prizeSplits[0] === PRIZE_SPLIT_DENOMINATOR);
               const requiredWinners = isWinnerTakeAll ? 1 : game.prizeSplits?.length || 1;
               const hasCorrectWinnerCount = selectedWinners.length === requiredWinners;
 
@@ -1621,6 +1815,8 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
               );
             })()}
           </PlayersSection>
+
+          <GameActivityTimeline gameCode={game.gameCode} host={game.host} tokenAddress={game.buyInToken} />
         </GameCard>
 
         {showModal && (
@@ -1663,10 +1859,23 @@ export default function GameDetailPage({ autoJoin = false }: GameDetailPageProps
           />
         )}
 
+        {showTableDisplay && (
+          <TableDisplay
+            gameCode={game.gameCode}
+            joinUrl={joinUrl}
+            buyIn={buyInDisplay}
+            playerCount={game.currentPlayers}
+            maxPlayers={game.maxPlayers}
+            onClose={() => setShowTableDisplay(false)}
+          />
+        )}
+
         {showPrizeSplitsModal && game && (
           <PrizeSplitsModal
             gameCode={game.gameCode}
             currentSplits={game.prizeSplits || []}
+            totalPot={BigInt(game.buyIn || '0') * BigInt(game.currentPlayers || 0)}
+            tokenAddress={game.buyInToken}
             onClose={() => setShowPrizeSplitsModal(false)}
             onSuccess={(newSplits) => {
               setGame(prev => prev ? { ...prev, prizeSplits: newSplits } : null);
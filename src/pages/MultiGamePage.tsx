@@ -1,38 +1,51 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import { useActiveAccount } from "thirdweb/react";
-import { readContract } from 'thirdweb';
 import toast from 'react-hot-toast';
-import { ArrowLeft, Users, Clock, Lock, Trophy, Share2 } from 'lucide-react';
-import { getGameContract, formatEth, formatTokenDisplay } from '../thirdweb';
+import { ArrowLeft, Lock, Trophy, Share2, LayoutGrid, Table as TableIcon } from 'lucide-react';
+import { formatEth, formatTokenDisplay } from '../thirdweb';
+import { ACTIVE_CHAIN, CHAIN_REGISTRY, ChainKey, getEnabledChains, parseChainGameCode, switchActiveChain } from '../utils/chainRegistry';
+import { getGamePath } from '../utils/gameCodeUtils';
 import { getDisplayNameByAddressSync } from '../utils/userUtils';
 import { logger, logGameAction } from '../utils/logger';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { useUser } from '../contexts/UserContext';
+import { databaseService } from '../services/databaseService';
+import { Database } from '../lib/database.types';
+import { canViewGameList, getGameListCodes, GAME_LIST_VISIBILITY } from '../utils/gameLists';
+import { tokenRegistry } from '../utils/tokenRegistry';
+import {
+  MultiGameInfo,
+  MultiGameSort,
+  MultiGameFilter,
+  MULTI_GAME_SORTS,
+  MULTI_GAME_FILTERS,
+  loadGamesBatch,
+  sortAndFilterGames
+} from '../utils/multiGame';
 import { 
   Block,
   BlockButton, 
   FlexBlock,
-  blockTheme
+  blockTheme,
+  blockMedia
 } from '../styles/blocks';
 import { SimpleRetroLoader } from '../components/RetroLoader';
 import styled from '@emotion/styled';
 import GameDetailModal from '../components/GameDetailModal';
 
-interface GameInfo {
-  gameCode: string;
-  host: string;
-  buyIn: string;
-  buyInToken?: string;
-  maxPlayers: number;
-  playerCount: number;
-  currentPlayers: number;
-  players: string[];
-  isLocked: boolean;
-  isCompleted: boolean;
-  winners: string[];
-  loading?: boolean;
-  error?: string;
-}
+type GameList = Database['public']['Tables']['game_lists']['Row'];
+
+// Games are read in chunks so the first ones show while the rest of a bracket loads
+const LOAD_CHUNK_SIZE = 50;
+// Cards/rows rendered per page; more are added as the user scrolls
+const RENDER_PAGE_SIZE = 30;
+// Above this many missing games, one summary toast replaces the per-game ones
+const MAX_ERROR_TOASTS = 3;
+
+type GameInfo = MultiGameInfo;
+type MultiGameLayout = 'grid' | 'table';
 
 const PageContainer = styled.div`
   min-height: 100vh;
@@ -134,14 +147,109 @@ const LoadingCard = styled(Block)`
   box-shadow: 8px 8px 0px ${blockTheme.shadowDark};
 `;
 
+const Toolbar = styled(FlexBlock)`
+  flex-wrap: wrap;
+  margin-bottom: 1.5rem;
+`;
+
+const FilterButton = styled(BlockButton)<{ $active: boolean }>`
+  padding: 0.5rem 1rem;
+  font-size: 0.875rem;
+  background: ${({ $active }) => ($active ? blockTheme.pastelYellow : blockTheme.lightText)};
+`;
+
+const SortSelect = styled.select`
+  padding: 0.5rem 0.75rem;
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  background: ${blockTheme.pastelBlue};
+  color: ${blockTheme.darkText};
+  font-weight: 600;
+`;
+
+const TableWrapper = styled(Block)`
+  padding: 1rem;
+  margin-bottom: 2rem;
+  overflow-x: auto;
+  background: ${blockTheme.pastelYellow};
+`;
+
+const GamesTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  color: ${blockTheme.darkText};
+
+  th, td {
+    padding: 0.6rem 0.5rem;
+    text-align: left;
+    border-bottom: 2px solid ${blockTheme.shadowLight};
+    white-space: nowrap;
+  }
+
+  th {
+    font-size: 0.75rem;
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+  }
+
+  td.numeric, th.numeric {
+    text-align: right;
+    font-family: 'Courier New', monospace;
+  }
+
+  tbody tr {
+    cursor: pointer;
+  }
+
+  tbody tr:hover td {
+    background: ${blockTheme.pastelMint};
+  }
+
+  ${blockMedia.mobile} {
+    th.hide-mobile, td.hide-mobile {
+      display: none;
+    }
+  }
+`;
+
+const getStatusLabel = (game: GameInfo): string =>
+  game.isCompleted ? 'Complete' : game.isLocked ? 'Locked' : 'Open';
+
+const formatGameAmount = (amount: string, token?: string): string =>
+  token ? formatTokenDisplay(amount, token) : formatEth(amount) + ' ETH';
+
 export default function MultiGamePage() {
-  const { '*': pathParams } = useParams();
+  const { listId, '*': pathParams } = useParams();
   const navigate = useNavigate();
   const account = useActiveAccount();
+  const { user } = useUser();
+  const [gameList, setGameList] = useState<GameList | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
   
   const [games, setGames] = useState<GameInfo[]>([]);
+  useTokenMetadata(games.map(game => game.buyInToken));
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [selectedGame, setSelectedGame] = useState<GameInfo | null>(null);
+  const [renderCount, setRenderCount] = useState(RENDER_PAGE_SIZE);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // View settings live in the query string so organizers can share a sorted/filtered view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sort = (MULTI_GAME_SORTS.some(option => option.value === searchParams.get('sort')) ? searchParams.get('sort') : 'default') as MultiGameSort;
+  const filter = (MULTI_GAME_FILTERS.some(option => option.value === searchParams.get('filter')) ? searchParams.get('filter') : 'all') as MultiGameFilter;
+  const layout: MultiGameLayout = searchParams.get('layout') === 'table' ? 'table' : 'grid';
+
+  const updateView = (key: 'sort' | 'filter' | 'layout', value: string, defaultValue: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === defaultValue) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+    setSearchParams(next, { replace: true });
+  };
 
   // Normalize game code to standard format - improved pattern matching
   const normalizeGameCode = (code: string): string[] => {
@@ -216,109 +324,79 @@ export default function MultiGamePage() {
     const codes = pathParams
       .split('/')
       .filter(code => code.trim().length > 0)
-      .slice(0, 5); // Limit to 5 games max
+      .map(code => parseChainGameCode(decodeURIComponent(code)).code); // Chain was applied at page load
     
     console.log('🎮 Parsed game codes from URL:', codes);
     return codes;
   };
 
-  // Load a single game
-  const loadSingleGame = async (gameCode: string): Promise<GameInfo> => {
-    const codeVariations = normalizeGameCode(gameCode);
-    console.log('🔍 Loading game:', gameCode, 'variations:', codeVariations);
-    
-    const contract = getGameContract();
-    
-    // Try each variation
-    for (const codeVariation of codeVariations) {
-      try {
-        const gameInfo = await readContract({
-          contract,
-          method: "function getGameInfo(string code) view returns (address host, address token, uint256 buyIn, uint256 maxPlayers, uint256 playerCount, bool isLocked, uint256[] splits, address[] judges)",
-          params: [codeVariation],
-        }) as [string, bigint, bigint, bigint, boolean, bigint[], string[]];
-
-        const [host, token, buyIn, maxPlayers, playerCount, isLocked, splits, judges] = gameInfo;
-
-        // Check if game exists
-        if (host !== '0x0000000000000000000000000000000000000000') {
-          console.log('✅ Found game:', codeVariation);
-          
-          // Fetch players list
-          const players = await readContract({
-            contract,
-            method: "function getPlayers(string code) view returns (address[] players)",
-            params: [codeVariation],
-          }) as string[];
-
-          // Check completion status
-          let isCompleted = false;
-          let winners: string[] = [];
-          try {
-            const gameState = await readContract({
-              contract,
-              method: "function isGameCompleted(string code) view returns (bool)",
-              params: [codeVariation],
-            }) as boolean;
-            isCompleted = gameState;
-
-            if (isCompleted) {
-              winners = await readContract({
-                contract,
-                method: "function getWinners(string code) view returns (address[] winners)",
-                params: [codeVariation],
-              }) as string[];
-            }
-          } catch (e) {
-            // Game not completed
-          }
-
-          return {
-            gameCode: codeVariation,
-            host,
-            buyIn: buyIn.toString(),
-            buyInToken: token,
-            maxPlayers: Number(maxPlayers),
-            playerCount: Number(playerCount),
-            currentPlayers: players.length,
-            players,
-            isLocked,
-            isCompleted,
-            winners,
-          };
-        }
-      } catch (error) {
-        // Continue to next variation
-      }
-    }
-    
-    // If no variation worked, return error state
-    throw new Error(`Game ${gameCode} not found`);
-  };
-
   // Load all games
   useEffect(() => {
+    let cancelled = false;
+
     const loadGames = async () => {
-      const gameCodes = parseGameCodes(pathParams);
-      
-      if (gameCodes.length === 0) {
-        navigate('/');
-        return;
-      }
+      let gameCodes: string[];
+
+      if (listId) {
+        setLoading(true);
+        const list = await databaseService.gameLists.getGameList(listId);
+        if (cancelled) return;
+        if (!list || !canViewGameList(list, { userId: user?.id, walletAddress: account?.address })) {
+          setGameList(null);
+          setListError('This list is private or no longer exists');
+          setGames([]);
+          setLoading(false);
+          return;
+        }
 
-      if (gameCodes.length === 1) {
-        // Redirect to single game page
-        navigate(`/game/${gameCodes[0]}`);
-        return;
+        // Lists hold codes from one chain; open it there, like a chain-qualified game link
+        if (list.chain !== ACTIVE_CHAIN.key) {
+          const listChain = getEnabledChains().find(config => config.key === list.chain);
+          if (listChain) {
+            switchActiveChain(listChain.key, `/list/${listId}`);
+            return;
+          }
+          setGameList(null);
+          setListError(`This list is on ${CHAIN_REGISTRY[list.chain as ChainKey]?.name || list.chain}, which this app is not set up for`);
+          setGames([]);
+          setLoading(false);
+          return;
+        }
+
+        setGameList(list);
+        setListError(null);
+        gameCodes = getGameListCodes(list);
+      } else {
+        gameCodes = parseGameCodes(pathParams);
+
+        if (gameCodes.length === 0) {
+          navigate('/');
+          return;
+        }
+
+        if (gameCodes.length === 1) {
+          // Redirect to single game page
+          navigate(getGamePath(gameCodes[0]));
+          return;
+        }
       }
 
       setLoading(true);
-      const gamePromises = gameCodes.map(async (code) => {
+      setLoadProgress({ loaded: 0, total: gameCodes.length });
+
+      let loadedGames: GameInfo[] = [];
+      for (let start = 0; start < gameCodes.length; start += LOAD_CHUNK_SIZE) {
+        const chunk = gameCodes.slice(start, start + LOAD_CHUNK_SIZE);
+        let chunkGames: GameInfo[];
         try {
-          const gameData = await loadSingleGame(code);
-          return { ...gameData, loading: false };
+          chunkGames = await loadGamesBatch(chunk, normalizeGameCode);
         } catch (error) {
-          return {
+          logger.warn('Failed to load game batch', {
+            component: 'MultiGamePage',
+            error: error instanceof Error ? error.message : String(error),
+            gameCount: chunk.length,
+          });
+          chunkGames = chunk.map(code => ({
             gameCode: code,
             host: '',
             buyIn: '0',
@@ -329,30 +407,76 @@ export default function MultiGamePage() {
             isLocked: false,
             isCompleted: false,
             winners: [],
+            pot: '0',
             loading: false,
-            error: `Game ${code} not found`,
-          } as GameInfo;
+            error: `Game ${code} could not be loaded`,
+          }));
         }
-      });
+        if (cancelled) return;
 
-      const loadedGames = await Promise.all(gamePromises);
-      setGames(loadedGames);
+        // Show the first chunk as soon as it arrives; later chunks append
+        loadedGames = [...loadedGames, ...chunkGames];
+        setGames(loadedGames);
+        setLoadProgress({ loaded: loadedGames.length, total: gameCodes.length });
+        setLoading(false);
+      }
+
+      setLoadProgress(null);
       setLoading(false);
 
-      logGameAction('Multi-game page loaded', gameCodes.join(','), {
+      logGameAction('Multi-game page loaded', gameCodes.slice(0, 10).join(','), {
         gameCount: loadedGames.length,
         foundGames: loadedGames.filter(g => !g.error).length,
       });
     };
 
     loadGames();
-  }, [pathParams, navigate]);
 
-  const validGames = games.filter(g => !g.error);
-  const errorGames = games.filter(g => g.error);
-  
+    return () => {
+      cancelled = true;
+    };
+  }, [listId, pathParams, navigate, user?.id, account?.address, reloadKey]);
+
+  const validGames = useMemo(() => games.filter(g => !g.error), [games]);
+  const errorGames = useMemo(() => games.filter(g => g.error), [games]);
+
+  const visibleGames = useMemo(() => sortAndFilterGames(validGames, {
+    sort,
+    filter,
+    address: account?.address,
+    getDecimals: token => (token ? tokenRegistry.getToken(token)?.decimals : undefined) ?? 18,
+  }), [validGames, sort, filter, account?.address]);
+  const renderedGames = visibleGames.slice(0, renderCount);
+
+  // Start from the top page again whenever the view changes
+  useEffect(() => {
+    setRenderCount(RENDER_PAGE_SIZE);
+  }, [sort, filter, layout]);
+
+  // Render more cards/rows as the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || renderCount >= visibleGames.length || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setRenderCount(count => count + RENDER_PAGE_SIZE);
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [renderCount, visibleGames.length]);
+
   // Show toast notifications for error games
   useEffect(() => {
+    if (errorGames.length > MAX_ERROR_TOASTS) {
+      toast.error(`${errorGames.length} games could not be found`, {
+        duration: 5000,
+        id: 'multi-game-errors'
+      });
+      return;
+    }
+
     errorGames.forEach(game => {
       if (game.error) {
         toast.error(`${game.gameCode}: ${game.error}`, { 
@@ -388,10 +512,28 @@ export default function MultiGamePage() {
     );
   }
   
-  const shareTitle = `${validGames.length} Salt-Free Games!`;
-  const shareDescription = validGames.length > 0 
-    ? `View ${validGames.length} games: ${validGames.map(g => g.gameCode).join(', ')}`
-    : 'Multiple salt-free games with instant payouts';
+  if (listError) {
+    return (
+      <PageContainer>
+        <BackButton onClick={() => navigate('/')}>
+          <ArrowLeft size={20} />
+          Back to Dashboard
+        </BackButton>
+        <Block color="pastelCoral" style={{ textAlign: 'center' }}>
+          <h2 style={{ margin: '0 0 0.5rem 0' }}>List not available</h2>
+          <p style={{ margin: 0 }}>{listError}</p>
+        </Block>
+      </PageContainer>
+    );
+  }
+
+  const shareTitle = gameList ? `${gameList.name} - Salt-Free Games` : `${validGames.length} Salt-Free Games!`;
+  const shareDescription = gameList?.description
+    ? gameList.description
+    : validGames.length > 0 
+      ? `View ${validGames.length} games: ${validGames.map(g => g.gameCode).join(', ')}`
+      : 'Multiple salt-free games with instant payouts';
+  const visibility = gameList ? GAME_LIST_VISIBILITY.find(option => option.value === gameList.visibility) : undefined;
 
   return (
     <>
@@ -414,9 +556,9 @@ export default function MultiGamePage() {
             Back to Dashboard
           </BackButton>
           
-          <BlockButton onClick={handleShare} color="pastelPeach">
+          <BlockButton onClick={handleShare} color="pastelPeach" disabled={gameList?.visibility === 'private'}>
             <Share2 size={20} />
-            Share Games
+            {gameList ? 'Share List' : 'Share Games'}
           </BlockButton>
         </FlexBlock>
 
@@ -429,8 +571,18 @@ export default function MultiGamePage() {
             fontWeight: 700,
             letterSpacing: '2px'
           }}>
-            {validGames.length} Games
+            {gameList ? gameList.name : `${validGames.length} Games`}
           </h1>
+          {gameList && (
+            <p style={{ color: blockTheme.darkText, margin: '0 0 0.5rem 0', fontWeight: 600 }}>
+              {gameList.description && <>{gameList.description} · </>}
+              {getGameListCodes(gameList).length} games
+              {visibility && <> · {visibility.label}</>}
+            </p>
+          )}
+          {gameList && validGames.length === 0 && errorGames.length === 0 && (
+            <p style={{ color: blockTheme.darkText, margin: 0 }}>This list has no games yet.</p>
+          )}
           {errorGames.length > 0 && (
             <p style={{ 
               color: blockTheme.lightText, 
@@ -440,103 +592,182 @@ export default function MultiGamePage() {
               {validGames.length} found, {errorGames.length} not found
             </p>
           )}
+          {loadProgress && (
+            <p style={{ color: blockTheme.lightText, margin: 0, fontWeight: 600 }}>
+              Loading games {loadProgress.loaded}/{loadProgress.total}...
+            </p>
+          )}
         </div>
 
-        <GamesGrid>
-          {validGames.map((game, index) => (
-            <GameCard key={game.gameCode} onClick={() => handleGameClick(game)}>
-              <GameHeader>
-                <div>
-                  <GameTitle>{game.gameCode}</GameTitle>
-                  <p style={{ 
-                    color: blockTheme.lightText, 
-                    margin: '0.25rem 0 0 0', 
-                    fontSize: '0.9rem',
-                    fontWeight: 600
-                  }}>
-                    Host: {getDisplayNameByAddressSync(game.host)}
-                  </p>
-                </div>
-                
-                <FlexBlock direction="column" align="flex-end" gap="0.5rem">
-                  {game.isCompleted && (
-                    <div style={{ 
-                      padding: '0.4rem 0.8rem', 
-                      background: blockTheme.success,
-                      border: `3px solid ${blockTheme.darkText}`,
-                      borderRadius: '8px',
-                      fontSize: '0.8rem',
-                      fontWeight: '700',
-                      color: blockTheme.darkText,
-                      boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
+        {validGames.length > 0 && (
+          <Toolbar justify="space-between" align="center" gap="0.75rem">
+            <FlexBlock gap="0.5rem" align="center" style={{ flexWrap: 'wrap' }}>
+              {MULTI_GAME_FILTERS.map(option => (
+                <FilterButton
+                  key={option.value}
+                  $active={filter === option.value}
+                  disabled={option.value === 'mine' && !account}
+                  onClick={() => updateView('filter', option.value, 'all')}
+                >
+                  {option.label}
+                </FilterButton>
+              ))}
+            </FlexBlock>
+
+            <FlexBlock gap="0.5rem" align="center">
+              <SortSelect
+                value={sort}
+                onChange={e => updateView('sort', e.target.value, 'default')}
+                aria-label="Sort games"
+              >
+                {MULTI_GAME_SORTS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </SortSelect>
+              <FilterButton $active={layout === 'grid'} onClick={() => updateView('layout', 'grid', 'grid')} title="Card grid">
+                <LayoutGrid size={16} />
+              </FilterButton>
+              <FilterButton $active={layout === 'table'} onClick={() => updateView('layout', 'table', 'grid')} title="Compact table">
+                <TableIcon size={16} />
+              </FilterButton>
+            </FlexBlock>
+          </Toolbar>
+        )}
+
+        {validGames.length > 0 && visibleGames.length === 0 && (
+          <p style={{ color: blockTheme.darkText, fontWeight: 600 }}>No games match this filter.</p>
+        )}
+
+        {layout === 'table' ? (
+          visibleGames.length > 0 && (
+            <TableWrapper>
+              <GamesTable>
+                <thead>
+                  <tr>
+                    <th>Code</th>
+                    <th className="hide-mobile">Host</th>
+                    <th className="numeric">Buy-In</th>
+                    <th className="numeric">Players</th>
+                    <th className="numeric">Pot</th>
+                    <th>Status</th>
+                    <th className="numeric hide-mobile">Winners</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderedGames.map(game => (
+                    <tr key={game.gameCode} onClick={() => handleGameClick(game)}>
+                      <td style={{ fontFamily: "'Monaco', 'Menlo', monospace", fontWeight: 700 }}>{game.gameCode}</td>
+                      <td className="hide-mobile">{getDisplayNameByAddressSync(game.host)}</td>
+                      <td className="numeric">{formatGameAmount(game.buyIn, game.buyInToken)}</td>
+                      <td className="numeric">{game.currentPlayers}/{game.maxPlayers}</td>
+                      <td className="numeric">{formatGameAmount(game.pot, game.buyInToken)}</td>
+                      <td>{getStatusLabel(game)}</td>
+                      <td className="numeric hide-mobile">{game.isCompleted ? game.winners.length : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </GamesTable>
+            </TableWrapper>
+          )
+        ) : (
+          <GamesGrid>
+            {renderedGames.map(game => (
+              <GameCard key={game.gameCode} onClick={() => handleGameClick(game)}>
+                <GameHeader>
+                  <div>
+                    <GameTitle>{game.gameCode}</GameTitle>
+                    <p style={{ 
+                      color: blockTheme.lightText, 
+                      margin: '0.25rem 0 0 0', 
+                      fontSize: '0.9rem',
+                      fontWeight: 600
                     }}>
-                      COMPLETE
-                    </div>
-                  )}
-                  {game.isLocked && !game.isCompleted && (
-                    <div style={{ 
-                      padding: '0.4rem 0.8rem', 
-                      background: blockTheme.warning,
-                      border: `3px solid ${blockTheme.darkText}`,
-                      borderRadius: '8px',
-                      fontSize: '0.75rem',
-                      fontWeight: '700',
-                      color: blockTheme.darkText,
-                      display: 'flex',
-                      alignItems: 'center',
-                      gap: '0.3rem',
-                      boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
-                    }}>
-                      <Lock size={11} />
-                      Locked
-                    </div>
-                  )}
-                </FlexBlock>
-              </GameHeader>
-
-              <GameStats>
-                <StatItem>
-                  <StatValue>{game.buyInToken ? formatTokenDisplay(game.buyIn, game.buyInToken) : formatEth(game.buyIn) + ' ETH'}</StatValue>
-                  <StatLabel>Buy-In</StatLabel>
-                </StatItem>
+                      Host: {getDisplayNameByAddressSync(game.host)}
+                    </p>
+                  </div>
+                
+                  <FlexBlock direction="column" align="flex-end" gap="0.5rem">
+                    {game.isCompleted && (
+                      <div style={{ 
+                        padding: '0.4rem 0.8rem', 
+                        background: blockTheme.success,
+                        border: `3px solid ${blockTheme.darkText}`,
+                        borderRadius: '8px',
+                        fontSize: '0.8rem',
+                        fontWeight: '700',
+                        color: blockTheme.darkText,
+                        boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
+                      }}>
+                        COMPLETE
+                      </div>
+                    )}
+                    {game.isLocked && !game.isCompleted && (
+                      <div style={{ 
+                        padding: '0.4rem 0.8rem', 
+                        background: blockTheme.warning,
+                        border: `3px solid ${blockTheme.darkText}`,
+                        borderRadius: '8px',
+                        fontSize: '0.75rem',
+                        fontWeight: '700',
+                        color: blockTheme.darkText,
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.3rem',
+                        boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
+                      }}>
+                        <Lock size={11} />
+                        Locked
+                      </div>
+                    )}
+                  </FlexBlock>
+                </GameHeader>
+
+                <GameStats>
+                  <StatItem>
+                    <StatValue>{formatGameAmount(game.buyIn, game.buyInToken)}</StatValue>
+                    <StatLabel>Buy-In</StatLabel>
+                  </StatItem>
                 
-                <StatItem>
-                  <StatValue>{game.currentPlayers}/{game.maxPlayers}</StatValue>
-                  <StatLabel>Players</StatLabel>
-                </StatItem>
+                  <StatItem>
+                    <StatValue>{game.currentPlayers}/{game.maxPlayers}</StatValue>
+                    <StatLabel>Players</StatLabel>
+                  </StatItem>
                 
-                <StatItem>
-                  <StatValue>{game.buyInToken ? formatTokenDisplay((BigInt(game.buyIn) * BigInt(game.currentPlayers)).toString(), game.buyInToken) : formatEth((BigInt(game.buyIn) * BigInt(game.currentPlayers)).toString()) + ' ETH'}</StatValue>
-                  <StatLabel>Pot</StatLabel>
-                </StatItem>
-              </GameStats>
-
-              {game.winners.length > 0 && (
-                <div style={{ 
-                  marginTop: '1rem', 
-                  padding: '0.75rem', 
-                  backgroundColor: blockTheme.success,
-                  border: `3px solid ${blockTheme.darkText}`,
-                  borderRadius: '12px',
-                  boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
-                }}>
+                  <StatItem>
+                    <StatValue>{formatGameAmount(game.pot, game.buyInToken)}</StatValue>
+                    <StatLabel>Pot</StatLabel>
+                  </StatItem>
+                </GameStats>
+
+                {game.winners.length > 0 && (
                   <div style={{ 
-                    display: 'flex', 
-                    alignItems: 'center', 
-                    gap: '0.5rem', 
-                    fontSize: '0.9rem',
-                    color: blockTheme.darkText,
-                    fontWeight: 700,
-                    fontFamily: "'Monaco', 'Menlo', monospace"
+                    marginTop: '1rem', 
+                    padding: '0.75rem', 
+                    backgroundColor: blockTheme.success,
+                    border: `3px solid ${blockTheme.darkText}`,
+                    borderRadius: '12px',
+                    boxShadow: `4px 4px 0px ${blockTheme.shadowDark}`
                   }}>
-                    <Trophy size={16} />
-                    Winners: {game.winners.length}
+                    <div style={{ 
+                      display: 'flex', 
+                      alignItems: 'center', 
+                      gap: '0.5rem', 
+                      fontSize: '0.9rem',
+                      color: blockTheme.darkText,
+                      fontWeight: 700,
+                      fontFamily: "'Monaco', 'Menlo', monospace"
+                    }}>
+                      <Trophy size={16} />
+                      Winners: {game.winners.length}
+                    </div>
                   </div>
-                </div>
-              )}
-            </GameCard>
-          ))}
-        </GamesGrid>
+                )}
+              </GameCard>
+            ))}
+          </GamesGrid>
+        )}
+
+        {renderCount < visibleGames.length && <div ref={sentinelRef} style={{ height: '1px' }} />}
       </PageContainer>
       
       {/* Game Detail Modal */}
@@ -551,13 +782,7 @@ export default function MultiGamePage() {
             userRole: 'unknown' as const
           }} 
           onClose={() => setSelectedGame(null)}
-          onRefresh={() => {
-            // Refresh the games list
-            const gameCodes = games.map(g => g.gameCode);
-            // Re-trigger the loadSingleGame for all games
-            setLoading(true);
-            // This will re-run the effect that loads games
-          }}
+          onRefresh={() => setReloadKey(key => key + 1)}
         />
       )}
     </>
@@ -0,0 +1,319 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { useActiveAccount } from 'thirdweb/react';
+import toast from 'react-hot-toast';
+import { ArrowLeft, Trophy, Crown, Scale, Gamepad2, UserPlus, Copy, List } from 'lucide-react';
+import styled from '@emotion/styled';
+import { AnimatePresence } from 'framer-motion';
+import { formatAddress, formatTokenDisplay } from '../thirdweb';
+import { Block, BlockButton, FlexBlock, blockTheme } from '../styles/blocks';
+import { SimpleRetroLoader } from '../components/RetroLoader';
+import CreateGameModal from '../components/CreateGameModal';
+import { usePlayerProfile, ProfileGame } from '../hooks/usePlayerProfile';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { getGamePath, getGameUrl } from '../utils/gameCodeUtils';
+
+const PageContainer = styled.div`
+  min-height: 100vh;
+  padding: 2rem;
+  background: transparent; /* Inherits from App gradient background */
+
+  @media (max-width: 768px) {
+    padding: 1rem;
+  }
+`;
+
+const BackButton = styled(BlockButton)`
+  margin-bottom: 2rem;
+  background: ${blockTheme.pastelBlue};
+`;
+
+const ProfileCard = styled(Block)`
+  max-width: 800px;
+  margin: 0 auto 2rem auto;
+  padding: 2rem;
+  background: ${blockTheme.pastelLavender};
+  border: 4px solid ${blockTheme.darkText};
+  border-radius: 20px;
+  box-shadow: 8px 8px 0px ${blockTheme.shadowDark};
+
+  @media (max-width: 768px) {
+    padding: 1.5rem;
+  }
+`;
+
+const ProfileName = styled.h1`
+  font-size: 2.25rem;
+  font-weight: 700;
+  color: ${blockTheme.darkText};
+  margin: 0;
+  word-break: break-all;
+`;
+
+const AddressLine = styled.button`
+  display: inline-flex;
+  align-items: center;
+  gap: 0.4rem;
+  margin-top: 0.25rem;
+  padding: 0;
+  background: none;
+  border: none;
+  cursor: pointer;
+  font-family: 'Courier New', monospace;
+  font-size: 0.9rem;
+  color: ${blockTheme.textSecondary};
+`;
+
+const StatsGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+  gap: 1rem;
+  margin: 1.5rem 0;
+`;
+
+const StatCard = styled.div`
+  padding: 1rem;
+  text-align: center;
+  background: ${blockTheme.pastelMint};
+  border: 3px solid ${blockTheme.darkText};
+  border-radius: 12px;
+  box-shadow: 4px 4px 0px ${blockTheme.shadowDark};
+
+  .value {
+    font-size: 1.5rem;
+    font-weight: 700;
+    color: ${blockTheme.darkText};
+  }
+
+  .label {
+    font-size: 0.75rem;
+    text-transform: uppercase;
+    color: ${blockTheme.textSecondary};
+  }
+`;
+
+const Section = styled.div`
+  margin-top: 1.5rem;
+
+  h3 {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    margin: 0 0 0.75rem 0;
+    color: ${blockTheme.darkText};
+  }
+`;
+
+const GameChips = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+`;
+
+const GameChip = styled.button`
+  padding: 0.35rem 0.75rem;
+  background: ${blockTheme.lightText};
+  border: 2px solid ${blockTheme.darkText};
+  border-radius: 8px;
+  font-family: 'Monaco', 'Menlo', monospace;
+  font-weight: 700;
+  cursor: pointer;
+
+  &:hover {
+    background: ${blockTheme.pastelYellow};
+  }
+`;
+
+const HistoryRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 0.5rem 0;
+  border-bottom: 2px solid ${blockTheme.shadowLight};
+  color: ${blockTheme.darkText};
+`;
+
+const EmptyText = styled.p`
+  margin: 0;
+  color: ${blockTheme.textSecondary};
+  font-size: 0.9rem;
+`;
+
+const PlayerProfilePage: React.FC = () => {
+  const { usernameOrAddress } = useParams<{ usernameOrAddress: string }>();
+  const navigate = useNavigate();
+  const account = useActiveAccount();
+  const { profile, isLoading, error } = usePlayerProfile(usernameOrAddress);
+  useTokenMetadata(profile?.winningsByToken.map(({ token }) => token) || []);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+
+  const isOwnProfile = !!account && profile?.address.toLowerCase() === account.address.toLowerCase();
+
+  const handleCopyAddress = async () => {
+    if (!profile) return;
+    try {
+      await navigator.clipboard.writeText(profile.address);
+      toast.success('Address copied!', { duration: 2000 });
+    } catch (err) {
+      console.error('Failed to copy address:', err);
+    }
+  };
+
+  const handleInviteCreated = async (gameData: { gameCode: string }) => {
+    setShowInviteModal(false);
+    const joinUrl = getGameUrl(gameData.gameCode, { join: true });
+    try {
+      await navigator.clipboard.writeText(joinUrl);
+      toast.success(`Game ${gameData.gameCode} created! Join link copied - send it to ${profile?.displayName}`, { duration: 5000 });
+    } catch {
+      toast.success(`Game ${gameData.gameCode} created! Send ${profile?.displayName} this link: ${joinUrl}`, { duration: 8000 });
+    }
+    navigate(getGamePath(gameData.gameCode));
+  };
+
+  const renderGames = (games: ProfileGame[], emptyText: string) => (
+    games.length === 0 ? (
+      <EmptyText>{emptyText}</EmptyText>
+    ) : (
+      <GameChips>
+        {games.map(game => (
+          <GameChip key={game.gameCode} onClick={() => navigate(getGamePath(game.gameCode))}>
+            {game.gameCode}
+          </GameChip>
+        ))}
+      </GameChips>
+    )
+  );
+
+  const pageTitle = profile ? `${profile.displayName} on SaltFree` : 'Player Profile - SaltFree';
+
+  return (
+    <PageContainer>
+      <Helmet>
+        <title>{pageTitle}</title>
+        <meta property="og:title" content={pageTitle} />
+        <meta property="og:url" content={window.location.href} />
+      </Helmet>
+
+      <BackButton onClick={() => navigate('/')}>
+        <ArrowLeft size={16} />
+        Back
+      </BackButton>
+
+      {isLoading && !profile ? (
+        <ProfileCard style={{ textAlign: 'center' }}>
+          <SimpleRetroLoader />
+          <p>Looking up {usernameOrAddress}...</p>
+        </ProfileCard>
+      ) : error || !profile ? (
+        <ProfileCard style={{ textAlign: 'center' }}>
+          <ProfileName>Player not found</ProfileName>
+          <EmptyText style={{ marginTop: '1rem' }}>{error || `No player found for "${usernameOrAddress}"`}</EmptyText>
+        </ProfileCard>
+      ) : (
+        <ProfileCard>
+          <FlexBlock justify="space-between" align="flex-start" gap="1rem" style={{ flexWrap: 'wrap' }}>
+            <div>
+              <ProfileName>{profile.displayName}</ProfileName>
+              <AddressLine onClick={handleCopyAddress} title="Copy address">
+                {formatAddress(profile.address)}
+                <Copy size={12} />
+              </AddressLine>
+            </div>
+            {account && !isOwnProfile && (
+              <BlockButton color="pastelYellow" onClick={() => setShowInviteModal(true)}>
+                <UserPlus size={16} />
+                Invite to Game
+              </BlockButton>
+            )}
+          </FlexBlock>
+
+          <StatsGrid>
+            <StatCard>
+              <div className="value">{profile.stats.totalGames}</div>
+              <div className="label">Games Played</div>
+            </StatCard>
+            <StatCard>
+              <div className="value">{profile.stats.gamesWon}</div>
+              <div className="label">Wins</div>
+            </StatCard>
+            <StatCard>
+              <div className="value">{profile.stats.winRate.toFixed(0)}%</div>
+              <div className="label">Win Rate</div>
+            </StatCard>
+            <StatCard>
+              <div className="value">{profile.hostedGames.length}</div>
+              <div className="label">Games Hosted</div>
+            </StatCard>
+          </StatsGrid>
+
+          <Section>
+            <h3><Trophy size={18} /> Total Winnings</h3>
+            {profile.winningsByToken.length === 0 ? (
+              <EmptyText>No winnings claimed yet.</EmptyText>
+            ) : (
+              profile.winningsByToken.map(({ token, amount }) => (
+                <HistoryRow key={token}>
+                  <strong>{formatTokenDisplay(amount, token)}</strong>
+                </HistoryRow>
+              ))
+            )}
+          </Section>
+
+          <Section>
+            <h3><Gamepad2 size={18} /> Recent Games</h3>
+            {profile.recentGames.length === 0 ? (
+              <EmptyText>No recorded games yet.</EmptyText>
+            ) : (
+              profile.recentGames.map(game => (
+                <HistoryRow key={game.id}>
+                  <GameChip onClick={() => navigate(getGamePath(game.game_code))}>{game.game_code}</GameChip>
+                  <span>{game.result === 'won' ? '🏆 Won' : game.result === 'lost' ? 'Lost' : 'In progress'}</span>
+                  <span style={{ fontSize: '0.8rem', color: blockTheme.textSecondary }}>
+                    {new Date(game.created_at).toLocaleDateString()}
+                  </span>
+                </HistoryRow>
+              ))
+            )}
+          </Section>
+
+          <Section>
+            <h3><Crown size={18} /> Games Hosted</h3>
+            {renderGames(profile.hostedGames, 'Has not hosted any indexed games.')}
+          </Section>
+
+          <Section>
+            <h3><Scale size={18} /> Games Judged</h3>
+            {renderGames(profile.judgedGames, 'Has not judged any indexed games.')}
+          </Section>
+
+          {profile.publicLists.length > 0 && (
+            <Section>
+              <h3><List size={18} /> Game Lists</h3>
+              <GameChips>
+                {profile.publicLists.map(list => (
+                  <GameChip key={list.id} onClick={() => navigate(`/list/${list.id}`)} title={list.description || undefined}>
+                    {list.name}
+                  </GameChip>
+                ))}
+              </GameChips>
+            </Section>
+          )}
+        </ProfileCard>
+      )}
+
+      <AnimatePresence>
+        {showInviteModal && profile && (
+          <CreateGameModal
+            onClose={() => setShowInviteModal(false)}
+            onSuccess={handleInviteCreated}
+            invitee={{ address: profile.address, displayName: profile.displayName, method: profile.username ? 'username' : 'wallet' }}
+          />
+        )}
+      </AnimatePresence>
+    </PageContainer>
+  );
+};
+
+export default PlayerProfilePage;
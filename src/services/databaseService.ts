@@ -1,5 +1,15 @@
 import { supabase } from '../lib/supabase';
 import { Database } from '../lib/database.types';
+import { computeUserStats, EMPTY_USER_STATS, UserStats } from '../utils/userStats';
+import {
+  findConfusableUsername,
+  getUsernameFormatError,
+  getUsernameSkeleton,
+  isReservedUsername,
+  USERNAME_RELEASE_COOLDOWN_DAYS
+} from '../utils/usernames';
+import { logger } from '../utils/logger';
+import { ACTIVE_CHAIN } from '../utils/chainRegistry';
 
 type User = Database['public']['Tables']['users']['Row'];
 type UserInsert = Database['public']['Tables']['users']['Insert'];
@@ -9,10 +19,21 @@ type GameHistory = Database['public']['Tables']['game_history']['Row'];
 type GameHistoryInsert = Database['public']['Tables']['game_history']['Insert'];
 type GameHistoryUpdate = Database['public']['Tables']['game_history']['Update'];
 
+type UsernameHistory = Database['public']['Tables']['username_history']['Row'];
+
+type GameInvitation = Database['public']['Tables']['game_invitations']['Row'];
+type GameInvitationInsert = Database['public']['Tables']['game_invitations']['Insert'];
+
 type GameList = Database['public']['Tables']['game_lists']['Row'];
 type GameListInsert = Database['public']['Tables']['game_lists']['Insert'];
 type GameListUpdate = Database['public']['Tables']['game_lists']['Update'];
 
+export interface UsernameAvailability {
+  available: boolean;
+  error?: string;
+  confusableWith?: string; // Existing username this one could be mistaken for
+}
+
 // User operations
 export const userService = {
   async createUser(userData: UserInsert): Promise<User | null> {
@@ -49,47 +70,146 @@ export const userService = {
     return data;
   },
 
-  async checkUsernameAvailability(username: string): Promise<{ available: boolean; error?: string }> {
+  /**
+   * Check a username against the format rules, reserved names, existing names that look the same
+   * and names another user released within the cooldown. Pass the checking user's id so their
+   * own current and recently released names count as available.
+   */
+  async checkUsernameAvailability(username: string, userId?: string): Promise<UsernameAvailability> {
     console.log('🔍 Checking username availability:', { username });
 
     // Validate username format first
-    if (!username || username.trim().length < 3) {
-      return { available: false, error: 'Username must be at least 3 characters long' };
+    const formatError = getUsernameFormatError(username || '');
+    if (formatError) {
+      return { available: false, error: formatError };
     }
 
-    if (username.trim().length > 20) {
-      return { available: false, error: 'Username must be 20 characters or less' };
+    const trimmed = username.trim();
+    if (isReservedUsername(trimmed)) {
+      return { available: false, error: 'This username is reserved' };
     }
 
-    if (!/^[a-zA-Z0-9_-]+$/.test(username.trim())) {
-      return { available: false, error: 'Username can only contain letters, numbers, underscores, and hyphens' };
-    }
+    const skeleton = getUsernameSkeleton(trimmed);
 
     try {
-      const { data, error } = await supabase
+      // Legacy rows may not have a skeleton yet, so the case-insensitive match still runs
+      let query = supabase
         .from('users')
-        .select('id')
-        .ilike('username', username.trim())
-        .limit(1);
+        .select('id, username')
+        .or(`username_skeleton.eq.${skeleton},username.ilike.${trimmed}`)
+        .limit(5);
+      if (userId) {
+        query = query.neq('id', userId);
+      }
+      const { data, error } = await query;
       
       if (error) {
         console.error('❌ Error checking username availability:', error);
         return { available: false, error: 'Error checking availability. Please try again.' };
       }
       
-      const available = !data || data.length === 0;
-      console.log(`✅ Username "${username}" availability check:`, { available });
-      
-      return { 
-        available, 
-        error: available ? undefined : 'Username is already taken' 
-      };
+      const existing = (data || []).map(row => row.username).filter((name): name is string => !!name);
+      if (existing.some(name => name.toLowerCase() === trimmed.toLowerCase())) {
+        return { available: false, error: 'Username is already taken' };
+      }
+
+      const confusableWith = findConfusableUsername(trimmed, existing);
+      if (confusableWith) {
+        console.log(`⚠️ Username "${trimmed}" looks like existing username "${confusableWith}"`);
+        return {
+          available: false,
+          error: `Username is too similar to "${confusableWith}"`,
+          confusableWith
+        };
+      }
+
+      const releasedUntil = await this.getReleaseCooldownEnd(skeleton, userId);
+      if (releasedUntil) {
+        return {
+          available: false,
+          error: `This username was recently released and can be claimed again after ${releasedUntil.toLocaleDateString()}`
+        };
+      }
+
+      console.log(`✅ Username "${username}" availability check:`, { available: true });
+      return { available: true };
     } catch (error: any) {
       console.error('❌ Exception checking username availability:', error);
       return { available: false, error: 'Error checking availability. Please try again.' };
     }
   },
 
+  /**
+   * When a name with this skeleton was released by another user inside the cooldown, the date
+   * it becomes available again
+   */
+  async getReleaseCooldownEnd(skeleton: string, userId?: string): Promise<Date | null> {
+    const cooldownMs = USERNAME_RELEASE_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+    const { data, error } = await supabase
+      .from('username_history')
+      .select('user_id, changed_at')
+      .eq('old_skeleton', skeleton)
+      .gte('changed_at', new Date(Date.now() - cooldownMs).toISOString())
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      // Databases without the history table skip the cooldown rather than block every name
+      logger.warn('Failed to check username release cooldown', { component: 'DatabaseService', error });
+      return null;
+    }
+
+    const release = (data || []).find(row => row.user_id !== userId);
+    return release ? new Date(new Date(release.changed_at).getTime() + cooldownMs) : null;
+  },
+
+  /**
+   * Set or remove (null) a user's username. Re-checks availability, stores the confusable
+   * skeleton alongside the name and records the change in username_history.
+   */
+  async changeUsername(user: User, username: string | null): Promise<User | null> {
+    if (username !== null) {
+      const availability = await this.checkUsernameAvailability(username, user.id);
+      if (!availability.available) {
+        throw new Error(availability.error || 'Username is not available');
+      }
+    }
+
+    const updatedUser = await this.updateUser(user.id, {
+      username,
+      username_skeleton: username ? getUsernameSkeleton(username) : null
+    });
+
+    if (updatedUser && user.username !== username) {
+      const { error } = await supabase.from('username_history').insert({
+        user_id: user.id,
+        old_username: user.username,
+        old_skeleton: user.username ? getUsernameSkeleton(user.username) : null,
+        new_username: username
+      });
+      if (error) {
+        // The rename itself succeeded; a missing history row only weakens the cooldown
+        logger.warn('Failed to record username change', { component: 'DatabaseService', userId: user.id, error });
+      }
+    }
+
+    return updatedUser;
+  },
+
+  async getUsernameHistory(userId: string): Promise<UsernameHistory[]> {
+    const { data, error } = await supabase
+      .from('username_history')
+      .select('*')
+      .eq('user_id', userId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching username history:', error);
+      return [];
+    }
+
+    return data || [];
+  },
+
   async updateUser(id: string, updates: UserUpdate): Promise<User | null> {
     console.log('🔄 DatabaseService.updateUser called with:', {
       id,
@@ -116,6 +236,10 @@ export const userService = {
         });
         
         // Handle specific constraint violations
+        if (error.code === '23505' && error.message.includes('username_skeleton')) {
+          throw new Error('Username is too similar to an existing username. Please choose a different username.');
+        }
+
         if (error.code === '23505' && error.message.includes('users_username_unique')) {
           throw new Error('Username is already taken. Please choose a different username.');
         }
@@ -286,12 +410,13 @@ export const userService = {
   },
 };
 
-// Game history operations
+// Game history operations. Codes are only unique per chain, so every read and write is
+// scoped to the active chain.
 export const gameHistoryService = {
   async addGameHistory(historyData: GameHistoryInsert): Promise<GameHistory | null> {
     const { data, error } = await supabase
       .from('game_history')
-      .insert(historyData)
+      .insert({ ...historyData, chain: historyData.chain || ACTIVE_CHAIN.key })
       .select()
       .single();
     
@@ -308,6 +433,7 @@ export const gameHistoryService = {
       .from('game_history')
       .select('*')
       .eq('user_id', userId)
+      .eq('chain', ACTIVE_CHAIN.key)
       .order('created_at', { ascending: false })
       .limit(limit);
     
@@ -338,6 +464,7 @@ export const gameHistoryService = {
       .from('game_history')
       .update(updates)
       .eq('game_code', gameCode)
+      .eq('chain', ACTIVE_CHAIN.key)
       .eq('user_id', userId)
       .select()
       .single();
@@ -371,67 +498,121 @@ export const gameHistoryService = {
     const { error } = await supabase
       .from('game_history')
       .update(dbUpdates)
-      .eq('game_code', gameCode);
+      .eq('game_code', gameCode)
+      .eq('chain', ACTIVE_CHAIN.key);
     
     if (error) {
       console.error('Error updating game status:', error);
     }
   },
 
-  async getUserStats(userId: string): Promise<{
-    totalGames: number;
-    gamesWon: number;
-    gamesLost: number;
-    totalWinnings: string;
-    winRate: number;
-  }> {
+  async updateGameHistoryRow(id: string, updates: GameHistoryUpdate): Promise<GameHistory | null> {
+    const { data, error } = await supabase
+      .from('game_history')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error updating game history row:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  async markGameHistoryStale(ids: string[]): Promise<boolean> {
+    if (ids.length === 0) return true;
+
+    const { error } = await supabase
+      .from('game_history')
+      .update({ is_stale: true })
+      .in('id', ids);
+    
+    if (error) {
+      console.error('Error marking game history stale:', error);
+      return false;
+    }
+    
+    return true;
+  },
+
+  async getUserStats(userId: string): Promise<UserStats> {
     const { data, error } = await supabase
       .from('game_history')
-      .select('result, winnings')
+      .select('result, winnings, buy_in_amount, token_address, pot_amount, game_type, created_at')
       .eq('user_id', userId)
-      .neq('result', 'active');
+      .eq('chain', ACTIVE_CHAIN.key)
+      .neq('result', 'active')
+      .not('is_stale', 'is', true);
     
     if (error) {
       console.error('Error fetching user stats:', error);
-      return {
-        totalGames: 0,
-        gamesWon: 0,
-        gamesLost: 0,
-        totalWinnings: '0',
-        winRate: 0,
-      };
-    }
-    
-    const games = data || [];
-    const totalGames = games.length;
-    const gamesWon = games.filter(g => g.result === 'won').length;
-    const gamesLost = games.filter(g => g.result === 'lost').length;
-    const winRate = totalGames > 0 ? (gamesWon / totalGames) * 100 : 0;
-    
-    // Calculate total winnings (sum of all winnings, treating null as 0)
-    const totalWinnings = games
-      .reduce((sum, game) => {
-        const winnings = parseFloat(game.winnings || '0');
-        return sum + winnings;
-      }, 0)
-      .toString();
-    
-    return {
-      totalGames,
-      gamesWon,
-      gamesLost,
-      totalWinnings,
-      winRate,
-    };
+      return EMPTY_USER_STATS;
+    }
+    
+    return computeUserStats(data || []);
+  },
+
+  async getLeaderboardHistory(since?: string): Promise<Array<{
+    walletAddress: string;
+    gameCode: string;
+    result: 'won' | 'lost' | 'active';
+    createdAt: string;
+    tokenAddress: string | null;
+    winnings: string | null;
+    potAmount: string | null;
+  }>> {
+    // Supabase caps each response, so page through every row in the window
+    const pageSize = 1000;
+    const rows: any[] = [];
+
+    for (let from = 0; ; from += pageSize) {
+      let query = supabase
+        .from('game_history')
+        .select('game_code, result, created_at, token_address, winnings, pot_amount, users(wallet_address)')
+        .eq('chain', ACTIVE_CHAIN.key)
+        .not('is_stale', 'is', true)
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (since) {
+        query = query.gte('created_at', since);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching leaderboard history:', error);
+        break;
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return rows
+      .map((row: any) => ({
+        walletAddress: (Array.isArray(row.users) ? row.users[0] : row.users)?.wallet_address,
+        gameCode: row.game_code,
+        result: row.result,
+        createdAt: row.created_at,
+        tokenAddress: row.token_address,
+        winnings: row.winnings,
+        potAmount: row.pot_amount,
+      }))
+      .filter(row => !!row.walletAddress);
   },
 };
 
-// Game lists operations
+// Game lists operations. A list holds codes from one chain; the list pickers only show lists
+// for the active chain, while getGameList returns any chain's list for the page to switch to.
 export const gameListService = {
   async createGameList(listData: GameListInsert): Promise<GameList | null> {
     const { data, error } = await supabase
       .from('game_lists')
-      .insert(listData)
+      .insert({ ...listData, chain: listData.chain || ACTIVE_CHAIN.key })
       .select()
       .single();
     
@@ -448,6 +629,7 @@ export const gameListService = {
       .from('game_lists')
       .select('*')
       .eq('user_id', userId)
+      .eq('chain', ACTIVE_CHAIN.key)
       .order('updated_at', { ascending: false });
     
     if (error) {
@@ -458,6 +640,59 @@ export const gameListService = {
     return data || [];
   },
 
+  async getGameList(id: string): Promise<GameList | null> {
+    const { data, error } = await supabase
+      .from('game_lists')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // No list found
+        return null;
+      }
+      console.error('Error fetching game list:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  async getPublicGameLists(userId: string): Promise<GameList[]> {
+    const { data, error } = await supabase
+      .from('game_lists')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('chain', ACTIVE_CHAIN.key)
+      .eq('visibility', 'public')
+      .order('updated_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching public game lists:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
+  async getCollaborativeGameLists(walletAddress: string): Promise<GameList[]> {
+    const { data, error } = await supabase
+      .from('game_lists')
+      .select('*')
+      // collaborators is jsonb, so the filter value has to be JSON rather than a Postgres array literal
+      .contains('collaborators', JSON.stringify([walletAddress.toLowerCase()]))
+      .eq('chain', ACTIVE_CHAIN.key)
+      .order('updated_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching shared game lists:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
   async updateGameList(id: string, updates: GameListUpdate): Promise<GameList | null> {
     const { data, error } = await supabase
       .from('game_lists')
@@ -489,6 +724,19 @@ export const gameListService = {
   },
 
   async addGameToList(listId: string, gameCode: string): Promise<GameList | null> {
+    // Owners and collaborators both append through the RPC, which can only touch game_codes
+    const { data, error } = await supabase.rpc('add_game_to_list', { list_id: listId, code: gameCode });
+
+    if (!error) {
+      return data;
+    }
+
+    // PGRST202: the function is not installed (anon-policy setups), so fall back to a plain update
+    if (error.code !== 'PGRST202') {
+      console.error('Error adding game to list:', error);
+      return null;
+    }
+
     // First get the current list
     const { data: currentList, error: fetchError } = await supabase
       .from('game_lists')
@@ -529,11 +777,136 @@ export const gameListService = {
       game_codes: updatedCodes,
     });
   },
+
+  async reorderGameList(listId: string, gameCodes: string[]): Promise<GameList | null> {
+    return await this.updateGameList(listId, {
+      game_codes: gameCodes,
+    });
+  },
+
+  async addCollaborator(listId: string, walletAddress: string): Promise<GameList | null> {
+    const { data: currentList, error: fetchError } = await supabase
+      .from('game_lists')
+      .select('collaborators')
+      .eq('id', listId)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching list collaborators:', fetchError);
+      return null;
+    }
+    
+    const current = Array.isArray(currentList.collaborators) ? currentList.collaborators : [];
+    const updated = [...new Set([...current, walletAddress.toLowerCase()])];
+    
+    return await this.updateGameList(listId, {
+      collaborators: updated,
+    });
+  },
+
+  async removeCollaborator(listId: string, walletAddress: string): Promise<GameList | null> {
+    const { data: currentList, error: fetchError } = await supabase
+      .from('game_lists')
+      .select('collaborators')
+      .eq('id', listId)
+      .single();
+    
+    if (fetchError) {
+      console.error('Error fetching list collaborators:', fetchError);
+      return null;
+    }
+    
+    const current = Array.isArray(currentList.collaborators) ? currentList.collaborators : [];
+    const updated = current.filter((address: any) => address !== walletAddress.toLowerCase());
+    
+    return await this.updateGameList(listId, {
+      collaborators: updated,
+    });
+  },
 };
 
 // Export all services as a single object
+// Game invitation operations
+export const gameInvitationService = {
+  async createInvitation(invitation: GameInvitationInsert): Promise<GameInvitation | null> {
+    const { data, error } = await supabase
+      .from('game_invitations')
+      .insert({
+        ...invitation,
+        chain: invitation.chain || ACTIVE_CHAIN.key,
+        game_code: invitation.game_code.toUpperCase(),
+        host_address: invitation.host_address.toLowerCase(),
+        invitee_address: invitation.invitee_address.toLowerCase()
+      })
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating game invitation:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  async getInvitation(id: string): Promise<GameInvitation | null> {
+    const { data, error } = await supabase
+      .from('game_invitations')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) {
+      if (error.code === 'PGRST116' || error.code === '22P02') {
+        // No invitation found, or the id in the link is not a uuid
+        return null;
+      }
+      console.error('Error fetching game invitation:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  /**
+   * Invitations for a game on the active chain. Any signed-in wallet can insert rows for any
+   * code, so only those created by the game's on-chain host are returned.
+   */
+  async getGameInvitations(gameCode: string, hostAddress: string): Promise<GameInvitation[]> {
+    const { data, error } = await supabase
+      .from('game_invitations')
+      .select('*')
+      .eq('chain', ACTIVE_CHAIN.key)
+      .eq('game_code', gameCode.toUpperCase())
+      .eq('host_address', hostAddress.toLowerCase())
+      .order('created_at', { ascending: true });
+    
+    if (error) {
+      console.error('Error fetching game invitations:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
+  async deleteInvitation(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('game_invitations')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting game invitation:', error);
+      return false;
+    }
+    
+    return true;
+  },
+};
+
 export const databaseService = {
   user: userService,
   gameHistory: gameHistoryService,
   gameLists: gameListService,
+  gameInvitations: gameInvitationService,
 };
\ No newline at end of file
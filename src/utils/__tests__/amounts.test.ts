@@ -0,0 +1,362 @@
+/**
+ * Tests for exact token amount math
+ */
+
+import {
+  toBigIntAmount,
+  parseAmount,
+  tryParseAmount,
+  formatUnits,
+  formatAmount,
+  splitAmount,
+  formatSplitPercent,
+  BASIS_POINTS,
+  PRIZE_SPLIT_DENOMINATOR
+} from '../amounts';
+
+const WEI = BigInt('1000000000000000000');
+
+describe('toBigIntAmount', () => {
+  test('should pass bigints through', () => {
+    expect(toBigIntAmount(BigInt(42))).toBe(BigInt(42));
+  });
+
+  test('should accept integer numbers and strings', () => {
+    expect(toBigIntAmount(1000)).toBe(BigInt(1000));
+    expect(toBigIntAmount('123456789012345678901234567890')).toBe(BigInt('123456789012345678901234567890'));
+    expect(toBigIntAmount(' 7 ')).toBe(BigInt(7));
+  });
+
+  test('should treat empty strings as zero', () => {
+    expect(toBigIntAmount('')).toBe(BigInt(0));
+    expect(toBigIntAmount('   ')).toBe(BigInt(0));
+  });
+
+  test('should accept hex strings', () => {
+    expect(toBigIntAmount('0xde0b6b3a7640000')).toBe(WEI);
+  });
+
+  test('should accept integer e-notation', () => {
+    expect(toBigIntAmount('1e+21')).toBe(BigInt('1000000000000000000000'));
+    expect(toBigIntAmount('1.5e3')).toBe(BigInt(1500));
+  });
+
+  test('should reject fractional base units', () => {
+    expect(() => toBigIntAmount('1.5')).toThrow();
+    expect(() => toBigIntAmount(1.5)).toThrow();
+    expect(() => toBigIntAmount('1e-3')).toThrow();
+  });
+
+  test('should reject garbage', () => {
+    expect(() => toBigIntAmount('abc')).toThrow();
+    expect(() => toBigIntAmount('12abc')).toThrow();
+  });
+});
+
+describe('parseAmount', () => {
+  test('should parse whole and fractional amounts', () => {
+    expect(parseAmount('1', 18)).toBe(WEI);
+    expect(parseAmount('1.5', 18)).toBe(BigInt('1500000000000000000'));
+    expect(parseAmount('12.345678', 6)).toBe(BigInt(12345678));
+  });
+
+  test('should default to 18 decimals', () => {
+    expect(parseAmount('2')).toBe(WEI * BigInt(2));
+  });
+
+  test('should keep precision a float would lose', () => {
+    expect(parseAmount('0.1', 18)).toBe(BigInt('100000000000000000'));
+    expect(parseAmount('1.000000000000000001', 18)).toBe(WEI + BigInt(1));
+    expect(parseAmount('123456789.123456789123456789', 18)).toBe(BigInt('123456789123456789123456789'));
+  });
+
+  test('should accept a leading or trailing decimal point', () => {
+    expect(parseAmount('.5', 6)).toBe(BigInt(500000));
+    expect(parseAmount('5.', 6)).toBe(BigInt(5000000));
+  });
+
+  test('should handle zero forms', () => {
+    expect(parseAmount('0', 18)).toBe(BigInt(0));
+    expect(parseAmount('0.000', 18)).toBe(BigInt(0));
+    expect(parseAmount('-0', 18)).toBe(BigInt(0));
+  });
+
+  test('should trim whitespace', () => {
+    expect(parseAmount('  2.5  ', 6)).toBe(BigInt(2500000));
+  });
+
+  test('should truncate digits beyond the token decimals', () => {
+    expect(parseAmount('1.1234567', 6)).toBe(BigInt(1123456));
+    expect(parseAmount('0.0000009', 6)).toBe(BigInt(0));
+    expect(parseAmount('1.9', 0)).toBe(BigInt(1));
+  });
+
+  test('should parse negatives and explicit plus', () => {
+    expect(parseAmount('-1.5', 6)).toBe(BigInt(-1500000));
+    expect(parseAmount('+1.5', 6)).toBe(BigInt(1500000));
+  });
+
+  test('should apply exponents', () => {
+    expect(parseAmount('1e3', 6)).toBe(BigInt(1000000000));
+    expect(parseAmount('2.5E-3', 6)).toBe(BigInt(2500));
+    expect(parseAmount('1e-7', 6)).toBe(BigInt(0));
+    expect(parseAmount('0.00015e2', 6)).toBe(BigInt(15000));
+  });
+
+  test('should handle leading zeros', () => {
+    expect(parseAmount('007.50', 2)).toBe(BigInt(750));
+  });
+
+  test('should reject invalid input', () => {
+    ['', ' ', '.', 'abc', '1.2.3', '1,000', '--1', '1e', 'e5', '0x10', 'NaN', 'Infinity', '1 000'].forEach(input => {
+      expect(() => parseAmount(input, 18)).toThrow();
+    });
+  });
+
+  test('should reject absurd exponents', () => {
+    expect(() => parseAmount('1e100000', 18)).toThrow();
+  });
+
+  test('should reject invalid decimals', () => {
+    expect(() => parseAmount('1', -1)).toThrow();
+    expect(() => parseAmount('1', 1.5)).toThrow();
+  });
+});
+
+describe('tryParseAmount', () => {
+  test('should return null instead of throwing', () => {
+    expect(tryParseAmount('abc', 18)).toBeNull();
+    expect(tryParseAmount('', 6)).toBeNull();
+  });
+
+  test('should return parsed values', () => {
+    expect(tryParseAmount('0.25', 6)).toBe(BigInt(250000));
+  });
+});
+
+describe('formatUnits', () => {
+  test('should format exactly with trailing zeros trimmed', () => {
+    expect(formatUnits(WEI, 18)).toBe('1');
+    expect(formatUnits(BigInt('1500000000000000000'), 18)).toBe('1.5');
+    expect(formatUnits(BigInt(1), 18)).toBe('0.000000000000000001');
+    expect(formatUnits(BigInt(0), 6)).toBe('0');
+  });
+
+  test('should handle zero decimals', () => {
+    expect(formatUnits(BigInt(12345), 0)).toBe('12345');
+  });
+
+  test('should handle negatives', () => {
+    expect(formatUnits(BigInt(-1500000), 6)).toBe('-1.5');
+  });
+
+  test('should keep values beyond Number precision', () => {
+    expect(formatUnits('123456789123456789123456789', 18)).toBe('123456789.123456789123456789');
+  });
+
+  test('should round-trip through parseAmount', () => {
+    ['0', '1', '0.1', '999999999999.999999', '0.000001', '-42.000042'].forEach(value => {
+      expect(formatUnits(parseAmount(value, 6), 6)).toBe(value);
+    });
+  });
+});
+
+describe('formatAmount', () => {
+  test('should default to 4 decimals with trailing zeros trimmed', () => {
+    expect(formatAmount(BigInt('1234500000000000000'), 18)).toBe('1.2345');
+    expect(formatAmount(BigInt('1500000000000000000'), 18)).toBe('1.5');
+    expect(formatAmount(WEI, 18)).toBe('1');
+  });
+
+  test('should pad up to minDecimals', () => {
+    expect(formatAmount(WEI, 18, { minDecimals: 4 })).toBe('1.0000');
+    expect(formatAmount(BigInt(0), 18, { minDecimals: 2 })).toBe('0.00');
+  });
+
+  test('should clamp minDecimals to maxDecimals', () => {
+    expect(formatAmount(WEI, 18, { maxDecimals: 2, minDecimals: 6 })).toBe('1.00');
+  });
+
+  test('should round half away from zero by default', () => {
+    expect(formatAmount(BigInt(12345), 4, { maxDecimals: 3 })).toBe('1.235');
+    expect(formatAmount(BigInt(12344), 4, { maxDecimals: 3 })).toBe('1.234');
+    expect(formatAmount(BigInt(-12345), 4, { maxDecimals: 3 })).toBe('-1.235');
+  });
+
+  test('should carry rounding into the whole part', () => {
+    expect(formatAmount(BigInt('999950000000000000'), 18, { minDecimals: 4 })).toBe('1.0000');
+    expect(formatAmount(BigInt(99999), 4, { maxDecimals: 2 })).toBe('10');
+  });
+
+  test('should floor and ceil', () => {
+    expect(formatAmount(BigInt(19999), 4, { maxDecimals: 2, rounding: 'floor' })).toBe('1.99');
+    expect(formatAmount(BigInt(10001), 4, { maxDecimals: 2, rounding: 'ceil' })).toBe('1.01');
+    expect(formatAmount(BigInt(10000), 4, { maxDecimals: 2, rounding: 'ceil' })).toBe('1');
+  });
+
+  test('should floor and ceil negatives toward their infinities', () => {
+    expect(formatAmount(BigInt(-10001), 4, { maxDecimals: 2, rounding: 'floor' })).toBe('-1.01');
+    expect(formatAmount(BigInt(-19999), 4, { maxDecimals: 2, rounding: 'ceil' })).toBe('-1.99');
+  });
+
+  test('should not print negative zero', () => {
+    expect(formatAmount(BigInt(-1), 18)).toBe('0');
+    expect(formatAmount(BigInt(-1), 18, { minDecimals: 2 })).toBe('0.00');
+  });
+
+  test('should show dust only when ceiling', () => {
+    expect(formatAmount(BigInt(1), 18, { maxDecimals: 6 })).toBe('0');
+    expect(formatAmount(BigInt(1), 18, { maxDecimals: 6, rounding: 'ceil' })).toBe('0.000001');
+  });
+
+  test('should pad when the token has fewer decimals than requested', () => {
+    expect(formatAmount(BigInt(15), 1, { maxDecimals: 4, minDecimals: 4 })).toBe('1.5000');
+    expect(formatAmount(BigInt(15), 0, { maxDecimals: 2, minDecimals: 2 })).toBe('15.00');
+  });
+
+  test('should support zero maxDecimals', () => {
+    expect(formatAmount(BigInt('2500000'), 6, { maxDecimals: 0 })).toBe('3');
+    expect(formatAmount(BigInt('2499999'), 6, { maxDecimals: 0 })).toBe('2');
+  });
+
+  test('should keep every digit of huge amounts', () => {
+    expect(formatAmount(BigInt('123456789012345678901234567890'), 18, { maxDecimals: 2 })).toBe('123456789012.35');
+  });
+
+  test('should accept string and number inputs', () => {
+    expect(formatAmount('1500000', 6)).toBe('1.5');
+    expect(formatAmount(1500000, 6)).toBe('1.5');
+  });
+
+  test('should apply locale grouping and separators', () => {
+    const amount = parseAmount('1234567.891', 18);
+    expect(formatAmount(amount, 18, { maxDecimals: 2, locale: 'en-US' })).toBe('1,234,567.89');
+    expect(formatAmount(amount, 18, { maxDecimals: 2, locale: 'de-DE' })).toBe('1.234.567,89');
+  });
+
+  test('should leave small values ungrouped under a locale', () => {
+    expect(formatAmount(parseAmount('999.5', 6), 6, { locale: 'en-US' })).toBe('999.5');
+  });
+
+  test('should compact thousands and up', () => {
+    expect(formatAmount(parseAmount('999', 6), 6, { compact: true, maxDecimals: 1 })).toBe('999');
+    expect(formatAmount(parseAmount('1000', 6), 6, { compact: true, maxDecimals: 1 })).toBe('1K');
+    expect(formatAmount(parseAmount('1250', 6), 6, { compact: true, maxDecimals: 1 })).toBe('1.3K');
+    expect(formatAmount(parseAmount('2500000', 6), 6, { compact: true, maxDecimals: 1 })).toBe('2.5M');
+    expect(formatAmount(parseAmount('7800000000', 6), 6, { compact: true, maxDecimals: 1 })).toBe('7.8B');
+    expect(formatAmount(parseAmount('3000000000000', 6), 6, { compact: true, maxDecimals: 1 })).toBe('3T');
+  });
+
+  test('should stay in trillions past the last suffix', () => {
+    expect(formatAmount(parseAmount('5000000000000000', 6), 6, { compact: true, maxDecimals: 0, locale: 'en-US' })).toBe('5,000T');
+  });
+
+  test('should move to the next compact tier when rounding carries', () => {
+    expect(formatAmount(parseAmount('999960', 6), 6, { compact: true, maxDecimals: 1 })).toBe('1M');
+    expect(formatAmount(parseAmount('999.96', 6), 6, { compact: true, maxDecimals: 1 })).toBe('1K');
+  });
+
+  test('should compact negatives', () => {
+    expect(formatAmount(parseAmount('-1500', 6), 6, { compact: true, maxDecimals: 1 })).toBe('-1.5K');
+  });
+
+  test('should combine compact and locale', () => {
+    expect(formatAmount(parseAmount('1250', 6), 6, { compact: true, maxDecimals: 2, locale: 'de-DE' })).toBe('1,25K');
+  });
+});
+
+describe('splitAmount', () => {
+  const sum = (values: bigint[]) => values.reduce((total, value) => total + value, BigInt(0));
+
+  test('should split evenly divisible totals exactly', () => {
+    expect(splitAmount(BigInt(1000), [6000, 4000])).toEqual([BigInt(600), BigInt(400)]);
+    expect(splitAmount(WEI, [5000, 3000, 2000])).toEqual([
+      BigInt('500000000000000000'),
+      BigInt('300000000000000000'),
+      BigInt('200000000000000000')
+    ]);
+  });
+
+  test('should hand remainder wei to the largest fractional shares', () => {
+    // 10 * 0.7 = 7, 10 * 0.2 = 2, 10 * 0.1 = 1 -> exact
+    expect(splitAmount(BigInt(10), [7000, 2000, 1000])).toEqual([BigInt(7), BigInt(2), BigInt(1)]);
+    // 7 * 0.5 = 3.5, 7 * 0.3 = 2.1, 7 * 0.2 = 1.4 -> floors 3/2/1, one wei to 1st
+    expect(splitAmount(BigInt(7), [5000, 3000, 2000])).toEqual([BigInt(4), BigInt(2), BigInt(1)]);
+    // 11 * 0.8 = 8.8, 11 * 0.15 = 1.65, 11 * 0.05 = 0.55 -> floors 8/1/0, two wei to 1st and 2nd
+    expect(splitAmount(BigInt(11), [8000, 1500, 500])).toEqual([BigInt(9), BigInt(2), BigInt(0)]);
+  });
+
+  test('should break remainder ties toward earlier positions', () => {
+    expect(splitAmount(BigInt(1), [5000, 5000])).toEqual([BigInt(1), BigInt(0)]);
+    expect(splitAmount(BigInt(100), [3333, 3333, 3334], BASIS_POINTS)).toEqual([BigInt(33), BigInt(33), BigInt(34)]);
+    expect(splitAmount(BigInt(2), [3333, 3333, 3334], BASIS_POINTS)).toEqual([BigInt(1), BigInt(0), BigInt(1)]);
+  });
+
+  test('should always allocate the whole total for full splits', () => {
+    const presets = [[10000], [6000, 4000], [5000, 3000, 2000], [7000, 2000, 1000], [8000, 1500, 500], [3330, 3330, 3340]];
+    const totals = [BigInt(0), BigInt(1), BigInt(2), BigInt(7), BigInt(999), BigInt('123456789012345678901'), WEI * BigInt(3) + BigInt(1)];
+    presets.forEach(splits => {
+      totals.forEach(total => {
+        const allocations = splitAmount(total, splits);
+        expect(sum(allocations)).toBe(total);
+        allocations.forEach(allocation => expect(allocation >= BigInt(0)).toBe(true));
+      });
+    });
+  });
+
+  test('should never move more than one wei away from the floor', () => {
+    const total = BigInt('1000000000000000007');
+    const splits = [3330, 3330, 3340];
+    splitAmount(total, splits).forEach((allocation, index) => {
+      const floor = (total * BigInt(splits[index])) / BigInt(PRIZE_SPLIT_DENOMINATOR);
+      expect(allocation - floor >= BigInt(0) && allocation - floor <= BigInt(1)).toBe(true);
+    });
+  });
+
+  test('should give a zero total nothing', () => {
+    expect(splitAmount(BigInt(0), [6000, 4000])).toEqual([BigInt(0), BigInt(0)]);
+  });
+
+  test('should allocate only the covered share of partial splits', () => {
+    const allocations = splitAmount(BigInt(10), [3330, 3330]);
+    expect(sum(allocations)).toBe(BigInt(6)); // floor(10 * 0.666)
+  });
+
+  test('should return an empty list for no splits', () => {
+    expect(splitAmount(BigInt(100), [])).toEqual([]);
+  });
+
+  test('should accept basis points and bigint splits', () => {
+    expect(splitAmount(BigInt(10000), [BigInt(7000), BigInt(3000)], BASIS_POINTS)).toEqual([BigInt(7000), BigInt(3000)]);
+  });
+
+  test('should reject invalid input', () => {
+    expect(() => splitAmount(BigInt(-1), [10000])).toThrow();
+    expect(() => splitAmount(BigInt(1), [-10, 10010])).toThrow();
+    expect(() => splitAmount(BigInt(1), [10000], 0)).toThrow();
+  });
+});
+
+describe('formatSplitPercent', () => {
+  test('should default to the contract\'s basis point splits', () => {
+    expect(formatSplitPercent(10000)).toBe('100.0%');
+    expect(formatSplitPercent(BigInt(500))).toBe('5.0%');
+    expect(formatSplitPercent(0)).toBe('0.0%');
+  });
+
+  test('should format permille splits', () => {
+    expect(formatSplitPercent(1000, 1000)).toBe('100.0%');
+    expect(formatSplitPercent(333, 1000)).toBe('33.3%');
+  });
+
+  test('should format basis point splits', () => {
+    expect(formatSplitPercent(2500, BASIS_POINTS)).toBe('25.0%');
+    expect(formatSplitPercent(3333, BASIS_POINTS)).toBe('33.3%');
+    expect(formatSplitPercent(3335, BASIS_POINTS)).toBe('33.4%');
+  });
+
+  test('should honour the requested precision', () => {
+    expect(formatSplitPercent(3333, BASIS_POINTS, 2)).toBe('33.33%');
+    expect(formatSplitPercent(1, 3, 0)).toBe('33%');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for claim prize and fee estimates
+ */
+
+import { estimateClaimPayouts, getWinnerPrize } from '../claimPayouts';
+
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const POT = BigInt(10000000);
+
+describe('getWinnerPrize', () => {
+  test('should pay the whole pot to first place in winner-take-all games', () => {
+    expect(getWinnerPrize(POT, [], 0)).toBe(POT);
+    expect(getWinnerPrize(POT, [], 1)).toBe(BigInt(0));
+    // CreateGameModal stores winner-take-all as a single 100% split
+    expect(getWinnerPrize(POT, [10000], 0)).toBe(POT);
+    expect(getWinnerPrize(POT, [10000], 1)).toBe(BigInt(0));
+  });
+
+  test('should read splits as basis points', () => {
+    expect(getWinnerPrize(POT, [7000, 3000], 0)).toBe(BigInt(7000000));
+    expect(getWinnerPrize(POT, [7000, 3000], 1)).toBe(BigInt(3000000));
+    expect(getWinnerPrize(POT, [7000, 3000], 2)).toBe(BigInt(0));
+  });
+
+  test('should allocate every wei of uneven pots', () => {
+    const prizes = [0, 1, 2].map(index => getWinnerPrize(BigInt(7), [5000, 3000, 2000], index));
+    expect(prizes).toEqual([BigInt(4), BigInt(2), BigInt(1)]);
+  });
+
+  test('should pay nothing to players who are not winners', () => {
+    expect(getWinnerPrize(POT, [7000, 3000], -1)).toBe(BigInt(0));
+  });
+});
+
+describe('estimateClaimPayouts', () => {
+  test('should take the UI fee only from claims the relay can still cover', () => {
+    const wins = [
+      { token: USDC, prize: BigInt(7000000) },
+      { token: USDC, prize: BigInt(3000000) },
+      { token: WETH, prize: BigInt(1000) }
+    ];
+
+    expect(estimateClaimPayouts(wins, 1)).toEqual([
+      { token: USDC, games: 2, gross: BigInt(10000000), fee: BigInt(70000), net: BigInt(9930000) },
+      { token: WETH, games: 1, gross: BigInt(1000), fee: BigInt(0), net: BigInt(1000) }
+    ]);
+  });
+
+  test('should charge no fee when every claim is self-paid', () => {
+    const [estimate] = estimateClaimPayouts([{ token: USDC, prize: POT }], 0);
+    expect(estimate).toEqual({ token: USDC, games: 1, gross: POT, fee: BigInt(0), net: POT });
+  });
+
+  test('should return nothing for no wins', () => {
+    expect(estimateClaimPayouts([], 5)).toEqual([]);
+  });
+});
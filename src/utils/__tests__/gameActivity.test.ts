@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for turning decoded game events into timeline entries.
+ * viem needs TextEncoder, which jsdom does not provide.
+ */
+
+import { buildGameActivity } from '../gameActivity';
+import { decodeGameEvents } from '../gameEvents';
+import fixtures from './fixtures/gameEventLogs.json';
+
+const HOST = '0x1111111111111111111111111111111111111111';
+const PLAYER_ONE = '0x2222222222222222222222222222222222222222';
+const PLAYER_TWO = '0x3333333333333333333333333333333333333333';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = '0x0000000000000000000000000000000000000000';
+const CODE = 'ABC-123';
+
+const decode = (...logs: any[]) => decodeGameEvents(logs, { lookupCode: () => CODE });
+
+describe('buildGameActivity', () => {
+  test('should order entries by block and log index with their actors', () => {
+    const entries = buildGameActivity(decode(
+      fixtures.winnersReported,
+      fixtures.playerJoined,
+      fixtures.gameStarted,
+      fixtures.gameLocked
+    ));
+
+    const order = entries.map(entry => [entry.event.blockNumber, entry.event.logIndex]);
+    expect(order).toEqual(order.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+    expect(entries[0].event.name).toBe('GameStarted');
+    expect(entries.find(entry => entry.event.name === 'GameStarted')?.actor).toBe(HOST);
+    expect(entries.find(entry => entry.event.name === 'PlayerJoined')?.actor).toBe(PLAYER_ONE);
+    expect(entries.find(entry => entry.event.name === 'GameLocked')?.actor).toBeNull();
+    expect(entries[0].id).toBe(`${fixtures.gameStarted.transactionHash}:1`);
+  });
+
+  test('should price joins at the buy-in and claims at what the winner received', () => {
+    const entries = buildGameActivity(decode(
+      fixtures.gameStarted,
+      fixtures.playerJoined,
+      fixtures.potIncreased,
+      fixtures.winningsClaimedViaUI
+    ));
+    const byName = (name: string) => entries.find(entry => entry.event.name === name)!;
+
+    expect(byName('GameStarted')).toMatchObject({ amount: BigInt(5000000), token: USDC });
+    expect(byName('PlayerJoined')).toMatchObject({ amount: BigInt(5000000), token: USDC });
+    expect(byName('PotIncreased')).toMatchObject({ amount: BigInt(1000000), token: USDC, actor: PLAYER_TWO });
+    expect(byName('WinningsClaimedViaUI')).toMatchObject({ amount: BigInt('2970000000000000'), token: ETH });
+  });
+
+  test('should fall back to the game token when GameStarted is out of range', () => {
+    const entries = buildGameActivity(decode(fixtures.potIncreased, fixtures.playerJoined), new Map(), USDC);
+    const pot = entries.find(entry => entry.event.name === 'PotIncreased');
+    const joined = entries.find(entry => entry.event.name === 'PlayerJoined');
+
+    expect(pot).toMatchObject({ amount: BigInt(1000000), token: USDC });
+    // The buy-in is only known from GameStarted
+    expect(joined).toMatchObject({ amount: null, token: null });
+  });
+
+  test('should attach block timestamps when known', () => {
+    const [started] = buildGameActivity(decode(fixtures.gameStarted));
+    const [withTime] = buildGameActivity(decode(fixtures.gameStarted), new Map([[started.event.blockNumber, 1700000000000]]));
+
+    expect(started.timestamp).toBeNull();
+    expect(withTime.timestamp).toBe(1700000000000);
+  });
+});
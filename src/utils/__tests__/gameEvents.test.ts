@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for typed game event decoding against eth_getLogs-shaped fixtures.
+ * viem needs TextEncoder, which jsdom does not provide.
+ *
+ * The fixtures are hand-encoded in the RPC's log shape rather than captured from a node, so they
+ * are first checked against the canonical event signatures and raw word layout without going
+ * through the decoder or the app's ABI.
+ */
+
+import {
+  decodeGameEvent,
+  decodeGameEvents,
+  getGameCodeHash,
+  getClaimedAmount,
+  isClaimEvent,
+  isEventForGame
+} from '../gameEvents';
+import { keccakId } from 'thirdweb/utils';
+import fixtures from './fixtures/gameEventLogs.json';
+
+const HOST = '0x1111111111111111111111111111111111111111';
+const PLAYER_ONE = '0x2222222222222222222222222222222222222222';
+const PLAYER_TWO = '0x3333333333333333333333333333333333333333';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = '0x0000000000000000000000000000000000000000';
+const CODE = 'ABC-123';
+const CODE_HASH = getGameCodeHash(CODE);
+
+const lookupCode = (codeHash: string) => (codeHash === CODE_HASH ? CODE : null);
+
+// Data words of a log, as 64-character hex strings
+const words = (data: string): string[] => data.slice(2).match(/.{64}/g) || [];
+
+describe('fixtures', () => {
+  test('should use the topics of the canonical event signatures', () => {
+    const signatures: [keyof typeof fixtures, string][] = [
+      ['gameStarted', 'GameStarted(string,address,address,uint256,uint256,uint256[])'],
+      ['playerJoined', 'PlayerJoined(string,address,uint256)'],
+      ['gameLocked', 'GameLocked(string)'],
+      ['prizeSplitsSet', 'PrizeSplitsSet(string,uint256[])'],
+      ['potIncreased', 'PotIncreased(string,address,uint256)'],
+      ['winnersReported', 'WinnersReported(string,address,address[],uint256,uint256)'],
+      ['winningsClaimed', 'WinningsClaimed(string,address,address,uint256)'],
+      ['winningsClaimedViaUI', 'WinningsClaimedViaUI(string,address,address,uint256,uint256,uint256)'],
+      ['erc20Transfer', 'Transfer(address,address,uint256)']
+    ];
+    signatures.forEach(([key, signature]) => {
+      expect(fixtures[key].topics[0]).toBe(keccakId(signature));
+    });
+  });
+
+  test('should hash indexed string codes into the topic', () => {
+    expect(fixtures.playerJoined.topics[1]).toBe(keccakId(CODE));
+  });
+
+  test('should lay out GameStarted data as the ABI head and tails', () => {
+    const [codeOffset, token, buyIn, maxPlayers, splitsOffset, codeLength, codeBytes] = words(fixtures.gameStarted.data);
+    expect(parseInt(codeOffset, 16)).toBe(5 * 32);
+    expect(`0x${token.slice(24)}`).toBe(USDC);
+    expect(parseInt(buyIn, 16)).toBe(5000000);
+    expect(parseInt(maxPlayers, 16)).toBe(8);
+    expect(parseInt(splitsOffset, 16)).toBe(7 * 32);
+    expect(parseInt(codeLength, 16)).toBe(CODE.length);
+    expect(Buffer.from(codeBytes.slice(0, CODE.length * 2), 'hex').toString()).toBe(CODE);
+  });
+});
+
+describe('decodeGameEvent', () => {
+  test('should decode GameStarted with the code from data and host from topics', () => {
+    const event = decodeGameEvent(fixtures.gameStarted);
+    expect(event).toEqual({
+      name: 'GameStarted',
+      code: CODE,
+      codeHash: CODE_HASH,
+      host: HOST,
+      token: USDC,
+      buyIn: BigInt(5000000),
+      maxPlayers: 8,
+      splits: [600, 300, 100],
+      blockNumber: 27000010,
+      transactionHash: fixtures.gameStarted.transactionHash,
+      logIndex: 1
+    });
+  });
+
+  test('should decode PlayerJoined', () => {
+    const event = decodeGameEvent(fixtures.playerJoined);
+    expect(event?.name).toBe('PlayerJoined');
+    if (event?.name !== 'PlayerJoined') return;
+    expect(event.player).toBe(PLAYER_ONE);
+    expect(event.playerCount).toBe(2);
+  });
+
+  test('should decode GameLocked, which has no data', () => {
+    const event = decodeGameEvent(fixtures.gameLocked);
+    expect(event?.name).toBe('GameLocked');
+    expect(event?.codeHash).toBe(CODE_HASH);
+  });
+
+  test('should decode PrizeSplitsSet', () => {
+    const event = decodeGameEvent(fixtures.prizeSplitsSet);
+    expect(event?.name === 'PrizeSplitsSet' && event.splits).toEqual([700, 300]);
+  });
+
+  test('should decode PotIncreased', () => {
+    const event = decodeGameEvent(fixtures.potIncreased);
+    expect(event?.name).toBe('PotIncreased');
+    if (event?.name !== 'PotIncreased') return;
+    expect(event.contributor).toBe(PLAYER_TWO);
+    expect(event.amount).toBe(BigInt(1000000));
+  });
+
+  test('should decode WinnersReported', () => {
+    const event = decodeGameEvent(fixtures.winnersReported);
+    expect(event?.name).toBe('WinnersReported');
+    if (event?.name !== 'WinnersReported') return;
+    expect(event.reporter).toBe(HOST);
+    expect(event.winners).toEqual([PLAYER_ONE, PLAYER_TWO]);
+    expect(event.winnerCount).toBe(BigInt(2));
+    expect(event.totalPrize).toBe(BigInt(10000000));
+  });
+
+  test('should decode WinningsClaimed', () => {
+    const event = decodeGameEvent(fixtures.winningsClaimed);
+    expect(event?.name).toBe('WinningsClaimed');
+    if (event?.name !== 'WinningsClaimed') return;
+    expect(event.winner).toBe(PLAYER_ONE);
+    expect(event.token).toBe(USDC);
+    expect(event.amount).toBe(BigInt(7000000));
+  });
+
+  test('should decode WinningsClaimedViaUI with the UI fee split out', () => {
+    const event = decodeGameEvent(fixtures.winningsClaimedViaUI);
+    expect(event?.name).toBe('WinningsClaimedViaUI');
+    if (event?.name !== 'WinningsClaimedViaUI') return;
+    expect(event.winner).toBe(PLAYER_TWO);
+    expect(event.token).toBe(ETH);
+    expect(event.userPayout).toBe(BigInt('2970000000000000'));
+    expect(event.uiFee).toBe(BigInt('30000000000000'));
+    expect(event.feeRate).toBe(BigInt(100));
+  });
+
+  test('should leave hashed codes unresolved without a lookup', () => {
+    expect(decodeGameEvent(fixtures.winningsClaimed)?.code).toBeNull();
+    expect(decodeGameEvent(fixtures.winningsClaimed, { lookupCode })?.code).toBe(CODE);
+  });
+
+  test('should accept bigint quantities from thirdweb receipts', () => {
+    const event = decodeGameEvent({ ...fixtures.gameLocked, blockNumber: BigInt(123), logIndex: 4 });
+    expect(event?.blockNumber).toBe(123);
+    expect(event?.logIndex).toBe(4);
+  });
+
+  test('should ignore logs from other contracts', () => {
+    expect(decodeGameEvent(fixtures.erc20Transfer)).toBeNull();
+    expect(decodeGameEvent({ ...fixtures.winningsClaimed, address: USDC })).toBeNull();
+  });
+
+  test('should ignore unknown events and truncated data', () => {
+    expect(decodeGameEvent({ ...fixtures.erc20Transfer, address: fixtures.gameStarted.address })).toBeNull();
+    expect(decodeGameEvent(fixtures.truncatedWinningsClaimed)).toBeNull();
+    expect(decodeGameEvent({ topics: [], data: '0x' })).toBeNull();
+  });
+});
+
+describe('decodeGameEvents', () => {
+  test('should resolve codes from GameStarted events in the same batch', () => {
+    const events = decodeGameEvents([
+      fixtures.gameStarted,
+      fixtures.playerJoined,
+      fixtures.erc20Transfer,
+      fixtures.winningsClaimed
+    ]);
+    expect(events.map(event => event.name)).toEqual(['GameStarted', 'PlayerJoined', 'WinningsClaimed']);
+    expect(events.every(event => event.code === CODE)).toBe(true);
+  });
+
+  test('should fall back to the lookup for codes not in the batch', () => {
+    const [event] = decodeGameEvents([fixtures.gameLocked], { lookupCode });
+    expect(event.code).toBe(CODE);
+  });
+});
+
+describe('claim helpers', () => {
+  test('should report what the winner received for both claim paths', () => {
+    const direct = decodeGameEvent(fixtures.winningsClaimed);
+    const viaUI = decodeGameEvent(fixtures.winningsClaimedViaUI);
+    expect(isClaimEvent(direct) && getClaimedAmount(direct)).toBe(BigInt(7000000));
+    expect(isClaimEvent(viaUI) && getClaimedAmount(viaUI)).toBe(BigInt('2970000000000000'));
+    expect(isClaimEvent(decodeGameEvent(fixtures.playerJoined))).toBe(false);
+  });
+
+  test('should match events to games by code hash', () => {
+    const event = decodeGameEvent(fixtures.potIncreased)!;
+    expect(isEventForGame(event, CODE)).toBe(true);
+    expect(isEventForGame(event, 'XYZ-999')).toBe(false);
+  });
+});
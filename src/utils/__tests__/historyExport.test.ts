@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for game history export records, fiat valuation and CSV/JSON output.
+ * gameEvents pulls in viem, which needs TextEncoder that jsdom does not provide.
+ */
+
+import {
+  buildHistoryExport,
+  addFiatValues,
+  toHistoryCsv,
+  toHistoryJson,
+  HistoryExportContext
+} from '../historyExport';
+import { createFixturePriceSource, stablecoinPriceSource } from '../priceSource';
+import { getGameCodeHash, GameEvent } from '../gameEvents';
+
+const PLAYER = '0x2222222222222222222222222222222222222222';
+const HOST = '0x1111111111111111111111111111111111111111';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = '0x0000000000000000000000000000000000000000';
+
+const JOIN_TIME = Date.UTC(2026, 0, 15, 12);
+const CLAIM_TIME = Date.UTC(2026, 1, 1, 9);
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'row-1',
+  user_id: 'user-1',
+  game_code: 'ABC-123',
+  chain: 'base',
+  game_type: 'standard',
+  buy_in_amount: '5000000',
+  result: 'won' as const,
+  winnings: '9000000',
+  created_at: '2026-01-20T00:00:00.000Z',
+  block_number: 100,
+  transaction_hash: '0xjoin',
+  is_locked: true,
+  prize_splits: null,
+  winner_rank: 1,
+  is_stale: false,
+  token_address: null,
+  pot_amount: null,
+  ...overrides
+});
+
+const base = (code: string, blockNumber: number, transactionHash: string) => ({
+  code,
+  codeHash: getGameCodeHash(code),
+  blockNumber,
+  transactionHash,
+  logIndex: 0
+});
+
+const EVENTS: GameEvent[] = [
+  { ...base('ABC-123', 90, '0xstart'), name: 'GameStarted', host: HOST, token: USDC, buyIn: BigInt(5000000), maxPlayers: 4, splits: [] },
+  { ...base('ABC-123', 100, '0xjoin'), name: 'PlayerJoined', player: PLAYER, playerCount: 2 },
+  {
+    ...base('ABC-123', 200, '0xclaim'),
+    name: 'WinningsClaimedViaUI',
+    winner: PLAYER,
+    token: USDC,
+    userPayout: BigInt(8910000),
+    uiFee: BigInt(90000),
+    feeRate: BigInt(100)
+  }
+];
+
+const TOKENS: Record<string, { symbol: string; decimals: number }> = {
+  [USDC]: { symbol: 'USDC', decimals: 6 },
+  [ETH]: { symbol: 'ETH', decimals: 18 }
+};
+
+const context = (overrides: Partial<HistoryExportContext> = {}): HistoryExportContext => ({
+  address: PLAYER,
+  events: EVENTS,
+  timestamps: new Map([[100, JOIN_TIME], [200, CLAIM_TIME]]),
+  getToken: address => TOKENS[address],
+  ...overrides
+});
+
+describe('buildHistoryExport', () => {
+  test('should take token, join and claim details from events', () => {
+    const [record] = buildHistoryExport([row()], context());
+    expect(record).toMatchObject({
+      date: new Date(JOIN_TIME).toISOString(),
+      gameCode: 'ABC-123',
+      tokenAddress: USDC,
+      tokenSymbol: 'USDC',
+      tokenDecimals: 6,
+      buyIn: '5',
+      result: 'won',
+      payout: '8.91',
+      uiFee: '0.09',
+      claimed: true,
+      claimDate: new Date(CLAIM_TIME).toISOString(),
+      joinTxHash: '0xjoin',
+      joinBlock: 100,
+      claimTxHash: '0xclaim',
+      claimBlock: 200
+    });
+  });
+
+  test('should fall back to the row and contract token when events are missing', () => {
+    const [record] = buildHistoryExport(
+      [row({ game_code: 'OLD-1', buy_in_amount: '1000000000000000000', result: 'lost', winnings: null, block_number: null })],
+      context({ gameTokens: new Map([['OLD-1', ETH]]) })
+    );
+    expect(record).toMatchObject({
+      date: '2026-01-20T00:00:00.000Z',
+      tokenSymbol: 'ETH',
+      buyIn: '1',
+      payout: '0',
+      claimed: false,
+      joinTxHash: '0xjoin'
+    });
+  });
+
+  test('should leave amounts in base units when the token is unknown', () => {
+    const [record] = buildHistoryExport([row({ game_code: 'OLD-2' })], context());
+    expect(record.tokenAddress).toBeNull();
+    expect(record.tokenDecimals).toBeNull();
+    expect(record.buyIn).toBe('5000000');
+    expect(record.payout).toBe('9000000');
+  });
+
+  test('should use the token stored on the row', () => {
+    const [record] = buildHistoryExport([row({ game_code: 'OLD-3', token_address: USDC })], context());
+    expect(record.tokenSymbol).toBe('USDC');
+    expect(record.buyIn).toBe('5');
+  });
+
+  test('should filter by date range and sort oldest first', () => {
+    const rows = [
+      row({ id: 'a', game_code: 'NEW-1', block_number: null, created_at: '2026-03-01T00:00:00.000Z' }),
+      row({ id: 'b', game_code: 'OLD-1', block_number: null, created_at: '2025-12-01T00:00:00.000Z' }),
+      row({ id: 'c', game_code: 'MID-1', block_number: null, created_at: '2026-02-10T00:00:00.000Z' })
+    ];
+
+    expect(buildHistoryExport(rows, context()).map(record => record.gameCode)).toEqual(['OLD-1', 'MID-1', 'NEW-1']);
+    expect(buildHistoryExport(rows, context(), {
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      to: new Date('2026-02-28T23:59:59.999Z')
+    }).map(record => record.gameCode)).toEqual(['MID-1']);
+  });
+});
+
+describe('addFiatValues', () => {
+  test('should value the buy-in at join time and the payout at claim time', async () => {
+    const prices = createFixturePriceSource([
+      { token: USDC, timestamp: JOIN_TIME - 1000, price: 0.99 },
+      { token: USDC, timestamp: CLAIM_TIME - 1000, price: 1.01 }
+    ]);
+    const [record] = await addFiatValues(buildHistoryExport([row()], context()), prices);
+    expect(record.currency).toBe('USD');
+    expect(record.buyInValue).toBe(4.95);
+    expect(record.payoutValue).toBe(9);
+    expect(record.uiFeeValue).toBe(0.09);
+  });
+
+  test('should leave values empty when the source has no price', async () => {
+    const [record] = await addFiatValues(
+      buildHistoryExport([row({ game_code: 'OLD-1' })], context({ gameTokens: new Map([['OLD-1', ETH]]) })),
+      stablecoinPriceSource
+    );
+    expect(record.buyInValue).toBeNull();
+    expect(record.payoutValue).toBeNull();
+  });
+
+  test('should match fixtures by symbol', async () => {
+    const prices = createFixturePriceSource([{ token: 'eth', timestamp: 0, price: 3000 }]);
+    const [record] = await addFiatValues(
+      buildHistoryExport([row({ game_code: 'OLD-1', buy_in_amount: '500000000000000000' })], context({ gameTokens: new Map([['OLD-1', ETH]]) })),
+      prices
+    );
+    expect(record.buyInValue).toBe(1500);
+  });
+});
+
+describe('toHistoryCsv', () => {
+  test('should write a header and one line per record', () => {
+    const csv = toHistoryCsv(buildHistoryExport([row()], context()));
+    const [header, line] = csv.trim().split('\r\n');
+    expect(header.split(',')).toContain('claimTxHash');
+    expect(line).toContain('ABC-123');
+    expect(line).toContain('0xclaim');
+  });
+
+  test('should quote commas and neutralize formulas', () => {
+    const csv = toHistoryCsv(buildHistoryExport([row({ game_type: '=HYPERLINK("x"),y' })], context()));
+    expect(csv).toContain('"\'=HYPERLINK(""x""),y"');
+  });
+});
+
+describe('toHistoryJson', () => {
+  test('should include the range and price source', () => {
+    const json = JSON.parse(toHistoryJson(buildHistoryExport([row()], context()), {
+      address: PLAYER.toUpperCase(),
+      chainId: 8453,
+      priceSource: 'fixture',
+      range: { from: new Date('2026-01-01T00:00:00.000Z') }
+    }));
+    expect(json).toMatchObject({ address: PLAYER, chainId: 8453, priceSource: 'fixture', from: '2026-01-01T00:00:00.000Z', to: null });
+    expect(json.games).toHaveLength(1);
+  });
+});
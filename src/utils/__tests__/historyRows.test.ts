@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for reconciling game_history rows with on-chain game state.
+ * viem needs TextEncoder, which jsdom does not provide.
+ */
+
+import { ChainGame, ChainGameReads, collectParticipation, diffRow, toChainGame } from '../historyRows';
+import { decodeIndexedLog } from '../eventIndex';
+import { Database } from '../../lib/database.types';
+import fixtures from './fixtures/gameEventLogs.json';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+
+const HOST = '0x1111111111111111111111111111111111111111';
+const PLAYER_ONE = '0x2222222222222222222222222222222222222222';
+const PLAYER_TWO = '0x3333333333333333333333333333333333333333';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const CODE = 'ABC-123';
+
+const reads = (overrides: Partial<ChainGameReads> = {}): ChainGameReads => ({
+  host: HOST,
+  token: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  buyIn: BigInt(5000000),
+  isLocked: true,
+  splits: [BigInt(700), BigInt(300)],
+  players: [PLAYER_ONE, PLAYER_TWO],
+  winners: [],
+  pot: BigInt(10000000),
+  ...overrides
+});
+
+const chainGame = (overrides: Partial<ChainGame> = {}): ChainGame => ({
+  token: USDC,
+  buyIn: '5000000',
+  pot: '10000000',
+  isLocked: true,
+  prizeSplits: [700, 300],
+  result: 'active',
+  winnerRank: null,
+  winnings: null,
+  ...overrides
+});
+
+const historyRow = (overrides: Partial<GameHistory> = {}): GameHistory => ({
+  id: 'row-1',
+  user_id: 'user-1',
+  game_code: CODE,
+  chain: 'base',
+  game_type: 'standard',
+  buy_in_amount: '5000000',
+  result: 'active',
+  winnings: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  block_number: 100,
+  transaction_hash: '0xabc',
+  is_locked: true,
+  prize_splits: [700, 300],
+  winner_rank: null,
+  is_stale: false,
+  token_address: USDC,
+  pot_amount: '10000000',
+  ...overrides
+});
+
+describe('toChainGame', () => {
+  test('should report an unfinished game as active', () => {
+    expect(toChainGame(reads(), PLAYER_ONE)).toEqual(chainGame());
+  });
+
+  test('should rank winners and only count paid places as won', () => {
+    const finished = reads({ winners: [PLAYER_TWO, PLAYER_ONE] });
+    expect(toChainGame(finished, PLAYER_TWO, BigInt(7000000))).toEqual(chainGame({ result: 'won', winnerRank: 1, winnings: '7000000' }));
+    expect(toChainGame(finished, PLAYER_ONE)).toMatchObject({ result: 'won', winnerRank: 2 });
+
+    // Winner-take-all: second place gets nothing
+    expect(toChainGame({ ...finished, splits: [] }, PLAYER_ONE)).toMatchObject({ result: 'lost', winnerRank: 2 });
+  });
+
+  test('should return null for missing games and players no longer listed', () => {
+    expect(toChainGame(reads({ host: ZERO_ADDRESS }), PLAYER_ONE)).toBeNull();
+    expect(toChainGame(reads({ players: [PLAYER_TWO] }), PLAYER_ONE)).toBeNull();
+  });
+
+  test('should keep a player who claimed even after the contract dropped them', () => {
+    expect(toChainGame(reads({ players: [] }), PLAYER_ONE, BigInt(1))).toMatchObject({ winnings: '1' });
+  });
+});
+
+describe('diffRow', () => {
+  test('should return no changes when the row matches the chain', () => {
+    expect(diffRow(historyRow(), chainGame(), { blockNumber: 100, transactionHash: '0xabc' })).toEqual({});
+  });
+
+  test('should return only the fields that changed', () => {
+    const game = chainGame({ result: 'won', winnerRank: 1, winnings: '7000000', pot: '12000000' });
+    expect(diffRow(historyRow({ is_stale: true }), game)).toEqual({
+      result: 'won',
+      winner_rank: 1,
+      winnings: '7000000',
+      pot_amount: '12000000',
+      is_stale: false
+    });
+  });
+
+  test('should not clear values the chain cannot tell us about', () => {
+    const row = historyRow({ winnings: '7000000' });
+    expect(diffRow(row, chainGame({ winnings: null }))).toEqual({});
+  });
+
+  test('should fill in block info from the indexed join', () => {
+    const row = historyRow({ block_number: null, transaction_hash: null });
+    expect(diffRow(row, chainGame(), { blockNumber: 200, transactionHash: '0xdef' }))
+      .toEqual({ block_number: 200, transaction_hash: '0xdef' });
+  });
+
+  test('should compare prize splits by value and token addresses as stored', () => {
+    expect(diffRow(historyRow({ prize_splits: [700, 300] }), chainGame())).toEqual({});
+    expect(diffRow(historyRow({ prize_splits: [1000] }), chainGame())).toEqual({ prize_splits: [700, 300] });
+    expect(diffRow(historyRow({ token_address: null }), chainGame())).toEqual({ token_address: USDC });
+  });
+});
+
+describe('collectParticipation', () => {
+  test('should find the join and total claims for one address', () => {
+    const events = [fixtures.playerJoined, fixtures.winningsClaimed, fixtures.winningsClaimedViaUI]
+      .map(log => ({ ...decodeIndexedLog(log, 'all')!, gameCode: CODE }));
+
+    const { joined, claimed } = collectParticipation(PLAYER_ONE, events);
+    expect(joined.get(CODE)).toEqual({
+      blockNumber: Number(fixtures.playerJoined.blockNumber),
+      transactionHash: fixtures.playerJoined.transactionHash
+    });
+    expect(claimed.get(CODE)).toBe(BigInt(7000000));
+
+    expect(collectParticipation(HOST, events).joined.size).toBe(0);
+  });
+
+  test('should skip events whose game code is unresolved', () => {
+    const events = [{ ...decodeIndexedLog(fixtures.playerJoined, 'all')!, gameCode: null }];
+    expect(collectParticipation(PLAYER_ONE, events).joined.size).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for invitation status and seat reservation rules.
+ */
+
+import {
+  GameInvitation,
+  getInvitationStatus,
+  getReservedSeatCount,
+  isInvitee,
+  isSeatReservedForOthers
+} from '../invitations';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const CAROL = '0x3333333333333333333333333333333333333333';
+
+const invitation = (invitee: string, overrides: Partial<GameInvitation> = {}): GameInvitation => ({
+  id: `invite-${invitee}`,
+  chain: 'base',
+  game_code: 'ABC-123',
+  host_address: '0x9999999999999999999999999999999999999999',
+  invitee_address: invitee,
+  invitee_label: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('getInvitationStatus', () => {
+  test('should be accepted once the invitee has joined, ignoring address case', () => {
+    expect(getInvitationStatus(invitation(ALICE), [BOB])).toBe('pending');
+    expect(getInvitationStatus(invitation(ALICE), [ALICE.toUpperCase().replace('0X', '0x')])).toBe('accepted');
+    expect(getInvitationStatus(invitation(ALICE))).toBe('pending');
+  });
+});
+
+describe('isInvitee', () => {
+  test('should require a connected wallet matching the invitee', () => {
+    expect(isInvitee(invitation(ALICE), ALICE)).toBe(true);
+    expect(isInvitee(invitation(ALICE), BOB)).toBe(false);
+    expect(isInvitee(invitation(ALICE), null)).toBe(false);
+  });
+});
+
+describe('seat reservations', () => {
+  const invitations = [invitation(ALICE), invitation(BOB)];
+
+  test('should only count pending invitations held for someone else', () => {
+    expect(getReservedSeatCount(invitations, [], CAROL)).toBe(2);
+    expect(getReservedSeatCount(invitations, [ALICE], CAROL)).toBe(1);
+    expect(getReservedSeatCount(invitations, [], ALICE)).toBe(1);
+  });
+
+  test('should warn other visitors only when every open seat is reserved', () => {
+    expect(isSeatReservedForOthers(invitations, 2, [], CAROL)).toBe(true);
+    expect(isSeatReservedForOthers(invitations, 3, [], CAROL)).toBe(false);
+    expect(isSeatReservedForOthers(invitations, 1, [], ALICE)).toBe(false);
+    expect(isSeatReservedForOthers([], 0, [], CAROL)).toBe(false);
+  });
+});
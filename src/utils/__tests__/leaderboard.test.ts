@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for ranking players from game_history rows and indexed game events.
+ * viem needs TextEncoder, which jsdom does not provide.
+ */
+
+import { buildLeaderboard, LeaderboardHistoryRow } from '../leaderboard';
+import { decodeIndexedLog, IndexedGameEvent } from '../eventIndex';
+import fixtures from './fixtures/gameEventLogs.json';
+
+const PLAYER_ONE = '0x2222222222222222222222222222222222222222';
+const PLAYER_TWO = '0x3333333333333333333333333333333333333333';
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = '0x0000000000000000000000000000000000000000';
+const CODE = 'ABC-123';
+
+// Indexed event for a fixture log; the code stays unresolved unless `gameCode` is given
+const indexed = (log: any, overrides: Partial<IndexedGameEvent> = {}): IndexedGameEvent => ({
+  ...decodeIndexedLog(log, 'all')!,
+  ...overrides
+});
+
+const row = (walletAddress: string, result: LeaderboardHistoryRow['result'], overrides: Partial<LeaderboardHistoryRow> = {}): LeaderboardHistoryRow => ({
+  walletAddress,
+  gameCode: CODE,
+  result,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tokenAddress: USDC,
+  winnings: null,
+  potAmount: null,
+  ...overrides
+});
+
+describe('buildLeaderboard', () => {
+  test('should rank by earnings in the selected token and count games in any token', () => {
+    const events = [indexed(fixtures.winningsClaimed), indexed(fixtures.winningsClaimedViaUI)];
+
+    const usdc = buildLeaderboard({ history: [], events, token: USDC });
+    expect(usdc.map(entry => entry.address)).toEqual([PLAYER_ONE, PLAYER_TWO]);
+    expect(usdc[0].earnings).toBe(BigInt(7000000));
+    expect(usdc[1].earnings).toBe(BigInt(0));
+    expect(usdc[1].gamesWon).toBe(1);
+
+    const eth = buildLeaderboard({ history: [], events, token: ETH });
+    expect(eth[0].address).toBe(PLAYER_TWO);
+    expect(eth[0].earnings).toBe(BigInt('2970000000000000'));
+  });
+
+  test('should count a history row and an unresolved event for the same game once', () => {
+    const leaderboard = buildLeaderboard({
+      history: [row(PLAYER_ONE, 'won')],
+      events: [indexed(fixtures.playerJoined), indexed(fixtures.winningsClaimed)],
+      token: USDC
+    });
+
+    expect(leaderboard).toHaveLength(1);
+    expect(leaderboard[0].gamesPlayed).toBe(1);
+    expect(leaderboard[0].gamesWon).toBe(1);
+    expect(leaderboard[0].winRate).toBe(100);
+  });
+
+  test('should sum every claim from one game into earnings', () => {
+    const secondClaim = indexed(fixtures.winningsClaimed, {
+      id: 'second-claim',
+      transactionHash: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaff'
+    });
+
+    const [entry] = buildLeaderboard({ history: [], events: [indexed(fixtures.winningsClaimed), secondClaim], token: USDC });
+    expect(entry.earnings).toBe(BigInt(14000000));
+  });
+
+  test('should report the pot of the biggest game won, not the claim', () => {
+    const events = [indexed(fixtures.gameStarted), indexed(fixtures.winnersReported), indexed(fixtures.winningsClaimed)];
+
+    const [entry] = buildLeaderboard({ history: [], events, token: USDC });
+    expect(entry.address).toBe(PLAYER_ONE);
+    expect(entry.earnings).toBe(BigInt(7000000));
+    expect(entry.biggestPot).toEqual({ amount: BigInt(10000000), gameCode: CODE });
+
+    expect(buildLeaderboard({ history: [], events, token: ETH })[0].biggestPot).toBeNull();
+  });
+
+  test('should fall back to history rows for games the index does not reach', () => {
+    const history = [
+      row(PLAYER_ONE, 'won', { gameCode: 'OLD-001', winnings: '4000000', potAmount: '20000000' }),
+      row(PLAYER_ONE, 'lost', { gameCode: 'OLD-002', potAmount: '90000000' }),
+      row(PLAYER_ONE, 'won', { gameCode: 'OLD-003', tokenAddress: ETH, winnings: '1', potAmount: '2' })
+    ];
+
+    const [entry] = buildLeaderboard({ history, events: [indexed(fixtures.winningsClaimed)], token: USDC });
+    expect(entry.gamesPlayed).toBe(4);
+    expect(entry.gamesWon).toBe(3);
+    expect(entry.earnings).toBe(BigInt(11000000));
+    expect(entry.biggestPot).toEqual({ amount: BigInt(20000000), gameCode: 'OLD-001' });
+  });
+
+  test('should prefer the indexed claim over the row for the same game', () => {
+    const [entry] = buildLeaderboard({
+      history: [row(PLAYER_ONE, 'won', { winnings: '6000000' })],
+      events: [indexed(fixtures.winningsClaimed)],
+      token: USDC
+    });
+
+    expect(entry.gamesPlayed).toBe(1);
+    expect(entry.earnings).toBe(BigInt(7000000));
+  });
+
+  test('should leave out rows and events before the window', () => {
+    const claim = indexed(fixtures.winningsClaimed);
+    const leaderboard = buildLeaderboard({
+      history: [row(PLAYER_TWO, 'lost', { createdAt: '2025-01-01T00:00:00.000Z' })],
+      events: [claim],
+      token: USDC,
+      since: { timestampMs: Date.parse('2025-06-01T00:00:00.000Z'), blockNumber: claim.blockNumber + 1 }
+    });
+
+    expect(leaderboard).toEqual([]);
+  });
+});
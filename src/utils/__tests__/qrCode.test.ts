@@ -0,0 +1,80 @@
+/**
+ * Tests for game QR code rendering and reading scanned join links back into game codes.
+ */
+
+import { decodeQrImage, getQrModules, getQrSvgPath, QR_QUIET_ZONE } from '../qrCode';
+import { extractGameCode, getGamePath, getGameUrl, parseGameLink } from '../gameCodeUtils';
+
+// RGBA pixels for a module grid, `scale` pixels per module, as a camera frame would give them
+const renderModules = (modules: boolean[][], scale: number) => {
+  const size = modules.length * scale;
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = modules[Math.floor(y / scale)][Math.floor(x / scale)] ? 0 : 255;
+      data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return { data, size };
+};
+
+describe('getQrModules', () => {
+  test('should produce a square grid with a quiet zone and finder patterns', () => {
+    const modules = getQrModules('https://saltfree.example/join/ABC-123');
+    const size = modules.length;
+
+    expect(modules.every(row => row.length === size)).toBe(true);
+    expect(modules[0].some(Boolean)).toBe(false);
+
+    // Top-left finder pattern: a dark 7x7 ring starting just inside the quiet zone
+    const finderRow = modules[QR_QUIET_ZONE].slice(QR_QUIET_ZONE, QR_QUIET_ZONE + 7);
+    expect(finderRow).toEqual([true, true, true, true, true, true, true]);
+    expect(modules[QR_QUIET_ZONE + 1][QR_QUIET_ZONE + 1]).toBe(false);
+  });
+});
+
+describe('getQrSvgPath', () => {
+  test('should merge runs of dark modules into one rectangle per run', () => {
+    expect(getQrSvgPath([[true, true, false, true], [false, false, false, false]]))
+      .toBe('M0 0h2v1h-2zM3 0h1v1h-1z');
+    expect(getQrSvgPath([[false]])).toBe('');
+  });
+});
+
+describe('decodeQrImage', () => {
+  test('should read back a rendered game QR code', () => {
+    const url = getGameUrl('ABC-123', { join: true });
+    const { data, size } = renderModules(getQrModules(url), 4);
+    expect(decodeQrImage(data, size, size)).toBe(url);
+  });
+
+  test('should return null for a frame without a QR code', () => {
+    const blank = new Uint8ClampedArray(64 * 64 * 4).fill(255);
+    expect(decodeQrImage(blank, 64, 64)).toBeNull();
+  });
+});
+
+describe('extractGameCode', () => {
+  test('should read the code from a scanned join link', () => {
+    expect(extractGameCode(getGameUrl('ABC-123', { join: true }))).toBe('ABC-123');
+    expect(extractGameCode(`${getGameUrl('abc-123', { join: true })}?invite=1234`)).toBe('ABC-123');
+  });
+
+  test('should reject QR codes that are not game links', () => {
+    expect(extractGameCode('https://example.com/some/other/page')).toBeNull();
+  });
+});
+
+describe('parseGameLink', () => {
+  test('should report the chain of a scanned link for another network', () => {
+    const link = `https://saltfree.example${getGamePath('abc-123', { join: true, chainKey: 'base-sepolia' })}`;
+    expect(link).toBe('https://saltfree.example/join/base-sepolia:abc-123');
+    expect(parseGameLink(link)).toEqual({ chainKey: 'base-sepolia', code: 'ABC-123' });
+    expect(extractGameCode(link)).toBeNull();
+  });
+
+  test('should treat bare codes as the default chain and reject non-codes', () => {
+    expect(parseGameLink('abc-123')).toEqual({ chainKey: 'base', code: 'ABC-123' });
+    expect(parseGameLink('https://example.com/some/other/page')).toBeNull();
+  });
+});
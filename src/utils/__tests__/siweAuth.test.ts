@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for Sign-In With Ethereum sessions using the local verifier end-to-end.
+ * Signing needs TextEncoder and Web Crypto, which jsdom does not provide.
+ */
+
+import { createHmac, webcrypto } from 'crypto';
+import { signLoginPayload } from 'thirdweb/auth';
+import { signMessage } from 'thirdweb/utils';
+import type { Account } from 'thirdweb/wallets';
+import { createLocalSiweVerifier, signJwt, siweAuth, SIWE_STATEMENT } from '../siweAuth';
+
+const DOMAIN = 'localhost:3000';
+const JWT_SECRET = 'super-secret-jwt-token-with-at-least-32-characters-long';
+// Anvil's first dev account
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+// Sign-in only ever asks the account to sign a message; thirdweb/wallets pulls in WalletConnect, which does not load under Jest
+const account = {
+  address: ADDRESS,
+  signMessage: ({ message }: { message: string }) => signMessage({ message, privateKey: PRIVATE_KEY })
+} as unknown as Account;
+
+const decodeClaims = (token: string) => JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+beforeAll(() => {
+  // Jest's node environment does not expose these browser globals
+  (globalThis as any).crypto = webcrypto;
+  const store = new Map<string, string>();
+  (globalThis as any).localStorage = {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  };
+});
+
+describe('signJwt', () => {
+  test('should produce an HS256 signature over header and claims', async () => {
+    const token = await signJwt({ sub: 'abc' }, JWT_SECRET);
+    const [header, body, signature] = token.split('.');
+    const expected = createHmac('sha256', JWT_SECRET).update(`${header}.${body}`).digest('base64url');
+    expect(signature).toBe(expected);
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'HS256', typ: 'JWT' });
+  });
+});
+
+describe('createLocalSiweVerifier', () => {
+  test('should issue a token bound to the signing wallet', async () => {
+    const verifier = createLocalSiweVerifier({ domain: DOMAIN, jwtSecret: JWT_SECRET });
+    const payload = await verifier.getLoginPayload(account.address, 8453);
+    expect(payload.statement).toBe(SIWE_STATEMENT);
+
+    const { signature } = await signLoginPayload({ payload, account });
+    const { token, expiresAt } = await verifier.verify(payload, signature);
+
+    expect(decodeClaims(token)).toMatchObject({ role: 'authenticated', aud: 'authenticated', wallet_address: ADDRESS });
+    expect(expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  test('should reject a reused nonce', async () => {
+    const verifier = createLocalSiweVerifier({ domain: DOMAIN, jwtSecret: JWT_SECRET });
+    const payload = await verifier.getLoginPayload(account.address, 8453);
+    const { signature } = await signLoginPayload({ payload, account });
+
+    await verifier.verify(payload, signature);
+    await expect(verifier.verify(payload, signature)).rejects.toThrow(/nonce/i);
+  });
+
+  test('should reject a payload signed for another wallet', async () => {
+    const verifier = createLocalSiweVerifier({ domain: DOMAIN, jwtSecret: JWT_SECRET });
+    const payload = await verifier.getLoginPayload(account.address, 8453);
+    const { signature } = await signLoginPayload({ payload, account });
+
+    await expect(verifier.verify({ ...payload, address: '0x2222222222222222222222222222222222222222' }, signature))
+      .rejects.toThrow('Invalid signature');
+  });
+});
+
+describe('siweAuth', () => {
+  test('should only authenticate requests for the signed-in active wallet', async () => {
+    siweAuth.setVerifier(createLocalSiweVerifier({ domain: DOMAIN, jwtSecret: JWT_SECRET }));
+
+    const session = await siweAuth.signIn(account, 8453);
+    expect(session.address).toBe(ADDRESS);
+    expect(siweAuth.isSignedIn(account.address)).toBe(true);
+
+    siweAuth.setActiveAddress('0x2222222222222222222222222222222222222222');
+    expect(siweAuth.getAccessToken()).toBeNull();
+
+    siweAuth.setActiveAddress(account.address);
+    expect(siweAuth.getAccessToken()).toBe(session.token);
+
+    siweAuth.signOut(account.address);
+    expect(siweAuth.getAccessToken()).toBeNull();
+  });
+
+  test('should refuse to sign in without a verifier', async () => {
+    siweAuth.setVerifier(null);
+    await expect(siweAuth.signIn(account, 8453)).rejects.toThrow('Sign-in is not configured');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the offline bridge provider, and for useBridge's quote, execution and status
+ * polling flow run against it.
+ */
+
+import { createStubBridgeProvider } from '../stubBridgeProvider';
+import { BridgeQuoteProvider, BridgeQuoteRequest } from '../bridgeProviders';
+import {
+  BridgeOptions,
+  BridgeStepStatus,
+  NATIVE_TOKEN_ADDRESS,
+  buildBridgeQuoteRequest,
+  executeBridgeSteps,
+  waitForBridgeCompletion
+} from '../bridgeFlow';
+
+const WALLET = '0x2222222222222222222222222222222222222222';
+
+const request: BridgeQuoteRequest = {
+  originChainId: 1,
+  originTokenAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  destinationChainId: 8453,
+  destinationTokenAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  amount: BigInt(25000000),
+  sender: WALLET,
+  receiver: WALLET
+};
+
+describe('createStubBridgeProvider', () => {
+  test('should quote one step delivering the requested amount', async () => {
+    const quote = await createStubBridgeProvider().getQuote(request);
+
+    expect(quote.destinationAmount).toBe(BigInt(25000000));
+    expect(quote.originAmount).toBe(BigInt(25000000));
+    expect(quote.expiresAt).toBeGreaterThan(Date.now());
+    expect(quote.steps).toHaveLength(1);
+    expect(quote.steps[0].transactions).toEqual([
+      expect.objectContaining({ chainId: 1, action: 'buy' })
+    ]);
+  });
+
+  test('should add the fee to what the sender pays', async () => {
+    const quote = await createStubBridgeProvider({ feeBps: 50 }).getQuote(request);
+
+    expect(quote.originAmount).toBe(BigInt(25125000));
+    expect(quote.destinationAmount).toBe(BigInt(25000000));
+  });
+
+  test('should report pending until the configured number of polls, then completed', async () => {
+    const provider = createStubBridgeProvider({ pendingPolls: 2 });
+    const quote = await provider.getQuote(request);
+    const [transaction] = quote.steps[0].transactions;
+    const txHash = await provider.sendTransaction!(transaction, WALLET);
+
+    const poll = () => provider.getStatus(txHash, transaction.chainId, transaction.id);
+    expect((await poll()).status).toBe('pending');
+    expect((await poll()).status).toBe('pending');
+
+    const done = await poll();
+    expect(done.status).toBe('completed');
+    expect(done.destinationAmount).toBe(BigInt(25000000));
+    expect(done.transactions).toEqual([{ chainId: 1, transactionHash: txHash }]);
+  });
+
+  test('should poll each quoted transfer separately', async () => {
+    const provider = createStubBridgeProvider({ pendingPolls: 1 });
+    const first = (await provider.getQuote(request)).steps[0].transactions[0];
+    const second = (await provider.getQuote({ ...request, amount: BigInt(1000000) })).steps[0].transactions[0];
+
+    expect(first.id).not.toBe(second.id);
+    await provider.getStatus(first.id, 1, first.id);
+    expect((await provider.getStatus(first.id, 1, first.id)).status).toBe('completed');
+    expect((await provider.getStatus(second.id, 1, second.id)).status).toBe('pending');
+  });
+});
+
+describe('bridge flow', () => {
+  const BASE_USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+  const NO_WAIT = { intervalMs: 0 };
+
+  const options: BridgeOptions = {
+    fromChain: 'ethereum',
+    fromToken: 'USDC',
+    toChainId: 8453,
+    toTokenAddress: BASE_USDC,
+    toTokenDecimals: 6,
+    amount: '25'
+  };
+
+  // Records every step update the way useBridge folds them into its step list
+  const recordSteps = () => {
+    const updates: Array<{ stepIndex: number } & Partial<BridgeStepStatus>> = [];
+    return { updates, onStepUpdate: (stepIndex: number, update: Partial<BridgeStepStatus>) => updates.push({ stepIndex, ...update }) };
+  };
+
+  test('should prepare a quote into the requested destination token and chain', async () => {
+    const quoteRequest = buildBridgeQuoteRequest(options, WALLET);
+    expect(quoteRequest).toEqual(request);
+
+    const quote = await createStubBridgeProvider().getQuote(quoteRequest);
+    expect(quote.destinationChainId).toBe(8453);
+    expect(quote.destinationTokenAddress).toBe(BASE_USDC);
+    expect(quote.destinationAmount).toBe(BigInt(25000000));
+  });
+
+  test('should use the decimals and chain it is given rather than the token symbol', () => {
+    const sepoliaEth = buildBridgeQuoteRequest(
+      { ...options, fromToken: 'ETH', toChainId: 84532, toTokenAddress: NATIVE_TOKEN_ADDRESS, toTokenDecimals: 18, amount: '0.5' },
+      WALLET
+    );
+    expect(sepoliaEth).toMatchObject({
+      originTokenAddress: NATIVE_TOKEN_ADDRESS,
+      destinationChainId: 84532,
+      amount: BigInt('500000000000000000')
+    });
+
+    expect(() => buildBridgeQuoteRequest({ ...options, fromToken: 'DAI' }, WALLET)).toThrow('No route for DAI on ethereum');
+  });
+
+  test('should execute every step and poll the bridge leg until it completes', async () => {
+    const provider = createStubBridgeProvider({ pendingPolls: 2 });
+    const getStatus = jest.spyOn(provider, 'getStatus');
+    const sendFromWallet = jest.fn();
+    const { updates, onStepUpdate } = recordSteps();
+
+    const quote = await provider.getQuote(buildBridgeQuoteRequest(options, WALLET));
+    const [transaction] = quote.steps[0].transactions;
+    const result = await executeBridgeSteps(provider, quote, { sendTransaction: sendFromWallet, onStepUpdate, polling: NO_WAIT });
+
+    expect(result).toEqual({ success: true, destinationAmount: BigInt(25000000), transactionHashes: [transaction.id] });
+    expect(getStatus).toHaveBeenCalledTimes(3);
+    expect(sendFromWallet).not.toHaveBeenCalled();
+    expect(updates.map(update => update.state).filter(Boolean)).toEqual(['submitting', 'bridging', 'completed']);
+  });
+
+  test('should send through the wallet when the provider cannot', async () => {
+    const provider: BridgeQuoteProvider = { ...createStubBridgeProvider(), sendTransaction: undefined };
+    const sendFromWallet = jest.fn(async () => '0xwallet');
+
+    const quote = await provider.getQuote(request);
+    const result = await executeBridgeSteps(provider, quote, { sendTransaction: sendFromWallet, polling: NO_WAIT });
+
+    expect(sendFromWallet).toHaveBeenCalledWith(quote.steps[0].transactions[0]);
+    expect(result.transactionHashes).toEqual(['0xwallet']);
+  });
+
+  test('should give up on transfers the bridge never finds', async () => {
+    const provider: BridgeQuoteProvider = {
+      ...createStubBridgeProvider(),
+      getStatus: jest.fn(async () => ({ status: 'not_found' as const, transactions: [] }))
+    };
+
+    const status = await waitForBridgeCompletion(provider, '0xabc', 1, undefined, { ...NO_WAIT, maxNotFoundPolls: 2 });
+    expect(status.status).toBe('not_found');
+    expect(provider.getStatus).toHaveBeenCalledTimes(3);
+
+    const { updates, onStepUpdate } = recordSteps();
+    const result = await executeBridgeSteps(provider, await provider.getQuote(request), {
+      sendTransaction: jest.fn(),
+      onStepUpdate,
+      polling: { ...NO_WAIT, maxNotFoundPolls: 0 }
+    });
+    expect(result).toMatchObject({ success: false, destinationAmount: BigInt(0), error: 'Bridge transfer was not found' });
+    expect(updates[updates.length - 1]).toEqual({ stepIndex: 0, state: 'failed', error: 'Bridge transfer was not found' });
+  });
+
+  test('should refuse an expired quote without sending anything', async () => {
+    const provider = createStubBridgeProvider();
+    const send = jest.spyOn(provider, 'sendTransaction');
+    const quote = { ...(await provider.getQuote(request)), expiresAt: Date.now() - 1 };
+
+    const result = await executeBridgeSteps(provider, quote, { sendTransaction: jest.fn(), polling: NO_WAIT });
+    expect(result).toMatchObject({ success: false, error: 'Bridge quote expired, please request a new one' });
+    expect(send).not.toHaveBeenCalled();
+  });
+});
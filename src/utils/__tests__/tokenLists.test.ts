@@ -0,0 +1,94 @@
+/**
+ * Tests for validating imported token lists.
+ */
+
+import { FEE_WARNING, parseTokenList } from '../tokenLists';
+
+const BASE_ID = 8453;
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const MAINNET_USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+const token = (overrides: Record<string, unknown> = {}) => ({
+  chainId: BASE_ID,
+  address: USDC,
+  symbol: 'USDC',
+  name: 'USD Coin',
+  decimals: 6,
+  logoURI: 'https://example.com/usdc.png',
+  ...overrides
+});
+
+describe('parseTokenList', () => {
+  test('should keep only the requested chain and normalize entries', () => {
+    const list = parseTokenList({
+      name: 'Test List',
+      version: { major: 1, minor: 2, patch: 3 },
+      tokens: [token(), token({ chainId: 1, address: MAINNET_USDC })]
+    }, BASE_ID, 'Base', 'https://example.com/list.json');
+
+    expect(list.name).toBe('Test List');
+    expect(list.version).toBe('1.2.3');
+    expect(list.url).toBe('https://example.com/list.json');
+    expect(list.tokens).toHaveLength(1);
+    expect(list.tokens[0]).toMatchObject({
+      chainId: BASE_ID,
+      address: USDC.toLowerCase(),
+      symbol: 'USDC',
+      decimals: 6,
+      source: 'list',
+      listName: 'Test List',
+      isFeeOnTransfer: false,
+      warnings: []
+    });
+  });
+
+  test('should skip malformed entries', () => {
+    const list = parseTokenList({
+      name: 'Messy List',
+      tokens: [
+        token(),
+        null,
+        token({ address: '0x1234' }),
+        token({ symbol: '  ' }),
+        token({ decimals: 256 }),
+        token({ decimals: 1.5 }),
+        token({ chainId: '8453' })
+      ]
+    }, BASE_ID, 'Base');
+
+    expect(list.tokens.map(entry => entry.address)).toEqual([USDC.toLowerCase()]);
+  });
+
+  test('should reject lists that are malformed or have nothing for the chain', () => {
+    expect(() => parseTokenList({ tokens: [token()] }, BASE_ID, 'Base')).toThrow(/Not a token list/);
+    expect(() => parseTokenList({ name: 'Empty', tokens: [token({ decimals: -1 })] }, BASE_ID, 'Base')).toThrow(/no valid tokens/);
+    expect(() => parseTokenList({ name: 'Mainnet', tokens: [token({ chainId: 1 })] }, BASE_ID, 'Base'))
+      .toThrow('"Mainnet" has no tokens on Base');
+  });
+
+  test('should flag fee-on-transfer tags by id or tag name', () => {
+    const list = parseTokenList({
+      name: 'Tagged',
+      tags: { t1: { name: 'Fee on transfer' } },
+      tokens: [
+        token({ tags: ['t1'] }),
+        token({ address: MAINNET_USDC, tags: ['deflationary'] })
+      ]
+    }, BASE_ID, 'Base');
+
+    expect(list.tokens.map(entry => entry.isFeeOnTransfer)).toEqual([true, true]);
+    expect(list.tokens[0].warnings).toEqual([FEE_WARNING]);
+  });
+
+  test('should drop logos that are not https or data URIs and rewrite ipfs links', () => {
+    const list = parseTokenList({
+      name: 'Logos',
+      tokens: [
+        token({ logoURI: 'http://example.com/usdc.png' }),
+        token({ address: MAINNET_USDC, logoURI: 'ipfs://QmHash' })
+      ]
+    }, BASE_ID, 'Base');
+
+    expect(list.tokens.map(entry => entry.icon)).toEqual(['', 'https://ipfs.io/ipfs/QmHash']);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for per-token game history stats, streaks and favorite game type.
+ */
+
+import { computeUserStats, EMPTY_USER_STATS, UserStatsRow } from '../userStats';
+
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const ETH = '0x0000000000000000000000000000000000000000';
+
+let day = 0;
+const row = (overrides: Partial<UserStatsRow> = {}): UserStatsRow => ({
+  result: 'lost',
+  winnings: null,
+  buy_in_amount: '5000000',
+  token_address: USDC,
+  pot_amount: '20000000',
+  game_type: 'standard',
+  created_at: new Date(Date.UTC(2026, 0, 1 + day++)).toISOString(),
+  ...overrides
+});
+
+describe('computeUserStats', () => {
+  beforeEach(() => {
+    day = 0;
+  });
+
+  test('should return empty stats when no game has finished', () => {
+    expect(computeUserStats([row({ result: 'active' })])).toEqual(EMPTY_USER_STATS);
+  });
+
+  test('should keep each token separate', () => {
+    const stats = computeUserStats([
+      row({ result: 'won', winnings: '18000000' }),
+      row(),
+      row({ token_address: ETH, buy_in_amount: '1000000000000000000', pot_amount: '3000000000000000000' })
+    ]);
+
+    expect(stats.byToken).toHaveLength(2);
+    const [usdc, eth] = stats.byToken;
+    expect(usdc).toMatchObject({
+      token: USDC,
+      games: 2,
+      gamesWon: 1,
+      buyIns: BigInt(10000000),
+      winnings: BigInt(18000000),
+      netProfit: BigInt(8000000),
+      roi: 80,
+      averagePot: BigInt(20000000),
+      biggestWin: BigInt(18000000)
+    });
+    expect(eth).toMatchObject({
+      token: ETH,
+      netProfit: BigInt('-1000000000000000000'),
+      roi: -100
+    });
+  });
+
+  test('should group rows without a token and leave the pot empty when unknown', () => {
+    const [unknown] = computeUserStats([row({ token_address: null, pot_amount: null })]).byToken;
+    expect(unknown.token).toBeNull();
+    expect(unknown.averagePot).toBeNull();
+  });
+
+  test('should match token addresses case-insensitively', () => {
+    const stats = computeUserStats([row(), row({ token_address: USDC.toUpperCase().replace('0X', '0x') })]);
+    expect(stats.byToken).toHaveLength(1);
+  });
+
+  test('should track streaks in date order', () => {
+    const rows = [
+      row({ result: 'won' }),
+      row({ result: 'won' }),
+      row({ result: 'won' }),
+      row({ result: 'lost' }),
+      row({ result: 'won' }),
+      row({ result: 'won' })
+    ].reverse();
+
+    const stats = computeUserStats(rows);
+    expect(stats.longestWinStreak).toBe(3);
+    expect(stats.currentStreak).toEqual({ result: 'won', length: 2 });
+    expect(stats.winRate).toBeCloseTo(83.33, 2);
+  });
+
+  test('should pick the most played game type', () => {
+    const stats = computeUserStats([row({ game_type: 'poker' }), row(), row({ game_type: 'poker' })]);
+    expect(stats.favoriteGameType).toBe('poker');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for username format rules, reserved names and confusable detection.
+ */
+
+import {
+  findConfusableUsername,
+  getUsernameFormatError,
+  getUsernameSkeleton,
+  isReservedUsername,
+  planUsernameSkeletonBackfill
+} from '../usernames';
+
+describe('getUsernameSkeleton', () => {
+  test('should fold case, separators and look-alike digits', () => {
+    expect(getUsernameSkeleton('Vita1ik')).toBe(getUsernameSkeleton('vitalik'));
+    expect(getUsernameSkeleton('SALT_FREE')).toBe(getUsernameSkeleton('saltfree'));
+    expect(getUsernameSkeleton('b0b-5mith')).toBe(getUsernameSkeleton('bobsmith'));
+  });
+
+  test('should fold letter sequences that render as one letter', () => {
+    expect(getUsernameSkeleton('rnoney')).toBe(getUsernameSkeleton('money'));
+    expect(getUsernameSkeleton('vvhale')).toBe(getUsernameSkeleton('whale'));
+  });
+
+  test('should fold Cyrillic homoglyphs and accents', () => {
+    expect(getUsernameSkeleton('аdmіn')).toBe(getUsernameSkeleton('admin'));
+    expect(getUsernameSkeleton('josé')).toBe(getUsernameSkeleton('jose'));
+  });
+
+  test('should keep visibly different names apart', () => {
+    expect(getUsernameSkeleton('alice')).not.toBe(getUsernameSkeleton('alicia'));
+  });
+});
+
+describe('isReservedUsername', () => {
+  test('should match reserved names and their look-alikes', () => {
+    expect(isReservedUsername('admin')).toBe(true);
+    expect(isReservedUsername('Adm1n')).toBe(true);
+    expect(isReservedUsername('salt-free')).toBe(true);
+    expect(isReservedUsername('player1')).toBe(false);
+  });
+});
+
+describe('findConfusableUsername', () => {
+  test('should return the existing name a new one could be mistaken for', () => {
+    expect(findConfusableUsername('B0B', ['alice', 'bob'])).toBe('bob');
+    expect(findConfusableUsername('carol', ['alice', 'bob'])).toBeNull();
+  });
+});
+
+describe('getUsernameFormatError', () => {
+  test('should enforce length and allowed characters', () => {
+    expect(getUsernameFormatError('ab')).toMatch(/at least 3/);
+    expect(getUsernameFormatError('a'.repeat(21))).toMatch(/20 characters/);
+    expect(getUsernameFormatError('bad name!')).toMatch(/letters, numbers/);
+    expect(getUsernameFormatError('good_name-1')).toBeNull();
+  });
+});
+
+describe('planUsernameSkeletonBackfill', () => {
+  test('should fill missing skeletons and skip rows without a username', () => {
+    const plan = planUsernameSkeletonBackfill([
+      { id: '1', username: 'Vitalik', username_skeleton: null },
+      { id: '2', username: null, username_skeleton: null },
+      { id: '3', username: 'alice', username_skeleton: getUsernameSkeleton('alice') }
+    ]);
+
+    expect(plan.updates).toEqual([{ id: '1', username_skeleton: getUsernameSkeleton('Vitalik') }]);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  test('should leave look-alikes of an earlier or existing skeleton for review', () => {
+    const plan = planUsernameSkeletonBackfill([
+      { id: '1', username: 'b0b', username_skeleton: null },
+      { id: '2', username: 'bob', username_skeleton: getUsernameSkeleton('bob') },
+      { id: '3', username: 'vitalik', username_skeleton: null },
+      { id: '4', username: 'Vita1ik', username_skeleton: null }
+    ]);
+
+    expect(plan.updates).toEqual([{ id: '3', username_skeleton: getUsernameSkeleton('vitalik') }]);
+    expect(plan.conflicts).toEqual([
+      { id: '1', username: 'b0b', conflictsWith: 'bob' },
+      { id: '4', username: 'Vita1ik', conflictsWith: 'vitalik' }
+    ]);
+  });
+});
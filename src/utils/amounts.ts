@@ -0,0 +1,255 @@
+/**
+ * Token Amounts
+ * Exact bigint parsing, formatting and prize split math for on-chain amounts.
+ * Nothing here goes through Number, so 18-decimal values keep every wei.
+ */
+
+export const BASIS_POINTS = 10000;
+// The contract stores prize splits in basis points and requires them to total 10000
+export const PRIZE_SPLIT_DENOMINATOR = BASIS_POINTS;
+
+export type AmountInput = bigint | string | number;
+export type AmountRounding = 'round' | 'floor' | 'ceil';
+
+export interface FormatAmountOptions {
+  maxDecimals?: number; // Default 4
+  minDecimals?: number; // Pads with zeros up to this many decimals, default 0
+  rounding?: AmountRounding; // 'round' is half away from zero
+  locale?: string; // Adds grouping and the locale's decimal separator
+  compact?: boolean; // 1.2K, 3.4M, 5.6B, 7.8T
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const MAX_EXPONENT = 1000;
+const COMPACT_SUFFIXES = ['', 'K', 'M', 'B', 'T'];
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const pow10 = (exponent: number): bigint => BigInt(`1${'0'.repeat(exponent)}`);
+
+const abs = (value: bigint): bigint => (value < ZERO ? -value : value);
+
+const assertDecimals = (decimals: number) => {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 255) {
+    throw new Error(`Invalid token decimals: ${decimals}`);
+  }
+};
+
+/**
+ * Split a decimal string into sign, integer digits and fraction digits, applying
+ * any exponent. Returns null when the string is not a decimal number.
+ */
+const parseDecimal = (value: string): { negative: boolean; whole: string; fraction: string } | null => {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign, whole = '', fraction = '', exponentText] = match;
+  if (whole === '' && fraction === '') return null;
+
+  const exponent = exponentText ? Number(exponentText) : 0;
+  if (Math.abs(exponent) > MAX_EXPONENT) return null;
+
+  // Move the decimal point by the exponent
+  const digits = whole + fraction;
+  const point = whole.length + exponent;
+  const padded = point < 0
+    ? '0'.repeat(-point) + digits
+    : digits + '0'.repeat(Math.max(0, point - digits.length));
+  const pointIndex = Math.max(point, 0);
+
+  return {
+    negative: sign === '-',
+    whole: padded.slice(0, pointIndex).replace(/^0+/, ''),
+    fraction: padded.slice(pointIndex).replace(/0+$/, '')
+  };
+};
+
+/**
+ * Coerce a base-unit amount (wei) to bigint. Accepts bigints, integer numbers,
+ * decimal or hex strings and integer e-notation such as Number#toString emits.
+ */
+export const toBigIntAmount = (value: AmountInput): bigint => {
+  if (typeof value === 'bigint') return value;
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new Error(`Amount must be a whole number of base units: ${value}`);
+    }
+    return BigInt(value);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed === '') return ZERO;
+  if (/^0x[0-9a-f]+$/i.test(trimmed)) return BigInt(trimmed);
+
+  const parsed = parseDecimal(trimmed);
+  if (!parsed || parsed.fraction !== '') {
+    throw new Error(`Invalid base unit amount: "${value}"`);
+  }
+  const magnitude = BigInt(parsed.whole || '0');
+  return parsed.negative ? -magnitude : magnitude;
+};
+
+/**
+ * Parse a human-entered decimal amount ("1.5", ".25", "2e-3") into base units.
+ * Digits beyond the token's decimals are truncated, never rounded up.
+ */
+export const parseAmount = (value: string, decimals: number = 18): bigint => {
+  assertDecimals(decimals);
+
+  const parsed = parseDecimal(value);
+  if (!parsed) {
+    throw new Error(`Invalid amount: "${value}"`);
+  }
+
+  const fraction = parsed.fraction.slice(0, decimals).padEnd(decimals, '0');
+  const magnitude = BigInt(parsed.whole || '0') * pow10(decimals) + BigInt(fraction || '0');
+  return parsed.negative ? -magnitude : magnitude;
+};
+
+/**
+ * parseAmount for form validation: null instead of throwing
+ */
+export const tryParseAmount = (value: string, decimals: number = 18): bigint | null => {
+  try {
+    return parseAmount(value, decimals);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Exact decimal representation with trailing zeros trimmed ("1.5", "0.000001").
+ * Round-trips through parseAmount.
+ */
+export const formatUnits = (amount: AmountInput, decimals: number = 18): string => {
+  assertDecimals(decimals);
+
+  const value = toBigIntAmount(amount);
+  const magnitude = abs(value);
+  const unit = pow10(decimals);
+  const whole = (magnitude / unit).toString();
+  const fraction = decimals > 0
+    ? (magnitude % unit).toString().padStart(decimals, '0').replace(/0+$/, '')
+    : '';
+
+  return `${value < ZERO ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Round a non-negative base-unit amount to `places` decimals, returned in units of 10^-places
+ */
+const roundToPlaces = (magnitude: bigint, decimals: number, places: number, rounding: AmountRounding): bigint => {
+  if (places >= decimals) return magnitude * pow10(places - decimals);
+
+  const divisor = pow10(decimals - places);
+  const quotient = magnitude / divisor;
+  const remainder = magnitude % divisor;
+  if (remainder === ZERO || rounding === 'floor') return quotient;
+  if (rounding === 'ceil') return quotient + ONE;
+  return remainder * TWO >= divisor ? quotient + ONE : quotient;
+};
+
+const getDecimalSeparator = (locale: string): string => {
+  const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === 'decimal');
+  return part ? part.value : '.';
+};
+
+/**
+ * Display formatting. Rounds at maxDecimals (half away from zero by default),
+ * trims trailing zeros down to minDecimals, and optionally applies locale
+ * grouping and compact K/M/B/T suffixes.
+ */
+export const formatAmount = (amount: AmountInput, decimals: number = 18, options: FormatAmountOptions = {}): string => {
+  assertDecimals(decimals);
+
+  const { rounding = 'round', locale, compact = false } = options;
+  const maxDecimals = Math.max(0, options.maxDecimals ?? 4);
+  const minDecimals = Math.min(Math.max(0, options.minDecimals ?? 0), maxDecimals);
+
+  const value = toBigIntAmount(amount);
+  const negative = value < ZERO;
+  // Rounding direction is relative to zero for the magnitude, so floor/ceil swap for negatives
+  const magnitudeRounding: AmountRounding = negative && rounding !== 'round'
+    ? (rounding === 'floor' ? 'ceil' : 'floor')
+    : rounding;
+  const magnitude = abs(value);
+
+  // Each compact tier divides by 1000, i.e. three more decimals. Rounding can carry a
+  // value into the next tier (999.96K -> 1M), so tiers are picked after rounding.
+  let tier = 0;
+  let rounded = roundToPlaces(magnitude, decimals, maxDecimals, magnitudeRounding);
+  if (compact) {
+    const tierLimit = pow10(maxDecimals + 3);
+    while (tier < COMPACT_SUFFIXES.length - 1 && rounded >= tierLimit) {
+      tier++;
+      rounded = roundToPlaces(magnitude, decimals + tier * 3, maxDecimals, magnitudeRounding);
+    }
+  }
+
+  const scale = pow10(maxDecimals);
+  const whole = rounded / scale;
+  let fraction = maxDecimals > 0 ? (rounded % scale).toString().padStart(maxDecimals, '0') : '';
+  while (fraction.length > minDecimals && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const wholeText = locale ? whole.toLocaleString(locale) : whole.toString();
+  const separator = locale ? getDecimalSeparator(locale) : '.';
+  const sign = negative && rounded !== ZERO ? '-' : '';
+
+  return `${sign}${wholeText}${fraction ? `${separator}${fraction}` : ''}${COMPACT_SUFFIXES[tier]}`;
+};
+
+/**
+ * Split a total by shares of `denominator` (basis points, permille...). Each share
+ * gets its floor, then the wei lost to flooring go one each to the shares with the
+ * largest remainders, ties going to the earlier position. Allocations always sum to
+ * floor(total * sum(splits) / denominator), i.e. exactly the total for full splits.
+ */
+export const splitAmount = (
+  total: AmountInput,
+  splits: (number | bigint)[],
+  denominator: number = PRIZE_SPLIT_DENOMINATOR
+): bigint[] => {
+  const value = toBigIntAmount(total);
+  const shares = splits.map(split => BigInt(split));
+  const divisor = BigInt(denominator);
+
+  if (value < ZERO) throw new Error('Cannot split a negative amount');
+  if (divisor <= ZERO) throw new Error(`Invalid split denominator: ${denominator}`);
+  if (shares.some(share => share < ZERO)) throw new Error('Prize splits cannot be negative');
+
+  const allocations = shares.map(share => (value * share) / divisor);
+  const remainders = shares.map(share => (value * share) % divisor);
+
+  const shareSum = shares.reduce((sum, share) => sum + share, ZERO);
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation, ZERO);
+  const leftover = Number((value * shareSum) / divisor - allocated); // Always < splits.length
+
+  remainders
+    .map((remainder, index) => ({ remainder, index }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1))
+    .slice(0, leftover)
+    .forEach(({ index }) => {
+      allocations[index] += ONE;
+    });
+
+  return allocations;
+};
+
+/**
+ * A split as a percentage, e.g. 333 permille -> "33.3%", 2500 basis points -> "25.0%"
+ */
+export const formatSplitPercent = (
+  split: number | bigint,
+  denominator: number = PRIZE_SPLIT_DENOMINATOR,
+  decimals: number = 1
+): string => {
+  const scaled = BigInt(split) * BigInt(100) * pow10(decimals);
+  const divisor = BigInt(denominator);
+  const percent = (scaled * TWO + divisor) / (divisor * TWO); // Half up
+  return `${formatAmount(percent, decimals, { maxDecimals: decimals, minDecimals: decimals })}%`;
+};
@@ -282,8 +282,8 @@ export const generateASCIIGameCode = (gameCode: string): string => {
   // Convert game code to uppercase and split into characters
   const characters = gameCode.toUpperCase().split('');
   
-  // Handle codes longer than 6 characters by truncating
-  const displayCode = characters.slice(0, 6);
+  // Handle codes longer than the standard ABC-123 format by truncating
+  const displayCode = characters.slice(0, 7);
   
   // Generate ASCII art lines
   const lines: string[] = ['', '', '', '', ''];
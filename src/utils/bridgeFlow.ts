@@ -0,0 +1,226 @@
+/**
+ * Bridge Flow
+ * Quote requests, step execution and status polling behind useBridge. Kept free of React and
+ * the wallet so the whole flow can run against the stub provider in tests.
+ */
+
+import type {
+  BridgeQuote,
+  BridgeQuoteProvider,
+  BridgeQuoteRequest,
+  BridgeStatusResult,
+  BridgeStep,
+  BridgeTransaction
+} from './bridgeProviders';
+import { parseAmount } from './amounts';
+
+export const NATIVE_TOKEN_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+export interface BridgeOptions {
+  fromChain: string; // Source chain name, e.g. 'ethereum'
+  fromToken: string; // Symbol of the token spent on the source chain
+  toChainId: number;
+  toTokenAddress: string; // The game's buy-in token; native ETH as NATIVE_TOKEN_ADDRESS
+  toTokenDecimals: number;
+  amount: string; // Human-readable amount to receive on the destination chain
+}
+
+export type BridgeStepState = 'pending' | 'submitting' | 'bridging' | 'completed' | 'failed';
+
+export interface BridgeStepStatus {
+  stepIndex: number;
+  state: BridgeStepState;
+  transactionHashes: string[];
+  error?: string;
+}
+
+export interface BridgeExecutionResult {
+  success: boolean;
+  destinationAmount: bigint;
+  transactionHashes: string[];
+  error?: string;
+}
+
+export interface BridgePollingOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+  maxNotFoundPolls?: number;
+}
+
+export interface BridgeExecutionHandlers {
+  // Sends a step transaction from the user's wallet; skipped when the provider sends its own
+  sendTransaction: (transaction: BridgeTransaction) => Promise<string>;
+  onStepStart?: (stepIndex: number, step: BridgeStep) => void;
+  onStepUpdate?: (stepIndex: number, update: Partial<BridgeStepStatus>) => void;
+  polling?: BridgePollingOptions;
+}
+
+// Bridge status polling: Base fills in seconds, Ethereum L1 can take several minutes
+const STATUS_POLL_INTERVAL_MS = 5000;
+const STATUS_POLL_TIMEOUT_MS = 15 * 60 * 1000;
+// Status API can lag behind the origin receipt, so tolerate a few NOT_FOUNDs first
+const MAX_NOT_FOUND_POLLS = 6;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Source chains the bridge can pull funds from
+export const getChainId = (chainName: string): number => {
+  const chainMap: Record<string, number> = {
+    'ethereum': 1,
+    'polygon': 137,
+    'arbitrum': 42161,
+    'optimism': 10,
+    'base': 8453
+  };
+
+  const chainId = chainMap[chainName.toLowerCase()];
+  if (!chainId) {
+    throw new Error(`Unsupported bridge chain: ${chainName}`);
+  }
+  return chainId;
+};
+
+export const getTokenAddress = (tokenSymbol: string, chainName: string): string => {
+  // Native USDC deployments (not bridged USDC.e)
+  const tokenMap: Record<string, Record<string, string>> = {
+    'USDC': {
+      'ethereum': '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      'polygon': '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      'arbitrum': '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      'optimism': '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+      'base': '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'
+    },
+    'USDT': {
+      'ethereum': '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      'polygon': '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+      'arbitrum': '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+      'optimism': '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+      'base': '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2'
+    }
+  };
+
+  // ETH is the native token on every supported chain except Polygon
+  if (tokenSymbol.toUpperCase() === 'ETH' && chainName.toLowerCase() !== 'polygon') {
+    return NATIVE_TOKEN_ADDRESS;
+  }
+
+  return tokenMap[tokenSymbol.toUpperCase()]?.[chainName.toLowerCase()] || '';
+};
+
+/**
+ * The quote request for receiving `options.amount` of the destination token at `address`
+ */
+export const buildBridgeQuoteRequest = (options: BridgeOptions, address: string): BridgeQuoteRequest => {
+  const originTokenAddress = getTokenAddress(options.fromToken, options.fromChain);
+  if (!originTokenAddress) {
+    throw new Error(`No route for ${options.fromToken} on ${options.fromChain}`);
+  }
+
+  return {
+    originChainId: getChainId(options.fromChain),
+    originTokenAddress,
+    destinationChainId: options.toChainId,
+    destinationTokenAddress: options.toTokenAddress,
+    amount: parseAmount(options.amount, options.toTokenDecimals),
+    sender: address,
+    receiver: address
+  };
+};
+
+/**
+ * Poll until the bridge reports a terminal state for this origin transaction
+ */
+export const waitForBridgeCompletion = async (
+  provider: BridgeQuoteProvider,
+  txHash: string,
+  chainId: number,
+  transactionId?: string,
+  polling: BridgePollingOptions = {}
+): Promise<BridgeStatusResult> => {
+  const {
+    intervalMs = STATUS_POLL_INTERVAL_MS,
+    timeoutMs = STATUS_POLL_TIMEOUT_MS,
+    maxNotFoundPolls = MAX_NOT_FOUND_POLLS
+  } = polling;
+  const startedAt = Date.now();
+  let notFoundPolls = 0;
+
+  while (Date.now() - startedAt < timeoutMs) {
+    const result = await provider.getStatus(txHash, chainId, transactionId);
+
+    if (result.status === 'completed' || result.status === 'failed') {
+      return result;
+    }
+    if (result.status === 'not_found' && ++notFoundPolls > maxNotFoundPolls) {
+      return result;
+    }
+
+    await sleep(intervalMs);
+  }
+
+  throw new Error('Timed out waiting for the bridge to complete');
+};
+
+/**
+ * Send every step's transactions in order, polling the bridge leg of each step until it lands.
+ * Never throws: a failed step is reported through `onStepUpdate` and the result.
+ */
+export const executeBridgeSteps = async (
+  provider: BridgeQuoteProvider,
+  quote: BridgeQuote,
+  handlers: BridgeExecutionHandlers
+): Promise<BridgeExecutionResult> => {
+  const { onStepStart, onStepUpdate, polling } = handlers;
+  const send = (transaction: BridgeTransaction) => provider.sendTransaction
+    ? provider.sendTransaction(transaction, quote.sender)
+    : handlers.sendTransaction(transaction);
+
+  const transactionHashes: string[] = [];
+  let destinationAmount = quote.destinationAmount;
+  let currentStep = 0;
+
+  try {
+    if (quote.expiresAt && Date.now() > quote.expiresAt) {
+      throw new Error('Bridge quote expired, please request a new one');
+    }
+
+    for (let stepIndex = 0; stepIndex < quote.steps.length; stepIndex++) {
+      currentStep = stepIndex;
+      const step = quote.steps[stepIndex];
+      const stepHashes: string[] = [];
+      onStepUpdate?.(stepIndex, { state: 'submitting' });
+      onStepStart?.(stepIndex, step);
+
+      for (const tx of step.transactions) {
+        const txHash = await send(tx);
+        stepHashes.push(txHash);
+        transactionHashes.push(txHash);
+        onStepUpdate?.(stepIndex, { transactionHashes: [...stepHashes] });
+
+        // Approvals and fees settle with their receipt, only the bridge leg needs status polling
+        if (tx.action === 'approval' || tx.action === 'fee') {
+          continue;
+        }
+
+        onStepUpdate?.(stepIndex, { state: 'bridging' });
+        const result = await waitForBridgeCompletion(provider, txHash, tx.chainId, tx.id, polling);
+
+        if (result.status !== 'completed') {
+          throw new Error(result.status === 'failed' ? 'Bridge reported the transfer as failed' : 'Bridge transfer was not found');
+        }
+        if (result.destinationAmount !== undefined) {
+          destinationAmount = result.destinationAmount;
+        }
+      }
+
+      onStepUpdate?.(stepIndex, { state: 'completed' });
+    }
+
+    return { success: true, destinationAmount, transactionHashes };
+  } catch (error: any) {
+    console.error('Bridge execution failed:', error);
+    const errorMessage = error?.message?.includes('user rejected') ? 'Transaction cancelled by user' : (error?.message || 'Bridge transaction failed');
+    onStepUpdate?.(currentStep, { state: 'failed', error: errorMessage });
+    return { success: false, destinationAmount: BigInt(0), transactionHashes, error: errorMessage };
+  }
+};
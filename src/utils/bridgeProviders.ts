@@ -0,0 +1,162 @@
+/**
+ * Bridge Quote Providers
+ * Pluggable source of bridge quotes and status so useBridge can run against thirdweb or a local
+ * stub (stubBridgeProvider.ts)
+ */
+
+import { Buy, status as bridgeStatus } from 'thirdweb/bridge';
+import { client } from '../thirdweb';
+
+export type BridgeAction = 'approval' | 'transfer' | 'buy' | 'sell' | 'fee';
+
+export interface BridgeTransaction {
+  id: string;
+  chainId: number;
+  to: string;
+  data: string;
+  value?: bigint;
+  action: BridgeAction;
+}
+
+export interface BridgeStep {
+  originSymbol: string;
+  originChainId: number;
+  destinationSymbol: string;
+  destinationChainId: number;
+  originAmount: bigint;
+  destinationAmount: bigint;
+  estimatedExecutionTimeMs: number;
+  transactions: BridgeTransaction[];
+}
+
+export interface BridgeQuote {
+  originChainId: number;
+  originTokenAddress: string;
+  destinationChainId: number;
+  destinationTokenAddress: string;
+  originAmount: bigint; // What the sender pays, fees included
+  destinationAmount: bigint; // What arrives on the destination chain
+  originDecimals: number;
+  destinationDecimals: number;
+  feeUsd?: number; // Origin value minus destination value, when prices are known
+  estimatedTimeMs?: number;
+  expiresAt?: number;
+  sender: string;
+  receiver: string;
+  steps: BridgeStep[];
+}
+
+export interface BridgeQuoteRequest {
+  originChainId: number;
+  originTokenAddress: string;
+  destinationChainId: number;
+  destinationTokenAddress: string;
+  amount: bigint; // Amount to receive on the destination chain
+  sender: string;
+  receiver: string;
+}
+
+export type BridgeStatusState = 'pending' | 'completed' | 'failed' | 'not_found';
+
+export interface BridgeStatusResult {
+  status: BridgeStatusState;
+  destinationAmount?: bigint;
+  transactions: { chainId: number; transactionHash: string }[];
+}
+
+export interface BridgeQuoteProvider {
+  name: string;
+  getQuote(request: BridgeQuoteRequest): Promise<BridgeQuote>;
+  getStatus(transactionHash: string, chainId: number, transactionId?: string): Promise<BridgeStatusResult>;
+  // Optional override for submitting step transactions; the wallet is used when omitted
+  sendTransaction?(transaction: BridgeTransaction, sender: string): Promise<string>;
+}
+
+const usdValue = (amount: bigint, decimals: number, prices?: Record<string, number>): number | undefined => {
+  const price = prices?.USD ?? prices?.usd;
+  if (price === undefined) return undefined;
+  return (Number(amount) / Math.pow(10, decimals)) * price;
+};
+
+/**
+ * Live quotes from the thirdweb Universal Bridge (Buy = exact destination amount).
+ */
+export const thirdwebBridgeProvider: BridgeQuoteProvider = {
+  name: 'thirdweb',
+
+  async getQuote(request: BridgeQuoteRequest): Promise<BridgeQuote> {
+    const prepared = await Buy.prepare({
+      client,
+      originChainId: request.originChainId,
+      originTokenAddress: request.originTokenAddress as `0x${string}`,
+      destinationChainId: request.destinationChainId,
+      destinationTokenAddress: request.destinationTokenAddress as `0x${string}`,
+      amount: request.amount,
+      sender: request.sender as `0x${string}`,
+      receiver: request.receiver as `0x${string}`
+    });
+
+    const firstStep = prepared.steps[0];
+    const lastStep = prepared.steps[prepared.steps.length - 1];
+
+    const originUsd = firstStep
+      ? usdValue(prepared.originAmount, firstStep.originToken.decimals, firstStep.originToken.prices)
+      : undefined;
+    const destinationUsd = lastStep
+      ? usdValue(prepared.destinationAmount, lastStep.destinationToken.decimals, lastStep.destinationToken.prices)
+      : undefined;
+
+    return {
+      originChainId: request.originChainId,
+      originTokenAddress: request.originTokenAddress,
+      destinationChainId: request.destinationChainId,
+      destinationTokenAddress: request.destinationTokenAddress,
+      originAmount: prepared.originAmount,
+      destinationAmount: prepared.destinationAmount,
+      originDecimals: firstStep?.originToken.decimals ?? 18,
+      destinationDecimals: lastStep?.destinationToken.decimals ?? 18,
+      feeUsd: originUsd !== undefined && destinationUsd !== undefined ? Math.max(0, originUsd - destinationUsd) : undefined,
+      estimatedTimeMs: prepared.estimatedExecutionTimeMs,
+      expiresAt: prepared.expiration,
+      sender: request.sender,
+      receiver: request.receiver,
+      steps: prepared.steps.map(step => ({
+        originSymbol: step.originToken.symbol,
+        originChainId: step.originToken.chainId,
+        destinationSymbol: step.destinationToken.symbol,
+        destinationChainId: step.destinationToken.chainId,
+        originAmount: step.originAmount,
+        destinationAmount: step.destinationAmount,
+        estimatedExecutionTimeMs: step.estimatedExecutionTimeMs,
+        transactions: step.transactions.map(tx => ({
+          id: tx.id,
+          chainId: tx.chainId,
+          to: tx.to,
+          data: tx.data,
+          value: tx.value,
+          action: tx.action
+        }))
+      }))
+    };
+  },
+
+  async getStatus(transactionHash: string, chainId: number, transactionId?: string): Promise<BridgeStatusResult> {
+    const result = await bridgeStatus({
+      client,
+      chainId,
+      transactionHash: transactionHash as `0x${string}`,
+      transactionId
+    });
+
+    switch (result.status) {
+      case 'COMPLETED':
+        return { status: 'completed', destinationAmount: result.destinationAmount, transactions: result.transactions };
+      case 'FAILED':
+        return { status: 'failed', transactions: result.transactions };
+      case 'NOT_FOUND':
+        return { status: 'not_found', transactions: [] };
+      default:
+        return { status: 'pending', transactions: result.transactions };
+    }
+  }
+};
@@ -0,0 +1,300 @@
+/**
+ * Chain Registry
+ * Per-chain contract/forwarder addresses, token lists, RPC endpoints and relay URLs.
+ * The active chain is fixed for the page load: deep links pick it from the game code,
+ * otherwise the last chain chosen in the header switcher is used.
+ */
+
+import { base, baseSepolia, anvil } from 'thirdweb/chains';
+import type { Chain } from 'thirdweb/chains';
+import type { RpcEndpointConfig } from './rpcManager';
+import { getEnvVar } from './envUtils';
+
+export type ChainKey = 'base' | 'base-sepolia' | 'local';
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  icon: string;
+}
+
+export interface ChainConfig {
+  key: ChainKey;
+  name: string;
+  chain: Chain;
+  contractAddress: string; // Empty when the game contract is not deployed on this chain
+  deploymentBlock: number; // Block the game contract was deployed in, log scans never start earlier
+  forwarderAddress: string;
+  relayApiUrl: string;
+  rpcEndpoints: RpcEndpointConfig[];
+  tokens: TokenInfo[]; // Native token first
+  isTestnet: boolean;
+}
+
+export const DEFAULT_CHAIN_KEY: ChainKey = 'base';
+
+const STORAGE_KEY = 'saltfree-active-chain';
+
+// Common Base mainnet tokens
+export const BASE_MAINNET_TOKENS = {
+  ETH: {
+    address: '0x0000000000000000000000000000000000000000', // ETH represented as zero address
+    symbol: 'ETH',
+    name: 'Ethereum',
+    decimals: 18,
+    icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiM2MjdFRUEiLz4KPHBhdGggZD0iTTE1Ljk5OTggNC41VjEzLjUxMjVMMjMuMTI0OCAxNi4wMDI1TDE1Ljk5OTggNC41WiIgZmlsbD0iI0ZGRkZGRiIgZmlsbC1vcGFjaXR5PSIwLjYiLz4KPHBhdGggZD0iTTE1Ljk5OTggNC41TDguODc0NzkgMTYuMDAyNUwxNS45OTk4IDEzLjUxMjVWNC41WiIgZmlsbD0iI0ZGRkZGRiIvPgo8cGF0aCBkPSJNMTUuOTk5OCAxOS4wODc1VjI3LjVMMjMuMTI5OCAxNy4yNUwxNS45OTk4IDE5LjA4NzVaIiBmaWxsPSIjRkZGRkZGIiBmaWxsLW9wYWNpdHk9IjAuNiIvPgo8cGF0aCBkPSJNMTUuOTk5OCAyNy41VjE5LjA4NzVMOC44NzQ3OSAxNy4yNUwxNS45OTk4IDI3LjVaIiBmaWxsPSIjRkZGRkZGIi8+Cjwvc3ZnPgo='
+  },
+  USDC: {
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiMyNzc1Q0EiLz4KPHBhdGggZD0iTTE2IDI4QzIyLjYyNzQgMjggMjggMjIuNjI3NCAyOCAxNkMyOCA5LjM3MjU4IDIyLjYyNzQgNCAxNiA0QzkuMzcyNTggNCE0IDkuMzcyNTggNCA2VjE2QzQgMjIuNjI3NCA5LjM3MjU4IDI4IDE2IDI4WiIgZmlsbD0iIzI3NzVDQSIvPgo8cGF0aCBkPSJNMTYuMTQxIDE4LjY2N0MxNS4zOTggMTguNjY3IDE0LjczMiAxOC41OSAxNC4xNDMgMTguNDM4VjE0LjE3N0MxNC43MzkgMTQuMDI1IDE1LjM5OSAxMy45NDkgMTYuMTQxIDEzLjk0OUMxNy42MjUgMTMuOTQ5IDE4LjM2NyAxNC41NjQgMTguMzY3IDE1Ljc5NUMxOC4zNjcgMTYuOTQ5IDE3LjY0MSAxNy41MjYgMTYuMTg5IDE3LjUyNkMxNi4xNzMgMTcuNTI2IDE2LjE1NyAxNy41MjYgMTYuMTQxIDE3LjUyNlYxOC42NjdaTTE2LjE0MSAyMi4wNTNDMTcuODY5IDIyLjA1MyAxOS4yNjcgMjEuMzQ0IDE5LjI2NyAxOS40NDNDMTkuMjY3IDE4LjAyMSAxOC4zNTEgMTcuMjYgMTYuNTY1IDE3LjA2VjE2LjA5M0MxNy4xODUgMTUuOTQxIDE3LjYyNSAxNS41MzEgMTcuNjI1IDE0Ljk5NUMxNy42MjUgMTQuMjM2IDE3LjA5NyAxMy44NTggMTUuNDMzIDEzLjg1OEMxNC4xNTkgMTMuODU4IDEyLjcxMyAxNC4yMzYgMTIuNzEzIDE0LjIzNlY5LjU5NEMxMi43MTMgOS41OTQgMTQuMTQ3IDkuMTUzIDEzLjkyNSA5LjE1M0MxNy40ODkgOS4xNTMgMTkuNzE3IDEwLjk0OSAxOS43MTcgMTMuNTMxQzE5LjcxNyAxNS42IDI4LjE2MSAxNi4wOTMgMTkuMjY3IDE3LjE0MkMxOS4yNjcgMTkuMDgxIDE3Ljc1MyAyMi44ODUgMTYuMTg5IDIyLjg4NUMxNi4xNzMgMjIuODg1IDE2LjE1NyAyMi44ODUgMTYuMTQxIDIyLjg4NVoiIGZpbGw9IndoaXRlIi8+Cjwvc3ZnPgo='
+  },
+  USDT: {
+    address: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2',
+    symbol: 'USDT',
+    name: 'Tether USD',
+    decimals: 6,
+    icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiM1MEFGOTUiLz4KPHBhdGggZD0iTTE3LjggMTAuNEgyMy4yVjguOEgxNy44VjEwLjRaTTE3LjggMTMuMkgyMy4yVjExLjZIMTcuOFYxMy4yWk0xNy44IDE2SDIzLjJWMTQuNEgxNy44VjE2Wk0xNy44IDE4LjhIMjMuMlYxNy4ySDdz3LjhWMTguOFpNMTcuOCAyMS42SDIzLjJWMjBIMTcuOFYyMS42Wk0xNy44IDI0LjRIMjMuMlYyMi44SDE3LjhWMjQuNFoiIGZpbGw9IndoaXRlIi8+Cjwvc3ZnPgo='
+  },
+  DAI: {
+    address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+    symbol: 'DAI',
+    name: 'Dai Stablecoin',
+    decimals: 18,
+    icon: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMzIiIGhlaWdodD0iMzIiIHZpZXdCb3g9IjAgMCAzMiAzMiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTYiIGZpbGw9IiNGQkIwNDMiLz4KPHBhdGggZD0iTTE2IDI4QzIyLjYyNzQgMjggMjggMjIuNjI3NCAyOCAxNkMyOCA5LjM3MjU4IDIyLjYyNzQgNCAxNiA0QzkuMzcyNTggNCE0IDkuMzcyNTggNCA2VjE2QzQgMjIuNjI3NCA5LjM3MjU4IDI4IDE2IDI4WiIgZmlsbD0iI0ZCQjA0MyIvPgo8cGF0aCBkPSJNOSAyM0wxMi41IDE3TDE2IDE5LjVMMTkuNSAxN0wyMyAyM0gxNkgxMEg5WiIgZmlsbD0id2hpdGUiLz4KPC9zdmc+Cgo='
+  }
+} as const;
+
+
+const NATIVE_ETH: TokenInfo = BASE_MAINNET_TOKENS.ETH;
+
+const LOCAL_RPC_URL = getEnvVar('REACT_APP_LOCAL_RPC_URL', 'http://127.0.0.1:8545');
+
+// Deployment blocks default to 0 (scan from genesis) when not configured
+const deploymentBlockFromEnv = (name: string): number => {
+  const block = parseInt(getEnvVar(name, '0'), 10);
+  return Number.isFinite(block) && block > 0 ? block : 0;
+};
+
+const BASE_RPC_ENDPOINTS: RpcEndpointConfig[] = [
+  {
+    url: 'https://mainnet.base.org',
+    name: 'Base Official',
+    maxBlockRange: 10000, // Conservative limit to avoid 503 errors
+    priority: 1,
+    hasCorsBrowser: true,
+    rateLimit: {
+      requestsPerSecond: 10,
+      burstLimit: 20
+    }
+  },
+  {
+    url: 'https://base.publicnode.com',
+    name: 'PublicNode',
+    maxBlockRange: 50000, // Known limit from error logs
+    priority: 2,
+    hasCorsBrowser: true,
+    rateLimit: {
+      requestsPerSecond: 15,
+      burstLimit: 30
+    }
+  },
+  {
+    url: 'https://base.llamarpc.com',
+    name: 'LlamaRPC',
+    maxBlockRange: 1000, // Known limit from error logs
+    priority: 3,
+    hasCorsBrowser: true,
+    rateLimit: {
+      requestsPerSecond: 20,
+      burstLimit: 40
+    }
+  },
+  {
+    url: 'https://base-mainnet.g.alchemy.com/v2/demo',
+    name: 'Alchemy Demo',
+    maxBlockRange: 2000,
+    priority: 4,
+    hasCorsBrowser: false, // CORS issues in browser
+    rateLimit: {
+      requestsPerSecond: 5,
+      burstLimit: 10
+    }
+  },
+  {
+    url: 'https://base.meowrpc.com',
+    name: 'MeowRPC',
+    maxBlockRange: 5000,
+    priority: 5,
+    hasCorsBrowser: false, // CORS issues in browser
+    rateLimit: {
+      requestsPerSecond: 10,
+      burstLimit: 20
+    }
+  }
+];
+
+const BASE_SEPOLIA_RPC_ENDPOINTS: RpcEndpointConfig[] = [
+  {
+    url: 'https://sepolia.base.org',
+    name: 'Base Sepolia Official',
+    maxBlockRange: 10000,
+    priority: 1,
+    hasCorsBrowser: true,
+    rateLimit: {
+      requestsPerSecond: 10,
+      burstLimit: 20
+    }
+  },
+  {
+    url: 'https://base-sepolia.publicnode.com',
+    name: 'PublicNode Sepolia',
+    maxBlockRange: 50000,
+    priority: 2,
+    hasCorsBrowser: true,
+    rateLimit: {
+      requestsPerSecond: 15,
+      burstLimit: 30
+    }
+  }
+];
+
+export const CHAIN_REGISTRY: Record<ChainKey, ChainConfig> = {
+  base: {
+    key: 'base',
+    name: 'Base',
+    chain: base,
+    // OpenPoolsV36 with ERC2771 Gasless Support
+    contractAddress: '0xEE39bFE97e165fd15C2B0c75D96ddFfa816DDD11',
+    deploymentBlock: deploymentBlockFromEnv('REACT_APP_BASE_DEPLOYMENT_BLOCK'),
+    // MinimalForwarder for ERC2771 meta-transactions
+    forwarderAddress: '0x4FFAE8a0818FFd17284674004ABf1e4340B89691',
+    relayApiUrl: getEnvVar('REACT_APP_RELAY_API_URL', 'http://localhost:3001/api/gasless'),
+    rpcEndpoints: BASE_RPC_ENDPOINTS,
+    tokens: Object.values(BASE_MAINNET_TOKENS),
+    isTestnet: false
+  },
+  'base-sepolia': {
+    key: 'base-sepolia',
+    name: 'Base Sepolia',
+    chain: baseSepolia,
+    contractAddress: getEnvVar('REACT_APP_BASE_SEPOLIA_CONTRACT_ADDRESS'),
+    deploymentBlock: deploymentBlockFromEnv('REACT_APP_BASE_SEPOLIA_DEPLOYMENT_BLOCK'),
+    forwarderAddress: getEnvVar('REACT_APP_BASE_SEPOLIA_FORWARDER_ADDRESS'),
+    relayApiUrl: getEnvVar('REACT_APP_BASE_SEPOLIA_RELAY_API_URL'),
+    rpcEndpoints: BASE_SEPOLIA_RPC_ENDPOINTS,
+    tokens: [
+      NATIVE_ETH,
+      {
+        ...BASE_MAINNET_TOKENS.USDC,
+        address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' // Circle testnet USDC
+      }
+    ],
+    isTestnet: true
+  },
+  local: {
+    key: 'local',
+    name: 'Local (Anvil/Hardhat)',
+    chain: { ...anvil, rpc: LOCAL_RPC_URL }, // Anvil and Hardhat both use chain id 31337
+    contractAddress: getEnvVar('REACT_APP_LOCAL_CONTRACT_ADDRESS'),
+    deploymentBlock: deploymentBlockFromEnv('REACT_APP_LOCAL_DEPLOYMENT_BLOCK'),
+    forwarderAddress: getEnvVar('REACT_APP_LOCAL_FORWARDER_ADDRESS'),
+    relayApiUrl: getEnvVar('REACT_APP_LOCAL_RELAY_API_URL', 'http://localhost:3001/api/gasless'),
+    rpcEndpoints: [
+      {
+        url: LOCAL_RPC_URL,
+        name: 'Local node',
+        maxBlockRange: 100000,
+        priority: 1,
+        hasCorsBrowser: true
+      }
+    ],
+    tokens: [NATIVE_ETH],
+    isTestnet: true
+  }
+};
+
+/**
+ * Chains with a game contract configured - only these are offered in the switcher
+ */
+export function getEnabledChains(): ChainConfig[] {
+  return Object.values(CHAIN_REGISTRY).filter(config => !!config.contractAddress);
+}
+
+const isEnabledChainKey = (key: string | null): key is ChainKey =>
+  !!key && key in CHAIN_REGISTRY && !!CHAIN_REGISTRY[key as ChainKey].contractAddress;
+
+/**
+ * Split a chain-qualified game code (`base-sepolia:ABC-123`) into its chain and code.
+ * Bare codes belong to the default chain so links shared before multi-chain keep working.
+ */
+export function parseChainGameCode(qualifiedCode: string): { chainKey: ChainKey; code: string } {
+  const separator = qualifiedCode.indexOf(':');
+  if (separator === -1) {
+    return { chainKey: DEFAULT_CHAIN_KEY, code: qualifiedCode };
+  }
+
+  const prefix = qualifiedCode.slice(0, separator).toLowerCase();
+  const code = qualifiedCode.slice(separator + 1);
+  return { chainKey: prefix in CHAIN_REGISTRY ? (prefix as ChainKey) : DEFAULT_CHAIN_KEY, code };
+}
+
+/**
+ * Game code as it appears in URLs - prefixed with the chain unless it is the default chain
+ */
+export function toChainGameCode(code: string, chainKey: ChainKey): string {
+  return chainKey === DEFAULT_CHAIN_KEY ? code : `${chainKey}:${code}`;
+}
+
+const chainKeyFromLocation = (): ChainKey | null => {
+  if (typeof window === 'undefined') return null;
+  const match = window.location.pathname.match(/^\/(?:game|join)\/([^/]+)/);
+  return match ? parseChainGameCode(decodeURIComponent(match[1])).chainKey : null;
+};
+
+const resolveActiveChainKey = (): ChainKey => {
+  // A game link always wins so /game/:gameCode loads from the network it was created on
+  const fromUrl = chainKeyFromLocation();
+  if (isEnabledChainKey(fromUrl)) {
+    try {
+      localStorage.setItem(STORAGE_KEY, fromUrl);
+    } catch {
+      // Storage unavailable (private mode) - still honour the link for this page load
+    }
+    return fromUrl;
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isEnabledChainKey(stored)) return stored;
+  } catch {
+    // Fall through to the default chain
+  }
+  return DEFAULT_CHAIN_KEY;
+};
+
+export const ACTIVE_CHAIN: ChainConfig = CHAIN_REGISTRY[resolveActiveChainKey()];
+
+/**
+ * Persist a new active chain and reload, since contracts, clients and indexes are bound at load
+ */
+export function switchActiveChain(key: ChainKey, redirectPath: string = '/'): void {
+  if (!isEnabledChainKey(key)) {
+    throw new Error(`Chain ${key} has no game contract configured`);
+  }
+
+  localStorage.setItem(STORAGE_KEY, key);
+  window.location.assign(redirectPath);
+}
+
+/**
+ * Block explorer link for a transaction, or null for chains without an explorer (local)
+ */
+export function getExplorerTxUrl(transactionHash: string, config: ChainConfig = ACTIVE_CHAIN): string | null {
+  const explorer = config.chain.blockExplorers?.[0];
+  return explorer ? `${explorer.url.replace(/\/$/, '')}/tx/${transactionHash}` : null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Claim All
+ * Finds a winner's unclaimed prizes, estimates the payout and keeps the claim queue in
+ * localStorage so a run interrupted by a reload can be resumed where it stopped
+ */
+
+import { readContract, prepareContractCall, simulateTransaction } from 'thirdweb/transaction';
+import { getGameContract } from '../thirdweb';
+import { ACTIVE_CHAIN } from './chainRegistry';
+import { GAME_METHODS } from './gaslessHelper';
+import { getWinnerPrize } from './claimPayouts';
+
+const STORAGE_PREFIX = 'saltfree-claim-all:';
+
+export interface UnclaimedWin {
+  gameCode: string;
+  token: string;
+  prize: bigint; // Before the UI fee
+  position: number; // 1-based
+}
+
+// submitted = sent by the relay, which errored before confirming it
+export type ClaimItemStatus = 'pending' | 'claiming' | 'submitted' | 'claimed' | 'failed';
+
+export interface ClaimRunItem {
+  gameCode: string;
+  token: string;
+  prize: string; // bigint as string, so the run survives JSON
+  status: ClaimItemStatus;
+  txHash?: string;
+  selfPaid?: boolean;
+  error?: string;
+}
+
+export interface ClaimRun {
+  address: string;
+  items: ClaimRunItem[];
+  startedAt: number;
+}
+
+/**
+ * Read a game and check the claim would go through right now.
+ * Returns null when there is nothing to claim, including prizes that were already claimed.
+ */
+export async function getUnclaimedWin(gameCode: string, address: string): Promise<UnclaimedWin | null> {
+  const contract = await getGameContract();
+  const [gameInfo, totalPrize, winners] = await Promise.all([
+    readContract({
+      contract,
+      method: "function getGameInfo(string code) view returns (address host, address token, uint256 buyIn, uint256 maxPlayers, uint256 playerCount, bool isLocked, uint256[] splits, address[] judges)",
+      params: [gameCode]
+    }) as Promise<[string, string, bigint, bigint, bigint, boolean, bigint[], string[]]>,
+    readContract({
+      contract,
+      method: "function getTotalPrize(string code) view returns (uint256)",
+      params: [gameCode]
+    }) as Promise<bigint>,
+    readContract({
+      contract,
+      method: "function getConfirmedWinners(string code) view returns (address[] winners)",
+      params: [gameCode]
+    }) as Promise<string[]>
+  ]);
+
+  const [, token, , , , , splits] = gameInfo;
+  const winnerIndex = winners.findIndex(winner => winner.toLowerCase() === address.toLowerCase());
+  const prize = getWinnerPrize(totalPrize, splits.map(split => Number(split)), winnerIndex);
+  if (prize === BigInt(0)) return null;
+
+  // The contract has no claimed() view, so a reverting claim is how we tell it was already claimed
+  try {
+    await simulateTransaction({
+      transaction: prepareContractCall({ contract, method: GAME_METHODS.claimWinnings, params: [gameCode] }),
+      from: address
+    });
+  } catch (error) {
+    console.log(`⏭️ ${gameCode} is not claimable:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  return { gameCode, token: token.toLowerCase(), prize, position: winnerIndex + 1 };
+}
+
+export function createClaimRun(address: string, wins: UnclaimedWin[]): ClaimRun {
+  return {
+    address: address.toLowerCase(),
+    items: wins.map(win => ({ gameCode: win.gameCode, token: win.token, prize: win.prize.toString(), status: 'pending' })),
+    startedAt: Date.now()
+  };
+}
+
+const storageKey = (address: string) => `${STORAGE_PREFIX}${ACTIVE_CHAIN.chain.id}:${address.toLowerCase()}`;
+
+/**
+ * The stored run for an address. A claim that was in flight when the page went away is
+ * pending again; resuming re-checks it on chain before sending anything.
+ */
+export function loadClaimRun(address: string): ClaimRun | null {
+  try {
+    const raw = localStorage.getItem(storageKey(address));
+    if (!raw) return null;
+
+    const run = JSON.parse(raw) as ClaimRun;
+    return {
+      ...run,
+      items: run.items.map(item => (item.status === 'claiming' ? { ...item, status: 'pending' } : item))
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveClaimRun(run: ClaimRun): void {
+  try {
+    localStorage.setItem(storageKey(run.address), JSON.stringify(run));
+  } catch (error) {
+    console.warn('Failed to persist claim-all progress:', error);
+  }
+}
+
+export function clearClaimRun(address: string): void {
+  try {
+    localStorage.removeItem(storageKey(address));
+  } catch {
+    // Nothing to clear
+  }
+}
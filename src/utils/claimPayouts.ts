@@ -0,0 +1,53 @@
+/**
+ * Claim Payouts
+ * Prize and UI fee math for claims, kept apart from the contract reads so it can be unit tested
+ */
+
+import { BASIS_POINTS, PRIZE_SPLIT_DENOMINATOR, splitAmount } from './amounts';
+
+// The relay keeps 1% of gasless claims as the UI fee (WinningsClaimedViaUI); self-paid claims pay no fee
+export const GASLESS_CLAIM_FEE_BPS = 100;
+
+export interface TokenPayoutEstimate {
+  token: string;
+  games: number;
+  gross: bigint;
+  fee: bigint;
+  net: bigint;
+}
+
+/**
+ * A winner's share of the pot. Winner-take-all games (no splits) only pay first place.
+ * @param splits - Prize splits as the contract stores them, in basis points
+ */
+export function getWinnerPrize(totalPrize: bigint, splits: number[], winnerIndex: number): bigint {
+  if (winnerIndex < 0) return BigInt(0);
+  if (splits.length === 0) return winnerIndex === 0 ? totalPrize : BigInt(0);
+  return winnerIndex < splits.length ? splitAmount(totalPrize, splits, PRIZE_SPLIT_DENOMINATOR)[winnerIndex] : BigInt(0);
+}
+
+/**
+ * Payout per token, in claim order. The first `gaslessRemaining` claims go through the
+ * relay and pay the UI fee; the rest would be self-paid and arrive in full.
+ */
+export function estimateClaimPayouts(
+  wins: { token: string; prize: bigint }[],
+  gaslessRemaining: number
+): TokenPayoutEstimate[] {
+  const byToken = new Map<string, TokenPayoutEstimate>();
+
+  wins.forEach((win, index) => {
+    const fee = index < gaslessRemaining
+      ? (win.prize * BigInt(GASLESS_CLAIM_FEE_BPS)) / BigInt(BASIS_POINTS)
+      : BigInt(0);
+    const estimate = byToken.get(win.token) || { token: win.token, games: 0, gross: BigInt(0), fee: BigInt(0), net: BigInt(0) };
+
+    estimate.games++;
+    estimate.gross += win.prize;
+    estimate.fee += fee;
+    estimate.net += win.prize - fee;
+    byToken.set(win.token, estimate);
+  });
+
+  return Array.from(byToken.values());
+}
@@ -0,0 +1,113 @@
+/**
+ * Game Contract Deployment
+ * Address, deployment block, ABI and event topics for the game contract on the active chain.
+ * A redeploy only touches the chain registry entry and, if events change, the ABI below -
+ * topics are always derived from the ABI, never hard-coded.
+ */
+
+import { toEventSelector, keccakId } from 'thirdweb/utils';
+import { ACTIVE_CHAIN, ChainKey } from './chainRegistry';
+
+// OpenPoolsV36 with ERC2771 support. Event signatures match the logs emitted by the deployed contract.
+export const GAME_CONTRACT_ABI = [
+  // Write functions
+  "function createGame(uint256 buyIn, address token, uint256 maxPlayers, address[] judges, uint256[] splits, uint256 initialPotAmount) returns (string)",
+  "function joinGame(string code) payable",
+  "function reportWinners(string code, address[] winners)",
+  "function claimWinnings(string code)",
+  "function lockGame(string code)",
+
+  // View functions
+  "function getGameInfo(string code) view returns (address host, address token, uint256 buyIn, uint256 maxPlayers, uint256 playerCount, bool locked, uint256[] splits, address[] judges)",
+  "function getPlayers(string code) view returns (address[])",
+  "function getConfirmedWinners(string code) view returns (address[])",
+  "function isWinnerConfirmed(string code, address winner) view returns (bool)",
+  "function codeIsAvailable(string code) view returns (bool)",
+  "function getTotalPrize(string code) view returns (uint256)",
+  "function isTrustedForwarder(address forwarder) view returns (bool)",
+
+  // Events. Only the types of WinnersReported's trailing uint256 pair are known, not what they hold.
+  "event GameStarted(string code, address indexed host, address token, uint256 buyIn, uint256 maxPlayers, uint256[] splits)",
+  "event PlayerJoined(string indexed code, address indexed player, uint256 playerCount)",
+  "event GameLocked(string indexed code)",
+  "event PrizeSplitsSet(string indexed code, uint256[] splits)",
+  "event PotIncreased(string indexed code, address indexed contributor, uint256 amount)",
+  "event WinnersReported(string indexed code, address indexed reporter, address[] winners, uint256 winnerCount, uint256 totalPrize)",
+  "event WinningsClaimed(string indexed code, address indexed winner, address token, uint256 amount)",
+  "event WinningsClaimedViaUI(string indexed code, address indexed winner, address token, uint256 userPayout, uint256 uiFee, uint256 feeRate)"
+] as const;
+
+export type GameEventName =
+  | 'GameStarted'
+  | 'PlayerJoined'
+  | 'GameLocked'
+  | 'PrizeSplitsSet'
+  | 'PotIncreased'
+  | 'WinnersReported'
+  | 'WinningsClaimed'
+  | 'WinningsClaimedViaUI';
+
+export interface GameContractDeployment {
+  chainKey: ChainKey;
+  chainId: number;
+  address: string; // Empty when the game contract is not deployed on the active chain
+  deploymentBlock: number;
+  abi: typeof GAME_CONTRACT_ABI;
+  eventTopics: Record<GameEventName, string>; // Lowercased topic0 per event
+}
+
+const EVENT_NAME_PATTERN = /^event (\w+)\(/;
+
+const deriveEventTopics = (abi: readonly string[]): Record<GameEventName, string> => {
+  const topics = {} as Record<GameEventName, string>;
+  abi.forEach(entry => {
+    const match = EVENT_NAME_PATTERN.exec(entry);
+    if (match) {
+      topics[match[1] as GameEventName] = toEventSelector(entry).toLowerCase();
+    }
+  });
+  return topics;
+};
+
+export const GAME_CONTRACT: GameContractDeployment = {
+  chainKey: ACTIVE_CHAIN.key,
+  chainId: ACTIVE_CHAIN.chain.id,
+  address: ACTIVE_CHAIN.contractAddress,
+  deploymentBlock: ACTIVE_CHAIN.deploymentBlock,
+  abi: GAME_CONTRACT_ABI,
+  eventTopics: deriveEventTopics(GAME_CONTRACT_ABI)
+};
+
+const EVENT_NAMES_BY_TOPIC = new Map<string, GameEventName>(
+  (Object.keys(GAME_CONTRACT.eventTopics) as GameEventName[]).map(name => [GAME_CONTRACT.eventTopics[name], name])
+);
+
+/**
+ * Event name for a log's topic0, or null for events not in the ABI
+ */
+export function getGameEventNameByTopic(topic?: string | null): GameEventName | null {
+  if (!topic) return null;
+  return EVENT_NAMES_BY_TOPIC.get(topic.toLowerCase()) || null;
+}
+
+/**
+ * Topic for an indexed address parameter
+ */
+export function toAddressTopic(address: string): string {
+  return `0x000000000000000000000000${address.slice(2).toLowerCase()}`;
+}
+
+/**
+ * Topic for an indexed string parameter, e.g. the game code in `string indexed code`.
+ * Solidity stores the keccak256 of the string, so the code itself cannot be read back from it.
+ */
+export function toIndexedStringTopic(value: string): string {
+  return keccakId(value).toLowerCase();
+}
+
+/**
+ * Clamp the start of a log scan so it never searches before the contract existed
+ */
+export function clampToDeploymentBlock(fromBlock: number): number {
+  return Math.max(fromBlock, GAME_CONTRACT.deploymentBlock, 0);
+}
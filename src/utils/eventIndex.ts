@@ -0,0 +1,463 @@
+/**
+ * Event Index
+ * Persists decoded game contract logs in IndexedDB so log scans only fetch the delta since the last sync
+ */
+
+import { logger } from './logger';
+import { ACTIVE_CHAIN, DEFAULT_CHAIN_KEY } from './chainRegistry';
+import { GAME_CONTRACT, getGameEventNameByTopic } from './contractDeployment';
+import { decodeGameEvent, GameEvent } from './gameEvents';
+
+// One database per chain; the default chain keeps the original name so existing indexes survive
+const DB_NAME = ACTIVE_CHAIN.key === DEFAULT_CHAIN_KEY ? 'saltfree-event-index' : `saltfree-event-index-${ACTIVE_CHAIN.key}`;
+// Bump when the stored record shape changes - the upgrade drops and rebuilds the stores
+const DB_VERSION = 3; // v3: codeHash index, UI claims stored as WinningsClaimedViaUI
+const EVENTS_STORE = 'events';
+const SYNC_STORE = 'syncState';
+
+// Base has ~2s blocks, so 64 blocks covers any reorg we have seen in practice
+export const REORG_RECHECK_BLOCKS = 64;
+
+// Seen on the deployed contract but not in the ABI, stored by name only so they are not indexed as Unknown
+const UNDECODED_EVENT_NAMES: Record<string, string> = {
+  '0x416944ecc005c7f1d6aa7aff4d0ab1d83d4a6ec66a92cf51b44b7a9170d54c63': 'WinnerSetConfirmed',
+  '0xb419b2a1f4a77fef0217ee6d70b6979d58ea89fac3ef69218feb2492da8b7bd1': 'UIProviderRegistered'
+};
+
+export interface IndexedGameEvent {
+  id: string; // `${transactionHash}:${logIndex}`
+  name: string;
+  gameCode: string | null;
+  codeHash: string | null; // keccak256 of the game code, lets later events find the code from GameStarted
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  participants: string[]; // Lowercased addresses from indexed topics and reported winners
+  topics: string[];
+  data: string;
+}
+
+export interface EventIndexSyncState {
+  scope: string; // Lowercased participant address, or 'all'
+  contractAddress: string;
+  lastSyncedBlock: number;
+  updatedAt: number;
+}
+
+export interface EventIndexSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  removed: number;
+  fullScan: boolean;
+}
+
+export interface EventIndexStats {
+  totalEvents: number;
+  gameCodes: number;
+  syncStates: EventIndexSyncState[];
+}
+
+const ADDRESS_TOPIC_PATTERN = /^0x0{24}[0-9a-f]{40}$/;
+
+const parseHexNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string') return value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+  return 0;
+};
+
+const isValidGameCode = (code: string | null): code is string =>
+  !!code && code.length >= 3 && code.length <= 10 && /^[A-Z0-9-]+$/i.test(code);
+
+export function getGameEventName(signature?: string): string | null {
+  if (!signature) return null;
+  return getGameEventNameByTopic(signature) || UNDECODED_EVENT_NAMES[signature.toLowerCase()] || null;
+}
+
+/**
+ * Decode a raw eth_getLogs entry into the record we persist.
+ * @param log - Raw log (hex quantities) from eth_getLogs
+ * @param scope - Participant the log was fetched for, added to participants when present
+ * @param lookupCode - Resolves `string indexed code` hashes for events after GameStarted
+ */
+export function decodeIndexedLog(
+  log: any,
+  scope?: string,
+  lookupCode?: (codeHash: string) => string | null | undefined
+): IndexedGameEvent | null {
+  if (!log || !log.transactionHash || !Array.isArray(log.topics) || log.topics.length === 0) {
+    return null;
+  }
+
+  const topics: string[] = log.topics.map((topic: string) => topic.toLowerCase());
+  const data: string = log.data || '0x';
+  const name = getGameEventName(topics[0]) || 'Unknown';
+  const event = decodeGameEvent(log, { lookupCode });
+  const gameCode = event?.code || null;
+
+  const participants = new Set<string>();
+  topics.slice(1).forEach(topic => {
+    if (ADDRESS_TOPIC_PATTERN.test(topic)) {
+      participants.add(`0x${topic.slice(26)}`);
+    }
+  });
+  if (event?.name === 'WinnersReported') {
+    event.winners.forEach(winner => participants.add(winner));
+  }
+  if (scope && scope !== 'all') {
+    participants.add(scope.toLowerCase());
+  }
+
+  const logIndex = parseHexNumber(log.logIndex);
+
+  return {
+    id: `${log.transactionHash.toLowerCase()}:${logIndex}`,
+    name,
+    gameCode: isValidGameCode(gameCode) ? gameCode : null,
+    codeHash: event?.codeHash || null,
+    blockNumber: parseHexNumber(log.blockNumber),
+    blockHash: (log.blockHash || '').toLowerCase(),
+    transactionHash: log.transactionHash.toLowerCase(),
+    logIndex,
+    participants: Array.from(participants),
+    topics,
+    data
+  };
+}
+
+/**
+ * Typed view of a stored event, with the code the index resolved for it
+ */
+export function toGameEvent(event: IndexedGameEvent): GameEvent | null {
+  return decodeGameEvent(event, { lookupCode: () => event.gameCode });
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const sortNewestFirst = (events: IndexedGameEvent[]): IndexedGameEvent[] =>
+  events.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+
+class EventIndexManager {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private syncPromises: Map<string, Promise<EventIndexSyncResult>> = new Map();
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          // Records from older versions are cheap to re-fetch, so rebuild instead of migrating
+          Array.from(db.objectStoreNames).forEach(storeName => db.deleteObjectStore(storeName));
+
+          const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+          events.createIndex('gameCode', 'gameCode', { unique: false });
+          events.createIndex('codeHash', 'codeHash', { unique: false });
+          events.createIndex('blockNumber', 'blockNumber', { unique: false });
+          events.createIndex('participants', 'participants', { unique: false, multiEntry: true });
+
+          db.createObjectStore(SYNC_STORE, { keyPath: 'scope' });
+          console.log(`🗄️ Event index schema created (v${DB_VERSION})`);
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  async getSyncState(scope: string): Promise<EventIndexSyncState | null> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SYNC_STORE, 'readonly');
+    const state = await requestToPromise<EventIndexSyncState | undefined>(
+      tx.objectStore(SYNC_STORE).get(scope.toLowerCase())
+    );
+
+    // Sync state recorded against a different deployment is useless
+    if (!state || state.contractAddress.toLowerCase() !== GAME_CONTRACT.address.toLowerCase()) {
+      return null;
+    }
+    return state;
+  }
+
+  /**
+   * Sync a scope up to currentBlock, re-checking the last REORG_RECHECK_BLOCKS blocks.
+   * @param scope - Participant address the logs are filtered by, or 'all'
+   * @param currentBlock - Chain head to sync to
+   * @param fetchLogs - Fetches raw logs for the scope in an inclusive block range
+   * @param initialFromBlock - Where to start when the scope has never been synced
+   */
+  async sync(
+    scope: string,
+    currentBlock: number,
+    fetchLogs: (fromBlock: number, toBlock: number) => Promise<any[]>,
+    initialFromBlock: number
+  ): Promise<EventIndexSyncResult> {
+    const normalizedScope = scope.toLowerCase();
+
+    // Concurrent callers for the same scope share one sync
+    const existing = this.syncPromises.get(normalizedScope);
+    if (existing) {
+      return existing;
+    }
+
+    const syncPromise = this.runSync(normalizedScope, currentBlock, fetchLogs, initialFromBlock)
+      .finally(() => this.syncPromises.delete(normalizedScope));
+    this.syncPromises.set(normalizedScope, syncPromise);
+    return syncPromise;
+  }
+
+  private async runSync(
+    scope: string,
+    currentBlock: number,
+    fetchLogs: (fromBlock: number, toBlock: number) => Promise<any[]>,
+    initialFromBlock: number
+  ): Promise<EventIndexSyncResult> {
+    const state = await this.getSyncState(scope);
+    const fullScan = !state;
+    const fromBlock = state
+      ? Math.max(0, Math.min(state.lastSyncedBlock, currentBlock) - REORG_RECHECK_BLOCKS + 1)
+      : Math.max(0, initialFromBlock);
+
+    if (fromBlock > currentBlock) {
+      return { fromBlock, toBlock: currentBlock, added: 0, removed: 0, fullScan };
+    }
+
+    console.log(`🗄️ Syncing event index for ${scope}: blocks ${fromBlock} to ${currentBlock}${fullScan ? ' (initial scan)' : ''}`);
+    const logs = await fetchLogs(fromBlock, currentBlock);
+    return this.applyLogs(scope, logs, fromBlock, currentBlock, fullScan);
+  }
+
+  /**
+   * Record logs that were already fetched for a scope, replacing whatever the index held in that range.
+   * Used to seed the index from a scan that did not go through sync().
+   */
+  async recordLogs(scope: string, logs: any[], fromBlock: number, toBlock: number): Promise<EventIndexSyncResult> {
+    return this.applyLogs(scope.toLowerCase(), logs, fromBlock, toBlock, true);
+  }
+
+  private async applyLogs(
+    scope: string,
+    logs: any[],
+    fromBlock: number,
+    toBlock: number,
+    fullScan: boolean
+  ): Promise<EventIndexSyncResult> {
+    // Codes of games started in this batch, for the hashed codes of the events that follow them
+    const batchCodes = new Map<string, string>();
+    logs.forEach(log => {
+      const event = decodeGameEvent(log);
+      if (event?.name === 'GameStarted') batchCodes.set(event.codeHash, event.code);
+    });
+
+    const decoded = logs
+      .map(log => decodeIndexedLog(log, scope, codeHash => batchCodes.get(codeHash)))
+      .filter((event): event is IndexedGameEvent => event !== null);
+    const fetchedIds = new Set(decoded.map(event => event.id));
+
+    const db = await this.openDatabase();
+    const tx = db.transaction([EVENTS_STORE, SYNC_STORE], 'readwrite');
+    const eventsStore = tx.objectStore(EVENTS_STORE);
+
+    // Games started before this batch: take the code from whatever stored event already resolved it
+    const unresolvedHashes = Array.from(new Set(
+      decoded.filter(event => !event.gameCode && event.codeHash).map(event => event.codeHash as string)
+    ));
+    for (const codeHash of unresolvedHashes) {
+      const known = await requestToPromise<IndexedGameEvent[]>(eventsStore.index('codeHash').getAll(codeHash));
+      const gameCode = known.find(event => event.gameCode)?.gameCode;
+      if (gameCode) {
+        decoded.forEach(event => {
+          if (event.codeHash === codeHash) event.gameCode = gameCode;
+        });
+      }
+    }
+
+    // Anything stored in the re-checked range that the chain no longer returns was reorged out
+    const storedInRange = await requestToPromise<IndexedGameEvent[]>(
+      eventsStore.index('blockNumber').getAll(IDBKeyRange.bound(fromBlock, toBlock))
+    );
+    let removed = 0;
+    storedInRange.forEach(event => {
+      const inScope = scope === 'all' || event.participants.includes(scope);
+      if (inScope && !fetchedIds.has(event.id)) {
+        eventsStore.delete(event.id);
+        removed++;
+      }
+    });
+
+    const storedById = new Map(storedInRange.map(event => [event.id, event]));
+    let added = 0;
+    decoded.forEach(event => {
+      const stored = storedById.get(event.id);
+      if (!stored) {
+        added++;
+      } else {
+        // Keep participants other scopes attached (e.g. winners only known to their own scope)
+        event.participants = Array.from(new Set([...stored.participants, ...event.participants]));
+      }
+      eventsStore.put(event);
+    });
+
+    const previous = await requestToPromise<EventIndexSyncState | undefined>(tx.objectStore(SYNC_STORE).get(scope));
+    const lastSyncedBlock = previous && previous.contractAddress.toLowerCase() === GAME_CONTRACT.address.toLowerCase()
+      ? Math.max(previous.lastSyncedBlock, toBlock)
+      : toBlock;
+    tx.objectStore(SYNC_STORE).put({
+      scope,
+      contractAddress: GAME_CONTRACT.address,
+      lastSyncedBlock,
+      updatedAt: Date.now()
+    } as EventIndexSyncState);
+
+    await transactionDone(tx);
+
+    if (removed > 0) {
+      logger.warn('Event index dropped reorged events', {
+        component: 'EventIndex',
+        scope,
+        removed,
+        fromBlock,
+        toBlock
+      });
+    }
+    console.log(`✅ Event index synced for ${scope}: +${added} / -${removed} events, now at block ${lastSyncedBlock}`);
+
+    return { fromBlock, toBlock, added, removed, fullScan };
+  }
+
+  /**
+   * Resolver for the hashed game codes in `logs`: GameStarted events in the same batch first,
+   * then any stored event that already resolved the hash (e.g. from the contract-wide sync).
+   */
+  async getCodeLookup(logs: any[]): Promise<(codeHash: string) => string | undefined> {
+    const codes = new Map<string, string>();
+    const hashes = new Set<string>();
+    logs.forEach(log => {
+      const event = decodeGameEvent(log);
+      if (event?.name === 'GameStarted') codes.set(event.codeHash, event.code);
+      else if (event) hashes.add(event.codeHash);
+    });
+
+    const unresolved = Array.from(hashes).filter(codeHash => !codes.has(codeHash));
+    if (unresolved.length > 0 && this.isSupported()) {
+      try {
+        const db = await this.openDatabase();
+        const index = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE).index('codeHash');
+        const stored = await Promise.all(
+          unresolved.map(codeHash => requestToPromise<IndexedGameEvent[]>(index.getAll(codeHash)))
+        );
+        stored.forEach((events, i) => {
+          const gameCode = events.find(event => event.gameCode)?.gameCode;
+          if (gameCode) codes.set(unresolved[i], gameCode);
+        });
+      } catch (error) {
+        logger.warn('Could not resolve game codes from the event index', { component: 'EventIndex', error });
+      }
+    }
+
+    return codeHash => codes.get(codeHash);
+  }
+
+  async getEventsByGameCode(gameCode: string): Promise<IndexedGameEvent[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const index = tx.objectStore(EVENTS_STORE).index('gameCode');
+    // Codes are stored as emitted; match case-insensitively like the rest of the app
+    const [exact, upper] = await Promise.all([
+      requestToPromise<IndexedGameEvent[]>(index.getAll(gameCode)),
+      gameCode === gameCode.toUpperCase()
+        ? Promise.resolve([] as IndexedGameEvent[])
+        : requestToPromise<IndexedGameEvent[]>(index.getAll(gameCode.toUpperCase()))
+    ]);
+    return sortNewestFirst([...exact, ...upper]);
+  }
+
+  async getEventsByParticipant(address: string): Promise<IndexedGameEvent[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const events = await requestToPromise<IndexedGameEvent[]>(
+      tx.objectStore(EVENTS_STORE).index('participants').getAll(address.toLowerCase())
+    );
+    return sortNewestFirst(events);
+  }
+
+  async getEventsByBlockRange(fromBlock: number, toBlock: number): Promise<IndexedGameEvent[]> {
+    if (fromBlock > toBlock) return [];
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const events = await requestToPromise<IndexedGameEvent[]>(
+      tx.objectStore(EVENTS_STORE).index('blockNumber').getAll(IDBKeyRange.bound(fromBlock, toBlock))
+    );
+    return sortNewestFirst(events);
+  }
+
+  /**
+   * Distinct game codes a participant is involved in, newest activity first.
+   */
+  async getGameCodesForParticipant(address: string): Promise<{ gameCode: string; blockNumber: number }[]> {
+    const events = await this.getEventsByParticipant(address);
+    const seen = new Map<string, number>();
+    events.forEach(event => {
+      if (event.gameCode && !seen.has(event.gameCode)) {
+        seen.set(event.gameCode, event.blockNumber);
+      }
+    });
+    return Array.from(seen.entries()).map(([gameCode, blockNumber]) => ({ gameCode, blockNumber }));
+  }
+
+  async getStats(): Promise<EventIndexStats> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([EVENTS_STORE, SYNC_STORE], 'readonly');
+    const [events, syncStates] = await Promise.all([
+      requestToPromise<IndexedGameEvent[]>(tx.objectStore(EVENTS_STORE).getAll()),
+      requestToPromise<EventIndexSyncState[]>(tx.objectStore(SYNC_STORE).getAll())
+    ]);
+
+    const codes = new Set<string>();
+    events.forEach(event => {
+      if (event.gameCode) codes.add(event.gameCode);
+    });
+
+    return { totalEvents: events.length, gameCodes: codes.size, syncStates };
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([EVENTS_STORE, SYNC_STORE], 'readwrite');
+    tx.objectStore(EVENTS_STORE).clear();
+    tx.objectStore(SYNC_STORE).clear();
+    await transactionDone(tx);
+    console.log('🗑️ Event index cleared');
+  }
+}
+
+// Export singleton instance
+export const eventIndex = new EventIndexManager();
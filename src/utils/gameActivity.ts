@@ -0,0 +1,82 @@
+/**
+ * Game Activity
+ * Turns a game's decoded contract events into the timeline shown on the game detail views
+ */
+
+import { GameEvent, isClaimEvent, getClaimedAmount } from './gameEvents';
+import { getExplorerTxUrl } from './chainRegistry';
+
+export interface GameActivityEntry {
+  id: string; // `${transactionHash}:${logIndex}`
+  event: GameEvent;
+  actor: string | null; // Lowercased address behind the event, null when the log does not name one
+  amount: bigint | null;
+  token: string | null; // Token `amount` is denominated in
+  timestamp: number | null; // Block time in ms, null when the block could not be fetched
+  txUrl: string | null;
+}
+
+const getActor = (event: GameEvent): string | null => {
+  switch (event.name) {
+    case 'GameStarted':
+      return event.host;
+    case 'PlayerJoined':
+      return event.player;
+    case 'PotIncreased':
+      return event.contributor;
+    case 'WinnersReported':
+      return event.reporter;
+    case 'WinningsClaimed':
+    case 'WinningsClaimedViaUI':
+      return event.winner;
+    default:
+      // GameLocked and PrizeSplitsSet only carry the code
+      return null;
+  }
+};
+
+/**
+ * Build timeline entries, oldest first.
+ * @param events - The game's events, e.g. from getGameActivityEvents
+ * @param timestamps - Block timestamps (ms) by block number
+ * @param fallbackToken - Game token to use when GameStarted is not among the events
+ */
+export function buildGameActivity(
+  events: GameEvent[],
+  timestamps: Map<number, number> = new Map(),
+  fallbackToken: string | null = null
+): GameActivityEntry[] {
+  const started = events.find(event => event.name === 'GameStarted');
+  const gameToken = started?.name === 'GameStarted' ? started.token : fallbackToken;
+  const buyIn = started?.name === 'GameStarted' ? started.buyIn : null;
+
+  return events
+    .slice()
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    .map(event => {
+      let amount: bigint | null = null;
+      let token: string | null = gameToken;
+
+      if (event.name === 'GameStarted') {
+        amount = event.buyIn;
+        token = event.token;
+      } else if (event.name === 'PlayerJoined') {
+        amount = buyIn; // Joining pays the buy-in
+      } else if (event.name === 'PotIncreased') {
+        amount = event.amount;
+      } else if (isClaimEvent(event)) {
+        amount = getClaimedAmount(event);
+        token = event.token;
+      }
+
+      return {
+        id: `${event.transactionHash}:${event.logIndex}`,
+        event,
+        actor: getActor(event),
+        amount,
+        token: amount !== null ? token : null,
+        timestamp: timestamps.get(event.blockNumber) ?? null,
+        txUrl: event.transactionHash ? getExplorerTxUrl(event.transactionHash) : null
+      };
+    });
+}
@@ -1,3 +1,5 @@
+import { ACTIVE_CHAIN, ChainKey, parseChainGameCode, toChainGameCode } from './chainRegistry';
+
 /**
  * Normalize game code to standard format with pattern matching variations
  * Used for fuzzy matching in Find Game, URL routing, and game lookups
@@ -38,21 +40,47 @@ export const isValidGameCodePattern = (code: string): boolean => {
 };
 
 /**
- * Extract game code from URL or user input
+ * Game code and chain from a URL or user input, on any chain. Null when it is not a game code.
  */
-export const extractGameCode = (input: string): string | null => {
+export const parseGameLink = (input: string): { chainKey: ChainKey; code: string } | null => {
   if (!input) return null;
   
   const cleaned = input.trim();
   
-  // If it looks like a URL, extract the game code part
-  if (cleaned.includes('/game/')) {
-    const match = cleaned.match(/\/game\/([^/?]+)/);
+  // If it looks like a URL (a game page or a scanned join link), extract the game code part
+  let candidate = cleaned;
+  if (cleaned.includes('/game/') || cleaned.includes('/join/')) {
+    const match = cleaned.match(/\/(?:game|join)\/([^/?#]+)/);
     if (match) {
-      return match[1];
+      candidate = decodeURIComponent(match[1]);
     }
   }
   
-  // Otherwise assume it's a direct game code
-  return isValidGameCodePattern(cleaned) ? cleaned.toUpperCase() : null;
+  const { chainKey, code } = parseChainGameCode(candidate);
+  return isValidGameCodePattern(code) ? { chainKey, code: code.toUpperCase() } : null;
+};
+
+/**
+ * Extract game code from URL or user input
+ */
+export const extractGameCode = (input: string): string | null => {
+  const link = parseGameLink(input);
+  
+  // Codes from another chain can't be found on the active one
+  return link && link.chainKey === ACTIVE_CHAIN.key ? link.code : null;
+};
+
+/**
+ * In-app path for a game, e.g. /game/ABC-123 or /join/base-sepolia:ABC-123
+ * @param options.chainKey - Chain the game is on, the active chain by default
+ */
+export const getGamePath = (code: string, options: { join?: boolean; chainKey?: ChainKey } = {}): string => {
+  return `/${options.join ? 'join' : 'game'}/${toChainGameCode(code, options.chainKey ?? ACTIVE_CHAIN.key)}`;
+};
+
+/**
+ * Absolute shareable URL for a game on the active chain
+ */
+export const getGameUrl = (code: string, options: { join?: boolean } = {}): string => {
+  return `${window.location.origin}${getGamePath(code, options)}`;
 };
\ No newline at end of file
@@ -0,0 +1,240 @@
+/**
+ * Game Events
+ * Typed decoding of game contract logs, driven by the deployment ABI.
+ * Every caller that reads a log's topics or data should go through decodeGameEvent.
+ */
+
+import { prepareEvent, parseEventLogs } from 'thirdweb/event';
+import { GAME_CONTRACT, GameEventName, toIndexedStringTopic } from './contractDeployment';
+
+interface GameEventBase {
+  name: GameEventName;
+  code: string | null; // Null when only the indexed hash is on chain and no lookup knew the code
+  codeHash: string; // keccak256 of the game code, as stored in `string indexed code` topics
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface GameStartedEvent extends GameEventBase {
+  name: 'GameStarted';
+  code: string;
+  host: string;
+  token: string;
+  buyIn: bigint;
+  maxPlayers: number;
+  splits: number[]; // Basis points, empty = winner takes all
+}
+
+export interface PlayerJoinedEvent extends GameEventBase {
+  name: 'PlayerJoined';
+  player: string;
+  playerCount: number;
+}
+
+export interface GameLockedEvent extends GameEventBase {
+  name: 'GameLocked';
+}
+
+export interface PrizeSplitsSetEvent extends GameEventBase {
+  name: 'PrizeSplitsSet';
+  splits: number[];
+}
+
+export interface PotIncreasedEvent extends GameEventBase {
+  name: 'PotIncreased';
+  contributor: string;
+  amount: bigint;
+}
+
+export interface WinnersReportedEvent extends GameEventBase {
+  name: 'WinnersReported';
+  reporter: string;
+  winners: string[];
+  winnerCount: bigint;
+  totalPrize: bigint;
+}
+
+export interface WinningsClaimedEvent extends GameEventBase {
+  name: 'WinningsClaimed';
+  winner: string;
+  token: string;
+  amount: bigint;
+}
+
+export interface WinningsClaimedViaUIEvent extends GameEventBase {
+  name: 'WinningsClaimedViaUI';
+  winner: string;
+  token: string;
+  userPayout: bigint; // What the winner received
+  uiFee: bigint; // What the UI provider received
+  feeRate: bigint; // Basis points
+}
+
+export type GameEvent =
+  | GameStartedEvent
+  | PlayerJoinedEvent
+  | GameLockedEvent
+  | PrizeSplitsSetEvent
+  | PotIncreasedEvent
+  | WinnersReportedEvent
+  | WinningsClaimedEvent
+  | WinningsClaimedViaUIEvent;
+
+export type ClaimEvent = WinningsClaimedEvent | WinningsClaimedViaUIEvent;
+
+/**
+ * A log as returned by eth_getLogs (hex quantities) or a thirdweb receipt (bigint quantities)
+ */
+export interface RawGameLog {
+  address?: string;
+  topics: readonly string[];
+  data: string;
+  blockNumber?: string | number | bigint | null;
+  transactionHash?: string | null;
+  logIndex?: string | number | bigint | null;
+}
+
+export interface DecodeGameEventOptions {
+  // Resolve `string indexed code` hashes back to codes, e.g. from previously seen GameStarted events
+  lookupCode?: (codeHash: string) => string | null | undefined;
+}
+
+// Same ABI thirdweb.ts exports as CONTRACT_ABI
+const GAME_EVENTS = GAME_CONTRACT.abi
+  .filter(entry => entry.startsWith('event '))
+  .map(signature => prepareEvent({ signature: signature as `event ${string}` }));
+
+const toNumber = (value: RawGameLog['blockNumber']): number => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return value.startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+  return Number(value);
+};
+
+const toAddress = (value: unknown): string => String(value).toLowerCase();
+
+const toSplits = (values: readonly bigint[]): number[] => values.map(value => Number(value));
+
+/**
+ * Hash a game code the way the contract indexes it
+ */
+export function getGameCodeHash(code: string): string {
+  return toIndexedStringTopic(code);
+}
+
+/**
+ * Decode a game contract log into a typed event.
+ * Returns null for logs from other contracts, events not in the ABI and logs that do not decode.
+ */
+export function decodeGameEvent(log: RawGameLog, options: DecodeGameEventOptions = {}): GameEvent | null {
+  if (!log || !Array.isArray(log.topics) || log.topics.length === 0) return null;
+  if (log.address && GAME_CONTRACT.address && log.address.toLowerCase() !== GAME_CONTRACT.address.toLowerCase()) {
+    return null;
+  }
+
+  let parsed: { eventName: string; args: any } | undefined;
+  try {
+    [parsed] = parseEventLogs({
+      logs: [{ topics: log.topics, data: log.data || '0x' } as any],
+      events: GAME_EVENTS,
+      strict: true
+    }) as { eventName: string; args: any }[];
+  } catch (error) {
+    console.warn('❌ Failed to decode game event:', error);
+    return null;
+  }
+  if (!parsed) return null;
+
+  const { eventName, args } = parsed;
+  const codeHash = (eventName === 'GameStarted' ? getGameCodeHash(args.code) : String(args.code)).toLowerCase();
+  const base = {
+    code: options.lookupCode?.(codeHash) || null,
+    codeHash,
+    blockNumber: toNumber(log.blockNumber),
+    transactionHash: (log.transactionHash || '').toLowerCase(),
+    logIndex: toNumber(log.logIndex)
+  };
+
+  switch (eventName as GameEventName) {
+    case 'GameStarted':
+      return {
+        ...base,
+        name: 'GameStarted',
+        code: args.code,
+        host: toAddress(args.host),
+        token: toAddress(args.token),
+        buyIn: args.buyIn,
+        maxPlayers: Number(args.maxPlayers),
+        splits: toSplits(args.splits)
+      };
+    case 'PlayerJoined':
+      return { ...base, name: 'PlayerJoined', player: toAddress(args.player), playerCount: Number(args.playerCount) };
+    case 'GameLocked':
+      return { ...base, name: 'GameLocked' };
+    case 'PrizeSplitsSet':
+      return { ...base, name: 'PrizeSplitsSet', splits: toSplits(args.splits) };
+    case 'PotIncreased':
+      return { ...base, name: 'PotIncreased', contributor: toAddress(args.contributor), amount: args.amount };
+    case 'WinnersReported':
+      return {
+        ...base,
+        name: 'WinnersReported',
+        reporter: toAddress(args.reporter),
+        winners: (args.winners as string[]).map(toAddress),
+        winnerCount: args.winnerCount,
+        totalPrize: args.totalPrize
+      };
+    case 'WinningsClaimed':
+      return { ...base, name: 'WinningsClaimed', winner: toAddress(args.winner), token: toAddress(args.token), amount: args.amount };
+    case 'WinningsClaimedViaUI':
+      return {
+        ...base,
+        name: 'WinningsClaimedViaUI',
+        winner: toAddress(args.winner),
+        token: toAddress(args.token),
+        userPayout: args.userPayout,
+        uiFee: args.uiFee,
+        feeRate: args.feeRate
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a batch of logs, resolving code hashes from GameStarted events in the same batch
+ */
+export function decodeGameEvents(logs: RawGameLog[], options: DecodeGameEventOptions = {}): GameEvent[] {
+  const decoded = logs
+    .map(log => decodeGameEvent(log))
+    .filter((event): event is GameEvent => event !== null);
+
+  const codes = new Map<string, string>();
+  decoded.forEach(event => {
+    if (event.name === 'GameStarted') codes.set(event.codeHash, event.code);
+  });
+
+  return decoded.map(event => {
+    if (event.code) return event;
+    const code = codes.get(event.codeHash) || options.lookupCode?.(event.codeHash) || null;
+    return code ? { ...event, code } : event;
+  });
+}
+
+export function isClaimEvent(event: GameEvent | null): event is ClaimEvent {
+  return !!event && (event.name === 'WinningsClaimed' || event.name === 'WinningsClaimedViaUI');
+}
+
+/**
+ * What the winner actually received, whichever claim path they used
+ */
+export function getClaimedAmount(event: ClaimEvent): bigint {
+  return event.name === 'WinningsClaimedViaUI' ? event.userPayout : event.amount;
+}
+
+/**
+ * Whether an event belongs to the given game, whether or not its code could be resolved
+ */
+export function isEventForGame(event: GameEvent, code: string): boolean {
+  return event.codeHash === getGameCodeHash(code);
+}
@@ -0,0 +1,58 @@
+/**
+ * Game Lists
+ * Sharing rules and ordering helpers for user game lists. Owners manage a list; collaborators
+ * (invited wallet addresses) can add games; who else can view it depends on its visibility.
+ */
+
+import { Database } from '../lib/database.types';
+
+type GameList = Database['public']['Tables']['game_lists']['Row'];
+
+export type GameListVisibility = GameList['visibility'];
+
+export const GAME_LIST_VISIBILITY: { value: GameListVisibility; label: string; description: string }[] = [
+  { value: 'private', label: 'Private', description: 'Only you and collaborators' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the link' },
+  { value: 'public', label: 'Public', description: 'Shown on your profile' }
+];
+
+export interface GameListViewer {
+  userId?: string | null;
+  walletAddress?: string | null;
+}
+
+export const getGameListCodes = (list: Pick<GameList, 'game_codes'>): string[] =>
+  Array.isArray(list.game_codes) ? list.game_codes.filter((code): code is string => typeof code === 'string') : [];
+
+export const getGameListCollaborators = (list: Pick<GameList, 'collaborators'>): string[] =>
+  Array.isArray(list.collaborators)
+    ? list.collaborators.filter((address): address is string => typeof address === 'string').map(address => address.toLowerCase())
+    : [];
+
+export const isGameListOwner = (list: GameList, viewer: GameListViewer): boolean =>
+  !!viewer.userId && list.user_id === viewer.userId;
+
+export const isGameListCollaborator = (list: GameList, viewer: GameListViewer): boolean =>
+  !!viewer.walletAddress && getGameListCollaborators(list).includes(viewer.walletAddress.toLowerCase());
+
+export const canViewGameList = (list: GameList, viewer: GameListViewer): boolean =>
+  list.visibility !== 'private' || isGameListOwner(list, viewer) || isGameListCollaborator(list, viewer);
+
+export const canAddToGameList = (list: GameList, viewer: GameListViewer): boolean =>
+  isGameListOwner(list, viewer) || isGameListCollaborator(list, viewer);
+
+/**
+ * Move the code at `from` to `to`, keeping everything else in order
+ */
+export const moveGameCode = (codes: string[], from: number, to: number): string[] => {
+  if (from === to || from < 0 || to < 0 || from >= codes.length || to >= codes.length) return codes;
+  const next = [...codes];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+/**
+ * Absolute shareable URL for a list
+ */
+export const getGameListUrl = (listId: string): string => `${window.location.origin}/list/${listId}`;
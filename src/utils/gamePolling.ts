@@ -1,79 +1,63 @@
-import { decodeStringFromHex } from '../thirdweb';
+import { GAME_CONTRACT, toAddressTopic, clampToDeploymentBlock } from './contractDeployment';
+import { rpcManager, rpcRequest } from './rpcManager';
+import { decodeGameEvent } from './gameEvents';
 
 /**
  * Poll contract for newly created games using direct RPC calls
  * This is useful when log parsing fails or games don't show up immediately
  */
 export const pollForNewGame = async (
-  hostAddress: string, 
-  blockNumber: number | bigint, 
+  hostAddress: string,
+  blockNumber: number | bigint,
   transactionHash?: string,
   searchRadius: number = 5
 ): Promise<string[]> => {
   console.log('🔍 Polling for games created by:', hostAddress, 'around block:', blockNumber);
-  
-  // Try to find games by checking recent event logs directly
-  const rpcEndpoint = 'https://mainnet.base.org';
-  const contractAddress = '0x6a242970f55e050CB54DA489751d562083abD4B7';
-  
+
   try {
     // Convert BigInt to number if needed
     const blockNum = typeof blockNumber === 'bigint' ? Number(blockNumber) : blockNumber;
-    
+
     // Search blocks around the specified block number
-    const fromBlock = Math.max(0, blockNum - searchRadius);
+    const fromBlock = clampToDeploymentBlock(blockNum - searchRadius);
     const toBlock = blockNum + searchRadius;
-    
+
     console.log(`📊 Polling blocks ${fromBlock} to ${toBlock} (±${searchRadius} from ${blockNumber})`);
-    
-    const response = await fetch(rpcEndpoint, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        method: 'eth_getLogs',
-        params: [{
-          address: contractAddress,
-          topics: [
-            '0xf38f031a0916124649a52ef62ca68c773c22f2386d78bb4aed755a298c7b18d3', // GameStarted event signature calculated from GameStarted(string,address,address,uint256,uint256,address[])
-            `0x000000000000000000000000${hostAddress.slice(2).toLowerCase()}` // Host address in indexed position
-          ],
-          fromBlock: `0x${fromBlock.toString(16)}`,
-          toBlock: `0x${toBlock.toString(16)}`
-        }],
-        id: 1,
-      }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`RPC error: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    const logs = data.result || [];
-    
+
+    const filter = {
+      address: GAME_CONTRACT.address,
+      topics: [
+        GAME_CONTRACT.eventTopics.GameStarted,
+        toAddressTopic(hostAddress) // Host address in indexed position
+      ],
+      fromBlock: `0x${fromBlock.toString(16)}`,
+      toBlock: `0x${toBlock.toString(16)}`
+    };
+
+    const logs = await rpcManager.executeWithRetry(
+      endpoint => rpcRequest<any[]>(endpoint, 'eth_getLogs', [filter]),
+      toBlock - fromBlock + 1
+    ) || [];
+
     console.log('📊 Polling found', logs.length, 'GameStarted events for host');
-    
+
     const gameCodes: string[] = [];
-    
+
     for (const log of logs) {
       // If transactionHash is provided, only look for that specific transaction
-      if (transactionHash && log.transactionHash !== transactionHash) {
+      if (transactionHash && log.transactionHash?.toLowerCase() !== transactionHash.toLowerCase()) {
         continue;
       }
-      
+
       console.log('✅ Processing log from transaction:', log.transactionHash);
-      
-      // Try to extract game code from log data
-      if (log.data && log.data.length > 2) {
-        const gameCode = decodeStringFromHex(log.data);
-        if (gameCode && gameCode.length >= 3 && gameCode.length <= 10) {
-          gameCodes.push(gameCode);
-          console.log('✅ Extracted game code via polling:', gameCode);
-        }
+
+      const event = decodeGameEvent(log);
+      if (event?.name === 'GameStarted' && event.code.length >= 3 && event.code.length <= 10) {
+        gameCodes.push(event.code);
+        console.log('✅ Extracted game code via polling:', event.code);
       }
     }
-    
+
     return gameCodes;
   } catch (error) {
     console.error('❌ Polling failed:', error);
@@ -91,9 +75,6 @@ export const pollForRecentGames = async (
   blocksToSearch: number = 100
 ): Promise<string[]> => {
   console.log('🔍 Polling for recent games by:', hostAddress, 'in last', blocksToSearch, 'blocks');
-  
-  const fromBlock = Math.max(0, currentBlock - blocksToSearch);
-  const toBlock = currentBlock;
-  
+
   return await pollForNewGame(hostAddress, currentBlock, undefined, blocksToSearch);
-};
\ No newline at end of file
+};
@@ -14,9 +14,20 @@
  */
 
 import { RELAY_API_URL, CONTRACT_ADDRESS } from '../thirdweb';
-import { createSignedMetaTx, canSignMetaTx } from './metaTxHelper';
+import {
+  createSignedMetaTx,
+  canSignMetaTx,
+  estimateMetaTxGas,
+  assertMetaTxExecutable,
+  releaseMetaTx,
+  releaseMetaTxWhenSettled,
+  isSupersededError,
+  SignedMetaTxRequest
+} from './metaTxHelper';
 import { prepareContractCall } from 'thirdweb';
+import { sendAndConfirmTransaction } from 'thirdweb/transaction';
 import { getGameContract } from '../thirdweb';
+import { decodeGameEvents } from './gameEvents';
 
 export interface RelayResult {
   success: boolean;
@@ -25,6 +36,197 @@ export interface RelayResult {
   gasUsed?: string;
   gameCode?: string;
   error?: string;
+  selfPaid?: boolean; // Sent directly from the user's wallet instead of the relay
+  fallbackReason?: GaslessFallbackReason; // Why the relay was skipped
+  relayFailure?: RelayFailureKind; // Set when the relay request itself failed
+  metaTxNonce?: string; // Nonce of the signed request, set when the relay failed after it was sent
+  pending?: boolean; // The relay failed, but the signed request's nonce was used: the call went out
+}
+
+export type GaslessFallbackReason = 'quota_exhausted' | 'relay_unhealthy' | 'relay_failed';
+
+// network = relay unreachable, server = 5xx, rejected = relay answered with a 4xx
+export type RelayFailureKind = 'network' | 'server' | 'rejected';
+
+// Game contract methods, shared by the meta-tx encoders and direct (self-paid) sends
+export const GAME_METHODS = {
+  createGame: 'function createGame(uint256 buyIn, address token, uint256 maxPlayers, address[] judges, uint256[] splits, uint256 initialPotAmount) returns (string)',
+  lockGame: 'function lockGame(string code)',
+  reportWinners: 'function reportWinners(string code, address[] winners)',
+  claimWinnings: 'function claimWinnings(string code)'
+} as const;
+
+export interface GaslessQuota {
+  allowed: boolean;
+  used: number;
+  limit: number;
+  remaining: number;
+  resetAt?: string;
+}
+
+export interface GaslessPreflightResult {
+  ok: boolean;
+  reason?: GaslessFallbackReason;
+  quota: GaslessQuota | null; // null when the relay could not report it
+  relayStatus: string;
+}
+
+export interface GaslessOptions {
+  // Asked when pre-flight fails; resolving true sends the same call as a normal self-paid transaction
+  confirmSelfPaid?: (reason: GaslessFallbackReason, preflight?: GaslessPreflightResult) => boolean | Promise<boolean>;
+}
+
+export const GASLESS_FALLBACK_MESSAGES: Record<GaslessFallbackReason, string> = {
+  quota_exhausted: 'Daily gasless transaction limit reached',
+  relay_unhealthy: 'Gasless relay is currently unavailable',
+  relay_failed: 'Gasless relay request failed'
+};
+
+// Fired after a relayed meta-tx so quota meters can refresh without waiting for their poll
+export const GASLESS_QUOTA_EVENT = 'gasless-quota-changed';
+
+const notifyGaslessQuotaChanged = () => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(GASLESS_QUOTA_EVENT));
+  }
+};
+
+// Default confirmation used by the game action UIs
+export const promptSelfPaidFallback: GaslessOptions = {
+  confirmSelfPaid: (reason, preflight) => {
+    const resetText = reason === 'quota_exhausted' && preflight?.quota?.resetAt
+      ? ` (resets ${new Date(preflight.quota.resetAt).toLocaleString()})`
+      : '';
+    return window.confirm(`${GASLESS_FALLBACK_MESSAGES[reason]}${resetText}.\n\nSend this transaction from your wallet and pay the gas yourself?`);
+  }
+};
+
+/**
+ * Check quota and relay health before asking the user to sign a meta-transaction
+ */
+export async function gaslessPreflight(userAddress: string): Promise<GaslessPreflightResult> {
+  const [quota, health] = await Promise.all([
+    checkGaslessQuota(userAddress),
+    checkRelayHealth()
+  ]);
+
+  if (health.status === 'unhealthy') {
+    return { ok: false, reason: 'relay_unhealthy', quota, relayStatus: health.status };
+  }
+
+  // An unknown quota does not block the relay: it enforces the limit itself, and a refusal
+  // comes back as relay_failed with the same self-paid offer
+  if (quota && (!quota.allowed || quota.remaining <= 0)) {
+    return { ok: false, reason: 'quota_exhausted', quota, relayStatus: health.status };
+  }
+
+  return { ok: true, quota, relayStatus: health.status };
+}
+
+/**
+ * Run pre-flight and, if it fails, either send `tx` self-paid (when the caller confirms)
+ * or return the failure. Returns null when the relay should be used.
+ */
+async function preflightOrSelfPay(account: any, tx: any, options: GaslessOptions): Promise<RelayResult | null> {
+  const preflight = await gaslessPreflight(account.address);
+
+  if (preflight.ok || !preflight.reason) {
+    return null;
+  }
+
+  const message = GASLESS_FALLBACK_MESSAGES[preflight.reason];
+  console.warn(`⚠️ Gasless pre-flight failed: ${message}`);
+
+  const confirmed = options.confirmSelfPaid
+    ? await options.confirmSelfPaid(preflight.reason, preflight)
+    : false;
+
+  if (!confirmed) {
+    return { success: false, error: message, fallbackReason: preflight.reason };
+  }
+
+  return sendSelfPaid(account, tx, preflight.reason);
+}
+
+/**
+ * Send a prepared game contract call from the user's own wallet, paying gas directly
+ */
+export async function sendSelfPaid(account: any, tx: any, fallbackReason?: GaslessFallbackReason): Promise<RelayResult> {
+  console.log('💸 Sending self-paid transaction instead...');
+  const receipt = await sendAndConfirmTransaction({ transaction: tx, account });
+
+  // createGame returns the code via its GameStarted event
+  const gameCode = decodeGameEvents(receipt.logs).find(event => event.name === 'GameStarted')?.code || undefined;
+
+  console.log(`✅ Self-paid transaction confirmed: ${receipt.transactionHash}`);
+
+  return {
+    success: true,
+    txHash: receipt.transactionHash,
+    blockNumber: Number(receipt.blockNumber),
+    gasUsed: receipt.gasUsed.toString(),
+    gameCode,
+    selfPaid: true,
+    fallbackReason
+  };
+}
+
+/**
+ * POST to a relay endpoint, tagging thrown errors with a RelayFailureKind
+ */
+async function postToRelay(path: string, payload: any): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(`${RELAY_API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+  } catch (error: any) {
+    // fetch only rejects when the relay can't be reached at all
+    throw Object.assign(new Error(`Relay unreachable: ${error.message}`), { relayFailure: 'network' as RelayFailureKind });
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: response.statusText }));
+    throw Object.assign(new Error(errorData.error || `Request failed with status ${response.status}`), {
+      relayFailure: (response.status >= 500 ? 'server' : 'rejected') as RelayFailureKind
+    });
+  }
+
+  return response.json();
+}
+
+/**
+ * Submit a signed meta-tx to the relay. Nonce collisions come back as explicit
+ * "superseded" errors. The local nonce reservation is released once the relay confirmed
+ * or rejected the request; after an outage it is held until the nonce is used on chain.
+ */
+async function relaySignedMetaTx(path: string, signedMetaTx: SignedMetaTxRequest, payload: any): Promise<any> {
+  try {
+    await assertMetaTxExecutable(signedMetaTx);
+    const result = await postToRelay(path, payload);
+    releaseMetaTx(signedMetaTx);
+    return result;
+  } catch (error: any) {
+    // An outage can come after the relay broadcast the call; the caller checks the nonce before any fallback
+    if (error.relayFailure === 'network' || error.relayFailure === 'server') {
+      releaseMetaTxWhenSettled(signedMetaTx);
+      throw Object.assign(error, { metaTxNonce: signedMetaTx.request.nonce });
+    }
+
+    releaseMetaTx(signedMetaTx);
+
+    if (isSupersededError(error)) {
+      throw error;
+    }
+
+    // The relay only reports a generic verification failure when the nonce was already used
+    const superseded = await assertMetaTxExecutable(signedMetaTx).then(() => null, (check: any) => check);
+    throw isSupersededError(superseded) ? superseded : error;
+  }
 }
 
 /**
@@ -36,6 +238,7 @@ export interface RelayResult {
  * @param maxPlayers - Maximum number of players
  * @param judgeList - Optional array of judge addresses
  * @param prizeSplits - Optional prize splits in basis points (e.g., [10000] = winner takes all)
+ * @param options - Optional self-paid fallback confirmation used when pre-flight fails
  */
 export async function gaslessCreateGame(
   account: any,
@@ -43,7 +246,8 @@ export async function gaslessCreateGame(
   buyInToken: string,
   maxPlayers: number,
   judgeList: string[] = [],
-  prizeSplits: number[] = [10000]
+  prizeSplits: number[] = [10000],
+  options: GaslessOptions = {}
 ): Promise<RelayResult> {
   try {
     if (!canSignMetaTx(account)) {
@@ -56,13 +260,25 @@ export async function gaslessCreateGame(
     console.log(`   Max Players: ${maxPlayers}`);
     console.log(`   Judges: ${judgeList.length}`);
 
+    // Contract stores judges as-is, so reject anything that isn't a distinct wallet address
+    const seenJudges = new Set<string>();
+    for (const judge of judgeList) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(judge)) {
+        throw new Error(`Invalid judge address: ${judge}`);
+      }
+      if (seenJudges.has(judge.toLowerCase())) {
+        throw new Error(`Duplicate judge address: ${judge}`);
+      }
+      seenJudges.add(judge.toLowerCase());
+    }
+
     // Get contract to encode function call
     const contract = await getGameContract();
 
     // Encode the createGame function call
     const tx = prepareContractCall({
       contract,
-      method: 'function createGame(uint256 buyIn, address token, uint256 maxPlayers, address[] judges, uint256[] splits, uint256 initialPotAmount) returns (string)',
+      method: GAME_METHODS.createGame,
       params: [
         BigInt(buyInAmount),
         buyInToken,
@@ -73,6 +289,11 @@ export async function gaslessCreateGame(
       ]
     });
 
+    const fallbackResult = await preflightOrSelfPay(account, tx, options);
+    if (fallbackResult) {
+      return fallbackResult;
+    }
+
     // IMPORTANT: tx.data is a function that needs to be awaited to get the encoded data
     const functionData = await tx.data();
 
@@ -87,7 +308,7 @@ export async function gaslessCreateGame(
       CONTRACT_ADDRESS,
       functionData,
       0n, // No ETH value for createGame
-      500000n // Gas limit
+      await estimateMetaTxGas(tx, account.address)
     );
 
     console.log('🚀 Sending signed meta-tx to backend...');
@@ -108,20 +329,7 @@ export async function gaslessCreateGame(
     console.log('   Full payload:', JSON.stringify(payload, null, 2));
 
     // Send signed request to backend
-    const response = await fetch(`${RELAY_API_URL}/create`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(errorData.error || `Request failed with status ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await relaySignedMetaTx('/create', signedMetaTx, payload);
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to create game');
@@ -132,6 +340,7 @@ export async function gaslessCreateGame(
     console.log(`   TX Hash: ${result.txHash}`);
     console.log(`   Host: ${account.address} ✅`);
     console.log(`⚡ Gasless! Backend paid the gas`);
+    notifyGaslessQuotaChanged();
 
     return result;
 
@@ -139,7 +348,9 @@ export async function gaslessCreateGame(
     console.error('❌ Gasless create error:', error);
     return {
       success: false,
-      error: error.message || 'Unknown error creating game'
+      error: error.message || 'Unknown error creating game',
+      relayFailure: error.relayFailure,
+      metaTxNonce: error.metaTxNonce
     };
   }
 }
@@ -159,23 +370,10 @@ export async function gaslessJoinGame(
     console.log(`   User: ${userAddress}`);
     console.log(`   Game Code: ${gameCode}`);
 
-    const response = await fetch(`${RELAY_API_URL}/join`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
+    const result = await postToRelay('/join', {
         userAddress,
         gameCode
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(errorData.error || `Request failed with status ${response.status}`);
-    }
-
-    const result = await response.json();
+      });
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to join game');
@@ -191,7 +389,8 @@ export async function gaslessJoinGame(
     console.error('❌ Gasless join error:', error);
     return {
       success: false,
-      error: error.message || 'Unknown error joining game'
+      error: error.message || 'Unknown error joining game',
+      relayFailure: error.relayFailure
     };
   }
 }
@@ -201,10 +400,12 @@ export async function gaslessJoinGame(
  *
  * @param account - Active Thirdweb account (needed for signing)
  * @param gameCode - Game code to lock
+ * @param options - Optional self-paid fallback confirmation used when pre-flight fails
  */
 export async function gaslessLockGame(
   account: any,
-  gameCode: string
+  gameCode: string,
+  options: GaslessOptions = {}
 ): Promise<RelayResult> {
   try {
     if (!canSignMetaTx(account)) {
@@ -220,10 +421,15 @@ export async function gaslessLockGame(
     // Encode the lockGame function call
     const tx = prepareContractCall({
       contract,
-      method: 'function lockGame(string code)',
+      method: GAME_METHODS.lockGame,
       params: [gameCode]
     });
 
+    const fallbackResult = await preflightOrSelfPay(account, tx, options);
+    if (fallbackResult) {
+      return fallbackResult;
+    }
+
     const functionData = await tx.data();
 
     // Build and sign meta-transaction
@@ -232,7 +438,7 @@ export async function gaslessLockGame(
       CONTRACT_ADDRESS,
       functionData,
       0n,
-      500000n
+      await estimateMetaTxGas(tx, account.address)
     );
 
     const payload = {
@@ -241,20 +447,7 @@ export async function gaslessLockGame(
       gameCode
     };
 
-    const response = await fetch(`${RELAY_API_URL}/lock`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(errorData.error || `Request failed with status ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await relaySignedMetaTx('/lock', signedMetaTx, payload);
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to lock game');
@@ -263,6 +456,7 @@ export async function gaslessLockGame(
     console.log('✅ Game locked successfully!');
     console.log(`   TX Hash: ${result.txHash}`);
     console.log(`⚡ Gasless! Backend paid the gas`);
+    notifyGaslessQuotaChanged();
 
     return result;
 
@@ -270,7 +464,9 @@ export async function gaslessLockGame(
     console.error('❌ Gasless lock error:', error);
     return {
       success: false,
-      error: error.message || 'Unknown error locking game'
+      error: error.message || 'Unknown error locking game',
+      relayFailure: error.relayFailure,
+      metaTxNonce: error.metaTxNonce
     };
   }
 }
@@ -281,11 +477,13 @@ export async function gaslessLockGame(
  * @param account - Active Thirdweb account (needed for signing)
  * @param gameCode - Game code
  * @param winners - Array of winner addresses in ranking order (IMPORTANT: rank order!)
+ * @param options - Optional self-paid fallback confirmation used when pre-flight fails
  */
 export async function gaslessReportWinners(
   account: any,
   gameCode: string,
-  winners: string[]
+  winners: string[],
+  options: GaslessOptions = {}
 ): Promise<RelayResult> {
   try {
     if (!canSignMetaTx(account)) {
@@ -302,10 +500,15 @@ export async function gaslessReportWinners(
     // Encode the reportWinners function call
     const tx = prepareContractCall({
       contract,
-      method: 'function reportWinners(string code, address[] winners)',
+      method: GAME_METHODS.reportWinners,
       params: [gameCode, winners]  // IMPORTANT: winners array stays in rank order!
     });
 
+    const fallbackResult = await preflightOrSelfPay(account, tx, options);
+    if (fallbackResult) {
+      return fallbackResult;
+    }
+
     const functionData = await tx.data();
 
     console.log('📝 Building meta-transaction...');
@@ -316,7 +519,7 @@ export async function gaslessReportWinners(
       CONTRACT_ADDRESS,
       functionData,
       0n,
-      500000n
+      await estimateMetaTxGas(tx, account.address)
     );
 
     console.log('🚀 Sending signed meta-tx to backend...');
@@ -327,20 +530,7 @@ export async function gaslessReportWinners(
       winners  // Include for backend validation
     };
 
-    const response = await fetch(`${RELAY_API_URL}/report`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(errorData.error || `Request failed with status ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await relaySignedMetaTx('/report', signedMetaTx, payload);
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to report winners');
@@ -349,6 +539,7 @@ export async function gaslessReportWinners(
     console.log('✅ Winners reported successfully!');
     console.log(`   TX Hash: ${result.txHash}`);
     console.log(`⚡ Gasless! Backend paid the gas`);
+    notifyGaslessQuotaChanged();
 
     return result;
 
@@ -356,7 +547,9 @@ export async function gaslessReportWinners(
     console.error('❌ Gasless report error:', error);
     return {
       success: false,
-      error: error.message || 'Unknown error reporting winners'
+      error: error.message || 'Unknown error reporting winners',
+      relayFailure: error.relayFailure,
+      metaTxNonce: error.metaTxNonce
     };
   }
 }
@@ -366,10 +559,12 @@ export async function gaslessReportWinners(
  *
  * @param account - Active Thirdweb account (needed for signing)
  * @param gameCode - Game code
+ * @param options - Optional self-paid fallback confirmation used when pre-flight fails
  */
 export async function gaslessClaimWinnings(
   account: any,
-  gameCode: string
+  gameCode: string,
+  options: GaslessOptions = {}
 ): Promise<RelayResult> {
   try {
     if (!canSignMetaTx(account)) {
@@ -385,10 +580,15 @@ export async function gaslessClaimWinnings(
     // Encode the claimWinnings function call
     const tx = prepareContractCall({
       contract,
-      method: 'function claimWinnings(string code)',
+      method: GAME_METHODS.claimWinnings,
       params: [gameCode]
     });
 
+    const fallbackResult = await preflightOrSelfPay(account, tx, options);
+    if (fallbackResult) {
+      return fallbackResult;
+    }
+
     const functionData = await tx.data();
 
     console.log('📝 Building meta-transaction...');
@@ -399,7 +599,7 @@ export async function gaslessClaimWinnings(
       CONTRACT_ADDRESS,
       functionData,
       0n,
-      500000n
+      await estimateMetaTxGas(tx, account.address)
     );
 
     console.log('🚀 Sending signed meta-tx to backend...');
@@ -410,20 +610,7 @@ export async function gaslessClaimWinnings(
       gameCode
     };
 
-    const response = await fetch(`${RELAY_API_URL}/claim`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: response.statusText }));
-      throw new Error(errorData.error || `Request failed with status ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await relaySignedMetaTx('/claim', signedMetaTx, payload);
 
     if (!result.success) {
       throw new Error(result.error || 'Failed to claim winnings');
@@ -436,6 +623,7 @@ export async function gaslessClaimWinnings(
       console.log(`   UI Fee: ${result.uiFee} (${result.feeRate / 100}%)`);
     }
     console.log(`⚡ Gasless! Backend paid the gas`);
+    notifyGaslessQuotaChanged();
 
     return result;
 
@@ -443,7 +631,9 @@ export async function gaslessClaimWinnings(
     console.error('❌ Gasless claim error:', error);
     return {
       success: false,
-      error: error.message || 'Unknown error claiming winnings'
+      error: error.message || 'Unknown error claiming winnings',
+      relayFailure: error.relayFailure,
+      metaTxNonce: error.metaTxNonce
     };
   }
 }
@@ -451,15 +641,10 @@ export async function gaslessClaimWinnings(
 /**
  * Helper to check if an address has gasless transactions available
  *
- * Could be used to show user their remaining daily gasless tx quota.
+ * Drives the header quota meter (useGaslessQuota) and the pre-flight check.
+ * Returns null when the relay could not be asked, so callers show the quota as unknown.
  */
-export async function checkGaslessQuota(userAddress: string): Promise<{
-  allowed: boolean;
-  used: number;
-  limit: number;
-  remaining: number;
-  resetAt?: string;
-}> {
+export async function checkGaslessQuota(userAddress: string): Promise<GaslessQuota | null> {
   try {
     const response = await fetch(`${RELAY_API_URL}/rate-limit/${userAddress}`);
 
@@ -471,13 +656,7 @@ export async function checkGaslessQuota(userAddress: string): Promise<{
 
   } catch (error) {
     console.error('Failed to check gasless quota:', error);
-    // Return default values on error
-    return {
-      allowed: true,
-      used: 0,
-      limit: 10,
-      remaining: 10
-    };
+    return null;
   }
 }
 
@@ -0,0 +1,190 @@
+/**
+ * History Export
+ * Builds per-game accounting records from game_history rows and the user's indexed contract
+ * events, and serializes them as CSV or JSON
+ */
+
+import { Database } from '../lib/database.types';
+import { formatUnits, toBigIntAmount } from './amounts';
+import { GameEvent, ClaimEvent, isClaimEvent, isEventForGame, getClaimedAmount } from './gameEvents';
+import { PriceSource } from './priceSource';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+export interface ExportToken {
+  symbol: string;
+  decimals: number;
+}
+
+export interface HistoryExportRecord {
+  date: string; // ISO, when the user joined
+  gameCode: string;
+  gameType: string;
+  tokenAddress: string | null;
+  tokenSymbol: string | null;
+  tokenDecimals: number | null; // Null when the token is unknown and amounts are in base units
+  buyIn: string;
+  result: 'won' | 'lost' | 'active';
+  winnerRank: number | null;
+  payout: string; // What reached the wallet, or the expected prize while unclaimed
+  uiFee: string;
+  claimed: boolean;
+  claimDate: string | null;
+  joinTxHash: string | null;
+  joinBlock: number | null;
+  claimTxHash: string | null;
+  claimBlock: number | null;
+  stale: boolean;
+  currency: string | null;
+  buyInValue: number | null; // Fiat at join time
+  payoutValue: number | null; // Fiat at claim time
+  uiFeeValue: number | null;
+}
+
+export interface HistoryExportRange {
+  from?: Date | null;
+  to?: Date | null; // Inclusive
+}
+
+export interface HistoryExportContext {
+  address: string;
+  events: GameEvent[]; // The user's indexed events
+  timestamps: Map<number, number>; // Block number -> ms
+  getToken: (address: string) => ExportToken | undefined;
+  gameTokens?: Map<string, string>; // Uppercased code -> token, for games whose GameStarted is not indexed
+}
+
+const CSV_COLUMNS: (keyof HistoryExportRecord)[] = [
+  'date', 'gameCode', 'gameType', 'tokenSymbol', 'tokenAddress', 'tokenDecimals', 'buyIn', 'result', 'winnerRank',
+  'payout', 'uiFee', 'claimed', 'claimDate', 'joinTxHash', 'joinBlock', 'claimTxHash', 'claimBlock',
+  'stale', 'currency', 'buyInValue', 'payoutValue', 'uiFeeValue'
+];
+
+const toIso = (timestamp: number | undefined): string | null =>
+  timestamp !== undefined ? new Date(timestamp).toISOString() : null;
+
+const inRange = (date: string, { from, to }: HistoryExportRange): boolean => {
+  const time = new Date(date).getTime();
+  return (!from || time >= from.getTime()) && (!to || time <= to.getTime());
+};
+
+/**
+ * One record per history row, oldest first, limited to the range.
+ * Chain data wins over the row: the join and claim come from events when they are indexed.
+ */
+export function buildHistoryExport(
+  rows: GameHistory[],
+  context: HistoryExportContext,
+  range: HistoryExportRange = {}
+): HistoryExportRecord[] {
+  const address = context.address.toLowerCase();
+
+  const records = rows.map(row => {
+    const gameEvents = context.events.filter(event => isEventForGame(event, row.game_code));
+    const started = gameEvents.find(event => event.name === 'GameStarted');
+    const joined = gameEvents.find(event => event.name === 'PlayerJoined' && event.player === address);
+    const claim = gameEvents.find((event): event is ClaimEvent => isClaimEvent(event) && event.winner === address);
+
+    const tokenAddress = started?.name === 'GameStarted'
+      ? started.token
+      : row.token_address || context.gameTokens?.get(row.game_code.toUpperCase()) || null;
+    const token = tokenAddress ? context.getToken(tokenAddress) : undefined;
+    const format = (amount: bigint | string) => (token ? formatUnits(amount, token.decimals) : toBigIntAmount(amount).toString());
+
+    const buyIn = started?.name === 'GameStarted' ? started.buyIn : row.buy_in_amount || '0';
+    const payout = claim ? getClaimedAmount(claim) : row.result === 'won' ? row.winnings || '0' : '0';
+    const uiFee = claim?.name === 'WinningsClaimedViaUI' ? claim.uiFee : BigInt(0);
+
+    const joinBlock = joined?.blockNumber ?? row.block_number;
+    const record: HistoryExportRecord = {
+      date: toIso(joinBlock !== null ? context.timestamps.get(joinBlock) : undefined) || new Date(row.created_at).toISOString(),
+      gameCode: row.game_code,
+      gameType: row.game_type,
+      tokenAddress,
+      tokenSymbol: token?.symbol ?? null,
+      tokenDecimals: token?.decimals ?? null,
+      buyIn: format(buyIn),
+      result: row.result,
+      winnerRank: row.winner_rank,
+      payout: format(payout),
+      uiFee: format(uiFee),
+      claimed: !!claim,
+      claimDate: claim ? toIso(context.timestamps.get(claim.blockNumber)) : null,
+      joinTxHash: joined?.transactionHash ?? row.transaction_hash,
+      joinBlock,
+      claimTxHash: claim?.transactionHash ?? null,
+      claimBlock: claim?.blockNumber ?? null,
+      stale: !!row.is_stale,
+      currency: null,
+      buyInValue: null,
+      payoutValue: null,
+      uiFeeValue: null
+    };
+    return record;
+  });
+
+  return records
+    .filter(record => inRange(record.date, range))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fill in fiat values: the buy-in at join time, payout and fee at claim time.
+ * Records whose token or price is unknown keep null values.
+ */
+export async function addFiatValues(records: HistoryExportRecord[], priceSource: PriceSource): Promise<HistoryExportRecord[]> {
+  const valueAt = async (record: HistoryExportRecord, amount: string, date: string, blockNumber: number | null) => {
+    if (!record.tokenAddress || record.tokenDecimals === null) return null;
+    const price = await priceSource.getPrice({
+      token: record.tokenAddress,
+      symbol: record.tokenSymbol || '',
+      timestamp: new Date(date).getTime(),
+      blockNumber
+    });
+    return price === null ? null : Math.round(parseFloat(amount) * price * 100) / 100;
+  };
+
+  return Promise.all(records.map(async record => {
+    const claimDate = record.claimDate || record.date;
+    const claimBlock = record.claimBlock ?? record.joinBlock;
+    const [buyInValue, payoutValue, uiFeeValue] = await Promise.all([
+      valueAt(record, record.buyIn, record.date, record.joinBlock),
+      valueAt(record, record.payout, claimDate, claimBlock),
+      valueAt(record, record.uiFee, claimDate, claimBlock)
+    ]);
+    return { ...record, currency: priceSource.currency, buyInValue, payoutValue, uiFeeValue };
+  }));
+}
+
+const escapeCsv = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Keep spreadsheets from evaluating text cells as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toHistoryCsv(records: HistoryExportRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...records.map(record => CSV_COLUMNS.map(column => escapeCsv(record[column])).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function toHistoryJson(
+  records: HistoryExportRecord[],
+  meta: { address: string; chainId: number; priceSource: string; range: HistoryExportRange }
+): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    address: meta.address.toLowerCase(),
+    chainId: meta.chainId,
+    priceSource: meta.priceSource,
+    from: meta.range.from?.toISOString() ?? null,
+    to: meta.range.to?.toISOString() ?? null,
+    games: records
+  }, null, 2);
+}
@@ -0,0 +1,122 @@
+/**
+ * Game History Rows
+ * Turns indexed events and contract reads into the values a game_history row should hold,
+ * and works out which fields of an existing row disagree with them
+ */
+
+import { Database } from '../lib/database.types';
+import { IndexedGameEvent, toGameEvent } from './eventIndex';
+import { isClaimEvent, getClaimedAmount } from './gameEvents';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+type GameHistoryUpdate = Database['public']['Tables']['game_history']['Update'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface ChainParticipation {
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface ChainGame {
+  token: string;
+  buyIn: string;
+  pot: string;
+  isLocked: boolean;
+  prizeSplits: number[];
+  result: 'won' | 'lost' | 'active';
+  winnerRank: number | null;
+  winnings: string | null;
+}
+
+// What the sync reads for each game: getGameInfo, getPlayers, getConfirmedWinners and getTotalPrize
+export interface ChainGameReads {
+  host: string;
+  token: string;
+  buyIn: bigint;
+  isLocked: boolean;
+  splits: readonly bigint[];
+  players: readonly string[];
+  winners: readonly string[];
+  pot: bigint;
+}
+
+/**
+ * Earliest PlayerJoined per game plus the total claimed per game, for one address
+ */
+export const collectParticipation = (address: string, events: IndexedGameEvent[]) => {
+  const joined = new Map<string, ChainParticipation>();
+  const claimed = new Map<string, bigint>();
+
+  events.forEach(event => {
+    if (!event.gameCode) return;
+
+    const decoded = toGameEvent(event);
+    if (decoded?.name === 'PlayerJoined' && decoded.player === address) {
+      const existing = joined.get(event.gameCode);
+      if (!existing || event.blockNumber < existing.blockNumber) {
+        joined.set(event.gameCode, { blockNumber: event.blockNumber, transactionHash: event.transactionHash });
+      }
+    }
+
+    if (isClaimEvent(decoded) && decoded.winner === address) {
+      claimed.set(event.gameCode, (claimed.get(event.gameCode) || BigInt(0)) + getClaimedAmount(decoded));
+    }
+  });
+
+  return { joined, claimed };
+};
+
+/**
+ * A game's current state for a player. Returns null when the chain says the
+ * player is not (or no longer) in the game, which is what makes a row stale.
+ * @param address - Lowercased player address
+ */
+export const toChainGame = (reads: ChainGameReads, address: string, claimed?: bigint): ChainGame | null => {
+  if (reads.host === ZERO_ADDRESS) return null;
+
+  // A claim proves participation even if the contract no longer lists the player
+  if (!reads.players.some(player => player.toLowerCase() === address) && claimed === undefined) {
+    return null;
+  }
+
+  const prizeSplits = reads.splits.map(split => Number(split));
+  const winnerIndex = reads.winners.findIndex(winner => winner.toLowerCase() === address);
+  // Winner-take-all games only pay first place
+  const hasPrize = winnerIndex >= 0 && (prizeSplits.length > 0 ? winnerIndex < prizeSplits.length : winnerIndex === 0);
+
+  return {
+    token: reads.token.toLowerCase(),
+    buyIn: reads.buyIn.toString(),
+    pot: reads.pot.toString(),
+    isLocked: reads.isLocked,
+    prizeSplits,
+    result: reads.winners.length === 0 ? 'active' : hasPrize ? 'won' : 'lost',
+    winnerRank: winnerIndex >= 0 ? winnerIndex + 1 : null,
+    winnings: claimed !== undefined ? claimed.toString() : null
+  };
+};
+
+/**
+ * Fields of an existing row that disagree with the chain. Never clears values the
+ * chain cannot tell us about (winnings before a claim, block info outside the index).
+ */
+export const diffRow = (row: GameHistory, game: ChainGame, participation?: ChainParticipation): GameHistoryUpdate => {
+  const changes: GameHistoryUpdate = {};
+
+  if (row.result !== game.result) changes.result = game.result;
+  if (row.is_locked !== game.isLocked) changes.is_locked = game.isLocked;
+  if (row.winner_rank !== game.winnerRank) changes.winner_rank = game.winnerRank;
+  if (game.winnings !== null && row.winnings !== game.winnings) changes.winnings = game.winnings;
+  if (JSON.stringify(row.prize_splits) !== JSON.stringify(game.prizeSplits)) changes.prize_splits = game.prizeSplits;
+  if (row.token_address !== game.token) changes.token_address = game.token;
+  if (row.pot_amount !== game.pot) changes.pot_amount = game.pot;
+  if (row.is_stale) changes.is_stale = false;
+
+  if (participation) {
+    if (row.block_number !== participation.blockNumber) changes.block_number = participation.blockNumber;
+    if (row.transaction_hash !== participation.transactionHash) changes.transaction_hash = participation.transactionHash;
+  }
+
+  return changes;
+};
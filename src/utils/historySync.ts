@@ -0,0 +1,212 @@
+/**
+ * Game History Sync
+ * Reconciles a user's game_history rows with their on-chain games, so games joined from
+ * another device or directly on the contract still show up in GameHistoryModal
+ */
+
+import { Database } from '../lib/database.types';
+import { gameHistoryService } from '../services/databaseService';
+import { syncAllGameEvents, getCurrentBlock, getBlockTimestamps, ALL_EVENTS_SCOPE } from '../contexts/GameDataContext';
+import { eventIndex, IndexedGameEvent } from './eventIndex';
+import { multicall, MulticallRequest } from './multicall';
+import { gameRead, getGameInfoRead } from './multiGame';
+import { ChainGame, ChainGameReads, collectParticipation, diffRow, toChainGame } from './historyRows';
+import { siweAuth } from './siweAuth';
+import { logger } from './logger';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const HISTORY_LIMIT = 500;
+
+export interface GameHistorySyncResult {
+  success: boolean;
+  inserted: number;
+  updated: number;
+  stale: number;
+  skipped: number; // Games whose chain state could not be read this run
+  error?: string;
+}
+
+export interface GameHistorySyncOptions {
+  // Allow the first contract-wide event scan (~30 days of blocks) when the index has never been
+  // synced. Without it only games already in game_history, or already indexed, are reconciled.
+  initialScan?: boolean;
+}
+
+const READS_PER_GAME = 4;
+
+const getGameReads = (code: string): MulticallRequest[] => [
+  getGameInfoRead(code),
+  gameRead('getPlayers(string)', [{ type: 'address[]', name: 'players' }], code),
+  gameRead('getConfirmedWinners(string)', [{ type: 'address[]', name: 'winners' }], code),
+  gameRead('getTotalPrize(string)', [{ type: 'uint256' }], code)
+];
+
+/**
+ * Read every game's chain state in one multicall round. Games whose reads failed are left
+ * out of the map, since an RPC failure says nothing about the game; null means the player
+ * is not (or no longer) in it.
+ */
+const readChainGames = async (
+  gameCodes: string[],
+  address: string,
+  claimed: Map<string, bigint>
+): Promise<Map<string, ChainGame | null>> => {
+  const results = await multicall(gameCodes.flatMap(getGameReads));
+  const games = new Map<string, ChainGame | null>();
+
+  gameCodes.forEach((gameCode, index) => {
+    const [info, players, winners, pot] = results.slice(index * READS_PER_GAME, (index + 1) * READS_PER_GAME);
+    if (!info.success) {
+      console.warn(`⚠️ Could not read ${gameCode} during history sync:`, info.error);
+      return;
+    }
+
+    const [host, token, buyIn, , , isLocked, splits] = info.values as [string, string, bigint, bigint, bigint, boolean, bigint[], string[]];
+    // A game that does not exist has no players, winners or prize to read
+    if (host !== ZERO_ADDRESS && (!players.success || !winners.success || !pot.success)) {
+      console.warn(`⚠️ Could not read ${gameCode} during history sync`);
+      return;
+    }
+
+    const reads: ChainGameReads = {
+      host,
+      token,
+      buyIn,
+      isLocked,
+      splits,
+      players: players.success ? players.values[0] as string[] : [],
+      winners: winners.success ? winners.values[0] as string[] : [],
+      pot: pot.success ? pot.values[0] as bigint : BigInt(0)
+    };
+    games.set(gameCode, toChainGame(reads, address, claimed.get(gameCode)));
+  });
+
+  return games;
+};
+
+/**
+ * Catch the contract-wide event index up to the chain head. Skipped when the index has never
+ * been synced and `initialScan` is off, so a login sync does not start a 30-day scan.
+ */
+const loadParticipantEvents = async (address: string, initialScan: boolean): Promise<IndexedGameEvent[]> => {
+  if (!eventIndex.isSupported()) return [];
+
+  try {
+    if (initialScan || await eventIndex.getSyncState(ALL_EVENTS_SCOPE)) {
+      await syncAllGameEvents(await getCurrentBlock());
+    } else {
+      console.log('⏭️ Event index not built yet; reconciling existing history rows only');
+    }
+    return await eventIndex.getEventsByParticipant(address);
+  } catch (indexError) {
+    // Existing rows can still be refreshed from contract reads
+    logger.warn('History sync could not update the event index', {
+      component: 'historySync',
+      error: indexError instanceof Error ? indexError.message : String(indexError)
+    });
+    return [];
+  }
+};
+
+const runSync = async (userId: string, walletAddress: string, options: GameHistorySyncOptions): Promise<GameHistorySyncResult> => {
+  const address = walletAddress.toLowerCase();
+  const result: GameHistorySyncResult = { success: true, inserted: 0, updated: 0, stale: 0, skipped: 0 };
+
+  // Every change is a write, which RLS rejects without a session; callers sign in first
+  if (siweAuth.isConfigured() && !siweAuth.isSignedIn(address)) {
+    console.log('⏭️ Skipping history sync: wallet is not signed in');
+    return { ...result, success: false, error: 'Sign in to sync game history' };
+  }
+
+  const events = await loadParticipantEvents(address, options.initialScan ?? true);
+  const { joined, claimed } = collectParticipation(address, events);
+  const rows = await gameHistoryService.getUserGameHistory(userId, HISTORY_LIMIT);
+  const rowsByCode = new Map<string, GameHistory[]>();
+  rows.forEach(row => rowsByCode.set(row.game_code, [...(rowsByCode.get(row.game_code) || []), row]));
+
+  const gameCodes = Array.from(new Set([...Array.from(joined.keys()), ...Array.from(claimed.keys()), ...Array.from(rowsByCode.keys())]));
+  console.log(`🔄 Reconciling ${gameCodes.length} games for ${address} (${rows.length} history rows)`);
+
+  const games = await readChainGames(gameCodes, address, claimed);
+  const newCodes = gameCodes.filter(gameCode => games.get(gameCode) && !rowsByCode.has(gameCode));
+  const joinTimestamps = await getBlockTimestamps(
+    newCodes.map(gameCode => joined.get(gameCode)?.blockNumber).filter((block): block is number => block !== undefined)
+  );
+  const staleIds: string[] = [];
+
+  for (const gameCode of gameCodes) {
+    const existingRows = rowsByCode.get(gameCode) || [];
+    const participation = joined.get(gameCode);
+
+    if (!games.has(gameCode)) {
+      result.skipped++;
+      continue;
+    }
+
+    const game = games.get(gameCode);
+    if (!game) {
+      existingRows.filter(row => !row.is_stale).forEach(row => staleIds.push(row.id));
+      continue;
+    }
+
+    if (existingRows.length === 0) {
+      const joinedAt = participation ? joinTimestamps.get(participation.blockNumber) : undefined;
+      const inserted = await gameHistoryService.addGameHistory({
+        user_id: userId,
+        game_code: gameCode,
+        game_type: 'standard',
+        buy_in_amount: game.buyIn,
+        token_address: game.token,
+        pot_amount: game.pot,
+        result: game.result,
+        winnings: game.winnings,
+        block_number: participation?.blockNumber ?? null,
+        transaction_hash: participation?.transactionHash ?? null,
+        is_locked: game.isLocked,
+        prize_splits: game.prizeSplits,
+        winner_rank: game.winnerRank,
+        is_stale: false,
+        // Falls back to the insert time
+        created_at: joinedAt !== undefined ? new Date(joinedAt).toISOString() : undefined
+      });
+      if (inserted) result.inserted++;
+      continue;
+    }
+
+    for (const row of existingRows) {
+      const changes = diffRow(row, game, participation);
+      if (Object.keys(changes).length === 0) continue;
+      if (await gameHistoryService.updateGameHistoryRow(row.id, changes)) result.updated++;
+    }
+  }
+
+  if (staleIds.length > 0 && await gameHistoryService.markGameHistoryStale(staleIds)) {
+    result.stale = staleIds.length;
+  }
+
+  console.log(`✅ History sync done: ${result.inserted} added, ${result.updated} updated, ${result.stale} stale, ${result.skipped} skipped`);
+  return result;
+};
+
+const inFlight = new Map<string, Promise<GameHistorySyncResult>>();
+
+/**
+ * Walk the user's on-chain games and upsert their game_history rows.
+ * Concurrent calls for the same user share one run.
+ */
+export function syncGameHistory(userId: string, walletAddress: string, options: GameHistorySyncOptions = {}): Promise<GameHistorySyncResult> {
+  const existing = inFlight.get(userId);
+  if (existing) return existing;
+
+  const syncPromise = runSync(userId, walletAddress, options)
+    .catch((error: any): GameHistorySyncResult => {
+      console.error('❌ Game history sync failed:', error);
+      return { success: false, inserted: 0, updated: 0, stale: 0, skipped: 0, error: error.message || 'History sync failed' };
+    })
+    .finally(() => inFlight.delete(userId));
+
+  inFlight.set(userId, syncPromise);
+  return syncPromise;
+}
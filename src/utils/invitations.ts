@@ -0,0 +1,59 @@
+/**
+ * Game Invitations
+ * Links that reserve a seat for one wallet. The reservation lives in the app only (the contract
+ * lets anyone join), so these helpers decide who gets greeted and who gets warned off.
+ */
+
+import { Database } from '../lib/database.types';
+import { getGameUrl } from './gameCodeUtils';
+
+export type GameInvitation = Database['public']['Tables']['game_invitations']['Row'];
+
+export type InvitationStatus = 'pending' | 'accepted';
+
+export const INVITE_QUERY_PARAM = 'invite';
+
+/**
+ * Shareable join link for one invitation, e.g. https://…/join/ABC-123?invite=<id>
+ */
+export const getInviteUrl = (gameCode: string, invitationId: string): string =>
+  `${getGameUrl(gameCode, { join: true })}?${INVITE_QUERY_PARAM}=${encodeURIComponent(invitationId)}`;
+
+const includesAddress = (addresses: string[] | undefined, address: string): boolean =>
+  !!addresses && addresses.some(candidate => candidate.toLowerCase() === address.toLowerCase());
+
+/**
+ * An invitation is accepted once the invitee is in the on-chain player list
+ */
+export const getInvitationStatus = (invitation: GameInvitation, players?: string[]): InvitationStatus =>
+  includesAddress(players, invitation.invitee_address) ? 'accepted' : 'pending';
+
+export const isInvitee = (invitation: GameInvitation, address?: string | null): boolean =>
+  !!address && invitation.invitee_address.toLowerCase() === address.toLowerCase();
+
+/**
+ * Seats still held for invitees other than `viewer`
+ */
+export const getReservedSeatCount = (
+  invitations: GameInvitation[],
+  players?: string[],
+  viewer?: string | null
+): number =>
+  invitations.filter(invitation =>
+    getInvitationStatus(invitation, players) === 'pending' && !isInvitee(invitation, viewer)
+  ).length;
+
+/**
+ * Whether `viewer` would take a seat another invitee is counting on: every open seat is
+ * reserved and none of the reservations are theirs
+ */
+export const isSeatReservedForOthers = (
+  invitations: GameInvitation[],
+  openSeats: number,
+  players?: string[],
+  viewer?: string | null
+): boolean => {
+  if (invitations.some(invitation => isInvitee(invitation, viewer))) return false;
+  const reserved = getReservedSeatCount(invitations, players, viewer);
+  return reserved > 0 && reserved >= openSeats;
+};
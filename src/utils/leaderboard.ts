@@ -0,0 +1,181 @@
+/**
+ * Leaderboard
+ * Ranks players from indexed WinnersReported/WinningsClaimed events and game_history rows
+ */
+
+import { IndexedGameEvent, toGameEvent } from './eventIndex';
+import { getClaimedAmount, getGameCodeHash } from './gameEvents';
+
+export type LeaderboardWindow = 'week' | 'month' | 'all';
+
+/**
+ * Time windows. The contract-wide event index only reaches back ~30 days, so 'all' relies on
+ * game_history rows for anything older.
+ */
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, { label: string; durationMs: number | null }> = {
+  week: { label: 'This Week', durationMs: 7 * 24 * 60 * 60 * 1000 },
+  month: { label: 'This Month', durationMs: 30 * 24 * 60 * 60 * 1000 },
+  all: { label: 'All Time', durationMs: null }
+};
+
+// Base produces a block every 2 seconds - used to turn a time window into a block range
+export const BASE_BLOCK_TIME_MS = 2000;
+
+export interface LeaderboardHistoryRow {
+  walletAddress: string;
+  gameCode: string;
+  result: 'won' | 'lost' | 'active';
+  createdAt: string;
+  tokenAddress: string | null; // Lowercased
+  winnings: string | null; // Total the player claimed from the game
+  potAmount: string | null;
+}
+
+export interface LeaderboardEntry {
+  address: string; // Lowercased
+  gamesPlayed: number;
+  gamesWon: number;
+  winRate: number; // Percentage, 0-100
+  earnings: bigint; // Claimed winnings in the selected token
+  biggestPot: { amount: bigint; gameCode: string | null } | null; // Largest pot of a game the player won
+}
+
+export interface LeaderboardInput {
+  history: LeaderboardHistoryRow[];
+  events: IndexedGameEvent[];
+  token: string; // Token address the earnings columns are ranked by
+  since?: { timestampMs: number; blockNumber: number }; // Omit for all time
+}
+
+/**
+ * Aggregate history rows and indexed events into ranked entries.
+ *
+ * Games played/won count every game regardless of token; earnings and biggest pot only
+ * count games in `input.token`. Games are keyed by code hash, so a history row and an event
+ * whose code was never resolved still count as one game. Claims and pots seen in the index
+ * take precedence over the row's copy, which fills in games older than the index.
+ */
+export function buildLeaderboard(input: LeaderboardInput): LeaderboardEntry[] {
+  const { history, events, since } = input;
+  const token = input.token.toLowerCase();
+
+  const played = new Map<string, Set<string>>();
+  const won = new Map<string, Set<string>>();
+  // Claimed per winner per game; a winner can claim one game in more than one transaction
+  const claimedFromEvents = new Map<string, Map<string, { amount: bigint; token: string }>>();
+  const claimedFromHistory = new Map<string, Map<string, bigint>>();
+  const games = new Map<string, { token?: string; pot?: bigint; historyPot?: bigint; gameCode: string | null }>();
+
+  const addTo = (map: Map<string, Set<string>>, address: string, gameKey: string) => {
+    const key = address.toLowerCase();
+    if (!map.has(key)) map.set(key, new Set());
+    map.get(key)!.add(gameKey);
+  };
+
+  const gameFor = (gameKey: string, gameCode: string | null) => {
+    if (!games.has(gameKey)) games.set(gameKey, { gameCode });
+    const game = games.get(gameKey)!;
+    if (!game.gameCode) game.gameCode = gameCode;
+    return game;
+  };
+
+  history.forEach(row => {
+    if (since && new Date(row.createdAt).getTime() < since.timestampMs) return;
+    const gameKey = getGameCodeHash(row.gameCode);
+    const address = row.walletAddress.toLowerCase();
+    addTo(played, address, gameKey);
+    if (row.result === 'won') addTo(won, address, gameKey);
+
+    const game = gameFor(gameKey, row.gameCode);
+    if (row.tokenAddress && !game.token) game.token = row.tokenAddress.toLowerCase();
+    if (row.potAmount) game.historyPot = BigInt(row.potAmount);
+    if (row.winnings) {
+      if (!claimedFromHistory.has(address)) claimedFromHistory.set(address, new Map());
+      claimedFromHistory.get(address)!.set(gameKey, BigInt(row.winnings));
+    }
+  });
+
+  events.forEach(event => {
+    if (since && event.blockNumber < since.blockNumber) return;
+    const gameKey = event.codeHash || (event.gameCode ? getGameCodeHash(event.gameCode) : event.transactionHash);
+    const decoded = toGameEvent(event);
+    if (!decoded) return;
+
+    const game = gameFor(gameKey, event.gameCode);
+
+    switch (decoded.name) {
+      case 'GameStarted':
+        game.token = decoded.token;
+        break;
+      case 'PlayerJoined':
+        addTo(played, decoded.player, gameKey);
+        break;
+      case 'WinnersReported':
+        game.pot = decoded.totalPrize;
+        decoded.winners.forEach(winner => {
+          addTo(played, winner, gameKey);
+          addTo(won, winner, gameKey);
+        });
+        break;
+      case 'WinningsClaimed':
+      case 'WinningsClaimedViaUI': {
+        const { winner } = decoded;
+        if (!game.token) game.token = decoded.token;
+        addTo(played, winner, gameKey);
+        addTo(won, winner, gameKey);
+
+        if (!claimedFromEvents.has(winner)) claimedFromEvents.set(winner, new Map());
+        const claimed = claimedFromEvents.get(winner)!;
+        claimed.set(gameKey, {
+          amount: (claimed.get(gameKey)?.amount || BigInt(0)) + getClaimedAmount(decoded),
+          token: decoded.token
+        });
+        break;
+      }
+    }
+  });
+
+  const inToken = (gameKey: string) => games.get(gameKey)?.token === token;
+
+  const entries: LeaderboardEntry[] = Array.from(played.entries()).map(([address, playedGames]) => {
+    const wonGames = won.get(address) || new Set<string>();
+
+    const claimedInToken = new Map<string, bigint>();
+    claimedFromHistory.get(address)?.forEach((amount, gameKey) => {
+      if (inToken(gameKey)) claimedInToken.set(gameKey, amount);
+    });
+    claimedFromEvents.get(address)?.forEach((claimed, gameKey) => {
+      if (claimed.token === token) claimedInToken.set(gameKey, claimed.amount);
+      else claimedInToken.delete(gameKey);
+    });
+    const earnings = Array.from(claimedInToken.values()).reduce((total, amount) => total + amount, BigInt(0));
+
+    const biggestPot = Array.from(wonGames)
+      .filter(inToken)
+      .map(gameKey => {
+        const game = games.get(gameKey)!;
+        const amount = game.pot ?? game.historyPot;
+        return amount !== undefined ? { amount, gameCode: game.gameCode } : null;
+      })
+      .reduce<LeaderboardEntry['biggestPot']>(
+        (biggest, pot) => (pot && (!biggest || pot.amount > biggest.amount) ? pot : biggest),
+        null
+      );
+
+    return {
+      address,
+      gamesPlayed: playedGames.size,
+      gamesWon: wonGames.size,
+      winRate: playedGames.size > 0 ? (wonGames.size / playedGames.size) * 100 : 0,
+      earnings,
+      biggestPot
+    };
+  });
+
+  return entries.sort((a, b) => {
+    if (a.earnings !== b.earnings) return a.earnings > b.earnings ? -1 : 1;
+    if (a.gamesWon !== b.gamesWon) return b.gamesWon - a.gamesWon;
+    if (a.winRate !== b.winRate) return b.winRate - a.winRate;
+    return b.gamesPlayed - a.gamesPlayed;
+  });
+}
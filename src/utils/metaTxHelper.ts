@@ -11,13 +11,19 @@
  * 4. Frontend sends signed request to backend
  * 5. Backend submits to forwarder (pays gas)
  * 6. Contract receives transaction with user as _msgSender()
+ *
+ * The forwarder has no deadline field, so deadlines and pending nonces are tracked
+ * locally (see metaTxNonceTracker) and checked again right before submission.
  */
 
 import { readContract } from 'thirdweb';
 import { FORWARDER_ADDRESS } from '../thirdweb';
-import { base } from 'thirdweb/chains';
 import { getContract } from 'thirdweb';
-import { client } from '../thirdweb';
+import { estimateGas, prepareContractCall, encode } from 'thirdweb/transaction';
+import { getRpcClient, eth_call } from 'thirdweb/rpc';
+import { hexToBigInt } from 'thirdweb/utils';
+import { client, chain } from '../thirdweb';
+import { metaTxNonceTracker } from './metaTxNonceTracker';
 
 // MinimalForwarder ABI
 const FORWARDER_ABI = [
@@ -29,7 +35,7 @@ const FORWARDER_ABI = [
 const EIP712_DOMAIN = {
   name: 'MinimalForwarder',
   version: '0.0.1',
-  chainId: 8453, // Base mainnet
+  chainId: chain.id, // Forwarder is deployed per chain
   verifyingContract: FORWARDER_ADDRESS
 };
 
@@ -58,20 +64,53 @@ export interface MetaTxRequest {
 export interface SignedMetaTxRequest {
   request: MetaTxRequest;
   signature: string;
+  deadline: number; // Local only - submitting after this is rejected as superseded
+}
+
+// Used when estimation fails; enough for every game function
+export const DEFAULT_META_TX_GAS = BigInt(500000);
+
+// Headroom over the direct-call estimate for the forwarder's appended sender and state drift
+const GAS_BUFFER_PERCENT = BigInt(25);
+
+// How often a request the relay may have broadcast is checked for landing
+const SETTLE_POLL_MS = 5000;
+
+export const SUPERSEDED_ERROR_PREFIX = 'Meta-transaction superseded';
+
+export function isSupersededError(error: any): boolean {
+  return typeof error?.message === 'string' && error.message.startsWith(SUPERSEDED_ERROR_PREFIX);
 }
 
 /**
  * Get the current nonce for a user from the forwarder contract
+ *
+ * @param blockTag - 'pending' also counts forwarder calls still waiting in the mempool
  */
-export async function getUserNonce(userAddress: string): Promise<bigint> {
+export async function getUserNonce(userAddress: string, blockTag: 'latest' | 'pending' = 'latest'): Promise<bigint> {
   try {
     const forwarder = getContract({
       client,
-      chain: base,
+      chain,
       address: FORWARDER_ADDRESS,
       abi: FORWARDER_ABI
     });
 
+    if (blockTag === 'pending') {
+      // readContract always reads the latest block
+      const call = prepareContractCall({
+        contract: forwarder,
+        method: 'function getNonce(address from) view returns (uint256)',
+        params: [userAddress]
+      });
+      const result = await eth_call(getRpcClient({ client, chain }), {
+        to: FORWARDER_ADDRESS,
+        data: await encode(call),
+        blockTag: 'pending'
+      });
+      return hexToBigInt(result);
+    }
+
     const nonce = await readContract({
       contract: forwarder,
       method: 'function getNonce(address from) view returns (uint256)',
@@ -85,26 +124,48 @@ export async function getUserNonce(userAddress: string): Promise<bigint> {
   }
 }
 
+/**
+ * Estimate the gas limit for a game function call made on behalf of `from`
+ *
+ * @param transaction - Prepared contract call (from prepareContractCall)
+ * @param from - The user's wallet address
+ */
+export async function estimateMetaTxGas(transaction: any, from: string): Promise<bigint> {
+  try {
+    const estimate = await estimateGas({ transaction, from });
+    const gasLimit = estimate + (estimate * GAS_BUFFER_PERCENT) / BigInt(100);
+    console.log(`⛽ Estimated meta-tx gas: ${estimate} (limit ${gasLimit})`);
+    return gasLimit;
+  } catch (error) {
+    // Estimation reverts surface again at the relay with a clearer message
+    console.warn('Gas estimation failed, using default meta-tx gas limit:', error);
+    return DEFAULT_META_TX_GAS;
+  }
+}
+
 /**
  * Build a meta-transaction request
  *
+ * Reserves the nonce through metaTxNonceTracker - the caller must release it via
+ * releaseMetaTx once the request settles.
+ *
  * @param userAddress - The user's wallet address (will be _msgSender() in contract)
  * @param contractAddress - The target contract address
  * @param functionData - The encoded function call data
  * @param value - ETH value to send (default 0)
- * @param gasLimit - Gas limit for the meta-tx (default 500000)
- * @returns MetaTxRequest ready for signing
+ * @param gasLimit - Gas limit for the meta-tx (see estimateMetaTxGas)
+ * @returns MetaTxRequest ready for signing, plus its local deadline
  */
 export async function buildMetaTxRequest(
   userAddress: string,
   contractAddress: string,
   functionData: string,
-  value: bigint = 0n,
-  gasLimit: bigint = 500000n
-): Promise<MetaTxRequest> {
+  value: bigint = BigInt(0),
+  gasLimit: bigint = DEFAULT_META_TX_GAS
+): Promise<{ request: MetaTxRequest; deadline: number }> {
   try {
-    // Get user's current nonce
-    const nonce = await getUserNonce(userAddress);
+    // Reserve the next nonce not already claimed by another tab
+    const { nonce, deadline } = await metaTxNonceTracker.reserve(userAddress, () => getUserNonce(userAddress));
 
     console.log('🔧 Building request with functionData:', functionData);
 
@@ -127,7 +188,7 @@ export async function buildMetaTxRequest(
       dataLength: request.data?.length
     });
 
-    return request;
+    return { request, deadline };
   } catch (error) {
     console.error('Failed to build meta-tx request:', error);
     throw error;
@@ -189,21 +250,21 @@ export async function signMetaTxRequest(
  * @param contractAddress - Target contract address
  * @param functionData - Encoded function call
  * @param value - ETH value (default 0)
- * @param gasLimit - Gas limit (default 500000)
+ * @param gasLimit - Gas limit (see estimateMetaTxGas)
  * @returns Signed meta-transaction ready to send to backend
  */
 export async function createSignedMetaTx(
   account: any,
   contractAddress: string,
   functionData: string,
-  value: bigint = 0n,
-  gasLimit: bigint = 500000n
+  value: bigint = BigInt(0),
+  gasLimit: bigint = DEFAULT_META_TX_GAS
 ): Promise<SignedMetaTxRequest> {
   try {
     const userAddress = account.address;
 
     // Build the request
-    const request = await buildMetaTxRequest(
+    const { request, deadline } = await buildMetaTxRequest(
       userAddress,
       contractAddress,
       functionData,
@@ -215,14 +276,21 @@ export async function createSignedMetaTx(
     console.log('   request.data:', request.data);
     console.log('   All keys:', Object.keys(request));
 
-    // Get user signature
-    const signature = await signMetaTxRequest(account, request);
+    // Get user signature - an unsigned request never reaches the relay, so free its nonce
+    let signature: string;
+    try {
+      signature = await signMetaTxRequest(account, request);
+    } catch (error) {
+      metaTxNonceTracker.release(userAddress, request.nonce);
+      throw error;
+    }
 
     console.log('✅ After signing, request.data:', request.data);
 
     return {
       request,
-      signature
+      signature,
+      deadline
     };
   } catch (error) {
     console.error('Failed to create signed meta-tx:', error);
@@ -230,6 +298,49 @@ export async function createSignedMetaTx(
   }
 }
 
+/**
+ * Throw a "superseded" error if a signed request can no longer execute:
+ * its local deadline passed or the forwarder nonce already moved past it.
+ */
+export async function assertMetaTxExecutable(signed: SignedMetaTxRequest): Promise<void> {
+  if (Date.now() > signed.deadline) {
+    throw new Error(`${SUPERSEDED_ERROR_PREFIX}: the signed request expired before it reached the relay. Please try again.`);
+  }
+
+  const currentNonce = await getUserNonce(signed.request.from);
+  if (currentNonce > BigInt(signed.request.nonce)) {
+    throw new Error(`${SUPERSEDED_ERROR_PREFIX}: nonce ${signed.request.nonce} was already used by another transaction from this wallet (possibly another tab). Please try again.`);
+  }
+}
+
+/**
+ * Free the local nonce reservation for a signed request once it settled or failed
+ */
+export function releaseMetaTx(signed: SignedMetaTxRequest): void {
+  metaTxNonceTracker.release(signed.request.from, signed.request.nonce);
+}
+
+/**
+ * Keep the nonce reservation for a request the relay may have broadcast until the forwarder
+ * has used the nonce, or until the request's deadline when it never lands
+ */
+export function releaseMetaTxWhenSettled(signed: SignedMetaTxRequest): void {
+  const check = async () => {
+    const used = await getUserNonce(signed.request.from).then(
+      nonce => nonce > BigInt(signed.request.nonce),
+      () => false
+    );
+
+    if (used || Date.now() > signed.deadline) {
+      releaseMetaTx(signed);
+      return;
+    }
+    setTimeout(check, SETTLE_POLL_MS);
+  };
+
+  check();
+}
+
 /**
  * Check if account can sign (has wallet connected)
  */
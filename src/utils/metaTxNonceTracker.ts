@@ -0,0 +1,153 @@
+/**
+ * Meta-Transaction Nonce Tracker
+ * Reserves MinimalForwarder nonces per address, shared across tabs via localStorage + BroadcastChannel
+ * and serialized with Web Locks, so two concurrent signatures never reuse the same nonce
+ */
+
+import { logger } from './logger';
+import { ACTIVE_CHAIN } from './chainRegistry';
+
+// A signed request not submitted within this window is treated as stale and its nonce freed
+export const META_TX_DEADLINE_MS = 2 * 60 * 1000;
+
+const STORAGE_PREFIX = 'saltfree-metatx-pending:';
+const CHANNEL_NAME = 'saltfree-metatx-nonces';
+const LOCK_PREFIX = 'saltfree-metatx-lock:';
+const WAIT_POLL_MS = 1000;
+
+interface PendingNonce {
+  nonce: string;
+  tabId: string;
+  deadline: number;
+}
+
+export interface NonceReservation {
+  nonce: bigint;
+  deadline: number;
+}
+
+class MetaTxNonceTracker {
+  private tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = () => this.notify();
+    } else if (typeof window !== 'undefined') {
+      // Older browsers still get cross-tab updates through storage events
+      window.addEventListener('storage', event => {
+        if (event.key?.startsWith(STORAGE_PREFIX)) this.notify();
+      });
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private broadcast(address: string) {
+    this.channel?.postMessage({ address, tabId: this.tabId });
+  }
+
+  private storageKey(address: string): string {
+    // Forwarder nonces are per chain, so tabs on different chains must not share reservations
+    return `${STORAGE_PREFIX}${ACTIVE_CHAIN.chain.id}:${address.toLowerCase()}`;
+  }
+
+  private read(address: string): PendingNonce[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey(address));
+      const entries: PendingNonce[] = raw ? JSON.parse(raw) : [];
+      const now = Date.now();
+      return entries.filter(entry => entry.deadline > now);
+    } catch {
+      return [];
+    }
+  }
+
+  private write(address: string, entries: PendingNonce[]) {
+    try {
+      if (entries.length === 0) {
+        localStorage.removeItem(this.storageKey(address));
+      } else {
+        localStorage.setItem(this.storageKey(address), JSON.stringify(entries));
+      }
+    } catch (error) {
+      logger.warn('Failed to persist pending meta-tx nonces', { component: 'MetaTxNonceTracker', error });
+    }
+  }
+
+  // Resolves on the next cross-tab update or after a short poll, whichever is first
+  private waitForChange(): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listeners.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, WAIT_POLL_MS);
+      this.listeners.add(done);
+    });
+  }
+
+  /**
+   * Get the pending (signed but unsettled) nonces for an address
+   */
+  getPending(address: string): PendingNonce[] {
+    return this.read(address);
+  }
+
+  // Runs `task` holding a cross-tab Web Lock for the address, where the browser supports it
+  private async withLock<T>(address: string, task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return task();
+    return await navigator.locks.request(`${LOCK_PREFIX}${this.storageKey(address)}`, task);
+  }
+
+  /**
+   * Reserve the next nonce for an address.
+   *
+   * The forwarder executes nonces strictly in order, so while another request from this
+   * wallet is in flight (in any tab) we wait for it to settle or pass its deadline, then take
+   * the chain nonce. A Web Lock keeps two tabs from both seeing nothing pending and reserving
+   * the same nonce; without Web Locks the pending list is re-checked after the chain read.
+   */
+  async reserve(address: string, getChainNonce: () => Promise<bigint>): Promise<NonceReservation> {
+    const waitUntil = Date.now() + META_TX_DEADLINE_MS;
+
+    return this.withLock(address, async () => {
+      for (;;) {
+        while (this.read(address).length > 0) {
+          if (Date.now() > waitUntil) {
+            throw new Error('Another meta-transaction from this wallet is still pending. Please wait for it to finish and try again.');
+          }
+          console.log('⏳ Waiting for pending meta-transaction from this wallet...');
+          await this.waitForChange();
+        }
+
+        const nonce = await getChainNonce();
+
+        // Another tab may have reserved while the nonce was being read
+        if (this.read(address).length > 0) continue;
+
+        const deadline = Date.now() + META_TX_DEADLINE_MS;
+        this.write(address, [{ nonce: nonce.toString(), tabId: this.tabId, deadline }]);
+        this.broadcast(address);
+
+        return { nonce, deadline };
+      }
+    });
+  }
+
+  /**
+   * Free a reservation once its request settled, failed, or was never signed
+   */
+  release(address: string, nonce: bigint | string) {
+    const nonceKey = nonce.toString();
+    this.write(address, this.read(address).filter(entry => entry.nonce !== nonceKey));
+    this.broadcast(address);
+  }
+}
+
+export const metaTxNonceTracker = new MetaTxNonceTracker();
@@ -0,0 +1,202 @@
+/**
+ * Multi-Game
+ * Batched loading, sorting and filtering for pages that track many games at once
+ * (tournament brackets, shared lists)
+ */
+
+import { CONTRACT_ADDRESS } from '../thirdweb';
+import { multicall, MulticallRequest } from './multicall';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export interface MultiGameInfo {
+  gameCode: string;
+  host: string;
+  buyIn: string;
+  buyInToken?: string;
+  maxPlayers: number;
+  playerCount: number;
+  currentPlayers: number;
+  players: string[];
+  isLocked: boolean;
+  isCompleted: boolean;
+  winners: string[];
+  pot: string; // Total prize including pot top-ups, in base units
+  loading?: boolean;
+  error?: string;
+}
+
+export type MultiGameSort = 'default' | 'pot' | 'players' | 'code';
+export type MultiGameFilter = 'all' | 'open' | 'locked' | 'completed' | 'mine';
+
+export const MULTI_GAME_SORTS: { value: MultiGameSort; label: string }[] = [
+  { value: 'default', label: 'Link order' },
+  { value: 'pot', label: 'Biggest pot' },
+  { value: 'players', label: 'Most players' },
+  { value: 'code', label: 'Game code' }
+];
+
+export const MULTI_GAME_FILTERS: { value: MultiGameFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'open', label: 'Open' },
+  { value: 'locked', label: 'Locked' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'mine', label: 'My games' }
+];
+
+const CODE_INPUT = [{ type: 'string', name: 'code' }] as const;
+
+// Multicall read of a game contract view that takes only the game code
+export const gameRead = (signature: string, outputs: MulticallRequest['outputs'], code: string): MulticallRequest => ({
+  target: CONTRACT_ADDRESS,
+  signature,
+  inputs: CODE_INPUT,
+  outputs,
+  params: [code]
+});
+
+export const getGameInfoRead = (code: string) => gameRead('getGameInfo(string)', [
+  { type: 'address', name: 'host' },
+  { type: 'address', name: 'token' },
+  { type: 'uint256', name: 'buyIn' },
+  { type: 'uint256', name: 'maxPlayers' },
+  { type: 'uint256', name: 'playerCount' },
+  { type: 'bool', name: 'isLocked' },
+  { type: 'uint256[]', name: 'splits' },
+  { type: 'address[]', name: 'judges' }
+], code);
+
+const notFound = (gameCode: string): MultiGameInfo => ({
+  gameCode,
+  host: '',
+  buyIn: '0',
+  maxPlayers: 0,
+  playerCount: 0,
+  currentPlayers: 0,
+  players: [],
+  isLocked: false,
+  isCompleted: false,
+  winners: [],
+  pot: '0',
+  loading: false,
+  error: `Game ${gameCode} not found`
+});
+
+/**
+ * Load games in two multicall rounds: getGameInfo for every spelling of every code, then
+ * players, completion, winners and pot for the spellings that exist. Results keep input order.
+ * @param codes - Codes as entered
+ * @param getVariations - Spellings to try for a code, most likely first
+ */
+export async function loadGamesBatch(codes: string[], getVariations: (code: string) => string[]): Promise<MultiGameInfo[]> {
+  const candidates = codes.map(code => {
+    const variations = getVariations(code);
+    return variations.length > 0 ? variations : [code];
+  });
+  const infoResults = await multicall(candidates.flat().map(getGameInfoRead));
+
+  let offset = 0;
+  const resolved = candidates.map(variations => {
+    const results = infoResults.slice(offset, offset + variations.length);
+    offset += variations.length;
+
+    const index = results.findIndex(result => result.success && String(result.values[0]).toLowerCase() !== ZERO_ADDRESS);
+    const result = results[index];
+    return result?.success ? { code: variations[index], info: result.values } : null;
+  });
+
+  const found = resolved.filter((game): game is NonNullable<typeof game> => game !== null);
+  const detailResults = await multicall(found.flatMap(({ code }) => [
+    gameRead('getPlayers(string)', [{ type: 'address[]', name: 'players' }], code),
+    gameRead('isGameCompleted(string)', [{ type: 'bool' }], code),
+    gameRead('getWinners(string)', [{ type: 'address[]', name: 'winners' }], code),
+    gameRead('getTotalPrize(string)', [{ type: 'uint256' }], code)
+  ]));
+
+  let detailIndex = 0;
+  return resolved.map((game, index) => {
+    if (!game) return notFound(codes[index]);
+
+    const [players, completed, winners, totalPrize] = detailResults.slice(detailIndex, detailIndex + 4);
+    detailIndex += 4;
+
+    const [host, token, buyIn, maxPlayers, playerCount, isLocked] = game.info as [string, string, bigint, bigint, bigint, boolean];
+    const playerList = players.success ? (players.values[0] as string[]) : [];
+    const isCompleted = completed.success ? (completed.values[0] as boolean) : false;
+    const pot = totalPrize.success ? (totalPrize.values[0] as bigint) : buyIn * BigInt(playerList.length);
+
+    return {
+      gameCode: game.code,
+      host,
+      buyIn: buyIn.toString(),
+      buyInToken: token,
+      maxPlayers: Number(maxPlayers),
+      playerCount: Number(playerCount),
+      currentPlayers: playerList.length,
+      players: playerList,
+      isLocked,
+      isCompleted,
+      winners: isCompleted && winners.success ? (winners.values[0] as string[]) : [],
+      pot: pot.toString(),
+      loading: false
+    };
+  });
+}
+
+/**
+ * Judge lists for games by exact code, read with one multicall round. Codes that do not exist
+ * or fail to read are left out.
+ */
+export async function loadGameJudges(codes: string[]): Promise<Map<string, string[]>> {
+  const unique = codes.filter((code, index) => codes.indexOf(code) === index);
+  const results = await multicall(unique.map(getGameInfoRead));
+
+  const judges = new Map<string, string[]>();
+  results.forEach((result, index) => {
+    if (result.success) judges.set(unique[index], result.values[7] as string[]);
+  });
+  return judges;
+}
+
+const matchesFilter = (game: MultiGameInfo, filter: MultiGameFilter, address?: string): boolean => {
+  switch (filter) {
+    case 'open':
+      return !game.isLocked && !game.isCompleted;
+    case 'locked':
+      return game.isLocked && !game.isCompleted;
+    case 'completed':
+      return game.isCompleted;
+    case 'mine': {
+      if (!address) return false;
+      const me = address.toLowerCase();
+      return game.host.toLowerCase() === me || game.players.some(player => player.toLowerCase() === me);
+    }
+    default:
+      return true;
+  }
+};
+
+/**
+ * Filter then sort loaded games. Pots in different tokens are compared in whole tokens, so the
+ * pot sort is only meaningful between games in the same token or stablecoins.
+ * @param getDecimals - Decimals for a token address
+ */
+export function sortAndFilterGames(
+  games: MultiGameInfo[],
+  options: { sort: MultiGameSort; filter: MultiGameFilter; address?: string; getDecimals: (token?: string) => number }
+): MultiGameInfo[] {
+  const { sort, filter, address, getDecimals } = options;
+  const filtered = games.filter(game => matchesFilter(game, filter, address));
+  const potValue = (game: MultiGameInfo) => Number(BigInt(game.pot)) / Math.pow(10, getDecimals(game.buyInToken));
+
+  switch (sort) {
+    case 'pot':
+      return [...filtered].sort((a, b) => potValue(b) - potValue(a));
+    case 'players':
+      return [...filtered].sort((a, b) => b.currentPlayers - a.currentPlayers);
+    case 'code':
+      return [...filtered].sort((a, b) => a.gameCode.localeCompare(b.gameCode));
+    default:
+      return filtered;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Multicall
+ * Batches read-only contract calls into Multicall3 `aggregate3` requests, so loading many games
+ * takes a handful of RPC round trips instead of several per game
+ */
+
+import { getContract } from 'thirdweb/contract';
+import { readContract } from 'thirdweb/transaction';
+import { getRpcClient, eth_getCode } from 'thirdweb/rpc';
+import { decodeAbiParameters, encodeAbiParameters, toFunctionSelector } from 'thirdweb/utils';
+import type { AbiFunction } from 'thirdweb/utils';
+import { client, chain } from '../thirdweb';
+
+// Canonical Multicall3 address on Base and Base Sepolia. A fresh Anvil/Hardhat node does not have
+// it, so without code there the requests fall back to one readContract each.
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Keeps each eth_call comfortably under provider gas and response size limits
+export const MULTICALL_BATCH_SIZE = 100;
+
+type Hex = `0x${string}`;
+
+export type AbiParameter = AbiFunction['inputs'][number];
+
+export interface MulticallRequest {
+  target: string;
+  signature: string; // e.g. "getGameInfo(string)"
+  inputs: readonly AbiParameter[];
+  outputs: readonly AbiParameter[];
+  params: readonly unknown[];
+}
+
+export type MulticallResult =
+  | { success: true; values: readonly unknown[] }
+  | { success: false; error: string };
+
+const AGGREGATE3_METHOD = "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)";
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const encodeCall = (request: MulticallRequest): Hex => {
+  const selector = toFunctionSelector(request.signature);
+  const args = encodeAbiParameters(request.inputs, request.params);
+  return `${selector}${args.slice(2)}` as Hex;
+};
+
+const toAbiFunction = (request: MulticallRequest): AbiFunction => ({
+  type: 'function',
+  name: request.signature.slice(0, request.signature.indexOf('(')),
+  inputs: request.inputs,
+  outputs: request.outputs,
+  stateMutability: 'view'
+});
+
+// Whether Multicall3 has code on this chain, checked once per page load
+let multicallDeployed: Promise<boolean> | null = null;
+
+const isMulticallDeployed = (): Promise<boolean> => {
+  if (!multicallDeployed) {
+    multicallDeployed = eth_getCode(getRpcClient({ client, chain }), { address: MULTICALL3_ADDRESS })
+      .then(code => code !== '0x')
+      .catch(error => {
+        // Unknown: try the aggregate call and let it fall back if that fails too
+        console.warn('⚠️ Could not check for Multicall3:', error);
+        multicallDeployed = null;
+        return true;
+      });
+  }
+  return multicallDeployed;
+};
+
+/**
+ * Run each request as its own read, for chains without Multicall3 or when the aggregate call fails
+ */
+async function readIndividually(requests: MulticallRequest[]): Promise<MulticallResult[]> {
+  return Promise.all(requests.map(async (request): Promise<MulticallResult> => {
+    try {
+      const value = await readContract({
+        contract: getContract({ client, chain, address: request.target }),
+        method: toAbiFunction(request),
+        params: request.params
+      }) as unknown;
+      // readContract unwraps single return values
+      return { success: true, values: request.outputs.length === 1 ? [value] : value as readonly unknown[] };
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  }));
+}
+
+/**
+ * Run the requests through Multicall3, in batches of MULTICALL_BATCH_SIZE.
+ * Individual calls may revert without failing the batch; results come back in request order.
+ */
+export async function multicall(requests: MulticallRequest[]): Promise<MulticallResult[]> {
+  if (requests.length === 0) return [];
+
+  if (!await isMulticallDeployed()) {
+    return readIndividually(requests);
+  }
+
+  const multicallContract = getContract({ client, chain, address: MULTICALL3_ADDRESS });
+  const results: MulticallResult[] = [];
+
+  for (let start = 0; start < requests.length; start += MULTICALL_BATCH_SIZE) {
+    const batch = requests.slice(start, start + MULTICALL_BATCH_SIZE);
+
+    let responses: readonly { success: boolean; returnData: Hex }[];
+    try {
+      responses = await readContract({
+        contract: multicallContract,
+        method: AGGREGATE3_METHOD,
+        params: [batch.map(request => ({ target: request.target, allowFailure: true, callData: encodeCall(request) }))]
+      }) as readonly { success: boolean; returnData: Hex }[];
+    } catch (error) {
+      console.warn(`⚠️ Multicall batch of ${batch.length} failed, reading individually:`, error);
+      results.push(...await readIndividually(batch));
+      continue;
+    }
+
+    responses.forEach((response, index) => {
+      if (!response.success || response.returnData === '0x') {
+        results.push({ success: false, error: `${batch[index].signature} reverted` });
+        return;
+      }
+      try {
+        results.push({ success: true, values: decodeAbiParameters(batch[index].outputs, response.returnData) });
+      } catch (error) {
+        results.push({ success: false, error: errorMessage(error) });
+      }
+    });
+  }
+
+  return results;
+}
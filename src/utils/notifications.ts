@@ -0,0 +1,323 @@
+/**
+ * Notifications
+ * Turns new contract events for the user's games into in-app notifications, kept per wallet in
+ * localStorage, with optional browser alerts through the Notification API
+ */
+
+import { formatAddress, formatTokenDisplay } from '../thirdweb';
+import { logger } from './logger';
+import { ACTIVE_CHAIN } from './chainRegistry';
+import { eventIndex, toGameEvent, IndexedGameEvent } from './eventIndex';
+import { GameEvent } from './gameEvents';
+import { getUnclaimedWin } from './claimAll';
+import { syncAllGameEvents, getCurrentBlock } from '../contexts/GameDataContext';
+
+const STORAGE_PREFIX = 'saltfree-notifications:';
+const MAX_NOTIFICATIONS = 50;
+
+export type NotificationType = 'player_joined' | 'game_full' | 'game_locked' | 'winners_reported' | 'can_claim';
+
+export interface GameNotification {
+  id: string; // `${type}:${event id}`, so re-checking a block range never duplicates
+  type: NotificationType;
+  gameCode: string;
+  title: string;
+  message: string;
+  blockNumber: number;
+  createdAt: number;
+  read: boolean;
+}
+
+interface NotificationStore {
+  items: GameNotification[]; // Newest first
+  lastCheckedBlock: number | null;
+  browserAlerts: boolean;
+}
+
+interface WatchedGame {
+  isHost: boolean;
+  maxPlayers: number | null; // Null when GameStarted is older than the index
+}
+
+const eventId = (event: GameEvent) => `${event.transactionHash}:${event.logIndex}`;
+
+/**
+ * Games the address hosts or plays in, keyed by code hash.
+ * @param address - Lowercased wallet address
+ * @param events - The address's events from the index
+ */
+export function getWatchedGames(address: string, events: GameEvent[]): Map<string, WatchedGame> {
+  const games = new Map<string, WatchedGame>();
+  const watch = (codeHash: string) => {
+    const game = games.get(codeHash) || { isHost: false, maxPlayers: null };
+    games.set(codeHash, game);
+    return game;
+  };
+
+  events.forEach(event => {
+    if (event.name === 'GameStarted' && event.host === address) {
+      const game = watch(event.codeHash);
+      game.isHost = true;
+      game.maxPlayers = event.maxPlayers;
+    } else if (event.name === 'PlayerJoined' && event.player === address) {
+      watch(event.codeHash);
+    }
+  });
+
+  return games;
+}
+
+/**
+ * Notifications for new events, oldest first. `can_claim` entries still need an on-chain check
+ * because the prize may already have been claimed by the time we see the report.
+ */
+export function buildNotifications(
+  address: string,
+  watched: Map<string, WatchedGame>,
+  events: GameEvent[]
+): Omit<GameNotification, 'createdAt' | 'read'>[] {
+  const notifications: Omit<GameNotification, 'createdAt' | 'read'>[] = [];
+
+  events.forEach(event => {
+    const game = watched.get(event.codeHash);
+    if (!game || !event.code) return;
+
+    const code = event.code;
+    const base = { gameCode: code, blockNumber: event.blockNumber };
+    const { maxPlayers } = game;
+
+    switch (event.name) {
+      case 'PlayerJoined':
+        if (!game.isHost || event.player === address) return;
+        notifications.push({
+          ...base,
+          id: `player_joined:${eventId(event)}`,
+          type: 'player_joined',
+          title: `New player in ${code}`,
+          message: `${formatAddress(event.player)} joined${maxPlayers ? ` (${event.playerCount}/${maxPlayers})` : ''}`
+        });
+        if (maxPlayers && event.playerCount >= maxPlayers) {
+          notifications.push({
+            ...base,
+            id: `game_full:${eventId(event)}`,
+            type: 'game_full',
+            title: `${code} is full`,
+            message: `All ${maxPlayers} spots are taken - lock the game when you're ready`
+          });
+        }
+        return;
+      case 'GameLocked':
+        // Hosts lock their own games
+        if (game.isHost) return;
+        notifications.push({
+          ...base,
+          id: `game_locked:${eventId(event)}`,
+          type: 'game_locked',
+          title: `${code} is locked`,
+          message: 'No more players can join'
+        });
+        return;
+      case 'WinnersReported':
+        if (event.winners.includes(address)) {
+          notifications.push({
+            ...base,
+            id: `can_claim:${eventId(event)}`,
+            type: 'can_claim',
+            title: `You won ${code}!`,
+            message: 'Your winnings are ready to claim'
+          });
+        } else if (event.reporter !== address) {
+          notifications.push({
+            ...base,
+            id: `winners_reported:${eventId(event)}`,
+            type: 'winners_reported',
+            title: `Winners reported for ${code}`,
+            message: event.winners.length > 0
+              ? `Winners: ${event.winners.map(winner => formatAddress(winner)).join(', ')}`
+              : 'The results are in'
+          });
+        }
+        return;
+    }
+  });
+
+  return notifications;
+}
+
+const storageKey = (address: string) => `${STORAGE_PREFIX}${ACTIVE_CHAIN.chain.id}:${address.toLowerCase()}`;
+
+export const browserAlertsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+class NotificationCenter {
+  private stores = new Map<string, NotificationStore>();
+  private checks = new Map<string, Promise<GameNotification[]>>();
+  private listeners = new Set<() => void>();
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private load(address: string): NotificationStore {
+    const key = storageKey(address);
+    const cached = this.stores.get(key);
+    if (cached) return cached;
+
+    let store: NotificationStore = { items: [], lastCheckedBlock: null, browserAlerts: false };
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw) store = { ...store, ...JSON.parse(raw) };
+    } catch (error) {
+      logger.warn('Failed to load notifications', { component: 'NotificationCenter', error });
+    }
+    this.stores.set(key, store);
+    return store;
+  }
+
+  private save(address: string, store: NotificationStore) {
+    const key = storageKey(address);
+    this.stores.set(key, store);
+    try {
+      localStorage.setItem(key, JSON.stringify(store));
+    } catch (error) {
+      logger.warn('Failed to persist notifications', { component: 'NotificationCenter', error });
+    }
+    this.notify();
+  }
+
+  getNotifications(address: string): GameNotification[] {
+    return this.load(address).items;
+  }
+
+  markRead(address: string, id: string) {
+    const store = this.load(address);
+    this.save(address, { ...store, items: store.items.map(item => (item.id === id ? { ...item, read: true } : item)) });
+  }
+
+  markAllRead(address: string) {
+    const store = this.load(address);
+    this.save(address, { ...store, items: store.items.map(item => ({ ...item, read: true })) });
+  }
+
+  clear(address: string) {
+    this.save(address, { ...this.load(address), items: [] });
+  }
+
+  isBrowserAlertsEnabled(address: string): boolean {
+    return browserAlertsSupported() && Notification.permission === 'granted' && this.load(address).browserAlerts;
+  }
+
+  /**
+   * Turn browser alerts on or off. Enabling asks for permission and returns false if it was refused.
+   */
+  async setBrowserAlerts(address: string, enabled: boolean): Promise<boolean> {
+    if (enabled) {
+      if (!browserAlertsSupported()) return false;
+      const permission = Notification.permission === 'default'
+        ? await Notification.requestPermission()
+        : Notification.permission;
+      if (permission !== 'granted') {
+        this.notify();
+        return false;
+      }
+    }
+
+    this.save(address, { ...this.load(address), browserAlerts: enabled });
+    return true;
+  }
+
+  /**
+   * Sync the event index and add notifications for events since the last check.
+   * The first check for a wallet only records where to start, so old games do not flood the list.
+   * Concurrent checks for the same wallet share one run.
+   */
+  check(address: string): Promise<GameNotification[]> {
+    const normalized = address.toLowerCase();
+    const existing = this.checks.get(normalized);
+    if (existing) return existing;
+
+    const checkPromise = this.runCheck(normalized).finally(() => this.checks.delete(normalized));
+    this.checks.set(normalized, checkPromise);
+    return checkPromise;
+  }
+
+  private async runCheck(address: string): Promise<GameNotification[]> {
+    if (!eventIndex.isSupported()) return [];
+
+    const currentBlock = await getCurrentBlock();
+    const { lastCheckedBlock } = this.load(address);
+
+    if (lastCheckedBlock === null) {
+      this.save(address, { ...this.load(address), lastCheckedBlock: currentBlock });
+      return [];
+    }
+    if (currentBlock <= lastCheckedBlock) return [];
+
+    await syncAllGameEvents(currentBlock);
+
+    const decode = (events: IndexedGameEvent[]) =>
+      events
+        .map(toGameEvent)
+        .filter((event): event is GameEvent => event !== null)
+        .reverse();
+    const [mine, recent] = await Promise.all([
+      eventIndex.getEventsByParticipant(address).then(decode),
+      eventIndex.getEventsByBlockRange(lastCheckedBlock + 1, currentBlock).then(decode)
+    ]);
+
+    const drafts = buildNotifications(address, getWatchedGames(address, mine), recent);
+
+    // Only tell winners to claim when the claim would actually go through
+    const checked = await Promise.all(drafts.map(async draft => {
+      if (draft.type !== 'can_claim') return draft;
+      try {
+        const win = await getUnclaimedWin(draft.gameCode, address);
+        return win ? { ...draft, message: `Claim ${formatTokenDisplay(win.prize, win.token)}` } : null;
+      } catch (error) {
+        logger.warn('Could not check claim for notification', { component: 'NotificationCenter', gameCode: draft.gameCode, error });
+        return draft;
+      }
+    }));
+
+    const store = this.load(address);
+    const knownIds = new Set(store.items.map(item => item.id));
+    const added: GameNotification[] = checked
+      .filter((draft): draft is Omit<GameNotification, 'createdAt' | 'read'> => draft !== null && !knownIds.has(draft.id))
+      .map(draft => ({ ...draft, createdAt: Date.now(), read: false }));
+
+    this.save(address, {
+      ...store,
+      items: [...added.reverse(), ...store.items].slice(0, MAX_NOTIFICATIONS),
+      lastCheckedBlock: currentBlock
+    });
+
+    if (added.length > 0) {
+      console.log(`🔔 ${added.length} new notification${added.length === 1 ? '' : 's'} for ${formatAddress(address)}`);
+      if (this.isBrowserAlertsEnabled(address)) {
+        added.forEach(item => this.showBrowserAlert(item));
+      }
+    }
+    return added;
+  }
+
+  private showBrowserAlert(item: GameNotification) {
+    try {
+      const alert = new Notification(item.title, { body: item.message, tag: item.id, icon: '/favicon.ico' });
+      alert.onclick = () => {
+        window.focus();
+        alert.close();
+      };
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker
+      logger.warn('Browser notification failed', { component: 'NotificationCenter', error });
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const notificationCenter = new NotificationCenter();
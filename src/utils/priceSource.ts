@@ -0,0 +1,66 @@
+/**
+ * Price Sources
+ * Fiat value of a token at a point in time, for exports and reports. Sources are pluggable so a
+ * real price API can be dropped in; the fixture source backs tests and offline exports.
+ */
+
+export interface PriceQuery {
+  token: string; // Lowercased address, zero address for ETH
+  symbol: string;
+  timestamp: number; // ms
+  blockNumber: number | null;
+}
+
+export interface PriceSource {
+  name: string;
+  currency: string; // ISO 4217, e.g. USD
+  /** Price of one whole token, or null when the source does not know it */
+  getPrice(query: PriceQuery): Promise<number | null>;
+}
+
+export interface PriceFixture {
+  token: string; // Address or symbol
+  timestamp: number; // ms, the price applies from here until the next fixture for the token
+  price: number;
+}
+
+const USD_STABLECOINS = new Set(['USDC', 'USDBC', 'USDT', 'DAI', 'USDS', 'PYUSD']);
+
+/**
+ * Values dollar stablecoins at 1 and everything else as unknown. Needs no network, so it is the
+ * default until a market-data source is configured.
+ */
+export const stablecoinPriceSource: PriceSource = {
+  name: 'stablecoin-peg',
+  currency: 'USD',
+  getPrice: async ({ symbol }) => (USD_STABLECOINS.has(symbol.toUpperCase()) ? 1 : null)
+};
+
+/**
+ * Prices from a fixed table. A query gets the latest fixture for its token at or before the
+ * timestamp; tokens match by address or symbol, case-insensitively.
+ */
+export function createFixturePriceSource(fixtures: PriceFixture[], currency: string = 'USD'): PriceSource {
+  const byToken = new Map<string, PriceFixture[]>();
+  fixtures.forEach(fixture => {
+    const key = fixture.token.toLowerCase();
+    byToken.set(key, [...(byToken.get(key) || []), fixture]);
+  });
+  byToken.forEach(list => list.sort((a, b) => a.timestamp - b.timestamp));
+
+  const lookup = (key: string, timestamp: number): number | null => {
+    const list = byToken.get(key.toLowerCase()) || [];
+    let price: number | null = null;
+    for (const fixture of list) {
+      if (fixture.timestamp > timestamp) break;
+      price = fixture.price;
+    }
+    return price;
+  };
+
+  return {
+    name: 'fixture',
+    currency,
+    getPrice: async ({ token, symbol, timestamp }) => lookup(token, timestamp) ?? lookup(symbol, timestamp)
+  };
+}
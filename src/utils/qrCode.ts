@@ -0,0 +1,128 @@
+/**
+ * QR Codes
+ * Encoding game join links as QR codes for in-person games, and reading them back from the
+ * camera with the browser's BarcodeDetector (Chrome/Android) or, where that is missing
+ * (Safari, Firefox, desktop), with the jsQR decoder on canvas frames.
+ */
+
+import { encode } from 'uqr';
+import jsQR from 'jsqr';
+
+// Blank modules around the code; scanners need a quiet zone to find it
+export const QR_QUIET_ZONE = 2;
+
+/**
+ * Dark/light module grid for `text`, including the quiet zone. Medium error correction survives
+ * glare and a little beer on the screen without making the code too dense to read from across a table.
+ */
+export const getQrModules = (text: string): boolean[][] =>
+  encode(text, { ecc: 'M', border: QR_QUIET_ZONE }).data;
+
+/**
+ * SVG path drawing every dark module as a 1x1 square, for a `viewBox` of `0 0 size size`.
+ * Runs of dark modules in a row are merged into one rectangle to keep the path short.
+ */
+export const getQrSvgPath = (modules: boolean[][]): string => {
+  const segments: string[] = [];
+  modules.forEach((row, y) => {
+    let x = 0;
+    while (x < row.length) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < row.length && row[x]) x++;
+      segments.push(`M${start} ${y}h${x - start}v1h${start - x}z`);
+    }
+  });
+  return segments.join('');
+};
+
+// Minimal typing for the Barcode Detection API, which TypeScript's DOM lib does not include yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetector {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetector;
+  getSupportedFormats?: () => Promise<string[]>;
+}
+
+export interface QrDetector {
+  // The decoded text of a QR code in the current video frame, or null when there is none
+  detect(video: HTMLVideoElement): Promise<string | null>;
+}
+
+// Frames are scaled down to this many pixels on the long side before jsQR reads them; a code
+// held up to the camera stays readable and decoding keeps up with the scan interval
+const JSQR_MAX_FRAME_SIZE = 640;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null =>
+  typeof window !== 'undefined' && 'BarcodeDetector' in window
+    ? (window as unknown as { BarcodeDetector: BarcodeDetectorConstructor }).BarcodeDetector
+    : null;
+
+/**
+ * Whether this browser can scan QR codes from the camera
+ */
+export const isQrScanSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Decode a QR code from RGBA pixels (as in ImageData), or null when none is found
+ */
+export const decodeQrImage = (data: Uint8ClampedArray, width: number, height: number): string | null =>
+  jsQR(data, width, height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+
+const createBarcodeDetector = async (): Promise<QrDetector | null> => {
+  const BarcodeDetector = getBarcodeDetector();
+  if (!BarcodeDetector) return null;
+
+  try {
+    if (BarcodeDetector.getSupportedFormats) {
+      const formats = await BarcodeDetector.getSupportedFormats();
+      if (!formats.includes('qr_code')) return null;
+    }
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    return {
+      detect: async video => {
+        const [code] = await detector.detect(video);
+        return code?.rawValue || null;
+      }
+    };
+  } catch (error) {
+    console.warn('QR detector unavailable:', error);
+    return null;
+  }
+};
+
+const createCanvasDetector = (): QrDetector | null => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  return {
+    detect: async video => {
+      if (!video.videoWidth || !video.videoHeight) return null;
+      const scale = Math.min(1, JSQR_MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+      return decodeQrImage(frame.data, frame.width, frame.height);
+    }
+  };
+};
+
+/**
+ * A QR detector: the native BarcodeDetector when the browser has one that reads QR codes,
+ * otherwise jsQR on canvas frames. Null only when no canvas is available.
+ */
+export async function createQrDetector(): Promise<QrDetector | null> {
+  return (await createBarcodeDetector()) || createCanvasDetector();
+}
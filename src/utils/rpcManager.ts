@@ -1,8 +1,10 @@
 /**
  * RPC Endpoint Manager
- * Handles dynamic block limits, health monitoring, and smart fallback for Base network RPC endpoints
+ * Handles dynamic block limits, health monitoring, and smart fallback for the active chain's RPC endpoints
  */
 
+import { ACTIVE_CHAIN } from './chainRegistry';
+
 export interface RpcEndpointConfig {
   url: string;
   name: string;
@@ -20,70 +22,11 @@ export interface RpcEndpointConfig {
   };
 }
 
-// Base network RPC endpoints with their actual limitations
-export const BASE_RPC_ENDPOINTS: RpcEndpointConfig[] = [
-  {
-    url: 'https://mainnet.base.org',
-    name: 'Base Official',
-    maxBlockRange: 10000, // Conservative limit to avoid 503 errors
-    priority: 1,
-    hasCorsBrowser: true,
-    rateLimit: {
-      requestsPerSecond: 10,
-      burstLimit: 20
-    }
-  },
-  {
-    url: 'https://base.publicnode.com',
-    name: 'PublicNode',
-    maxBlockRange: 50000, // Known limit from error logs
-    priority: 2,
-    hasCorsBrowser: true,
-    rateLimit: {
-      requestsPerSecond: 15,
-      burstLimit: 30
-    }
-  },
-  {
-    url: 'https://base.llamarpc.com',
-    name: 'LlamaRPC',
-    maxBlockRange: 1000, // Known limit from error logs
-    priority: 3,
-    hasCorsBrowser: true,
-    rateLimit: {
-      requestsPerSecond: 20,
-      burstLimit: 40
-    }
-  },
-  {
-    url: 'https://base-mainnet.g.alchemy.com/v2/demo',
-    name: 'Alchemy Demo',
-    maxBlockRange: 2000,
-    priority: 4,
-    hasCorsBrowser: false, // CORS issues in browser
-    rateLimit: {
-      requestsPerSecond: 5,
-      burstLimit: 10
-    }
-  },
-  {
-    url: 'https://base.meowrpc.com',
-    name: 'MeowRPC',
-    maxBlockRange: 5000,
-    priority: 5,
-    hasCorsBrowser: false, // CORS issues in browser
-    rateLimit: {
-      requestsPerSecond: 10,
-      burstLimit: 20
-    }
-  }
-];
-
 export class RpcManager {
   private endpoints: RpcEndpointConfig[];
   private requestCounts: Map<string, { count: number; resetTime: number }> = new Map();
 
-  constructor(endpoints: RpcEndpointConfig[] = BASE_RPC_ENDPOINTS) {
+  constructor(endpoints: RpcEndpointConfig[] = ACTIVE_CHAIN.rpcEndpoints) {
     this.endpoints = [...endpoints];
   }
 
@@ -366,5 +309,33 @@ export class RpcManager {
   }
 }
 
+/**
+ * Single JSON-RPC call against an endpoint, for use as an executeWithRetry request function.
+ * Throws on HTTP and JSON-RPC errors so the manager records the failure and moves on.
+ */
+export async function rpcRequest<T = any>(endpoint: RpcEndpointConfig, method: string, params: any[] = []): Promise<T> {
+  const response = await fetch(endpoint.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      method,
+      params,
+      id: Date.now(),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (data.error) {
+    throw new Error(`RPC Error: ${data.error.message}`);
+  }
+
+  return data.result as T;
+}
+
 // Singleton instance
 export const rpcManager = new RpcManager();
\ No newline at end of file
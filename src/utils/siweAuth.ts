@@ -0,0 +1,259 @@
+/**
+ * SIWE Auth
+ * Sign-In With Ethereum (EIP-4361) sessions for Supabase. The connected account signs a login
+ * message with a one-time nonce; a verifier checks it and returns a JWT that the Supabase client
+ * sends with every request, so row-level security can bind rows to `wallet_address`.
+ */
+
+import { signLoginPayload, createAuth } from 'thirdweb/auth';
+import type { AuthOptions, LoginPayload } from 'thirdweb/auth';
+import type { Account } from 'thirdweb/wallets';
+import { getEnvVar } from './envUtils';
+import { logger } from './logger';
+
+const STORAGE_PREFIX = 'saltfree-siwe:';
+export const SIWE_STATEMENT = 'Sign in to Salt-Free to manage your profile, game lists and history.';
+export const SIWE_SESSION_SECONDS = 24 * 60 * 60;
+// Treat a session as expired slightly early so a request never goes out with a dying token
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface SiweSession {
+  address: string; // Lowercased
+  token: string; // JWT sent to Supabase as the bearer token
+  expiresAt: number; // ms
+}
+
+/**
+ * Issues login payloads and exchanges signed ones for a session token.
+ * Production uses an HTTP endpoint that holds the Supabase JWT secret; development can use the
+ * local verifier below.
+ */
+export interface SiweVerifier {
+  name: string;
+  getLoginPayload(address: string, chainId: number): Promise<LoginPayload>;
+  verify(payload: LoginPayload, signature: string): Promise<{ token: string; expiresAt: number }>;
+}
+
+const postJson = async <T>(url: string, body: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const message = await response.text().catch(() => '');
+    throw new Error(message || `Sign-in request failed (${response.status})`);
+  }
+  return response.json();
+};
+
+/**
+ * Verifier backed by an auth server (e.g. a Supabase Edge Function).
+ * `POST {baseUrl}/payload {address, chainId}` returns a LoginPayload;
+ * `POST {baseUrl}/login {payload, signature}` returns `{token, expiresAt}`.
+ */
+export const createHttpSiweVerifier = (baseUrl: string): SiweVerifier => {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    name: 'http',
+    getLoginPayload: (address, chainId) => postJson<LoginPayload>(`${root}/payload`, { address, chainId }),
+    verify: (payload, signature) => postJson<{ token: string; expiresAt: number }>(`${root}/login`, { payload, signature }),
+  };
+};
+
+const base64Url = (input: string | Uint8Array): string => {
+  const binary = typeof input === 'string' ? input : Array.from(input, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Sign an HS256 JWT with Web Crypto
+ */
+export async function signJwt(claims: Record<string, unknown>, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const unsigned = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(unsigned));
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * In-browser verifier for local development and tests. It checks the EIP-4361 message and
+ * signature for real, then signs a Supabase-style JWT with `jwtSecret` (a local Supabase
+ * project's secret). Never configure it with a production secret: anyone can read it.
+ */
+export const createLocalSiweVerifier = (options: { domain: string; jwtSecret: string; client?: AuthOptions['client'] }): SiweVerifier => {
+  const nonces = new Set<string>();
+  const auth = createAuth({
+    domain: options.domain,
+    client: options.client,
+    login: {
+      statement: SIWE_STATEMENT,
+      nonce: {
+        generate: () => {
+          const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+          nonces.add(nonce);
+          return nonce;
+        },
+        // Nonces are single use
+        validate: nonce => nonces.delete(nonce),
+      },
+    },
+  });
+
+  return {
+    name: 'local',
+    getLoginPayload: (address, chainId) => auth.generatePayload({ address, chainId }),
+    async verify(payload, signature) {
+      const result = await auth.verifyPayload({ payload, signature });
+      if (!result.valid) throw new Error(result.error);
+
+      const address = result.payload.address.toLowerCase();
+      const issuedAt = Math.floor(Date.now() / 1000);
+      const token = await signJwt({
+        aud: 'authenticated',
+        role: 'authenticated',
+        sub: address,
+        wallet_address: address,
+        iat: issuedAt,
+        exp: issuedAt + SIWE_SESSION_SECONDS,
+      }, options.jwtSecret);
+      return { token, expiresAt: (issuedAt + SIWE_SESSION_SECONDS) * 1000 };
+    },
+  };
+};
+
+const createDefaultVerifier = (): SiweVerifier | null => {
+  const authUrl = getEnvVar('REACT_APP_SIWE_AUTH_URL');
+  if (authUrl) return createHttpSiweVerifier(authUrl);
+
+  const devSecret = getEnvVar('REACT_APP_SIWE_DEV_JWT_SECRET');
+  if (devSecret && process.env.NODE_ENV !== 'production' && typeof window !== 'undefined') {
+    return createLocalSiweVerifier({ domain: window.location.host, jwtSecret: devSecret });
+  }
+  return null;
+};
+
+const storageKey = (address: string) => `${STORAGE_PREFIX}${address.toLowerCase()}`;
+
+class SiweAuth {
+  private sessions = new Map<string, SiweSession | null>();
+  private signIns = new Map<string, Promise<SiweSession>>();
+  private listeners = new Set<() => void>();
+  private activeAddress: string | null = null;
+
+  constructor(private verifier: SiweVerifier | null) {}
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private persist(address: string, session: SiweSession | null) {
+    const key = storageKey(address);
+    this.sessions.set(key, session);
+    try {
+      if (session) {
+        localStorage.setItem(key, JSON.stringify(session));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      logger.warn('Failed to persist sign-in session', { component: 'SiweAuth', error });
+    }
+    this.notify();
+  }
+
+  /**
+   * Without a verifier the app runs in the legacy anon-key mode and never asks for a signature
+   */
+  isConfigured(): boolean {
+    return this.verifier !== null;
+  }
+
+  setVerifier(verifier: SiweVerifier | null) {
+    this.verifier = verifier;
+    this.notify();
+  }
+
+  /**
+   * The wallet whose session (if any) authenticates database requests
+   */
+  setActiveAddress(address?: string | null) {
+    const next = address ? address.toLowerCase() : null;
+    if (next === this.activeAddress) return;
+    this.activeAddress = next;
+    this.notify();
+  }
+
+  getSession(address: string): SiweSession | null {
+    const key = storageKey(address);
+    if (!this.sessions.has(key)) {
+      let stored: SiweSession | null = null;
+      try {
+        const raw = localStorage.getItem(key);
+        if (raw) stored = JSON.parse(raw);
+      } catch (error) {
+        logger.warn('Failed to load sign-in session', { component: 'SiweAuth', error });
+      }
+      this.sessions.set(key, stored);
+    }
+
+    const session = this.sessions.get(key);
+    return session && session.expiresAt - EXPIRY_MARGIN_MS > Date.now() ? session : null;
+  }
+
+  isSignedIn(address?: string | null): boolean {
+    return !!address && this.getSession(address) !== null;
+  }
+
+  /**
+   * Token for the active wallet, or null to fall back to the anon key
+   */
+  getAccessToken(): string | null {
+    return this.activeAddress ? this.getSession(this.activeAddress)?.token ?? null : null;
+  }
+
+  /**
+   * Ask the account to sign a login message and store the resulting session.
+   * Concurrent calls for the same wallet share one signature request.
+   */
+  signIn(account: Account, chainId: number): Promise<SiweSession> {
+    const address = account.address.toLowerCase();
+    const existing = this.getSession(address);
+    if (existing) return Promise.resolve(existing);
+
+    const pending = this.signIns.get(address);
+    if (pending) return pending;
+
+    const verifier = this.verifier;
+    if (!verifier) return Promise.reject(new Error('Sign-in is not configured'));
+
+    const run = (async () => {
+      console.log('🔏 Requesting Sign-In With Ethereum for', address);
+      const payload = await verifier.getLoginPayload(account.address, chainId);
+      const { signature } = await signLoginPayload({ payload, account });
+      const { token, expiresAt } = await verifier.verify(payload, signature);
+
+      const session: SiweSession = { address, token, expiresAt };
+      this.persist(address, session);
+      console.log('✅ Signed in with Ethereum until', new Date(expiresAt).toISOString());
+      return session;
+    })();
+
+    this.signIns.set(address, run);
+    return run.finally(() => this.signIns.delete(address));
+  }
+
+  signOut(address: string) {
+    this.persist(address.toLowerCase(), null);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const siweAuth = new SiweAuth(createDefaultVerifier());
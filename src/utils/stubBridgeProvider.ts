@@ -0,0 +1,77 @@
+/**
+ * Stub Bridge Provider
+ * Offline stand-in for the thirdweb bridge, used with REACT_APP_BRIDGE_PROVIDER=stub and in tests
+ */
+
+import type {
+  BridgeQuote,
+  BridgeQuoteProvider,
+  BridgeQuoteRequest,
+  BridgeStatusResult,
+  BridgeTransaction
+} from './bridgeProviders';
+
+/**
+ * Deterministic provider for local testing - quotes a single zero-fee step and
+ * reports completion after `pendingPolls` status checks.
+ */
+export const createStubBridgeProvider = (options: { pendingPolls?: number; feeBps?: number } = {}): BridgeQuoteProvider => {
+  const { pendingPolls = 1, feeBps = 0 } = options;
+  const pollCounts = new Map<string, number>();
+  const quotedAmounts = new Map<string, bigint>();
+
+  return {
+    name: 'stub',
+
+    async getQuote(request: BridgeQuoteRequest): Promise<BridgeQuote> {
+      const originAmount = request.amount + (request.amount * BigInt(feeBps)) / BigInt(10000);
+      const txId = `0x${(quotedAmounts.size + 1).toString(16).padStart(64, '0')}`;
+      quotedAmounts.set(txId, request.amount);
+
+      return {
+        ...request,
+        originAmount,
+        destinationAmount: request.amount,
+        originDecimals: 18,
+        destinationDecimals: 18,
+        feeUsd: 0,
+        estimatedTimeMs: 1000,
+        expiresAt: Date.now() + 5 * 60 * 1000,
+        steps: [{
+          originSymbol: 'STUB',
+          originChainId: request.originChainId,
+          destinationSymbol: 'STUB',
+          destinationChainId: request.destinationChainId,
+          originAmount,
+          destinationAmount: request.amount,
+          estimatedExecutionTimeMs: 1000,
+          transactions: [{
+            id: txId,
+            chainId: request.originChainId,
+            to: request.receiver,
+            data: '0x',
+            value: BigInt(0),
+            action: 'buy'
+          }]
+        }]
+      };
+    },
+
+    async getStatus(transactionHash: string, chainId: number, transactionId?: string): Promise<BridgeStatusResult> {
+      const key = transactionId || transactionHash;
+      const polls = (pollCounts.get(key) || 0) + 1;
+      pollCounts.set(key, polls);
+
+      const transactions = [{ chainId, transactionHash }];
+      if (polls <= pendingPolls) {
+        return { status: 'pending', transactions };
+      }
+      return { status: 'completed', destinationAmount: quotedAmounts.get(key), transactions };
+    },
+
+    // Never touches the wallet - the transaction id doubles as the hash
+    async sendTransaction(transaction: BridgeTransaction): Promise<string> {
+      return transaction.id;
+    }
+  };
+};
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { databaseService } from '../services/databaseService';
+import { siweAuth } from './siweAuth';
 
 export interface SupabaseHealthCheck {
   connection: boolean;
@@ -43,20 +44,16 @@ export const runSupabaseHealthCheck = async (walletAddress?: string): Promise<Su
   }
 
   // 2. Test authentication context
-  try {
-    console.log('🔐 Testing authentication context...');
-    const { data: { user }, error } = await supabase.auth.getUser();
-    
-    if (error && error.message !== 'Auth session missing!') {
-      result.errors.push(`Auth error: ${error.message}`);
-      console.error('❌ Auth test failed:', error);
-    } else {
-      result.authentication = true;
-      console.log('✅ Auth context available (anonymous)');
-    }
-  } catch (error: any) {
-    result.errors.push(`Auth error: ${error.message}`);
-    console.error('❌ Auth error:', error);
+  console.log('🔐 Testing Sign-In With Ethereum session...');
+  if (!siweAuth.isConfigured()) {
+    result.errors.push('Auth not configured: requests use the anon key, so RLS cannot tell wallets apart');
+    console.warn('⚠️ Sign-In With Ethereum is not configured (REACT_APP_SIWE_AUTH_URL)');
+  } else if (!walletAddress || !siweAuth.isSignedIn(walletAddress)) {
+    result.errors.push('Auth session missing: sign in with your wallet before writing');
+    console.warn('⚠️ No Sign-In With Ethereum session for', walletAddress);
+  } else {
+    result.authentication = true;
+    console.log('✅ Signed in with Ethereum as', walletAddress);
   }
 
   // 3. Test user table access (read)
@@ -149,6 +146,10 @@ export const runSupabaseHealthCheck = async (walletAddress?: string): Promise<Su
       if (error) {
         result.errors.push(`RLS policy issue: ${error.message}`);
         console.error('❌ RLS policy test failed:', error);
+      } else if (!data || data.length === 0) {
+        // RLS filters rows the session may not touch instead of raising an error
+        result.errors.push('RLS policy issue: update matched no rows for this session');
+        console.error('❌ RLS policies did not allow the update');
       } else {
         console.log('✅ RLS policies allow updates');
       }
@@ -0,0 +1,87 @@
+/**
+ * Token Lists
+ * Validation for imported Uniswap-format token lists. Only one chain's tokens are kept, so a
+ * multi-chain list stays small enough to store in localStorage.
+ */
+
+import type { ImportedTokenList, TokenSource } from './tokenRegistry';
+import { validation } from './envUtils';
+
+export const FEE_TAG_PATTERN = /fee.?on.?transfer|\btax|deflationary/i;
+
+export const FEE_WARNING = 'This token may take a fee on every transfer, so the game could receive less than the buy-in and payouts can fail.';
+
+export const normalizeTokenAddress = (address: string) => address.trim().toLowerCase();
+
+// Only http(s) and data URIs are safe to drop into an <img>
+export const safeLogo = (logoURI?: unknown): string => {
+  if (typeof logoURI !== 'string') return '';
+  if (logoURI.startsWith('ipfs://')) return `https://ipfs.io/ipfs/${logoURI.slice(7)}`;
+  return /^(https:|data:image\/)/.test(logoURI) ? logoURI : '';
+};
+
+/**
+ * Validate a parsed token list and keep its well-formed tokens on `chainId`. Malformed
+ * entries are skipped; throws when the list itself is malformed or has nothing for the chain.
+ * @param raw - Parsed JSON of the list
+ * @param chainId - Chain whose tokens are kept
+ * @param chainName - Used in the error when the list has no tokens on the chain
+ * @param url - Where the list was downloaded from, if anywhere
+ */
+export const parseTokenList = (raw: any, chainId: number, chainName: string, url?: string): ImportedTokenList => {
+  if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.tokens)) {
+    throw new Error('Not a token list: expected a "name" and a "tokens" array');
+  }
+
+  // Tags are ids into the list's tag map, so match both the id and its display name
+  const tagNames = (tagIds: unknown): string[] => Array.isArray(tagIds)
+    ? tagIds.map(id => `${id} ${raw.tags?.[id]?.name || ''}`)
+    : [];
+
+  const valid = (raw.tokens as any[]).filter(token =>
+    token &&
+    Number.isInteger(token.chainId) &&
+    typeof token.address === 'string' && validation.ethereumAddress(token.address) &&
+    typeof token.symbol === 'string' && token.symbol.trim() !== '' &&
+    Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 255
+  );
+
+  if (valid.length === 0) {
+    throw new Error('The token list has no valid tokens');
+  }
+
+  const tokens = valid
+    .filter(token => token.chainId === chainId)
+    .map(token => {
+      const isFeeOnTransfer = tagNames(token.tags).some(tag => FEE_TAG_PATTERN.test(tag));
+      return {
+        chainId: token.chainId as number,
+        address: normalizeTokenAddress(token.address),
+        symbol: token.symbol.trim().slice(0, 32),
+        name: typeof token.name === 'string' ? token.name.trim().slice(0, 64) : token.symbol,
+        decimals: token.decimals as number,
+        icon: safeLogo(token.logoURI),
+        source: 'list' as TokenSource,
+        listName: raw.name,
+        isNonStandard: false,
+        isFeeOnTransfer,
+        warnings: isFeeOnTransfer ? [FEE_WARNING] : []
+      };
+    });
+
+  if (tokens.length === 0) {
+    throw new Error(`"${raw.name}" has no tokens on ${chainName}`);
+  }
+
+  const version = raw.version && typeof raw.version === 'object'
+    ? `${raw.version.major ?? 0}.${raw.version.minor ?? 0}.${raw.version.patch ?? 0}`
+    : undefined;
+
+  return {
+    name: raw.name,
+    url,
+    version,
+    importedAt: Date.now(),
+    tokens
+  };
+};
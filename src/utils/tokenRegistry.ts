@@ -0,0 +1,343 @@
+/**
+ * Token Registry
+ * Metadata for every token a game can use on the active chain: the chain's built-in tokens,
+ * tokens from imported token lists (Uniswap token-list JSON) and tokens discovered on-chain.
+ * Discovered metadata and imported lists are cached in localStorage per chain.
+ */
+
+import { readContract } from 'thirdweb/transaction';
+import { getRpcClient, eth_getCode } from 'thirdweb/rpc';
+import { hexToString } from 'thirdweb/utils';
+import { client, chain, getERC20Contract, isETH } from '../thirdweb';
+import { ACTIVE_CHAIN, TokenInfo } from './chainRegistry';
+import { validation } from './envUtils';
+import { FEE_WARNING, normalizeTokenAddress as normalize, parseTokenList } from './tokenLists';
+import { logger } from './logger';
+
+export type TokenSource = 'builtin' | 'list' | 'chain';
+
+export interface RegisteredToken extends TokenInfo {
+  source: TokenSource;
+  listName?: string;
+  isNonStandard: boolean; // Metadata needed a fallback ABI (bytes32 symbol, missing name...) or decimals look wrong
+  isFeeOnTransfer: boolean; // Suspected: exposes tax/fee getters or is tagged as such in an imported list
+  warnings: string[];
+}
+
+export interface ImportedTokenList {
+  name: string;
+  url?: string;
+  version?: string;
+  importedAt: number;
+  tokens: (RegisteredToken & { chainId: number })[];
+}
+
+export interface TokenListImportResult {
+  success: boolean;
+  list?: ImportedTokenList;
+  tokensForChain?: number; // How many of the list's tokens are on the active chain (the ones kept)
+  error?: string;
+}
+
+const CACHE_KEY = `saltfree-token-registry:${ACTIVE_CHAIN.chain.id}`;
+const LISTS_KEY = `saltfree-token-lists:${ACTIVE_CHAIN.chain.id}`;
+// Lists for every chain used to share this key; it is split per chain on first load
+const LEGACY_LISTS_KEY = 'saltfree-token-lists';
+const MAX_DECIMALS = 36;
+
+// Getters that tax tokens commonly expose; any of them returning a non-zero fee flags the token
+const FEE_GETTERS = ['taxFee', '_taxFee', 'liquidityFee', '_liquidityFee', 'buyFee', 'sellFee', 'transferFee', 'totalFees'];
+
+// bytes32 metadata (MKR-style tokens) is right-padded with zero bytes
+const decodeBytes32 = (value: string): string => {
+  try {
+    return hexToString(value as `0x${string}`).replace(/\0+$/, '').trim();
+  } catch {
+    return '';
+  }
+};
+
+class TokenRegistry {
+  private builtin = new Map<string, RegisteredToken>();
+  private discovered = new Map<string, RegisteredToken>();
+  private lists: ImportedTokenList[] = [];
+  private pending = new Map<string, Promise<RegisteredToken>>();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    ACTIVE_CHAIN.tokens.forEach(token => {
+      this.builtin.set(normalize(token.address), {
+        ...token,
+        source: 'builtin',
+        isNonStandard: false,
+        isFeeOnTransfer: false,
+        warnings: []
+      });
+    });
+
+    try {
+      const cached = localStorage.getItem(CACHE_KEY);
+      if (cached) {
+        Object.entries(JSON.parse(cached) as Record<string, RegisteredToken>)
+          .forEach(([address, token]) => this.discovered.set(address, token));
+      }
+      const lists = localStorage.getItem(LISTS_KEY);
+      if (lists) this.lists = JSON.parse(lists);
+    } catch (error) {
+      logger.warn('Failed to load cached token metadata', { component: 'TokenRegistry', error });
+    }
+
+    this.migrateLegacyLists();
+  }
+
+  // Moves this chain's tokens out of the shared legacy entry, leaving other chains' for them
+  private migrateLegacyLists() {
+    try {
+      const legacy = localStorage.getItem(LEGACY_LISTS_KEY);
+      if (!legacy) return;
+
+      const remaining: ImportedTokenList[] = [];
+      (JSON.parse(legacy) as ImportedTokenList[]).forEach(list => {
+        const onChain = list.tokens.filter(token => token.chainId === ACTIVE_CHAIN.chain.id);
+        const otherChains = list.tokens.filter(token => token.chainId !== ACTIVE_CHAIN.chain.id);
+        if (onChain.length > 0 && !this.lists.some(existing => existing.name === list.name)) {
+          this.lists.push({ ...list, tokens: onChain });
+        }
+        if (otherChains.length > 0) remaining.push({ ...list, tokens: otherChains });
+      });
+
+      // The legacy entry is only shrunk once this chain's lists are safely stored
+      if (!this.persistLists()) return;
+      if (remaining.length > 0) {
+        localStorage.setItem(LEGACY_LISTS_KEY, JSON.stringify(remaining));
+      } else {
+        localStorage.removeItem(LEGACY_LISTS_KEY);
+      }
+    } catch (error) {
+      logger.warn('Failed to migrate imported token lists', { component: 'TokenRegistry', error });
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private persist() {
+    try {
+      const cached: Record<string, RegisteredToken> = {};
+      this.discovered.forEach((token, address) => {
+        cached[address] = token;
+      });
+      localStorage.setItem(CACHE_KEY, JSON.stringify(cached));
+    } catch (error) {
+      logger.warn('Failed to persist token metadata', { component: 'TokenRegistry', error });
+    }
+  }
+
+  // Returns false when the lists could not be saved (usually the storage quota)
+  private persistLists(): boolean {
+    try {
+      if (this.lists.length === 0) {
+        localStorage.removeItem(LISTS_KEY);
+      } else {
+        localStorage.setItem(LISTS_KEY, JSON.stringify(this.lists));
+      }
+      return true;
+    } catch (error) {
+      logger.warn('Failed to persist token lists', { component: 'TokenRegistry', error });
+      return false;
+    }
+  }
+
+  private getListToken(address: string): RegisteredToken | undefined {
+    for (const list of this.lists) {
+      const token = list.tokens.find(entry => entry.chainId === ACTIVE_CHAIN.chain.id && normalize(entry.address) === address);
+      if (token) return token;
+    }
+    return undefined;
+  }
+
+  private async readText(address: string, method: 'symbol' | 'name'): Promise<{ value: string; nonStandard: boolean }> {
+    const contract = getERC20Contract(address);
+    try {
+      const value = await readContract({ contract, method: `function ${method}() view returns (string)`, params: [] }) as string;
+      return { value: value.trim(), nonStandard: false };
+    } catch {
+      try {
+        const raw = await readContract({ contract, method: `function ${method}() view returns (bytes32)`, params: [] }) as string;
+        return { value: decodeBytes32(raw), nonStandard: true };
+      } catch {
+        return { value: '', nonStandard: true };
+      }
+    }
+  }
+
+  private async hasTransferFee(address: string): Promise<boolean> {
+    const contract = getERC20Contract(address);
+    const results = await Promise.allSettled(FEE_GETTERS.map(getter =>
+      readContract({ contract, method: `function ${getter}() view returns (uint256)`, params: [] })
+    ));
+    return results.some(result => result.status === 'fulfilled' && (result.value as bigint) > BigInt(0));
+  }
+
+  private async fetchToken(address: string): Promise<RegisteredToken> {
+    const rpcClient = getRpcClient({ client, chain });
+    const code = await eth_getCode(rpcClient, { address: address as `0x${string}` });
+    if (!code || code === '0x') {
+      throw new Error(`No token contract found at ${address} on ${ACTIVE_CHAIN.name}`);
+    }
+
+    let decimals: number;
+    try {
+      decimals = Number(await readContract({
+        contract: getERC20Contract(address),
+        method: "function decimals() view returns (uint8)",
+        params: []
+      }));
+    } catch {
+      throw new Error('This address is not an ERC-20 token (it has no decimals())');
+    }
+
+    const [symbol, name, feeOnTransfer] = await Promise.all([
+      this.readText(address, 'symbol'),
+      this.readText(address, 'name'),
+      this.hasTransferFee(address)
+    ]);
+
+    const listToken = this.getListToken(address);
+    const warnings: string[] = [];
+    if (symbol.nonStandard || name.nonStandard) {
+      warnings.push('This token does not follow the ERC-20 metadata standard.');
+    }
+    if (decimals > MAX_DECIMALS) {
+      warnings.push(`This token reports ${decimals} decimals, which is unusual.`);
+    }
+    if (listToken && listToken.decimals !== decimals) {
+      warnings.push(`The "${listToken.listName}" list says ${listToken.decimals} decimals but the contract reports ${decimals}.`);
+    }
+    const isFeeOnTransfer = feeOnTransfer || !!listToken?.isFeeOnTransfer;
+    if (isFeeOnTransfer) warnings.push(FEE_WARNING);
+
+    return {
+      address,
+      symbol: symbol.value || listToken?.symbol || `${address.slice(0, 6)}…`,
+      name: name.value || listToken?.name || 'Unknown Token',
+      decimals,
+      icon: listToken?.icon || '',
+      source: 'chain',
+      listName: listToken?.listName,
+      isNonStandard: symbol.nonStandard || name.nonStandard || decimals > MAX_DECIMALS,
+      isFeeOnTransfer,
+      warnings
+    };
+  }
+
+  /**
+   * Known metadata for a token, without any network calls. Built-in tokens win over
+   * on-chain reads, which win over imported lists.
+   */
+  getToken(address: string): RegisteredToken | undefined {
+    if (!address) return undefined;
+    const key = normalize(address);
+    return this.builtin.get(key) || this.discovered.get(key) || this.getListToken(key);
+  }
+
+  /**
+   * Read a token's metadata from the chain (once; later calls hit the cache).
+   * Throws when the address is not an ERC-20 contract on the active chain.
+   */
+  async resolveToken(address: string, forceRefresh: boolean = false): Promise<RegisteredToken> {
+    const key = normalize(address);
+    if (!validation.ethereumAddress(key) && !isETH(key)) {
+      throw new Error('Enter a valid token address (0x followed by 40 hex characters)');
+    }
+
+    const builtin = this.builtin.get(key);
+    if (builtin) return builtin;
+    if (!forceRefresh && this.discovered.has(key)) return this.discovered.get(key)!;
+
+    const existing = this.pending.get(key);
+    if (existing) return existing;
+
+    const request = this.fetchToken(key)
+      .then(token => {
+        this.discovered.set(key, token);
+        this.persist();
+        this.notify();
+        console.log(`🪙 Resolved token ${token.symbol} (${token.decimals} decimals) at ${key}`);
+        return token;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * Every token known on the active chain, built-in tokens first
+   */
+  getKnownTokens(): RegisteredToken[] {
+    const tokens = new Map<string, RegisteredToken>();
+    this.lists.forEach(list => list.tokens
+      .filter(token => token.chainId === ACTIVE_CHAIN.chain.id)
+      .forEach(token => tokens.set(normalize(token.address), token)));
+    this.discovered.forEach((token, address) => tokens.set(address, token));
+    this.builtin.forEach((token, address) => tokens.delete(address));
+    return [...Array.from(this.builtin.values()), ...Array.from(tokens.values())];
+  }
+
+  getTokenLists(): ImportedTokenList[] {
+    return this.lists;
+  }
+
+  /**
+   * Import a Uniswap-format token list from a URL or pasted JSON. Only the active chain's
+   * tokens are kept. Re-importing a list with the same name replaces it. Entries that fail
+   * validation are skipped.
+   */
+  async importTokenList(source: string): Promise<TokenListImportResult> {
+    try {
+      const trimmed = source.trim();
+      const isUrl = /^https?:\/\//i.test(trimmed);
+      let raw: any;
+      if (isUrl) {
+        const response = await fetch(trimmed);
+        if (!response.ok) throw new Error(`Could not download token list (HTTP ${response.status})`);
+        raw = await response.json();
+      } else {
+        raw = JSON.parse(trimmed);
+      }
+
+      const list = parseTokenList(raw, ACTIVE_CHAIN.chain.id, ACTIVE_CHAIN.name, isUrl ? trimmed : undefined);
+
+      const previous = this.lists;
+      this.lists = [...this.lists.filter(existing => existing.name !== list.name), list];
+      if (!this.persistLists()) {
+        this.lists = previous;
+        throw new Error(`"${list.name}" is too large to save in this browser`);
+      }
+      this.notify();
+
+      console.log(`📋 Imported token list "${list.name}": ${list.tokens.length} tokens on ${ACTIVE_CHAIN.name}`);
+      return { success: true, list, tokensForChain: list.tokens.length };
+    } catch (error: any) {
+      console.error('❌ Token list import failed:', error);
+      return { success: false, error: error instanceof SyntaxError ? 'Token list is not valid JSON' : error.message || 'Token list import failed' };
+    }
+  }
+
+  removeTokenList(name: string) {
+    this.lists = this.lists.filter(list => list.name !== name);
+    this.persistLists();
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const tokenRegistry = new TokenRegistry();
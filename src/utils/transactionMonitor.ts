@@ -1,6 +1,7 @@
 import { waitForReceipt, getContractEvents } from 'thirdweb';
-import { getGameContract, decodeStringFromHex, decodeGameStartedEvent, client, chain } from '../thirdweb';
+import { getGameContract, client, chain } from '../thirdweb';
 import { pollForNewGame } from './gamePolling';
+import { decodeGameEvent } from './gameEvents';
 
 export interface TransactionStatus {
   status: 'pending' | 'confirming' | 'confirmed' | 'extracting' | 'complete' | 'failed' | 'timeout';
@@ -130,8 +131,6 @@ async function extractGameCodeFromTransaction(
   console.log('🔍 Extracting game code from transaction receipt');
   
   let gameCode = 'UNKNOWN';
-  // Updated with the correct topic signature calculated from GameStarted(string,address,address,uint256,uint256,address[])
-  const GAME_STARTED_TOPIC = '0xf38f031a0916124649a52ef62ca68c773c22f2386d78bb4aed755a298c7b18d3';
   
   // Method 1: Analyze transaction logs
   if (receipt.logs && receipt.logs.length > 0) {
@@ -146,37 +145,13 @@ async function extractGameCodeFromTransaction(
         data: log.data ? `${log.data.slice(0, 20)}...` : 'null'
       });
       
-      console.log(`🔍 Checking topic match for log ${i}:`);
-      console.log(`  Expected: ${GAME_STARTED_TOPIC.toLowerCase()}`);
-      console.log(`  Actual:   ${log.topics?.[0]?.toLowerCase()}`);
-      console.log(`  Match:    ${log.topics?.[0]?.toLowerCase() === GAME_STARTED_TOPIC.toLowerCase()}`);
-      
-      if (log.topics && log.topics[0] && 
-          log.topics[0].toLowerCase() === GAME_STARTED_TOPIC.toLowerCase()) {
-        
-        console.log('🎯 Found GameStarted event! Full log data:', log.data);
-        
-        if (log.data) {
-          try {
-            // Try the new GameStarted event decoder first
-            const eventData = decodeGameStartedEvent(log.data);
-            if (eventData && eventData.code && eventData.code.length >= 3 && eventData.code.length <= 10) {
-              gameCode = eventData.code;
-              console.log('✅ Method 1: Extracted game code from GameStarted event:', gameCode);
-              console.log('📊 Event details:', eventData);
-              return gameCode;
-            }
-            
-            // Fallback to old string decoder
-            const extractedCode = decodeStringFromHex(log.data);
-            if (extractedCode && extractedCode.length >= 3 && extractedCode.length <= 10) {
-              gameCode = extractedCode;
-              console.log('✅ Method 1: Extracted game code from fallback decoder:', gameCode);
-              return gameCode;
-            }
-          } catch (err) {
-            console.log('❌ Method 1: Failed to decode log data:', err);
-          }
+      const event = decodeGameEvent(log);
+      if (event?.name === 'GameStarted') {
+        console.log('🎯 Found GameStarted event:', event);
+        if (event.code.length >= 3 && event.code.length <= 10) {
+          gameCode = event.code;
+          console.log('✅ Method 1: Extracted game code from GameStarted event:', gameCode);
+          return gameCode;
         }
       }
     }
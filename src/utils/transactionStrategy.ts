@@ -0,0 +1,169 @@
+/**
+ * Transaction Strategy
+ * Runs game actions through the gasless relay first and falls back to a direct wallet
+ * transaction when the relay is unreachable, so callers handle a single RelayResult.
+ */
+
+import { prepareContractCall } from 'thirdweb/transaction';
+import { getGameContract } from '../thirdweb';
+import { getUserNonce } from './metaTxHelper';
+import {
+  RelayResult,
+  GaslessOptions,
+  GAME_METHODS,
+  GASLESS_FALLBACK_MESSAGES,
+  promptSelfPaidFallback,
+  sendSelfPaid,
+  gaslessCreateGame,
+  gaslessLockGame,
+  gaslessReportWinners,
+  gaslessClaimWinnings
+} from './gaslessHelper';
+
+export type GameAction =
+  | {
+      type: 'create';
+      buyInAmount: bigint | string;
+      buyInToken: string;
+      maxPlayers: number;
+      judgeList?: string[];
+      prizeSplits?: number[];
+    }
+  | { type: 'lock'; gameCode: string }
+  | { type: 'report'; gameCode: string; winners: string[] }
+  | { type: 'claim'; gameCode: string };
+
+const runRelay = (account: any, action: GameAction, options: GaslessOptions): Promise<RelayResult> => {
+  switch (action.type) {
+    case 'create':
+      return gaslessCreateGame(
+        account,
+        action.buyInAmount,
+        action.buyInToken,
+        action.maxPlayers,
+        action.judgeList,
+        action.prizeSplits,
+        options
+      );
+    case 'lock':
+      return gaslessLockGame(account, action.gameCode, options);
+    case 'report':
+      return gaslessReportWinners(account, action.gameCode, action.winners, options);
+    case 'claim':
+      return gaslessClaimWinnings(account, action.gameCode, options);
+  }
+};
+
+// Same call the relay would have forwarded, but sent by the user
+const prepareDirectCall = async (action: GameAction) => {
+  const contract = await getGameContract();
+
+  switch (action.type) {
+    case 'create':
+      return prepareContractCall({
+        contract,
+        method: GAME_METHODS.createGame,
+        params: [
+          BigInt(action.buyInAmount),
+          action.buyInToken,
+          BigInt(action.maxPlayers),
+          action.judgeList || [],
+          (action.prizeSplits || [10000]).map(split => BigInt(split)),
+          BigInt(0)
+        ]
+      });
+    case 'lock':
+      return prepareContractCall({ contract, method: GAME_METHODS.lockGame, params: [action.gameCode] });
+    case 'report':
+      return prepareContractCall({ contract, method: GAME_METHODS.reportWinners, params: [action.gameCode, action.winners] });
+    case 'claim':
+      return prepareContractCall({ contract, method: GAME_METHODS.claimWinnings, params: [action.gameCode] });
+  }
+};
+
+// Only infrastructure failures fall back - a 4xx means the call itself is invalid
+const isRelayOutage = (result: RelayResult): boolean =>
+  result.relayFailure === 'network' || result.relayFailure === 'server';
+
+/**
+ * Whether the forwarder nonce moved past the signed request, i.e. the relay broadcast the
+ * call even though it answered with an error. Reads the pending nonce so a relay transaction
+ * still in the mempool counts. An unreadable nonce counts as not relayed.
+ */
+const wasRelayed = async (account: any, result: RelayResult): Promise<boolean> => {
+  if (result.metaTxNonce === undefined) return false;
+  try {
+    return await getUserNonce(account.address, 'pending') > BigInt(result.metaTxNonce);
+  } catch (error) {
+    console.warn('⚠️ Could not check whether the relay sent the request:', error);
+    return false;
+  }
+};
+
+const RELAY_PENDING_MESSAGE = 'Your transaction was submitted through the gasless relay and is still confirming. Refresh in a moment to see it.';
+
+const relayedResult = (action: GameAction): RelayResult => {
+  console.warn(`⚠️ Relay errored but already sent the ${action.type} request, not resending`);
+  return {
+    success: false,
+    pending: true,
+    error: RELAY_PENDING_MESSAGE
+  };
+};
+
+/**
+ * Execute a game action: relay first, direct transaction on relay outage.
+ *
+ * Quota exhaustion and an unhealthy relay are caught by the gasless pre-flight;
+ * network errors and 5xx responses are caught here. Both use `options.confirmSelfPaid`
+ * before asking the user to pay gas. A signed request whose nonce was used despite the
+ * error is reported as pending instead of being sent again; callers show that as in
+ * progress rather than as a failure.
+ */
+export async function executeGameAction(
+  account: any,
+  action: GameAction,
+  options: GaslessOptions = promptSelfPaidFallback
+): Promise<RelayResult> {
+  const relayResult = await runRelay(account, action, options);
+
+  if (relayResult.success || !isRelayOutage(relayResult)) {
+    return relayResult;
+  }
+
+  console.warn(`⚠️ Relay ${relayResult.relayFailure} failure for ${action.type}: ${relayResult.error}`);
+
+  if (await wasRelayed(account, relayResult)) {
+    return relayedResult(action);
+  }
+
+  const confirmed = options.confirmSelfPaid
+    ? await options.confirmSelfPaid('relay_failed')
+    : false;
+
+  if (!confirmed) {
+    return {
+      ...relayResult,
+      error: `${GASLESS_FALLBACK_MESSAGES.relay_failed}: ${relayResult.error}`,
+      fallbackReason: 'relay_failed'
+    };
+  }
+
+  // The relay's transaction may have landed while the user was deciding
+  if (await wasRelayed(account, relayResult)) {
+    return relayedResult(action);
+  }
+
+  try {
+    const tx = await prepareDirectCall(action);
+    return await sendSelfPaid(account, tx, 'relay_failed');
+  } catch (error: any) {
+    console.error(`❌ Direct ${action.type} transaction failed:`, error);
+    return {
+      success: false,
+      error: error.message || 'Direct transaction failed',
+      selfPaid: true,
+      fallbackReason: 'relay_failed'
+    };
+  }
+}
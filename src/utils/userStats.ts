@@ -0,0 +1,137 @@
+/**
+ * User Stats
+ * Game history statistics broken down per token, so wei, 6-decimal stablecoin units and custom
+ * tokens are never added together
+ */
+
+import { Database } from '../lib/database.types';
+
+type GameHistory = Database['public']['Tables']['game_history']['Row'];
+
+export type UserStatsRow = Pick<
+  GameHistory,
+  'result' | 'winnings' | 'buy_in_amount' | 'token_address' | 'pot_amount' | 'game_type' | 'created_at'
+>;
+
+export interface TokenStats {
+  token: string | null; // Lowercased; null for rows recorded before token tracking
+  games: number;
+  gamesWon: number;
+  buyIns: bigint; // Base units
+  winnings: bigint; // Claimed winnings, base units
+  netProfit: bigint;
+  roi: number | null; // Percent of buy-ins; null without buy-ins
+  averagePot: bigint | null; // Null when no game has a recorded pot
+  biggestWin: bigint;
+}
+
+export interface UserStats {
+  totalGames: number;
+  gamesWon: number;
+  gamesLost: number;
+  winRate: number;
+  currentStreak: { result: 'won' | 'lost' | null; length: number };
+  longestWinStreak: number;
+  favoriteGameType: string | null;
+  byToken: TokenStats[]; // Most played first
+}
+
+export const EMPTY_USER_STATS: UserStats = {
+  totalGames: 0,
+  gamesWon: 0,
+  gamesLost: 0,
+  winRate: 0,
+  currentStreak: { result: null, length: 0 },
+  longestWinStreak: 0,
+  favoriteGameType: null,
+  byToken: []
+};
+
+const toAmount = (value: string | null): bigint => {
+  if (!value) return BigInt(0);
+  try {
+    return BigInt(value);
+  } catch {
+    // Legacy rows may hold decimal strings
+    return BigInt(0);
+  }
+};
+
+/**
+ * ROI as a percentage with two decimals of precision, computed in bigint so large wei
+ * amounts do not lose precision before the division
+ */
+const getRoi = (netProfit: bigint, buyIns: bigint): number | null =>
+  buyIns > BigInt(0) ? Number((netProfit * BigInt(10000)) / buyIns) / 100 : null;
+
+/**
+ * Compute stats over finished games (won or lost). Active rows are ignored; callers should
+ * already have dropped stale rows.
+ */
+export function computeUserStats(rows: UserStatsRow[]): UserStats {
+  const finished = rows
+    .filter(row => row.result !== 'active')
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+  if (finished.length === 0) return EMPTY_USER_STATS;
+
+  const gamesWon = finished.filter(row => row.result === 'won').length;
+  const gamesLost = finished.length - gamesWon;
+
+  let streakResult: 'won' | 'lost' | null = null;
+  let streakLength = 0;
+  let longestWinStreak = 0;
+  finished.forEach(row => {
+    const result = row.result as 'won' | 'lost';
+    streakLength = result === streakResult ? streakLength + 1 : 1;
+    streakResult = result;
+    if (result === 'won') longestWinStreak = Math.max(longestWinStreak, streakLength);
+  });
+
+  const gameTypes = new Map<string, number>();
+  finished.forEach(row => gameTypes.set(row.game_type, (gameTypes.get(row.game_type) || 0) + 1));
+  let favoriteGameType: string | null = null;
+  gameTypes.forEach((count, gameType) => {
+    if (favoriteGameType === null || count > (gameTypes.get(favoriteGameType) || 0)) favoriteGameType = gameType;
+  });
+
+  const tokens = new Map<string | null, UserStatsRow[]>();
+  finished.forEach(row => {
+    const token = row.token_address ? row.token_address.toLowerCase() : null;
+    tokens.set(token, [...(tokens.get(token) || []), row]);
+  });
+
+  const byToken: TokenStats[] = [];
+  tokens.forEach((tokenRows, token) => {
+    const buyIns = tokenRows.reduce((sum, row) => sum + toAmount(row.buy_in_amount), BigInt(0));
+    const winnings = tokenRows.reduce((sum, row) => sum + toAmount(row.winnings), BigInt(0));
+    const pots = tokenRows.filter(row => row.pot_amount !== null).map(row => toAmount(row.pot_amount));
+    const netProfit = winnings - buyIns;
+
+    byToken.push({
+      token,
+      games: tokenRows.length,
+      gamesWon: tokenRows.filter(row => row.result === 'won').length,
+      buyIns,
+      winnings,
+      netProfit,
+      roi: getRoi(netProfit, buyIns),
+      averagePot: pots.length > 0 ? pots.reduce((sum, pot) => sum + pot, BigInt(0)) / BigInt(pots.length) : null,
+      biggestWin: tokenRows.reduce((max, row) => {
+        const amount = toAmount(row.winnings);
+        return amount > max ? amount : max;
+      }, BigInt(0))
+    });
+  });
+  byToken.sort((a, b) => b.games - a.games);
+
+  return {
+    totalGames: finished.length,
+    gamesWon,
+    gamesLost,
+    winRate: (gamesWon / finished.length) * 100,
+    currentStreak: { result: streakResult, length: streakLength },
+    longestWinStreak,
+    favoriteGameType,
+    byToken
+  };
+}
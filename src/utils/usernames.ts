@@ -0,0 +1,129 @@
+/**
+ * Usernames
+ * Format rules, reserved names and confusable-character normalization. Two names with the same
+ * skeleton look alike (`vitalik` / `vita1ik` / `VITALlK`), so only one of them may be registered.
+ */
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+export const USERNAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// A released name stays locked to its previous owner for this long, so nobody can grab it
+// the moment it is dropped and impersonate them
+export const USERNAME_RELEASE_COOLDOWN_DAYS = 30;
+
+// Names that would read as the platform speaking, plus words that break display logic
+export const RESERVED_USERNAMES = [
+  'admin', 'administrator', 'mod', 'moderator', 'staff', 'team', 'support', 'help', 'helpdesk',
+  'official', 'system', 'root', 'security', 'saltfree', 'salt-free', 'salt_free', 'saltfreegames',
+  'host', 'judge', 'winner', 'anonymous', 'unknown', 'null', 'undefined', 'you', 'me',
+  'thirdweb', 'coinbase', 'base', 'ethereum', 'metamask'
+];
+
+// Multi-character sequences that render like a single letter, checked before single characters
+const SEQUENCE_CONFUSABLES: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+];
+
+// Digits and look-alike letters mapped to one representative. Cyrillic and Greek homoglyphs are
+// included so names stay comparable if the format rules ever allow more than ASCII.
+const CHARACTER_CONFUSABLES: Record<string, string> = {
+  '0': 'o', 'о': 'o', 'ο': 'o',
+  '1': 'l', 'i': 'l', 'і': 'l', 'ι': 'l', '|': 'l', '!': 'l',
+  '2': 'z',
+  '3': 'e', 'е': 'e', 'ε': 'e',
+  '4': 'a', 'а': 'a', 'α': 'a', '@': 'a',
+  '5': 's', 'ѕ': 's', '$': 's',
+  '6': 'b', '8': 'b', 'в': 'b', 'β': 'b',
+  '7': 't', 'т': 't', 'τ': 't',
+  '9': 'g',
+  'с': 'c', 'ς': 'c',
+  'р': 'p', 'ρ': 'p',
+  'х': 'x', 'χ': 'x',
+  'у': 'y', 'γ': 'y',
+  'к': 'k', 'κ': 'k',
+  'м': 'm', 'н': 'h', 'ν': 'v', 'υ': 'u',
+};
+
+/**
+ * Canonical form used to compare names for visual similarity. Case, separators (`_`, `-`),
+ * accents and look-alike characters are all folded away.
+ */
+export const getUsernameSkeleton = (username: string): string => {
+  let skeleton = username
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip combining accents
+    .toLowerCase()
+    .replace(/[_\-.\s]/g, '');
+
+  SEQUENCE_CONFUSABLES.forEach(([pattern, replacement]) => {
+    skeleton = skeleton.replace(pattern, replacement);
+  });
+
+  return Array.from(skeleton, char => CHARACTER_CONFUSABLES[char] ?? char).join('');
+};
+
+const RESERVED_SKELETONS = new Set(RESERVED_USERNAMES.map(getUsernameSkeleton));
+
+export const isReservedUsername = (username: string): boolean =>
+  RESERVED_SKELETONS.has(getUsernameSkeleton(username));
+
+/**
+ * The existing name `username` could be mistaken for, if any. An exact (case-insensitive)
+ * match is returned too; callers tell the two apart.
+ */
+export const findConfusableUsername = (username: string, existing: string[]): string | null => {
+  const skeleton = getUsernameSkeleton(username);
+  return existing.find(name => getUsernameSkeleton(name) === skeleton) ?? null;
+};
+
+/**
+ * Format problems with a username, or null when it is well formed
+ */
+export const getUsernameFormatError = (username: string): string | null => {
+  const trimmed = username.trim();
+  if (trimmed.length < USERNAME_MIN_LENGTH) return `Username must be at least ${USERNAME_MIN_LENGTH} characters long`;
+  if (trimmed.length > USERNAME_MAX_LENGTH) return `Username must be ${USERNAME_MAX_LENGTH} characters or less`;
+  if (!USERNAME_PATTERN.test(trimmed)) return 'Username can only contain letters, numbers, underscores, and hyphens';
+  return null;
+};
+
+export interface SkeletonBackfillRow {
+  id: string;
+  username: string | null;
+  username_skeleton: string | null;
+}
+
+export interface SkeletonBackfillPlan {
+  updates: { id: string; username_skeleton: string }[];
+  // Rows whose name looks like one already holding the skeleton; they stay null for manual review
+  conflicts: { id: string; username: string; conflictsWith: string }[];
+}
+
+/**
+ * Skeletons to fill in for users registered before `username_skeleton` existed. Rows that
+ * already have one keep it; among the rest, earlier rows in `rows` win a shared skeleton, so
+ * pass them oldest first.
+ */
+export const planUsernameSkeletonBackfill = (rows: SkeletonBackfillRow[]): SkeletonBackfillPlan => {
+  const owners = new Map<string, string>();
+  rows.forEach(row => {
+    if (row.username && row.username_skeleton) owners.set(row.username_skeleton, row.username);
+  });
+
+  const plan: SkeletonBackfillPlan = { updates: [], conflicts: [] };
+  rows.forEach(row => {
+    if (!row.username || row.username_skeleton) return;
+    const skeleton = getUsernameSkeleton(row.username);
+    const owner = owners.get(skeleton);
+    if (owner !== undefined) {
+      plan.conflicts.push({ id: row.id, username: row.username, conflictsWith: owner });
+      return;
+    }
+    owners.set(skeleton, row.username);
+    plan.updates.push({ id: row.id, username_skeleton: skeleton });
+  });
+  return plan;
+};